@@ -0,0 +1,56 @@
+import { ISO20022 } from '../src';
+
+// Example of creating a SEPA direct debit
+async function main() {
+    // In this example we're collecting into a Spanish bank account
+    const iso20022 = new ISO20022({
+        initiatingParty: {
+            name: 'Electrical',
+            id: 'ELECTRIC',
+            account: {
+                iban: 'ES9121000418450200051332'
+            },
+            agent: {
+                bic: 'BSCHESMMXXX',
+                bankAddress: {
+                    country: 'ES'
+                }
+            }
+        },
+    });
+
+    const collection = iso20022.createSEPADirectDebitPaymentInitiation({
+        creditorSchemeId: 'ES29000B12345678',
+        sequenceType: 'RCUR',
+        paymentInstructions: [
+            {
+                type: 'sepa',
+                direction: 'debit',
+                debtor: {
+                    name: 'Dáel Muñiz',
+                    account: {
+                        iban: 'ES8201822200150201504058'
+                    },
+                    agent: {
+                        bic: 'BBVAESMMXXX'
+                    },
+                },
+                mandate: {
+                    mandateId: 'ELECTRIC-MANDATE-0001',
+                    dateOfSignature: new Date('2025-01-15'),
+                },
+                amount: 1999,
+                currency: 'EUR',
+                remittanceInformation: 'Subscription March 2025'
+            }
+        ],
+        // Optional fields
+        messageId: 'SEPA-DD-001',
+        creationDate: new Date('2025-03-04'),
+        requestedCollectionDate: new Date('2025-03-06'),
+    });
+
+    console.log(collection.serialize())
+}
+
+main().catch(console.error)
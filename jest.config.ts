@@ -1,3 +1,6 @@
+// Dates without an offset are read in the local time zone, pin it so generated fixtures match on every machine
+process.env.TZ = 'UTC';
+
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
@@ -15,6 +15,12 @@ export default defineConfig([
       {
         file: 'dist/index.mjs',
         format: 'es',
+        // ES modules have no __dirname, which is used to load libxmljs and find the bundled schemas
+        banner: [
+          "import { fileURLToPath as __fileURLToPath } from 'url';",
+          "import { dirname as __pathDirname } from 'path';",
+          'const __dirname = __pathDirname(__fileURLToPath(import.meta.url));',
+        ].join('\n'),
       },
     ],
     plugins: [
@@ -24,7 +30,7 @@ export default defineConfig([
       nodeResolve(),
       commonjs(),
     ],
-    external: ['dinero.js'], // Add any external dependencies here
+    external: ['dinero.js', 'libxmljs', 'fs', 'path', 'module', 'url'], // Add any external dependencies here
   },
   {
     input: 'src/index.ts',
@@ -1,5 +1,6 @@
 import { InvalidStructureError, InvalidXmlNamespaceError } from "../../errors";
 import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from "../../lib/interfaces";
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from "../../lib/schema-validation";
 import { AccountIdentification, MessageHeader } from "../../lib/types";
 import { exportAccountIdentification, exportMessageHeader, parseAccountIdentification, parseDate, parseMessageHeader } from "../../parseUtils";
 
@@ -147,6 +148,10 @@ export class CashManagementGetAccount implements GenericISO20022Message {
     return builder.build(obj);
 
   }
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+    return validateXMLAgainstSchema(this.serialize(), options);
+  }
+
   toJSON(): any {
     // we should not have to serialize but we do it for consistency
     const Document: any = {
@@ -1,6 +1,7 @@
 import { BalanceInReport, BusinessError } from "../types";
 import { InvalidStructureError, InvalidXmlNamespaceError } from "../../errors";
 import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from "../../lib/interfaces";
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from "../../lib/schema-validation";
 import { AccountIdentification, CashAccountType, MessageHeader } from "../../lib/types";
 import { exportAccountIdentification, exportMessageHeader, parseAccountIdentification, parseMessageHeader } from "../../parseUtils";
 import { exportBalanceReport, exportBusinessError, parseBalanceReport, parseBusinessError } from "../utils";
@@ -125,6 +126,10 @@ export class CashManagementReturnAccount implements GenericISO20022Message {
     return builder.build(obj);
 
   }
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+    return validateXMLAgainstSchema(this.serialize(), options);
+  }
+
   toJSON(): any {
     // we should not have to serialize but we do it for consistency
     const Document: any = {
@@ -1,6 +1,7 @@
 import { BusinessError } from "../types";
 import { InvalidStructureError, InvalidXmlNamespaceError } from "../../errors";
 import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from "../../lib/interfaces";
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from "../../lib/schema-validation";
 import { Agent, MessageHeader, Party } from "../../lib/types";
 import { exportAmountToString, exportMessageHeader, parseAmountToMinorUnits, parseDate, parseMessageHeader, parseParty as parsePartyExt} from "../../parseUtils";
 import { exportBusinessError, parseBusinessError } from "../utils";
@@ -187,6 +188,10 @@ export class CashManagementReturnTransaction implements GenericISO20022Message {
     return builder.build(obj);
 
   }
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+    return validateXMLAgainstSchema(this.serialize(), options);
+  }
+
   toJSON(): any {
     // we should not have to serialize but we do it for consistency
     const Document: any = {
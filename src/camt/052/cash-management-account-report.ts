@@ -0,0 +1,301 @@
+import { Balance, BalanceTypeCode, Entry, EntryStatusCode, Report, Transaction } from '../types';
+import { Amount, AmountMode, AmountOfMode, AmountParsingOptions, Party, StructuredAddress } from '../../lib/types';
+import { exportReport, parseReport } from '../utils';
+import { exportRecipient, parseRecipient } from '../../parseUtils';
+import {
+  InvalidXmlError,
+  InvalidXmlNamespaceError,
+} from '../../errors';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from '../../lib/schema-validation';
+
+const CAMT_052_NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+/**
+ * The CAMT.052 message versions that can be parsed and serialized.
+ */
+export const CashManagementAccountReportVersions = [
+  'camt.052.001.02',
+  'camt.052.001.03',
+  'camt.052.001.04',
+  'camt.052.001.05',
+  'camt.052.001.06',
+  'camt.052.001.07',
+  'camt.052.001.08',
+  'camt.052.001.09',
+  'camt.052.001.10',
+  'camt.052.001.11',
+  'camt.052.001.12',
+] as const;
+export type CashManagementAccountReportVersion = (typeof CashManagementAccountReportVersions)[number];
+
+/**
+ * Configuration interface for creating a CashManagementAccountReport instance.
+ */
+interface CashManagementAccountReportConfig<A extends Amount = number> {
+  /** Unique identifier for the message */
+  messageId: string;
+  /** Date and time when the report was created */
+  creationDate: Date;
+  /** Recipient (party without bank and institution) receiving the report */
+  recipient?: {
+    id?: string;
+    name?: string;
+    address?: StructuredAddress;
+  };
+  /** Array of account reports included in the message */
+  reports: Report<A>[];
+  /** The message version, detected from the namespace when parsing. Defaults to 'camt.052.001.02'. */
+  version?: CashManagementAccountReportVersion;
+}
+
+/**
+ * Represents a Cash Management Account Report (CAMT.052.x).
+ * This class encapsulates the data and functionality related to processing
+ * and accessing information from a CAMT.052 XML file, used for intraday positions.
+ * Amounts are numbers, or bigints when parsed with the `bigint` amount mode.
+ */
+export class CashManagementAccountReport<A extends Amount = number> implements GenericISO20022Message {
+  private _messageId: string;
+  private _creationDate: Date;
+  private _recipient?: {
+    name?: string;
+    id?: string;
+    address?: StructuredAddress;
+  };
+  private _reports: Report<A>[];
+  private _version: CashManagementAccountReportVersion;
+
+  constructor(config: CashManagementAccountReportConfig<A>) {
+    this._messageId = config.messageId;
+    this._creationDate = config.creationDate;
+    this._recipient = config.recipient;
+    this._reports = config.reports;
+    this._version = config.version || 'camt.052.001.02';
+  }
+
+  static supportedMessages(): ISO20022MessageTypeName[] {
+    return [ISO20022Messages.CAMT_052];
+  }
+
+  get data(): CashManagementAccountReportConfig<A> {
+    return {
+      messageId: this._messageId,
+      creationDate: this._creationDate,
+      recipient: this._recipient,
+      reports: this._reports,
+      version: this._version,
+    };
+  }
+
+  static fromDocumentObject<M extends AmountMode = 'number'>(
+    obj: {Document: any},
+    version?: CashManagementAccountReportVersion,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementAccountReport<AmountOfMode<M>> {
+    const bankToCustomerReport = obj.Document.BkToCstmrAcctRpt;
+    const rawCreationDate = bankToCustomerReport.GrpHdr.CreDtTm;
+    const creationDate = new Date(rawCreationDate);
+
+    let reports: Report<AmountOfMode<M>>[] = [];
+    if (Array.isArray(bankToCustomerReport.Rpt)) {
+      reports = bankToCustomerReport.Rpt.map((rpt: any) =>
+        parseReport(rpt, options),
+      );
+    } else {
+      reports = [parseReport(bankToCustomerReport.Rpt, options)];
+    }
+
+    const rawRecipient = bankToCustomerReport.GrpHdr.MsgRcpt;
+    return new CashManagementAccountReport({
+      messageId: bankToCustomerReport.GrpHdr.MsgId.toString(),
+      creationDate,
+      recipient: rawRecipient ? parseRecipient(rawRecipient) : undefined,
+      reports,
+      version,
+    });
+  }
+
+  /**
+   * Creates a CashManagementAccountReport instance from a raw XML string.
+   *
+   * @param {string} rawXml - The raw XML string containing the CAMT.052 data.
+   * @param {AmountParsingOptions} [options] - Set `amountMode: 'bigint'` to parse amounts as bigints.
+   * @returns {CashManagementAccountReport} A new instance of CashManagementAccountReport.
+   * @throws {Error} If the XML parsing fails or required data is missing.
+   * @throws {InvalidXmlNamespaceError} If the namespace is not a supported CAMT.052 version.
+   * @throws {AmountOutOfRangeError} If an amount is too large for a number, in the default amount mode.
+   */
+  static fromXML<M extends AmountMode = 'number'>(
+    rawXml: string,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementAccountReport<AmountOfMode<M>> {
+    const parser = XML.getParser();
+    const xml = parser.parse(rawXml);
+
+    if (!xml.Document) {
+      throw new InvalidXmlError("Invalid XML format");
+    }
+
+    const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
+    if (!namespace.startsWith(`${CAMT_052_NAMESPACE_PREFIX}camt.052.001.`)) {
+      throw new InvalidXmlNamespaceError('Invalid CAMT.052 namespace');
+    }
+
+    const version = namespace.substring(CAMT_052_NAMESPACE_PREFIX.length) as CashManagementAccountReportVersion;
+    if (!CashManagementAccountReportVersions.includes(version)) {
+      throw new InvalidXmlNamespaceError(`Unsupported CAMT.052 version: ${version}`);
+    }
+
+    return CashManagementAccountReport.fromDocumentObject(xml, version, options);
+  }
+
+  /**
+   *
+   * @param json - JSON string representing a CashManagementAccountReport
+   * @param {AmountParsingOptions} [options] - Set `amountMode: 'bigint'` to parse amounts as bigints.
+   * @returns {CashManagementAccountReport} A new instance of CashManagementAccountReport
+   * @throws {Error} If the JSON parsing fails or required data is missing.
+   */
+  static fromJSON<M extends AmountMode = 'number'>(
+    json: string,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementAccountReport<AmountOfMode<M>> {
+    const obj = JSON.parse(json);
+
+    if (!obj.Document) {
+      throw new InvalidXmlError("Invalid JSON format");
+    }
+
+    return CashManagementAccountReport.fromDocumentObject(obj, undefined, options);
+  }
+
+  /**
+   * Exports the report as a document object, in the layout of the given version.
+   * @param {CashManagementAccountReportVersion} [version] - The target version, defaults to the version of the report.
+   * @returns {any} The document object.
+   */
+  toJSON(version: CashManagementAccountReportVersion = this._version): any {
+    const versionNumber = Number(version.split('.').pop());
+    const Document = {
+      BkToCstmrAcctRpt: {
+        GrpHdr: {
+          MsgId: this._messageId,
+          CreDtTm: this._creationDate.toISOString(),
+          MsgRcpt: this._recipient ? exportRecipient(this._recipient) : undefined,
+        },
+        Rpt: this._reports.map((rpt) => exportReport(rpt, versionNumber)),
+      }
+    }
+    return { Document };
+  }
+
+  /**
+   * Serializes the report to XML.
+   * @param {CashManagementAccountReportVersion} [version] - The target version, defaults to the version of the report.
+   * @returns {string} The XML string.
+   * @example
+   * ```typescript
+   * const xml = accountReport.serialize('camt.052.001.12');
+   * ```
+   */
+  serialize(version: CashManagementAccountReportVersion = this._version): string {
+    const builder = XML.getBuilder();
+    const obj = this.toJSON(version);
+    obj.Document['@_xmlns'] = `${CAMT_052_NAMESPACE_PREFIX}${version}`;
+    obj.Document['@_xmlns:xsi'] = 'http://www.w3.org/2001/XMLSchema-instance';
+
+    return builder.build(obj);
+  }
+
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+    return validateXMLAgainstSchema(this.serialize(), options);
+  }
+
+  /**
+   * Retrieves all balances from all reports in the message.
+   * @returns {Balance[]} An array of all balances across all reports.
+   */
+  get balances(): Balance<A>[] {
+    return this._reports.flatMap(report => report.balances);
+  }
+
+  /**
+   * Retrieves the interim booked (ITBD) and interim available (ITAV) balances from all reports in the message.
+   * @returns {Balance[]} An array of all interim balances across all reports.
+   */
+  get interimBalances(): Balance<A>[] {
+    return this.balances.filter(
+      balance => balance.type === BalanceTypeCode.InterimBooked || balance.type === BalanceTypeCode.InterimAvailable,
+    );
+  }
+
+  /**
+   * Retrieves all transactions from all reports in the message.
+   * @returns {Transaction[]} An array of all transactions across all reports.
+   */
+  get transactions(): Transaction<A>[] {
+    return this._reports
+      .flatMap(report => report.entries)
+      .flatMap(entry => entry.transactions);
+  }
+
+  /**
+   * Retrieves all entries from all reports in the message.
+   * @returns {Entry[]} An array of all entries across all reports.
+   */
+  get entries(): Entry<A>[] {
+    return this._reports.flatMap(report => report.entries);
+  }
+
+  /**
+   * Retrieves the entries that are not booked yet (PDNG) from all reports in the message.
+   * @returns {Entry[]} An array of all pending entries across all reports.
+   */
+  get pendingEntries(): Entry<A>[] {
+    return this.entries.filter(entry => entry.status === EntryStatusCode.Pending);
+  }
+
+  /**
+   * Gets the unique identifier for the message.
+   * @returns {string} The message ID.
+   */
+  get messageId(): string {
+    return this._messageId;
+  }
+
+  /**
+   * Gets the party receiving the report.
+   * @returns {Party | undefined} The recipient party information, or undefined if no recipient is set.
+   */
+  get recipient(): Party | undefined {
+    return this._recipient;
+  }
+
+  /**
+   * Gets the date and time when the report was created.
+   * @returns {Date} The creation date of the report.
+   */
+  get creationDate(): Date {
+    return this._creationDate;
+  }
+
+  /**
+   * Gets the message version, e.g. 'camt.052.001.02'.
+   * @returns {CashManagementAccountReportVersion} The message version.
+   */
+  get version(): CashManagementAccountReportVersion {
+    return this._version;
+  }
+
+  /**
+   * Gets all account reports included in the message.
+   * @returns {Report[]} An array of all reports in the message.
+   */
+  get reports(): Report<A>[] {
+    return this._reports;
+  }
+
+}
+
+registerISO20022Implementation(CashManagementAccountReport);
@@ -1,5 +1,5 @@
 import { Balance, Entry, Statement, Transaction } from '../types';
-import { Party, StructuredAddress } from '../../lib/types';
+import { Amount, AmountMode, AmountOfMode, AmountParsingOptions, Party, StructuredAddress } from '../../lib/types';
 import { exportStatement, parseStatement } from '../utils';
 import { exportRecipient, parseRecipient } from '../../parseUtils';
 import {
@@ -7,11 +7,32 @@ import {
   InvalidXmlNamespaceError,
 } from '../../errors';
 import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from '../../lib/schema-validation';
+
+const CAMT_053_NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+/**
+ * The CAMT.053 message versions that can be parsed and serialized.
+ */
+export const CashManagementEndOfDayReportVersions = [
+  'camt.053.001.02',
+  'camt.053.001.03',
+  'camt.053.001.04',
+  'camt.053.001.05',
+  'camt.053.001.06',
+  'camt.053.001.07',
+  'camt.053.001.08',
+  'camt.053.001.09',
+  'camt.053.001.10',
+  'camt.053.001.11',
+  'camt.053.001.12',
+] as const;
+export type CashManagementEndOfDayReportVersion = (typeof CashManagementEndOfDayReportVersions)[number];
 
 /**
  * Configuration interface for creating a CashManagementEndOfDayReport instance.
  */
-interface CashManagementEndOfDayReportConfig {
+interface CashManagementEndOfDayReportConfig<A extends Amount = number> {
   /** Unique identifier for the message */
   messageId: string;
   /** Date and time when the report was created */
@@ -23,14 +44,17 @@ interface CashManagementEndOfDayReportConfig {
     address?: StructuredAddress;
   };
   /** Array of bank statements included in the report */
-  statements: Statement[];
+  statements: Statement<A>[];
+  /** The message version, detected from the namespace when parsing. Defaults to 'camt.053.001.02'. */
+  version?: CashManagementEndOfDayReportVersion;
 }
 /**
  * Represents a Cash Management End of Day Report (CAMT.053.x).
  * This class encapsulates the data and functionality related to processing
  * and accessing information from a CAMT.053 XML file.
+ * Amounts are numbers, or bigints when parsed with the `bigint` amount mode.
  */
-export class CashManagementEndOfDayReport implements GenericISO20022Message {
+export class CashManagementEndOfDayReport<A extends Amount = number> implements GenericISO20022Message {
   private _messageId: string;
   private _creationDate: Date;
   private _recipient?: {
@@ -38,13 +62,15 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
     id?: string;
     address?: StructuredAddress;
   };
-  private _statements: Statement[];
+  private _statements: Statement<A>[];
+  private _version: CashManagementEndOfDayReportVersion;
 
-  constructor(config: CashManagementEndOfDayReportConfig) {
+  constructor(config: CashManagementEndOfDayReportConfig<A>) {
     this._messageId = config.messageId;
     this._creationDate = config.creationDate;
     this._recipient = config.recipient;
     this._statements = config.statements;
+    this._version = config.version || 'camt.053.001.02';
   }
 
   static supportedMessages(): ISO20022MessageTypeName[] {
@@ -52,27 +78,32 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
   }
 
   
-  get data(): CashManagementEndOfDayReportConfig {
+  get data(): CashManagementEndOfDayReportConfig<A> {
     return {
       messageId: this._messageId,
       creationDate: this._creationDate,
       recipient: this._recipient,
       statements: this._statements,
+      version: this._version,
     };
   }
 
-  static fromDocumentObject(obj: {Document: any}): CashManagementEndOfDayReport {
+  static fromDocumentObject<M extends AmountMode = 'number'>(
+    obj: {Document: any},
+    version?: CashManagementEndOfDayReportVersion,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementEndOfDayReport<AmountOfMode<M>> {
     const bankToCustomerStatement = obj.Document.BkToCstmrStmt;
     const rawCreationDate = bankToCustomerStatement.GrpHdr.CreDtTm;
     const creationDate = new Date(rawCreationDate);
 
-    let statements: Statement[] = [];
+    let statements: Statement<AmountOfMode<M>>[] = [];
     if (Array.isArray(bankToCustomerStatement.Stmt)) {
       statements = bankToCustomerStatement.Stmt.map((stmt: any) =>
-        parseStatement(stmt),
+        parseStatement(stmt, options),
       );
     } else {
-      statements = [parseStatement(bankToCustomerStatement.Stmt)];
+      statements = [parseStatement(bankToCustomerStatement.Stmt, options)];
     }
 
     const rawRecipient = bankToCustomerStatement.GrpHdr.MsgRcpt;
@@ -81,6 +112,7 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
       creationDate,
       recipient: rawRecipient ? parseRecipient(rawRecipient) : undefined,
       statements: statements,
+      version,
     });
   }
 
@@ -88,10 +120,21 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
    * Creates a CashManagementEndOfDayReport instance from a raw XML string.
    *
    * @param {string} rawXml - The raw XML string containing the CAMT.053 data.
+   * @param {AmountParsingOptions} [options] - Set `amountMode: 'bigint'` to parse amounts as bigints.
    * @returns {CashManagementEndOfDayReport} A new instance of CashManagementEndOfDayReport.
    * @throws {Error} If the XML parsing fails or required data is missing.
+   * @throws {InvalidXmlNamespaceError} If the namespace is not a supported CAMT.053 version.
+   * @throws {AmountOutOfRangeError} If an amount is too large for a number, in the default amount mode.
+   * @example
+   * ```typescript
+   * const report = CashManagementEndOfDayReport.fromXML(xml, { amountMode: 'bigint' });
+   * const closingBalance: bigint = report.balances[0].amount;
+   * ```
    */
-  static fromXML(rawXml: string): CashManagementEndOfDayReport {
+  static fromXML<M extends AmountMode = 'number'>(
+    rawXml: string,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementEndOfDayReport<AmountOfMode<M>> {
     const parser = XML.getParser();
     const xml = parser.parse(rawXml);
 
@@ -100,30 +143,45 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
     }
 
     const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
-    if (!namespace.startsWith('urn:iso:std:iso:20022:tech:xsd:camt.053.001.')) {
+    if (!namespace.startsWith(`${CAMT_053_NAMESPACE_PREFIX}camt.053.001.`)) {
       throw new InvalidXmlNamespaceError('Invalid CAMT.053 namespace');
     }
 
-    return CashManagementEndOfDayReport.fromDocumentObject(xml);
+    const version = namespace.substring(CAMT_053_NAMESPACE_PREFIX.length) as CashManagementEndOfDayReportVersion;
+    if (!CashManagementEndOfDayReportVersions.includes(version)) {
+      throw new InvalidXmlNamespaceError(`Unsupported CAMT.053 version: ${version}`);
+    }
+
+    return CashManagementEndOfDayReport.fromDocumentObject(xml, version, options);
   }
 
   /**
    * 
    * @param json - JSON string representing a CashManagementEndOfDayReport
+   * @param {AmountParsingOptions} [options] - Set `amountMode: 'bigint'` to parse amounts as bigints.
    * @returns {CashManagementEndOfDayReport} A new instance of CashManagementEndOfDayReport
    * @throws {Error} If the JSON parsing fails or required data is missing.
    */
-  static fromJSON(json: string): CashManagementEndOfDayReport {
+  static fromJSON<M extends AmountMode = 'number'>(
+    json: string,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementEndOfDayReport<AmountOfMode<M>> {
     const obj = JSON.parse(json);
 
     if (!obj.Document) {
       throw new InvalidXmlError("Invalid JSON format");
     }
 
-    return CashManagementEndOfDayReport.fromDocumentObject(obj);
+    return CashManagementEndOfDayReport.fromDocumentObject(obj, undefined, options);
   }
 
-  toJSON(): any {
+  /**
+   * Exports the report as a document object, in the layout of the given version.
+   * @param {CashManagementEndOfDayReportVersion} [version] - The target version, defaults to the version of the report.
+   * @returns {any} The document object.
+   */
+  toJSON(version: CashManagementEndOfDayReportVersion = this._version): any {
+    const versionNumber = Number(version.split('.').pop());
     const Document = {
       BkToCstmrStmt: {
         GrpHdr: {
@@ -131,25 +189,39 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
           CreDtTm: this._creationDate.toISOString(),
           MsgRcpt: this._recipient ? exportRecipient(this._recipient) : undefined,
         },
-        Stmt: this._statements.map((stmt) => exportStatement(stmt)),
+        Stmt: this._statements.map((stmt) => exportStatement(stmt, versionNumber)),
       }
     }
     return { Document };
   }
 
-  serialize(): string {
+  /**
+   * Serializes the report to XML.
+   * @param {CashManagementEndOfDayReportVersion} [version] - The target version, defaults to the version of the report.
+   * @returns {string} The XML string.
+   * @example
+   * ```typescript
+   * const xml = report.serialize('camt.053.001.12');
+   * ```
+   */
+  serialize(version: CashManagementEndOfDayReportVersion = this._version): string {
     const builder = XML.getBuilder();
-    const obj = this.toJSON();
-    obj.Document['@_xmlns'] = 'urn:iso:std:iso:20022:tech:xsd:camt.053.001.02';
+    const obj = this.toJSON(version);
+    obj.Document['@_xmlns'] = `${CAMT_053_NAMESPACE_PREFIX}${version}`;
     obj.Document['@_xmlns:xsi'] = 'http://www.w3.org/2001/XMLSchema-instance';
 
     return builder.build(obj);
   }
+
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+    return validateXMLAgainstSchema(this.serialize(), options);
+  }
+
   /**
    * Retrieves all balances from all statements in the report.
    * @returns {Balance[]} An array of all balances across all statements.
    */
-  get balances(): Balance[] {
+  get balances(): Balance<A>[] {
     return this._statements.flatMap(statement => statement.balances);
   }
 
@@ -157,7 +229,7 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
    * Retrieves all transactions from all statements in the report.
    * @returns {Transaction[]} An array of all transactions across all statements.
    */
-  get transactions(): Transaction[] {
+  get transactions(): Transaction<A>[] {
     return this._statements
       .flatMap(statement => statement.entries)
       .flatMap(entry => entry.transactions);
@@ -167,7 +239,7 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
    * Retrieves all entries from all statements in the report.
    * @returns {Entry[]} An array of all entries across all statements.
    */
-  get entries(): Entry[] {
+  get entries(): Entry<A>[] {
     return this._statements.flatMap(statement => statement.entries);
   }
 
@@ -195,11 +267,19 @@ export class CashManagementEndOfDayReport implements GenericISO20022Message {
     return this._creationDate;
   }
 
+  /**
+   * Gets the message version, e.g. 'camt.053.001.02'.
+   * @returns {CashManagementEndOfDayReportVersion} The message version.
+   */
+  get version(): CashManagementEndOfDayReportVersion {
+    return this._version;
+  }
+
   /**
    * Gets all statements included in the report.
    * @returns {Statement[]} An array of all statements in the report.
    */
-  get statements(): Statement[] {
+  get statements(): Statement<A>[] {
     return this._statements;
   }
 
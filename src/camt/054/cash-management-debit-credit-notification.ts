@@ -0,0 +1,276 @@
+import { Entry, Notification, Transaction } from '../types';
+import { Amount, AmountMode, AmountOfMode, AmountParsingOptions, Party, StructuredAddress } from '../../lib/types';
+import { exportNotification, parseNotification } from '../utils';
+import { exportRecipient, parseRecipient } from '../../parseUtils';
+import {
+  InvalidXmlError,
+  InvalidXmlNamespaceError,
+} from '../../errors';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from '../../lib/schema-validation';
+
+const CAMT_054_NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+/**
+ * The CAMT.054 message versions that can be parsed and serialized.
+ */
+export const CashManagementDebitCreditNotificationVersions = [
+  'camt.054.001.02',
+  'camt.054.001.03',
+  'camt.054.001.04',
+  'camt.054.001.05',
+  'camt.054.001.06',
+  'camt.054.001.07',
+  'camt.054.001.08',
+  'camt.054.001.09',
+  'camt.054.001.10',
+  'camt.054.001.11',
+  'camt.054.001.12',
+] as const;
+export type CashManagementDebitCreditNotificationVersion = (typeof CashManagementDebitCreditNotificationVersions)[number];
+
+/**
+ * Configuration interface for creating a CashManagementDebitCreditNotification instance.
+ */
+interface CashManagementDebitCreditNotificationConfig<A extends Amount = number> {
+  /** Unique identifier for the message */
+  messageId: string;
+  /** Date and time when the notification was created */
+  creationDate: Date;
+  /** Recipient (party without bank and institution) receiving the notification */
+  recipient?: {
+    id?: string;
+    name?: string;
+    address?: StructuredAddress;
+  };
+  /** Array of account notifications included in the message */
+  notifications: Notification<A>[];
+  /** The message version, detected from the namespace when parsing. Defaults to 'camt.054.001.02'. */
+  version?: CashManagementDebitCreditNotificationVersion;
+}
+
+/**
+ * Represents a Cash Management Debit Credit Notification (CAMT.054.x).
+ * This class encapsulates the data and functionality related to processing
+ * and accessing information from a CAMT.054 XML file, such as intraday notifications
+ * of incoming credits and returns.
+ * Amounts are numbers, or bigints when parsed with the `bigint` amount mode.
+ */
+export class CashManagementDebitCreditNotification<A extends Amount = number> implements GenericISO20022Message {
+  private _messageId: string;
+  private _creationDate: Date;
+  private _recipient?: {
+    name?: string;
+    id?: string;
+    address?: StructuredAddress;
+  };
+  private _notifications: Notification<A>[];
+  private _version: CashManagementDebitCreditNotificationVersion;
+
+  constructor(config: CashManagementDebitCreditNotificationConfig<A>) {
+    this._messageId = config.messageId;
+    this._creationDate = config.creationDate;
+    this._recipient = config.recipient;
+    this._notifications = config.notifications;
+    this._version = config.version || 'camt.054.001.02';
+  }
+
+  static supportedMessages(): ISO20022MessageTypeName[] {
+    return [ISO20022Messages.CAMT_054];
+  }
+
+  get data(): CashManagementDebitCreditNotificationConfig<A> {
+    return {
+      messageId: this._messageId,
+      creationDate: this._creationDate,
+      recipient: this._recipient,
+      notifications: this._notifications,
+      version: this._version,
+    };
+  }
+
+  static fromDocumentObject<M extends AmountMode = 'number'>(
+    obj: {Document: any},
+    version?: CashManagementDebitCreditNotificationVersion,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementDebitCreditNotification<AmountOfMode<M>> {
+    const bankToCustomerNotification = obj.Document.BkToCstmrDbtCdtNtfctn;
+    const rawCreationDate = bankToCustomerNotification.GrpHdr.CreDtTm;
+    const creationDate = new Date(rawCreationDate);
+
+    let notifications: Notification<AmountOfMode<M>>[] = [];
+    if (Array.isArray(bankToCustomerNotification.Ntfctn)) {
+      notifications = bankToCustomerNotification.Ntfctn.map((ntfctn: any) =>
+        parseNotification(ntfctn, options),
+      );
+    } else {
+      notifications = [parseNotification(bankToCustomerNotification.Ntfctn, options)];
+    }
+
+    const rawRecipient = bankToCustomerNotification.GrpHdr.MsgRcpt;
+    return new CashManagementDebitCreditNotification({
+      messageId: bankToCustomerNotification.GrpHdr.MsgId.toString(),
+      creationDate,
+      recipient: rawRecipient ? parseRecipient(rawRecipient) : undefined,
+      notifications,
+      version,
+    });
+  }
+
+  /**
+   * Creates a CashManagementDebitCreditNotification instance from a raw XML string.
+   *
+   * @param {string} rawXml - The raw XML string containing the CAMT.054 data.
+   * @param {AmountParsingOptions} [options] - Set `amountMode: 'bigint'` to parse amounts as bigints.
+   * @returns {CashManagementDebitCreditNotification} A new instance of CashManagementDebitCreditNotification.
+   * @throws {Error} If the XML parsing fails or required data is missing.
+   * @throws {InvalidXmlNamespaceError} If the namespace is not a supported CAMT.054 version.
+   * @throws {AmountOutOfRangeError} If an amount is too large for a number, in the default amount mode.
+   */
+  static fromXML<M extends AmountMode = 'number'>(
+    rawXml: string,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementDebitCreditNotification<AmountOfMode<M>> {
+    const parser = XML.getParser();
+    const xml = parser.parse(rawXml);
+
+    if (!xml.Document) {
+      throw new InvalidXmlError("Invalid XML format");
+    }
+
+    const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
+    if (!namespace.startsWith(`${CAMT_054_NAMESPACE_PREFIX}camt.054.001.`)) {
+      throw new InvalidXmlNamespaceError('Invalid CAMT.054 namespace');
+    }
+
+    const version = namespace.substring(CAMT_054_NAMESPACE_PREFIX.length) as CashManagementDebitCreditNotificationVersion;
+    if (!CashManagementDebitCreditNotificationVersions.includes(version)) {
+      throw new InvalidXmlNamespaceError(`Unsupported CAMT.054 version: ${version}`);
+    }
+
+    return CashManagementDebitCreditNotification.fromDocumentObject(xml, version, options);
+  }
+
+  /**
+   *
+   * @param json - JSON string representing a CashManagementDebitCreditNotification
+   * @param {AmountParsingOptions} [options] - Set `amountMode: 'bigint'` to parse amounts as bigints.
+   * @returns {CashManagementDebitCreditNotification} A new instance of CashManagementDebitCreditNotification
+   * @throws {Error} If the JSON parsing fails or required data is missing.
+   */
+  static fromJSON<M extends AmountMode = 'number'>(
+    json: string,
+    options: AmountParsingOptions<M> = {},
+  ): CashManagementDebitCreditNotification<AmountOfMode<M>> {
+    const obj = JSON.parse(json);
+
+    if (!obj.Document) {
+      throw new InvalidXmlError("Invalid JSON format");
+    }
+
+    return CashManagementDebitCreditNotification.fromDocumentObject(obj, undefined, options);
+  }
+
+  /**
+   * Exports the notification as a document object, in the layout of the given version.
+   * @param {CashManagementDebitCreditNotificationVersion} [version] - The target version, defaults to the version of the notification.
+   * @returns {any} The document object.
+   */
+  toJSON(version: CashManagementDebitCreditNotificationVersion = this._version): any {
+    const versionNumber = Number(version.split('.').pop());
+    const Document = {
+      BkToCstmrDbtCdtNtfctn: {
+        GrpHdr: {
+          MsgId: this._messageId,
+          CreDtTm: this._creationDate.toISOString(),
+          MsgRcpt: this._recipient ? exportRecipient(this._recipient) : undefined,
+        },
+        Ntfctn: this._notifications.map((ntfctn) => exportNotification(ntfctn, versionNumber)),
+      }
+    }
+    return { Document };
+  }
+
+  /**
+   * Serializes the notification to XML.
+   * @param {CashManagementDebitCreditNotificationVersion} [version] - The target version, defaults to the version of the notification.
+   * @returns {string} The XML string.
+   * @example
+   * ```typescript
+   * const xml = notification.serialize('camt.054.001.12');
+   * ```
+   */
+  serialize(version: CashManagementDebitCreditNotificationVersion = this._version): string {
+    const builder = XML.getBuilder();
+    const obj = this.toJSON(version);
+    obj.Document['@_xmlns'] = `${CAMT_054_NAMESPACE_PREFIX}${version}`;
+    obj.Document['@_xmlns:xsi'] = 'http://www.w3.org/2001/XMLSchema-instance';
+
+    return builder.build(obj);
+  }
+
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+    return validateXMLAgainstSchema(this.serialize(), options);
+  }
+
+  /**
+   * Retrieves all transactions from all notifications in the message.
+   * @returns {Transaction[]} An array of all transactions across all notifications.
+   */
+  get transactions(): Transaction<A>[] {
+    return this._notifications
+      .flatMap(notification => notification.entries)
+      .flatMap(entry => entry.transactions);
+  }
+
+  /**
+   * Retrieves all entries from all notifications in the message.
+   * @returns {Entry[]} An array of all entries across all notifications.
+   */
+  get entries(): Entry<A>[] {
+    return this._notifications.flatMap(notification => notification.entries);
+  }
+
+  /**
+   * Gets the unique identifier for the message.
+   * @returns {string} The message ID.
+   */
+  get messageId(): string {
+    return this._messageId;
+  }
+
+  /**
+   * Gets the party receiving the notification.
+   * @returns {Party | undefined} The recipient party information, or undefined if no recipient is set.
+   */
+  get recipient(): Party | undefined {
+    return this._recipient;
+  }
+
+  /**
+   * Gets the date and time when the notification was created.
+   * @returns {Date} The creation date of the notification.
+   */
+  get creationDate(): Date {
+    return this._creationDate;
+  }
+
+  /**
+   * Gets the message version, e.g. 'camt.054.001.02'.
+   * @returns {CashManagementDebitCreditNotificationVersion} The message version.
+   */
+  get version(): CashManagementDebitCreditNotificationVersion {
+    return this._version;
+  }
+
+  /**
+   * Gets all account notifications included in the message.
+   * @returns {Notification[]} An array of all notifications in the message.
+   */
+  get notifications(): Notification<A>[] {
+    return this._notifications;
+  }
+
+}
+
+registerISO20022Implementation(CashManagementDebitCreditNotification);
@@ -0,0 +1,732 @@
+import { BankTransactionCode, Entry } from './types';
+
+/**
+ * Bank transaction domain codes as defined in ISO 20022 (ExternalBankTransactionDomain1Code).
+ * The domain is the business area of the underlying transaction.
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
+ */
+export const BankTransactionDomainCode = {
+  AccountManagement: 'ACMT',
+  CashManagement: 'CAMT',
+  Commodities: 'CMDT',
+  Derivatives: 'DERV',
+  ForeignExchange: 'FORX',
+  LoansDepositsAndSyndications: 'LDAS',
+  PreciousMetal: 'PMET',
+  Payments: 'PMNT',
+  Securities: 'SECU',
+  TradeServices: 'TRAD',
+  ExtendedDomain: 'XTND',
+} as const;
+
+/**
+ * Description mapping of BankTransactionDomainCode values to their names.
+ */
+export const BankTransactionDomainCodeDescriptionMap = {
+  'ACMT': 'Account Management',
+  'CAMT': 'Cash Management',
+  'CMDT': 'Commodities',
+  'DERV': 'Derivatives',
+  'FORX': 'Foreign Exchange',
+  'LDAS': 'Loans, Deposits & Syndications',
+  'PMET': 'Precious Metal',
+  'PMNT': 'Payments',
+  'SECU': 'Securities',
+  'TRAD': 'Trade Services',
+  'XTND': 'Extended Domain',
+} as const;
+
+export type BankTransactionDomain =
+  (typeof BankTransactionDomainCode)[keyof typeof BankTransactionDomainCode];
+
+/**
+ * Bank transaction family codes as defined in ISO 20022 (ExternalBankTransactionFamily1Code).
+ * The family is the product family within a domain, e.g. received credit transfers within payments.
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
+ */
+export const BankTransactionFamilyCode = {
+  AccountBalancing: 'ACCB',
+  AdditionalMiscellaneousCreditOperations: 'ACOP',
+  AdditionalMiscellaneousDebitOperations: 'ADOP',
+  BlockedTransactions: 'BLOC',
+  CashPooling: 'CAPL',
+  MiscellaneousSecuritiesOperations: 'CASH',
+  CustomerCardTransactions: 'CCRD',
+  CleanCollection: 'CLNC',
+  CounterTransactions: 'CNTR',
+  CustodyCollection: 'COLC',
+  CollateralManagement: 'COLL',
+  CorporateAction: 'CORP',
+  ConsumerLoans: 'CSLN',
+  Custody: 'CUST',
+  DocumentaryCredit: 'DCCT',
+  Delivery: 'DLVR',
+  DocumentaryCollection: 'DOCC',
+  Drafts: 'DRFT',
+  FixedTermDeposits: 'FTDP',
+  FixedTermLoans: 'FTLN',
+  Futures: 'FTUR',
+  ForwardContracts: 'FWRD',
+  Guarantees: 'GUAR',
+  IssuedCashConcentrationTransactions: 'ICCN',
+  IssuedCreditTransfers: 'ICDT',
+  IssuedCheques: 'ICHQ',
+  IssuedDirectDebits: 'IDDT',
+  IssuedRealTimeCreditTransfers: 'IRCT',
+  Lack: 'LACK',
+  LockboxTransactions: 'LBOX',
+  ListedDerivativesFutures: 'LFUT',
+  StandByLetterOfCredit: 'LOCT',
+  ListedDerivativesOptions: 'LOPT',
+  MiscellaneousCreditOperations: 'MCOP',
+  MerchantCardTransactions: 'MCRD',
+  MiscellaneousDebitOperations: 'MDOP',
+  MortgageLoans: 'MGLN',
+  NonDeliverable: 'NDFX',
+  NonSettled: 'NSET',
+  NotAvailable: 'NTAV',
+  NoticeDeposits: 'NTDP',
+  NoticeLoans: 'NTLN',
+  OTCDerivativesBonds: 'OBND',
+  OTCDerivativesCreditDerivatives: 'OCRD',
+  OTCDerivativesEquity: 'OEQT',
+  OTCDerivativesInterestRates: 'OIRT',
+  OpeningAndClosing: 'OPCL',
+  Options: 'OPTN',
+  OTCDerivativesStructuredExoticDerivatives: 'OSED',
+  OTCDerivativesSwaps: 'OSWP',
+  Other: 'OTHR',
+  ReceivedCashConcentrationTransactions: 'RCCN',
+  ReceivedCreditTransfers: 'RCDT',
+  ReceivedCheques: 'RCHQ',
+  ReceivedDirectDebits: 'RDDT',
+  ReceivedRealTimeCreditTransfers: 'RRCT',
+  TradeClearingAndSettlement: 'SETT',
+  SpotTransactions: 'SPOT',
+  Swaps: 'SWAP',
+  Syndications: 'SYDN',
+} as const;
+
+/**
+ * Description mapping of BankTransactionFamilyCode values to their names.
+ */
+export const BankTransactionFamilyCodeDescriptionMap = {
+  'ACCB': 'Account Balancing',
+  'ACOP': 'Additional Miscellaneous Credit Operations',
+  'ADOP': 'Additional Miscellaneous Debit Operations',
+  'BLOC': 'Blocked Transactions',
+  'CAPL': 'Cash Pooling',
+  'CASH': 'Miscellaneous Securities Operations',
+  'CCRD': 'Customer Card Transactions',
+  'CLNC': 'Clean Collection',
+  'CNTR': 'Counter Transactions',
+  'COLC': 'Custody Collection',
+  'COLL': 'Collateral Management',
+  'CORP': 'Corporate Action',
+  'CSLN': 'Consumer Loans',
+  'CUST': 'Custody',
+  'DCCT': 'Documentary Credit',
+  'DLVR': 'Delivery',
+  'DOCC': 'Documentary Collection',
+  'DRFT': 'Drafts / Bill of Orders',
+  'FTDP': 'Fixed Term Deposits',
+  'FTLN': 'Fixed Term Loans',
+  'FTUR': 'Futures',
+  'FWRD': 'Forward Contracts',
+  'GUAR': 'Guarantees',
+  'ICCN': 'Issued Cash Concentration Transactions',
+  'ICDT': 'Issued Credit Transfers',
+  'ICHQ': 'Issued Cheques',
+  'IDDT': 'Issued Direct Debits',
+  'IRCT': 'Issued Real-Time Credit Transfers',
+  'LACK': 'Lack',
+  'LBOX': 'Lockbox Transactions',
+  'LFUT': 'Listed Derivatives - Futures',
+  'LOCT': 'Stand-By Letter of Credit',
+  'LOPT': 'Listed Derivatives - Options',
+  'MCOP': 'Miscellaneous Credit Operations',
+  'MCRD': 'Merchant Card Transactions',
+  'MDOP': 'Miscellaneous Debit Operations',
+  'MGLN': 'Mortgage Loans',
+  'NDFX': 'Non Deliverable',
+  'NSET': 'Non Settled',
+  'NTAV': 'Not Available',
+  'NTDP': 'Notice Deposits',
+  'NTLN': 'Notice Loans',
+  'OBND': 'OTC Derivatives - Bonds',
+  'OCRD': 'OTC Derivatives - Credit Derivatives',
+  'OEQT': 'OTC Derivatives - Equity',
+  'OIRT': 'OTC Derivatives - Interest Rates',
+  'OPCL': 'Opening & Closing',
+  'OPTN': 'Options',
+  'OSED': 'OTC Derivatives - Structured Exotic Derivatives',
+  'OSWP': 'OTC Derivatives - Swaps',
+  'OTHR': 'Other',
+  'RCCN': 'Received Cash Concentration Transactions',
+  'RCDT': 'Received Credit Transfers',
+  'RCHQ': 'Received Cheques',
+  'RDDT': 'Received Direct Debits',
+  'RRCT': 'Received Real-Time Credit Transfers',
+  'SETT': 'Trade, Clearing and Settlement',
+  'SPOT': 'Spot Transactions',
+  'SWAP': 'Swaps',
+  'SYDN': 'Syndications',
+} as const;
+
+export type BankTransactionFamily =
+  (typeof BankTransactionFamilyCode)[keyof typeof BankTransactionFamilyCode];
+
+/**
+ * Bank transaction sub-family codes as defined in ISO 20022 (ExternalBankTransactionSubFamily1Code).
+ * The sub-family is the product within a family, e.g. a SEPA credit transfer within received credit transfers.
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
+ */
+export const BankTransactionSubFamilyCode = {
+  AccountClosing: 'ACCC',
+  AccountOpening: 'ACCO',
+  AccountTransfer: 'ACCT',
+  ACHCredit: 'ACDT',
+  ACHConcentration: 'ACON',
+  ACHCorporateTrade: 'ACOR',
+  ACHDebit: 'ADBT',
+  Adjustments: 'ADJT',
+  ACHPreAuthorised: 'APAC',
+  ACHReturn: 'ARET',
+  ACHReversal: 'AREV',
+  ARPDebit: 'ARPD',
+  ACHSettlement: 'ASET',
+  ACHTransaction: 'ATXN',
+  AutomaticTransfer: 'AUTT',
+  BranchAccountTransfer: 'BACT',
+  SEPAB2BDirectDebit: 'BBDD',
+  BranchDeposit: 'BCDP',
+  BankCheque: 'BCHQ',
+  BackValue: 'BCKV',
+  BranchWithdrawal: 'BCWD',
+  BonusIssue: 'BONU',
+  InternalBookTransfer: 'BOOK',
+  BuySellBack: 'BSBC',
+  CreditAdjustments: 'CAJT',
+  CapitalGainsDistribution: 'CAPG',
+  CashLetter: 'CASH',
+  CertifiedCustomerCheque: 'CCCH',
+  Cheque: 'CCHQ',
+  ControlledDisbursementCheque: 'CDIS',
+  CashDeposit: 'CDPT',
+  CheckDeposit: 'CHKD',
+  Charges: 'CHRG',
+  CircularCheque: 'CLCQ',
+  CorporateOwnAccountTransfer: 'COAT',
+  Commission: 'COMM',
+  Conversion: 'CONV',
+  ChequeReversal: 'CQRV',
+  CrossedCheque: 'CRCQ',
+  CashLetterAdjustment: 'CSHA',
+  CashWithdrawal: 'CWDL',
+  DebitAdjustments: 'DAJT',
+  DiscountedDraft: 'DDFT',
+  Drawdown: 'DDWN',
+  DraftMaturityChange: 'DMCG',
+  DomesticCreditTransfer: 'DMCT',
+  Deposit: 'DPST',
+  Drawing: 'DRAW',
+  DividendReinvestment: 'DRIP',
+  ControlledDisbursement: 'DSBR',
+  CashDividend: 'DVCA',
+  DividendOption: 'DVOP',
+  ExchangeRateAdjustment: 'ERTA',
+  SEPACreditTransfer: 'ESCT',
+  SEPACoreDirectDebit: 'ESDD',
+  Exchange: 'EXOF',
+  WarrantExercise: 'EXWA',
+  ForeignCurrenciesDeposit: 'FCDP',
+  ForeignCurrenciesWithdrawal: 'FCWD',
+  Fees: 'FEES',
+  FinancialInstitutionCreditTransfer: 'FICT',
+  FinancialInstitutionDirectDebit: 'FIDD',
+  FloatAdjustment: 'FLTA',
+  FreezeOfFunds: 'FRZF',
+  FuturesCommission: 'FUCO',
+  FutureVariationMargin: 'FUTU',
+  IntraCompanyTransfer: 'ICCT',
+  Interests: 'INTR',
+  DepositaryReceiptIssue: 'ISSU',
+  LockboxCreditAdjustment: 'LBCA',
+  LockboxDebit: 'LBDB',
+  LockboxDeposit: 'LBDP',
+  Liquidation: 'LIQU',
+  FullCallEarlyRedemption: 'MCAL',
+  MixedDeposit: 'MIXD',
+  Merger: 'MRGR',
+  MiscellaneousDeposit: 'MSCD',
+  NonPresentedCircularCheque: 'NPCC',
+  NotAvailable: 'NTAV',
+  Overdraft: 'ODFT',
+  OneOffDirectDebit: 'OODD',
+  OpenCheque: 'OPCQ',
+  OrderCheque: 'ORCQ',
+  Other: 'OTHR',
+  PreAuthorisedDirectDebit: 'PADD',
+  PairOff: 'PAIR',
+  PartialRedemptionWithReductionOfNominalValue: 'PCAL',
+  Placement: 'PLAC',
+  DirectDebit: 'PMDD',
+  CreditCardPayment: 'POSC',
+  PointOfSalePaymentDebitCard: 'POSD',
+  PointOfSalePayment: 'POSP',
+  PrincipalPayment: 'PPAY',
+  PriorityCreditTransfer: 'PRCT',
+  ReversalDueToPaymentReversal: 'PRDD',
+  PartialRedemptionWithoutReductionOfNominalValue: 'PRED',
+  PostingError: 'PSTE',
+  ReversalDueToDirectDebitCancellationRequest: 'RCDD',
+  Redemption: 'REDM',
+  Repo: 'REPU',
+  RightsIssue: 'RHTS',
+  Reimbursement: 'RIMB',
+  Renewal: 'RNEW',
+  ReversalDueToPaymentCancellationRequest: 'RPCR',
+  Repayment: 'RPMT',
+  ReversalDueToPaymentReturn: 'RRTN',
+  ReverseRepo: 'RVPO',
+  PayrollSalaryPayment: 'SALA',
+  SellBuyBack: 'SBBK',
+  SameDayValueCreditTransfer: 'SDVA',
+  SecuritiesBorrowing: 'SECB',
+  SecuritiesLending: 'SECL',
+  SmartCardPayment: 'SMRT',
+  SettlementOfSightExportDocument: 'SOSE',
+  SettlementOfSightImportDocument: 'SOSI',
+  StockSplit: 'SPLF',
+  SettlementAfterCollection: 'STAC',
+  SettlementAtMaturity: 'STAM',
+  StandingOrder: 'STDO',
+  SettlementUnderReserve: 'STLR',
+  Subscription: 'SUBS',
+  Sweeping: 'SWEP',
+  SwapFinalPayment: 'SWFP',
+  Switch: 'SWIT',
+  SwapPartialPayment: 'SWPP',
+  SwapResetPayment: 'SWRS',
+  SwapUpfrontPayment: 'SWUF',
+  Taxes: 'TAXE',
+  TravellersChequesDeposit: 'TCDP',
+  TravellersChequesWithdrawal: 'TCWD',
+  Tender: 'TEND',
+  Topping: 'TOPG',
+  TransferOut: 'TOUT',
+  Trade: 'TRAD',
+  TaxReclaim: 'TREC',
+  TransferIn: 'TRIN',
+  Turnaround: 'TURN',
+  DishonouredUnpaidDraft: 'UDFT',
+  UnpaidCheque: 'UPCQ',
+  UnpaidCardTransaction: 'UPCT',
+  ReversalDueToReturnUnpaidDirectDebit: 'UPDD',
+  ChequeUnderReserve: 'URCQ',
+  DirectDebitUnderReserve: 'URDD',
+  ValueDate: 'VALD',
+  CreditTransferWithAgreedCommercialInformation: 'VCOM',
+  Withdrawal: 'WTHD',
+  CrossBorderCreditCardPayment: 'XBCP',
+  ForeignCheque: 'XBCQ',
+  CrossBorderCreditTransfer: 'XBCT',
+  CrossBorderCashWithdrawal: 'XBCW',
+  CrossBorderDirectDebit: 'XBDD',
+  CrossBorder: 'XBRD',
+  CrossBorderPayrollSalaryPayment: 'XBSA',
+  CrossBorderStandingOrder: 'XBST',
+  CrossBorderIntraCompanyTransfer: 'XICT',
+  UnpaidForeignCheque: 'XPCQ',
+  ForeignChequeUnderReserve: 'XRCQ',
+  YTDAdjustment: 'YTDA',
+  ZeroBalancing: 'ZABA',
+} as const;
+
+/**
+ * Description mapping of BankTransactionSubFamilyCode values to their names.
+ */
+export const BankTransactionSubFamilyCodeDescriptionMap = {
+  'ACCC': 'Account Closing',
+  'ACCO': 'Account Opening',
+  'ACCT': 'Account Transfer',
+  'ACDT': 'ACH Credit',
+  'ACON': 'ACH Concentration',
+  'ACOR': 'ACH Corporate Trade',
+  'ADBT': 'ACH Debit',
+  'ADJT': 'Adjustments',
+  'APAC': 'ACH Pre-Authorised',
+  'ARET': 'ACH Return',
+  'AREV': 'ACH Reversal',
+  'ARPD': 'ARP Debit',
+  'ASET': 'ACH Settlement',
+  'ATXN': 'ACH Transaction',
+  'AUTT': 'Automatic Transfer',
+  'BACT': 'Branch Account Transfer',
+  'BBDD': 'SEPA B2B Direct Debit',
+  'BCDP': 'Branch Deposit',
+  'BCHQ': 'Bank Cheque',
+  'BCKV': 'Back Value',
+  'BCWD': 'Branch Withdrawal',
+  'BONU': 'Bonus Issue',
+  'BOOK': 'Internal Book Transfer',
+  'BSBC': 'Buy Sell Back',
+  'CAJT': 'Credit Adjustments',
+  'CAPG': 'Capital Gains Distribution',
+  'CASH': 'Cash Letter',
+  'CCCH': 'Certified Customer Cheque',
+  'CCHQ': 'Cheque',
+  'CDIS': 'Controlled Disbursement Cheque',
+  'CDPT': 'Cash Deposit',
+  'CHKD': 'Check Deposit',
+  'CHRG': 'Charges',
+  'CLCQ': 'Circular Cheque',
+  'COAT': 'Corporate Own Account Transfer',
+  'COMM': 'Commission',
+  'CONV': 'Conversion',
+  'CQRV': 'Cheque Reversal',
+  'CRCQ': 'Crossed Cheque',
+  'CSHA': 'Cash Letter Adjustment',
+  'CWDL': 'Cash Withdrawal',
+  'DAJT': 'Debit Adjustments',
+  'DDFT': 'Discounted Draft',
+  'DDWN': 'Drawdown',
+  'DMCG': 'Draft Maturity Change',
+  'DMCT': 'Domestic Credit Transfer',
+  'DPST': 'Deposit',
+  'DRAW': 'Drawing',
+  'DRIP': 'Dividend Reinvestment',
+  'DSBR': 'Controlled Disbursement',
+  'DVCA': 'Cash Dividend',
+  'DVOP': 'Dividend Option',
+  'ERTA': 'Exchange Rate Adjustment',
+  'ESCT': 'SEPA Credit Transfer',
+  'ESDD': 'SEPA Core Direct Debit',
+  'EXOF': 'Exchange',
+  'EXWA': 'Warrant Exercise',
+  'FCDP': 'Foreign Currencies Deposit',
+  'FCWD': 'Foreign Currencies Withdrawal',
+  'FEES': 'Fees',
+  'FICT': 'Financial Institution Credit Transfer',
+  'FIDD': 'Financial Institution Direct Debit',
+  'FLTA': 'Float Adjustment',
+  'FRZF': 'Freeze of Funds',
+  'FUCO': 'Futures Commission',
+  'FUTU': 'Future Variation Margin',
+  'ICCT': 'Intra Company Transfer',
+  'INTR': 'Interests',
+  'ISSU': 'Depositary Receipt Issue',
+  'LBCA': 'Lockbox Credit Adjustment',
+  'LBDB': 'Lockbox Debit',
+  'LBDP': 'Lockbox Deposit',
+  'LIQU': 'Liquidation',
+  'MCAL': 'Full Call / Early Redemption',
+  'MIXD': 'Mixed Deposit',
+  'MRGR': 'Merger',
+  'MSCD': 'Miscellaneous Deposit',
+  'NPCC': 'Non-Presented Circular Cheque',
+  'NTAV': 'Not Available',
+  'ODFT': 'Overdraft',
+  'OODD': 'One-Off Direct Debit',
+  'OPCQ': 'Open Cheque',
+  'ORCQ': 'Order Cheque',
+  'OTHR': 'Other',
+  'PADD': 'Pre-Authorised Direct Debit',
+  'PAIR': 'Pair-Off',
+  'PCAL': 'Partial Redemption With Reduction of Nominal Value',
+  'PLAC': 'Placement',
+  'PMDD': 'Direct Debit',
+  'POSC': 'Credit Card Payment',
+  'POSD': 'Point-of-Sale Payment - Debit Card',
+  'POSP': 'Point-of-Sale Payment',
+  'PPAY': 'Principal Payment',
+  'PRCT': 'Priority Credit Transfer',
+  'PRDD': 'Reversal Due to Payment Reversal',
+  'PRED': 'Partial Redemption Without Reduction of Nominal Value',
+  'PSTE': 'Posting Error',
+  'RCDD': 'Reversal Due to Payment Cancellation Request',
+  'REDM': 'Redemption',
+  'REPU': 'Repo',
+  'RHTS': 'Rights Issue',
+  'RIMB': 'Reimbursement',
+  'RNEW': 'Renewal',
+  'RPCR': 'Reversal Due to Payment Cancellation Request',
+  'RPMT': 'Repayment',
+  'RRTN': 'Reversal Due to Payment Return',
+  'RVPO': 'Reverse Repo',
+  'SALA': 'Payroll/Salary Payment',
+  'SBBK': 'Sell Buy Back',
+  'SDVA': 'Same Day Value Credit Transfer',
+  'SECB': 'Securities Borrowing',
+  'SECL': 'Securities Lending',
+  'SMRT': 'Smart-Card Payment',
+  'SOSE': 'Settlement of Sight Export Document',
+  'SOSI': 'Settlement of Sight Import Document',
+  'SPLF': 'Stock Split',
+  'STAC': 'Settlement After Collection',
+  'STAM': 'Settlement at Maturity',
+  'STDO': 'Standing Order',
+  'STLR': 'Settlement Under Reserve',
+  'SUBS': 'Subscription',
+  'SWEP': 'Sweeping',
+  'SWFP': 'Final Payment',
+  'SWIT': 'Switch',
+  'SWPP': 'Partial Payment',
+  'SWRS': 'Reset Payment',
+  'SWUF': 'Upfront Payment',
+  'TAXE': 'Taxes',
+  'TCDP': 'Travellers Cheques Deposit',
+  'TCWD': 'Travellers Cheques Withdrawal',
+  'TEND': 'Tender',
+  'TOPG': 'Topping',
+  'TOUT': 'Transfer Out',
+  'TRAD': 'Trade',
+  'TREC': 'Tax Reclaim',
+  'TRIN': 'Transfer In',
+  'TURN': 'Turnaround',
+  'UDFT': 'Dishonoured/Unpaid Draft',
+  'UPCQ': 'Unpaid Cheque',
+  'UPCT': 'Unpaid Card Transaction',
+  'UPDD': 'Reversal Due to Return/Unpaid Direct Debit',
+  'URCQ': 'Cheque Under Reserve',
+  'URDD': 'Direct Debit Under Reserve',
+  'VALD': 'Value Date',
+  'VCOM': 'Credit Transfer With Agreed Commercial Information',
+  'WTHD': 'Withdrawal',
+  'XBCP': 'Cross-Border Credit Card Payment',
+  'XBCQ': 'Foreign Cheque',
+  'XBCT': 'Cross-Border Credit Transfer',
+  'XBCW': 'Cross-Border Cash Withdrawal',
+  'XBDD': 'Cross-Border Direct Debit',
+  'XBRD': 'Cross-Border',
+  'XBSA': 'Cross-Border Payroll/Salary Payment',
+  'XBST': 'Cross-Border Standing Order',
+  'XICT': 'Cross-Border Intra Company Transfer',
+  'XPCQ': 'Unpaid Foreign Cheque',
+  'XRCQ': 'Foreign Cheque Under Reserve',
+  'YTDA': 'YTD Adjustment',
+  'ZABA': 'Zero Balancing',
+} as const;
+
+export type BankTransactionSubFamily =
+  (typeof BankTransactionSubFamilyCode)[keyof typeof BankTransactionSubFamilyCode];
+
+// Sub-families shared by every family
+const GenericSubFamilies: BankTransactionSubFamily[] = ['ADJT', 'CHRG', 'COMM', 'FEES', 'TAXE', 'OTHR', 'NTAV'];
+const MiscellaneousOperationSubFamilies: BankTransactionSubFamily[] = [...GenericSubFamilies, 'INTR'];
+const CreditTransferSubFamilies: BankTransactionSubFamily[] = [
+  ...GenericSubFamilies,
+  'ACDT', 'ACOR', 'APAC', 'ARET', 'AREV', 'ASET', 'ATXN', 'AUTT', 'BACT', 'BOOK', 'CAJT', 'COAT', 'DMCT', 'ESCT',
+  'FICT', 'PRCT', 'RPCR', 'RRTN', 'SALA', 'SDVA', 'STDO', 'VCOM', 'XBCT', 'XBSA', 'XBST',
+];
+const RealTimeCreditTransferSubFamilies: BankTransactionSubFamily[] = [
+  ...GenericSubFamilies,
+  'BOOK', 'DMCT', 'ESCT', 'FICT', 'PRCT', 'RPCR', 'RRTN', 'SALA', 'STDO', 'VCOM', 'XBCT', 'XBSA', 'XBST',
+];
+const DirectDebitSubFamilies: BankTransactionSubFamily[] = [
+  ...GenericSubFamilies,
+  'ADBT', 'APAC', 'ARET', 'AREV', 'ASET', 'ATXN', 'BBDD', 'ESDD', 'FIDD', 'OODD', 'PADD', 'PMDD', 'PRDD', 'RCDD',
+  'UPDD', 'URDD', 'XBDD',
+];
+const ChequeSubFamilies: BankTransactionSubFamily[] = [
+  ...GenericSubFamilies,
+  'BCHQ', 'CASH', 'CCCH', 'CCHQ', 'CLCQ', 'CQRV', 'CRCQ', 'CSHA', 'NPCC', 'OPCQ', 'ORCQ', 'UPCQ', 'URCQ', 'XBCQ',
+  'XPCQ', 'XRCQ',
+];
+const CashConcentrationSubFamilies: BankTransactionSubFamily[] = [...GenericSubFamilies, 'ACON', 'BACT', 'COAT', 'ICCT', 'XICT'];
+const CashBalancingSubFamilies: BankTransactionSubFamily[] = [
+  ...MiscellaneousOperationSubFamilies,
+  'BCKV', 'DSBR', 'FLTA', 'ODFT', 'SWEP', 'TOPG', 'XBRD', 'ZABA',
+];
+const LoanSubFamilies: BankTransactionSubFamily[] = [...MiscellaneousOperationSubFamilies, 'DDWN', 'PPAY', 'RPMT', 'RNEW'];
+const DepositSubFamilies: BankTransactionSubFamily[] = [...MiscellaneousOperationSubFamilies, 'DPST', 'WTHD', 'RNEW'];
+const TradeServiceSubFamilies: BankTransactionSubFamily[] = [
+  ...GenericSubFamilies,
+  'DMCG', 'FRZF', 'RIMB', 'SOSE', 'SOSI', 'STAC', 'STAM', 'STLR',
+];
+const SecuritiesSettlementSubFamilies: BankTransactionSubFamily[] = [
+  ...GenericSubFamilies,
+  'BSBC', 'ISSU', 'PAIR', 'PLAC', 'REDM', 'REPU', 'RVPO', 'SBBK', 'SECB', 'SECL', 'SUBS', 'SWIT', 'TOUT', 'TRAD',
+  'TRIN', 'TURN',
+];
+const CorporateActionSubFamilies: BankTransactionSubFamily[] = [
+  ...MiscellaneousOperationSubFamilies,
+  'BONU', 'CAPG', 'CONV', 'DRAW', 'DRIP', 'DVCA', 'DVOP', 'EXOF', 'EXWA', 'LIQU', 'MCAL', 'MRGR', 'PCAL', 'PRED',
+  'REDM', 'RHTS', 'SPLF', 'TEND', 'TREC',
+];
+const MarketFamilies = {
+  'SPOT': GenericSubFamilies,
+  'FWRD': GenericSubFamilies,
+  'SWAP': GenericSubFamilies,
+  'FTUR': GenericSubFamilies,
+  'NDFX': GenericSubFamilies,
+  'MCOP': MiscellaneousOperationSubFamilies,
+  'MDOP': MiscellaneousOperationSubFamilies,
+  'NTAV': ['NTAV'],
+  'OTHR': ['OTHR'],
+} as const;
+
+/**
+ * The valid combinations of domain, family and sub-family codes.
+ */
+export const BankTransactionCodeStructure: {
+  readonly [D in BankTransactionDomain]: Partial<Record<BankTransactionFamily, readonly BankTransactionSubFamily[]>>;
+} = {
+  'PMNT': {
+    'CNTR': [...GenericSubFamilies, 'BCDP', 'BCWD', 'CDPT', 'CHKD', 'CWDL', 'FCDP', 'FCWD', 'MIXD', 'MSCD', 'TCDP', 'TCWD'],
+    'CCRD': [...GenericSubFamilies, 'CDPT', 'CWDL', 'POSC', 'POSD', 'SMRT', 'XBCP', 'XBCW'],
+    'MCRD': [...GenericSubFamilies, 'CAJT', 'DAJT', 'POSC', 'POSP', 'SMRT', 'UPCT'],
+    'DRFT': [...GenericSubFamilies, 'DDFT', 'DMCG', 'STAM', 'STLR', 'UDFT'],
+    'ICHQ': [...ChequeSubFamilies, 'ARPD', 'CDIS'],
+    'RCHQ': ChequeSubFamilies,
+    'ICDT': CreditTransferSubFamilies,
+    'RCDT': CreditTransferSubFamilies,
+    'IRCT': RealTimeCreditTransferSubFamilies,
+    'RRCT': RealTimeCreditTransferSubFamilies,
+    'IDDT': DirectDebitSubFamilies,
+    'RDDT': DirectDebitSubFamilies,
+    'ICCN': CashConcentrationSubFamilies,
+    'RCCN': CashConcentrationSubFamilies,
+    'LBOX': [...GenericSubFamilies, 'LBCA', 'LBDB', 'LBDP'],
+    'MCOP': MiscellaneousOperationSubFamilies,
+    'MDOP': MiscellaneousOperationSubFamilies,
+    'NTAV': ['NTAV'],
+    'OTHR': ['OTHR'],
+  },
+  'CAMT': {
+    'ACCB': CashBalancingSubFamilies,
+    'CAPL': CashBalancingSubFamilies,
+    'MCOP': MiscellaneousOperationSubFamilies,
+    'MDOP': MiscellaneousOperationSubFamilies,
+    'NTAV': ['NTAV'],
+    'OTHR': ['OTHR'],
+  },
+  'ACMT': {
+    'ACOP': [...MiscellaneousOperationSubFamilies, 'BCKV', 'ERTA', 'FLTA', 'PSTE', 'VALD', 'YTDA'],
+    'ADOP': [...MiscellaneousOperationSubFamilies, 'BCKV', 'ERTA', 'FLTA', 'PSTE', 'VALD', 'YTDA'],
+    'OPCL': [...GenericSubFamilies, 'ACCC', 'ACCO', 'ACCT'],
+    'MCOP': MiscellaneousOperationSubFamilies,
+    'MDOP': MiscellaneousOperationSubFamilies,
+    'NTAV': ['NTAV'],
+    'OTHR': ['OTHR'],
+  },
+  'LDAS': {
+    'CSLN': LoanSubFamilies,
+    'FTLN': LoanSubFamilies,
+    'MGLN': LoanSubFamilies,
+    'NTLN': LoanSubFamilies,
+    'SYDN': LoanSubFamilies,
+    'FTDP': DepositSubFamilies,
+    'NTDP': DepositSubFamilies,
+    'MCOP': MiscellaneousOperationSubFamilies,
+    'MDOP': MiscellaneousOperationSubFamilies,
+    'NTAV': ['NTAV'],
+    'OTHR': ['OTHR'],
+  },
+  'FORX': MarketFamilies,
+  'PMET': MarketFamilies,
+  'CMDT': {
+    ...MarketFamilies,
+    'OPTN': GenericSubFamilies,
+    'DLVR': GenericSubFamilies,
+  },
+  'DERV': {
+    'LFUT': [...GenericSubFamilies, 'FUCO', 'FUTU'],
+    'LOPT': GenericSubFamilies,
+    'OBND': GenericSubFamilies,
+    'OCRD': GenericSubFamilies,
+    'OEQT': GenericSubFamilies,
+    'OIRT': GenericSubFamilies,
+    'OSED': GenericSubFamilies,
+    'OSWP': [...GenericSubFamilies, 'SWFP', 'SWPP', 'SWRS', 'SWUF'],
+    'MCOP': MiscellaneousOperationSubFamilies,
+    'MDOP': MiscellaneousOperationSubFamilies,
+    'NTAV': ['NTAV'],
+    'OTHR': ['OTHR'],
+  },
+  'SECU': {
+    'SETT': SecuritiesSettlementSubFamilies,
+    'NSET': SecuritiesSettlementSubFamilies,
+    'BLOC': SecuritiesSettlementSubFamilies,
+    'CORP': CorporateActionSubFamilies,
+    'CUST': CorporateActionSubFamilies,
+    'COLC': CorporateActionSubFamilies,
+    'COLL': GenericSubFamilies,
+    'LACK': GenericSubFamilies,
+    'CASH': MiscellaneousOperationSubFamilies,
+    'MCOP': MiscellaneousOperationSubFamilies,
+    'MDOP': MiscellaneousOperationSubFamilies,
+    'NTAV': ['NTAV'],
+    'OTHR': ['OTHR'],
+  },
+  'TRAD': {
+    'CLNC': TradeServiceSubFamilies,
+    'DCCT': TradeServiceSubFamilies,
+    'DOCC': TradeServiceSubFamilies,
+    'GUAR': TradeServiceSubFamilies,
+    'LOCT': TradeServiceSubFamilies,
+    'MCOP': MiscellaneousOperationSubFamilies,
+    'MDOP': MiscellaneousOperationSubFamilies,
+    'NTAV': ['NTAV'],
+    'OTHR': ['OTHR'],
+  },
+  'XTND': {
+    'NTAV': ['NTAV'],
+  },
+};
+
+// Sub-families of payments that were sent back by the receiving bank or the payer
+const ReturnSubFamilies: BankTransactionSubFamily[] = ['ARET', 'RRTN', 'UPDD', 'UPCQ', 'XPCQ', 'UDFT', 'UPCT'];
+
+/**
+ * Whether the domain, family and sub-family of a bank transaction code form a combination defined by ISO 20022.
+ * @param {BankTransactionCode} bankTransactionCode - The bank transaction code.
+ * @returns {boolean} False if the combination is unknown, or if the code only has a proprietary form.
+ */
+export const isValidBankTransactionCode = (bankTransactionCode: BankTransactionCode): boolean => {
+  const { domainCode, domainFamilyCode, domainSubFamilyCode } = bankTransactionCode;
+  if (!domainCode || !domainFamilyCode || !domainSubFamilyCode) {
+    return false;
+  }
+  const families: Partial<Record<string, readonly string[]>> | undefined =
+    BankTransactionCodeStructure[domainCode];
+  return !!families?.[domainFamilyCode]?.includes(domainSubFamilyCode);
+};
+
+/**
+ * Describes a bank transaction code in words, e.g. 'Payments / Received Credit Transfers / SEPA Credit Transfer'.
+ * Unknown codes are kept as they are, and codes with only a proprietary form are described by that code.
+ * @param {BankTransactionCode} bankTransactionCode - The bank transaction code.
+ * @returns {string | undefined} The description, or undefined if the code is empty.
+ */
+export const describeBankTransactionCode = (bankTransactionCode: BankTransactionCode): string | undefined => {
+  const { domainCode, domainFamilyCode, domainSubFamilyCode, proprietaryCode } = bankTransactionCode;
+  if (!domainCode) {
+    return proprietaryCode;
+  }
+  return [
+    BankTransactionDomainCodeDescriptionMap[domainCode] || domainCode,
+    domainFamilyCode && (BankTransactionFamilyCodeDescriptionMap[domainFamilyCode] || domainFamilyCode),
+    domainSubFamilyCode && (BankTransactionSubFamilyCodeDescriptionMap[domainSubFamilyCode] || domainSubFamilyCode),
+  ].filter(Boolean).join(' / ');
+};
+
+/**
+ * Whether the entry is a payment made with a card, by a customer or at a merchant.
+ * @param {Pick<Entry, 'bankTransactionCode'>} entry - The entry.
+ * @returns {boolean} True for the customer card (CCRD) and merchant card (MCRD) payment families.
+ */
+export const isCardTransaction = (entry: Pick<Entry, 'bankTransactionCode'>): boolean =>
+  entry.bankTransactionCode?.domainCode === BankTransactionDomainCode.Payments &&
+  (entry.bankTransactionCode.domainFamilyCode === BankTransactionFamilyCode.CustomerCardTransactions ||
+    entry.bankTransactionCode.domainFamilyCode === BankTransactionFamilyCode.MerchantCardTransactions);
+
+/**
+ * Whether the entry is a returned or unpaid payment, such as an ACH return or an unpaid direct debit.
+ * @param {Pick<Entry, 'bankTransactionCode' | 'transactions'>} entry - The entry.
+ * @returns {boolean} True if the sub-family is a return, or if a transaction of the entry carries a return reason.
+ */
+export const isReturn = (entry: Pick<Entry, 'bankTransactionCode' | 'transactions'>): boolean =>
+  (!!entry.bankTransactionCode?.domainSubFamilyCode &&
+    ReturnSubFamilies.includes(entry.bankTransactionCode.domainSubFamilyCode)) ||
+  entry.transactions.some(transaction => !!transaction.returnReason);
@@ -1,12 +1,14 @@
 // Types related to CAMT 053
 
 import { Currency } from '../lib/currency';
-import { Account, Agent, Party } from '../lib/types';
+import { Account, Agent, Amount, ChargeBearerType, CreditorReference, Party, StructuredRemittance } from '../lib/types';
+import { BankTransactionDomain, BankTransactionFamily, BankTransactionSubFamily } from './bank-transaction-codes';
 
 /**
  * Represents a bank statement in the CAMT.053 format.
+ * Amounts are numbers, or bigints when parsed with the `bigint` amount mode.
  */
-export interface Statement {
+export interface Statement<A extends Amount = number> {
   /** Unique identifier for the statement. */
   id: string;
   /** Electronic sequence number of the statement. */
@@ -25,34 +27,82 @@ export interface Statement {
   agent: Agent;
   /** Total number of entries in the statement. */
   numOfEntries?: number;
-  /** Sum of all entries in the statement. */
-  sumOfEntries?: number;
+  /** Sum of all entries in the statement, in minor units. */
+  sumOfEntries?: A;
   /** Net amount of all entries in the statement. */
-  netAmountOfEntries?: number;
+  netAmountOfEntries?: A;
+  /** Whether the net amount of all entries is a credit or a debit. */
+  netCreditDebitIndicator?: 'credit' | 'debit';
   /** Number of credit entries in the statement. */
   numOfCreditEntries?: number;
-  /** Sum of all credit entries in the statement. */
-  sumOfCreditEntries?: number;
+  /** Sum of all credit entries in the statement, in minor units. */
+  sumOfCreditEntries?: A;
   /** Number of debit entries in the statement. */
   numOfDebitEntries?: number;
-  /** Sum of all debit entries in the statement. */
-  sumOfDebitEntries?: number;
+  /** Sum of all debit entries in the statement, in minor units. */
+  sumOfDebitEntries?: A;
   /** Array of balance information. */
-  balances: Balance[];
+  balances: Balance<A>[];
   /** Array of transaction entries. */
-  entries: Entry[];
+  entries: Entry<A>[];
+}
+
+/**
+ * Represents an intraday account report in the CAMT.052 format.
+ * Reports share the layout of statements, but typically carry interim balances (ITBD / ITAV)
+ * and entries that are still pending.
+ */
+export type Report<A extends Amount = number> = Statement<A>;
+
+/**
+ * Represents an account notification in the CAMT.054 format.
+ * Notifications carry the entries booked or expected on an account, without balances.
+ */
+export interface Notification<A extends Amount = number> {
+  /** Unique identifier for the notification. */
+  id: string;
+  /** Electronic sequence number of the notification. */
+  electronicSequenceNumber?: number;
+  /** Legal sequence number of the notification. */
+  legalSequenceNumber?: number;
+  /** Date and time when the notification was created. */
+  creationDate?: Date;
+  /** Start date of the notification period. */
+  fromDate?: Date;
+  /** End date of the notification period. */
+  toDate?: Date;
+  /** Account details for which the notification is generated. */
+  account: Account;
+  /** Financial institution details. */
+  agent?: Agent;
+  /** Total number of entries in the notification. */
+  numOfEntries?: number;
+  /** Sum of all entries in the notification, in minor units. */
+  sumOfEntries?: A;
+  /** Number of credit entries in the notification. */
+  numOfCreditEntries?: number;
+  /** Sum of all credit entries in the notification, in minor units. */
+  sumOfCreditEntries?: A;
+  /** Number of debit entries in the notification. */
+  numOfDebitEntries?: number;
+  /** Sum of all debit entries in the notification, in minor units. */
+  sumOfDebitEntries?: A;
+  /** Array of transaction entries. */
+  entries: Entry<A>[];
+  /** Additional notification information */
+  additionalInformation?: string;
 }
 
 /**
  * Represents a balance in the statement, delinated by date and type.
  */
-export interface Balance {
+export interface Balance<A extends Amount = number> {
   /** Date of the balance. */
   date: Date;
   /** Type of the balance. */
   type: BalanceType;
   /** Amount of the balance. */
-  amount: number;
+  amount: A;
   /** Indicates whether the balance is credit (positive) or debit (negative). */
   creditDebitIndicator: 'credit' | 'debit';
   /** Currency of the balance. */
@@ -78,23 +128,25 @@ export interface BalanceInReport {
 /**
  * Represents a transaction entry in the statement.
  */
-export interface Entry {
+export interface Entry<A extends Amount = number> {
   /** Unique reference ID for the entry, if included in the statement. */
   referenceId?: string;
   /** Indicates whether the entry is a credit or debit. */
   creditDebitIndicator: 'credit' | 'debit';
   /** Indicates if the entry is a reversal. */
   reversal: boolean;
-  /** Date when the entry was booked. */
-  bookingDate: Date;
+  /** Status of the entry, e.g. booked or pending. */
+  status?: EntryStatus;
+  /** Date when the entry was booked. Absent for entries that are not booked yet. */
+  bookingDate?: Date;
   /** Amount of the entry. */
-  amount: number;
+  amount: A;
   /** Currency of the entry. */
   currency: Currency;
   /** Proprietary code associated with the entry. */
   proprietaryCode: string;
   /** Array of individual transactions within this entry. */
-  transactions: Transaction[];
+  transactions: Transaction<A>[];
   /** Additional entry information */
   additionalInformation?: string;
   /** Reference ID assigned by the account servicer. */
@@ -106,7 +158,7 @@ export interface Entry {
 /**
  * Represents an individual transaction within an entry.
  */
-export interface Transaction {
+export interface Transaction<A extends Amount = number> {
   /** Unique message ID for the transaction. */
   messageId?: string;
   /** Reference ID assigned by the account servicer. */
@@ -117,18 +169,43 @@ export interface Transaction {
   instructionId?: string;
   /** Unique transaction ID. */
   transactionId?: string;
+  /** Amount of the transaction, as booked on the account. Only written for versions 3 and later. */
+  amount?: A;
+  /** Currency of the amount of the transaction. */
+  currency?: Currency;
+  /** Indicates whether the transaction is a credit or debit. Only written for versions 3 and later. */
+  creditDebitIndicator?: 'credit' | 'debit';
   /** Instructed amount for the transaction. */
-  instructedAmount?: number;
+  instructedAmount?: A;
   /** Currency of the instructed amount. */
   instructedCurrency?: Currency;
+  /** The amounts of the transaction along its processing chain, with the currency exchanges applied. */
+  amountDetails?: TransactionAmountDetails<A>;
+  /** Charges applied to the transaction. */
+  charges?: TransactionCharges<A>;
   /** Proprietary purpose code for the transaction. */
   proprietaryPurpose?: string;
-  /** Details of the debtor party. */
+  /** Details of the party that initiated the transaction, if not the debtor. */
+  initiatingParty?: Party;
+  /** Details of the debtor party, with its account and agent. */
   debtor?: Party;
-  /** Details of the creditor party. */
+  /** Details of the ultimate debtor, if not the debtor. */
+  ultimateDebtor?: Party;
+  /** Details of the creditor party, with its account and agent. */
   creditor?: Party;
+  /** Details of the ultimate creditor, if not the creditor. */
+  ultimateCreditor?: Party;
+  /** Agents involved in the transaction, besides the debtor and creditor agents. */
+  relatedAgents?: RelatedAgents;
   /** Additional information about the remittance. */
   remittanceInformation?: string;
+  /** Structured remittance information, e.g. the invoices settled by the transaction and their creditor reference. */
+  structuredRemittanceInformation?: StructuredRemittance<A>[];
+  /**
+   * The creditor reference of the transaction, from its structured remittance information,
+   * or an RF creditor reference found in its unstructured remittance information. Only read, never written.
+   */
+  creditorReference?: CreditorReference;
   /** Reason for return, if applicable. */
   returnReason?: string;
   /** Additional information about the return. */
@@ -137,15 +214,120 @@ export interface Transaction {
   endToEndId?: string;
 }
 
-// NOTE: We should consider creating DomainCode, FamilyCode, and SubFamilyCode types from:
-// https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets
+/**
+ * Represents the agents involved in a transaction, besides the debtor and creditor agents.
+ */
+export interface RelatedAgents {
+  /** Agent that instructed the account servicer. Only written for versions 8 and later. */
+  instructingAgent?: Agent;
+  /** Agent that was instructed by the instructing agent. Only written for versions 8 and later. */
+  instructedAgent?: Agent;
+  /** First agent between the debtor agent and the creditor agent. */
+  intermediaryAgent1?: Agent;
+  /** Second agent between the debtor agent and the creditor agent. */
+  intermediaryAgent2?: Agent;
+  /** Third agent between the debtor agent and the creditor agent. */
+  intermediaryAgent3?: Agent;
+  /** Agent that receives the securities or cash, for settlements. */
+  receivingAgent?: Agent;
+  /** Agent that delivers the securities or cash, for settlements. */
+  deliveringAgent?: Agent;
+  /** Agent that issued the underlying instrument, e.g. a card or a cheque. */
+  issuingAgent?: Agent;
+  /** Place where the settlement took place. */
+  settlementPlace?: Agent;
+}
+
+/**
+ * Represents the amounts of a transaction along its processing chain.
+ */
+export interface TransactionAmountDetails<A extends Amount = number> {
+  /** Amount as instructed by the initiating party, before any charges or currency exchange. */
+  instructed?: AmountAndCurrencyExchange<A>;
+  /** Amount of the underlying transaction, as exchanged between the agents. */
+  transaction?: AmountAndCurrencyExchange<A>;
+  /** Amount booked on the account, as counter value of the transaction amount. */
+  counterValue?: AmountAndCurrencyExchange<A>;
+  /** Amount announced for posting, e.g. in an earlier notification. */
+  announcedPosting?: AmountAndCurrencyExchange<A>;
+}
+
+/**
+ * Represents an amount, with the currency exchange that produced it, if any.
+ */
+export interface AmountAndCurrencyExchange<A extends Amount = number> {
+  /** The amount, in minor units. */
+  amount: A;
+  /** The currency of the amount. */
+  currency: Currency;
+  /** Details of the currency exchange, if the amount was converted. */
+  currencyExchange?: CurrencyExchange;
+}
+
+/**
+ * Represents the details of a currency exchange.
+ */
+export interface CurrencyExchange {
+  /** Currency the amount was converted from. */
+  sourceCurrency: Currency;
+  /** Currency the amount was converted into. */
+  targetCurrency?: Currency;
+  /** Currency the exchange rate is expressed in, e.g. GBP in 1 GBP = x EUR. */
+  unitCurrency?: Currency;
+  /** Factor used to convert an amount from the source into the target currency. */
+  exchangeRate: number;
+  /** Identification of the foreign exchange contract. */
+  contractId?: string;
+  /** Date and time at which the exchange rate was quoted. */
+  quotationDate?: Date;
+}
+
+/**
+ * Represents the charges applied to a transaction.
+ */
+export interface TransactionCharges<A extends Amount = number> {
+  /** Total of all charges and taxes applied to the transaction. */
+  totalChargesAndTaxAmount?: A;
+  /** Currency of the total of all charges and taxes. */
+  totalChargesAndTaxCurrency?: Currency;
+  /** The individual charges. */
+  records: ChargesRecord<A>[];
+}
+
+/**
+ * Represents an individual charge applied to a transaction.
+ */
+export interface ChargesRecord<A extends Amount = number> {
+  /** The amount of the charge, in minor units. */
+  amount: A;
+  /** The currency of the charge. */
+  currency: Currency;
+  /** Indicates whether the charge is a credit or debit. */
+  creditDebitIndicator?: 'credit' | 'debit';
+  /** Indicates whether the charge is included in the amount of the entry. Only written for versions 3 and later. */
+  chargeIncluded?: boolean;
+  /** The type of the charge, e.g. 'COMM'. */
+  type?: string;
+  /** The rate used to calculate the charge, as a percentage. */
+  rate?: number;
+  /** The party that bears the charge. */
+  bearer?: ChargeBearerType;
+  /** The agent that took the charge. */
+  agent?: Agent;
+}
+
+/**
+ * Represents the bank transaction code of an entry, in its ISO 20022 domain / family / sub-family form and,
+ * if the bank provides it, in a proprietary form.
+ * @see {@link BankTransactionCodeStructure} for the valid combinations.
+ */
 export interface BankTransactionCode {
   /** Specifies the business area of the underlying transaction. */
-  domainCode?: string;
+  domainCode?: BankTransactionDomain;
   /** Specifies the family within the domain of the underlying transaction.  */
-  domainFamilyCode?: string;
+  domainFamilyCode?: BankTransactionFamily;
   /** Specifies the sub-product family within a specific family of the underlying transaction. */
-  domainSubFamilyCode?: string;
+  domainSubFamilyCode?: BankTransactionSubFamily;
   /** Bank transaction code in a proprietary form, as defined by the issuer. */
   proprietaryCode?: string;
   /** Identification of the issuer of the proprietary bank transaction code. */
@@ -202,6 +384,31 @@ export type BalanceType =
   (typeof BalanceTypeCode)[keyof typeof BalanceTypeCode];
 
 
+/**
+ * Entry statuses as defined in ISO 20022.
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
+ */
+export const EntryStatusCode = {
+  /** Booked means that the transfer of money has been completed between account servicer and account owner. */
+  Booked: 'BOOK',
+  /** Booking on the account owner's account in the account servicer's ledger has not been completed. */
+  Pending: 'PDNG',
+  /** Entry is only provided for information, and no booking on the account owner's account in the account servicer's ledger has been performed. */
+  Information: 'INFO',
+} as const;
+
+/**
+ * Description mapping of EntryStatusCode values to their names.
+ */
+export const EntryStatusCodeDescriptionMap = {
+  'BOOK': 'Booked',
+  'PDNG': 'Pending',
+  'INFO': 'Information',
+} as const;
+
+export type EntryStatus =
+  (typeof EntryStatusCode)[keyof typeof EntryStatusCode];
+
 export interface BusinessError {
   code: string; // Code or proprietary code identifying the error
   description?: string;
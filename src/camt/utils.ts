@@ -1,22 +1,54 @@
 import {
+  AmountAndCurrencyExchange,
   Balance,
   BalanceInReport,
   BankTransactionCode,
   BusinessError,
+  ChargesRecord,
+  CurrencyExchange,
   Entry,
+  Notification,
+  Report,
   Statement,
+  RelatedAgents,
   Transaction,
+  TransactionAmountDetails,
+  TransactionCharges,
 } from 'camt/types';
-import { Party } from '../lib/types';
+import {
+  Agent,
+  Amount,
+  AmountMode,
+  AmountOfMode,
+  AmountParsingOptions,
+  CreditorReferenceTypeCode,
+  DocumentTypeCode,
+  GenericIdentification,
+  IBANAccount,
+  Party,
+  PartyIdentification,
+  StructuredAddress,
+  StructuredRemittance,
+} from '../lib/types';
 import { exportAccount, exportAgent, exportAmountToString, parseAdditionalInformation, parseDate } from '../parseUtils';
 import {
   parseAccount,
   parseAgent,
   parseAmountToMinorUnits,
+  parseAmountWithMode,
+  parseOptionalAgent,
+  parsePartyIdentification,
+  parsePostalAddress,
+  parseStructuredRemittance,
 } from '../parseUtils';
 import { Currency } from '../lib/currency';
+import { Alpha2Country } from '../lib/countries';
+import { findRFCreditorReference } from '../lib/creditor-reference';
 
-export const parseStatement = (stmt: any): Statement => {
+export const parseStatement = <M extends AmountMode = 'number'>(
+  stmt: any,
+  options: AmountParsingOptions<M> = {},
+): Statement<AmountOfMode<M>> => {
   const id = stmt.Id.toString();
   const electronicSequenceNumber = stmt.ElctrncSeqNb;
   const legalSequenceNumber = stmt.LglSeqNb;
@@ -30,20 +62,27 @@ export const parseStatement = (stmt: any): Statement => {
   }
 
   // Txn Summaries
-  const numOfEntries = stmt.TxsSummry?.TtlNtries.NbOfNtries;
-  const sumOfEntries = stmt.TxsSummry?.TtlNtries.Sum;
-  const rawNetAmountOfEntries = stmt.TxsSummry?.TtlNtries.TtlNetNtryAmt;
+  const numOfEntries = stmt.TxsSummry?.TtlNtries?.NbOfNtries;
+  const sumOfEntries = parseSum(stmt.TxsSummry?.TtlNtries?.Sum, options);
+  // Versions 4 and later group the net amount and its direction in TtlNetNtry
+  const rawNetEntries = stmt.TxsSummry?.TtlNtries?.TtlNetNtry;
+  const rawNetAmountOfEntries = rawNetEntries?.Amt ?? stmt.TxsSummry?.TtlNtries?.TtlNetNtryAmt;
+  const rawNetCreditDebitIndicator = rawNetEntries?.CdtDbtInd ?? stmt.TxsSummry?.TtlNtries?.CdtDbtInd;
   let netAmountOfEntries;
   // No currency information, default to USD
   if (rawNetAmountOfEntries) {
-    netAmountOfEntries = parseAmountToMinorUnits(rawNetAmountOfEntries);
+    netAmountOfEntries = parseAmountWithMode(rawNetAmountOfEntries, 'USD', options);
+  }
+  let netCreditDebitIndicator: 'credit' | 'debit' | undefined;
+  if (rawNetCreditDebitIndicator) {
+    netCreditDebitIndicator = rawNetCreditDebitIndicator === 'CRDT' ? 'credit' : 'debit';
   }
 
-  const numOfCreditEntries = stmt.TxsSummry?.TtlCdtNtries.NbOfNtries;
-  const sumOfCreditEntries = stmt.TxsSummry?.TtlCdtNtries.Sum;
+  const numOfCreditEntries = stmt.TxsSummry?.TtlCdtNtries?.NbOfNtries;
+  const sumOfCreditEntries = parseSum(stmt.TxsSummry?.TtlCdtNtries?.Sum, options);
 
-  const numOfDebitEntries = stmt.TxsSummry?.TtlDbtNtries.NbOfNtries;
-  const sumOfDebitEntries = stmt.TxsSummry?.TtlDbtNtries.Sum;
+  const numOfDebitEntries = stmt.TxsSummry?.TtlDbtNtries?.NbOfNtries;
+  const sumOfDebitEntries = parseSum(stmt.TxsSummry?.TtlDbtNtries?.Sum, options);
 
   // Get account information
   // TODO: Save account types here
@@ -51,18 +90,18 @@ export const parseStatement = (stmt: any): Statement => {
 
   const agent = parseAgent(stmt.Acct.Svcr);
 
-  let balances: Balance[] = [];
+  let balances: Balance<AmountOfMode<M>>[] = [];
   if (Array.isArray(stmt.Bal)) {
-    balances = stmt.Bal.map(parseBalance);
+    balances = stmt.Bal.map((bal: any) => parseBalance(bal, options));
   } else if (stmt.Bal) {
-    balances = [parseBalance(stmt.Bal)];
+    balances = [parseBalance(stmt.Bal, options)];
   }
 
-  let entries: Entry[] = [];
+  let entries: Entry<AmountOfMode<M>>[] = [];
   if (Array.isArray(stmt.Ntry)) {
-    entries = stmt.Ntry.map(parseEntry);
+    entries = stmt.Ntry.map((entry: any) => parseEntry(entry, options));
   } else if (stmt.Ntry) {
-    entries = [parseEntry(stmt.Ntry)];
+    entries = [parseEntry(stmt.Ntry, options)];
   }
 
   return {
@@ -77,6 +116,7 @@ export const parseStatement = (stmt: any): Statement => {
     numOfEntries,
     sumOfEntries,
     netAmountOfEntries,
+    netCreditDebitIndicator,
     numOfCreditEntries,
     sumOfCreditEntries,
     numOfDebitEntries,
@@ -86,8 +126,38 @@ export const parseStatement = (stmt: any): Statement => {
   };
 };
 
-export const exportStatement = (stmt: Statement): any => {
-  const obj = {
+/**
+ * Exports a statement in the layout of the given message version, following the element order of the schema.
+ * Elements without data are left out, as empty elements are not valid against the schema.
+ * @param {Statement} stmt - The statement to export.
+ * @param {number} [version=2] - The numeric message version, e.g. 12 for camt.053.001.12.
+ * @returns {any} The Stmt element.
+ */
+export const exportStatement = (stmt: Statement<Amount>, version: number = 2): any => {
+  const netAmount = stmt.netAmountOfEntries !== undefined
+    ? exportAmountToString(stmt.netAmountOfEntries, stmt.balances[0]?.currency)
+    : undefined;
+  const netCreditDebitIndicator = stmt.netCreditDebitIndicator === 'debit' ? 'DBIT' : 'CRDT';
+
+  const currency = stmt.balances[0]?.currency;
+  const totalEntries = compact({
+    NbOfNtries: stmt.numOfEntries,
+    Sum: exportSum(stmt.sumOfEntries, currency),
+    // Versions 4 and later group the net amount and its direction in TtlNetNtry
+    ...(netAmount !== undefined && (version < 4
+      ? { TtlNetNtryAmt: netAmount, CdtDbtInd: netCreditDebitIndicator }
+      : { TtlNetNtry: { Amt: netAmount, CdtDbtInd: netCreditDebitIndicator } })),
+  });
+  const totalCreditEntries = compact({
+    NbOfNtries: stmt.numOfCreditEntries,
+    Sum: exportSum(stmt.sumOfCreditEntries, currency),
+  });
+  const totalDebitEntries = compact({
+    NbOfNtries: stmt.numOfDebitEntries,
+    Sum: exportSum(stmt.sumOfDebitEntries, currency),
+  });
+
+  return compact({
     Id: stmt.id,
     ElctrncSeqNb: stmt.electronicSequenceNumber,
     LglSeqNb: stmt.legalSequenceNumber,
@@ -95,41 +165,141 @@ export const exportStatement = (stmt: Statement): any => {
     FrToDt:
       stmt.fromDate && stmt.toDate
         ? {
-            FrDtTm: stmt.fromDate.toISOString().slice(0, 10),
-            ToDtTm: stmt.toDate.toISOString().slice(0, 10),
+            FrDtTm: stmt.fromDate.toISOString(),
+            ToDtTm: stmt.toDate.toISOString(),
           }
         : undefined,
-    TxsSummry: {
-      TtlNtries: {
-        NbOfNtries: stmt.numOfEntries,
-        Sum: stmt.sumOfEntries,
-        TtlNetNtryAmt: stmt.netAmountOfEntries
-          ? exportAmountToString(stmt.netAmountOfEntries, stmt.balances[0]?.currency)
-          : undefined,
-      },
-      TtlCdtNtries: {
-        NbOfNtries: stmt.numOfCreditEntries,
-        Sum: stmt.sumOfCreditEntries,
-      },
-      TtlDbtNtries: {
-        NbOfNtries: stmt.numOfDebitEntries,
-        Sum: stmt.sumOfDebitEntries,
-      },
-    },
     Acct: {
-      ...exportAccount(stmt.account), 
-      Svcr: exportAgent(stmt.agent)
+      ...exportAccount(stmt.account),
+      Svcr: stmt.agent ? exportVersionedAgent(stmt.agent, version) : undefined,
     },
     Bal: stmt.balances.map((bal) => exportBalance(bal)),
-    Ntry: stmt.entries.map((entry) => exportEntry(entry)),
+    TxsSummry: compact({
+      TtlNtries: totalEntries,
+      TtlCdtNtries: totalCreditEntries,
+      TtlDbtNtries: totalDebitEntries,
+    }),
+    Ntry: stmt.entries.map((entry) => exportEntry(entry, version)),
+  });
+}
+
+// CAMT.052 reports share the layout of CAMT.053 statements
+export const parseReport = <M extends AmountMode = 'number'>(
+  rpt: any,
+  options: AmountParsingOptions<M> = {},
+): Report<AmountOfMode<M>> => parseStatement(rpt, options);
+
+export const exportReport = (rpt: Report<Amount>, version: number = 2): any => exportStatement(rpt, version);
+
+export const parseNotification = <M extends AmountMode = 'number'>(
+  ntfctn: any,
+  options: AmountParsingOptions<M> = {},
+): Notification<AmountOfMode<M>> => {
+  const id = ntfctn.Id.toString();
+  const electronicSequenceNumber = ntfctn.ElctrncSeqNb;
+  const legalSequenceNumber = ntfctn.LglSeqNb;
+  const creationDate = ntfctn.CreDtTm ? new Date(ntfctn.CreDtTm) : undefined;
+
+  let fromDate;
+  let toDate;
+  if (ntfctn.FrToDt) {
+    fromDate = new Date(ntfctn.FrToDt.FrDtTm);
+    toDate = new Date(ntfctn.FrToDt.ToDtTm);
   }
+
+  // Txn Summaries
+  const numOfEntries = ntfctn.TxsSummry?.TtlNtries?.NbOfNtries;
+  const sumOfEntries = parseSum(ntfctn.TxsSummry?.TtlNtries?.Sum, options);
+  const numOfCreditEntries = ntfctn.TxsSummry?.TtlCdtNtries?.NbOfNtries;
+  const sumOfCreditEntries = parseSum(ntfctn.TxsSummry?.TtlCdtNtries?.Sum, options);
+  const numOfDebitEntries = ntfctn.TxsSummry?.TtlDbtNtries?.NbOfNtries;
+  const sumOfDebitEntries = parseSum(ntfctn.TxsSummry?.TtlDbtNtries?.Sum, options);
+
+  const account = parseAccount(ntfctn.Acct);
+  const agent = ntfctn.Acct.Svcr ? parseAgent(ntfctn.Acct.Svcr) : undefined;
+
+  let entries: Entry<AmountOfMode<M>>[] = [];
+  if (Array.isArray(ntfctn.Ntry)) {
+    entries = ntfctn.Ntry.map((entry: any) => parseEntry(entry, options));
+  } else if (ntfctn.Ntry) {
+    entries = [parseEntry(ntfctn.Ntry, options)];
+  }
+
+  const additionalInformation = ntfctn.AddtlNtfctnInf;
+
+  return {
+    id,
+    electronicSequenceNumber,
+    legalSequenceNumber,
+    creationDate,
+    fromDate,
+    toDate,
+    account,
+    agent,
+    numOfEntries,
+    sumOfEntries,
+    numOfCreditEntries,
+    sumOfCreditEntries,
+    numOfDebitEntries,
+    sumOfDebitEntries,
+    entries,
+    additionalInformation,
+  };
+};
+
+/**
+ * Exports a notification in the layout of the given message version, following the element order of the schema.
+ * @param {Notification} ntfctn - The notification to export.
+ * @param {number} [version=2] - The numeric message version, e.g. 12 for camt.054.001.12.
+ * @returns {any} The Ntfctn element.
+ */
+export const exportNotification = (ntfctn: Notification<Amount>, version: number = 2): any => {
+  const hasSummary = ntfctn.numOfEntries !== undefined || ntfctn.numOfCreditEntries !== undefined || ntfctn.numOfDebitEntries !== undefined;
+  const obj = {
+    Id: ntfctn.id,
+    ElctrncSeqNb: ntfctn.electronicSequenceNumber,
+    LglSeqNb: ntfctn.legalSequenceNumber,
+    CreDtTm: ntfctn.creationDate?.toISOString(),
+    FrToDt:
+      ntfctn.fromDate && ntfctn.toDate
+        ? {
+            FrDtTm: ntfctn.fromDate.toISOString(),
+            ToDtTm: ntfctn.toDate.toISOString(),
+          }
+        : undefined,
+    Acct: {
+      ...exportAccount(ntfctn.account),
+      Svcr: ntfctn.agent ? exportVersionedAgent(ntfctn.agent, version) : undefined,
+    },
+    TxsSummry: hasSummary
+      ? {
+          TtlNtries: ntfctn.numOfEntries !== undefined ? {
+            NbOfNtries: ntfctn.numOfEntries,
+            Sum: exportSum(ntfctn.sumOfEntries),
+          } : undefined,
+          TtlCdtNtries: ntfctn.numOfCreditEntries !== undefined ? {
+            NbOfNtries: ntfctn.numOfCreditEntries,
+            Sum: exportSum(ntfctn.sumOfCreditEntries),
+          } : undefined,
+          TtlDbtNtries: ntfctn.numOfDebitEntries !== undefined ? {
+            NbOfNtries: ntfctn.numOfDebitEntries,
+            Sum: exportSum(ntfctn.sumOfDebitEntries),
+          } : undefined,
+        }
+      : undefined,
+    Ntry: ntfctn.entries.map((entry) => exportEntry(entry, version)),
+    AddtlNtfctnInf: ntfctn.additionalInformation,
+  };
   return obj;
 }
 
-export const parseBalance = (balance: any): Balance => {
+export const parseBalance = <M extends AmountMode = 'number'>(
+  balance: any,
+  options: AmountParsingOptions<M> = {},
+): Balance<AmountOfMode<M>> => {
   const rawAmount = balance.Amt['#text'];
   const currency = balance.Amt['@_Ccy'];
-  const amount = parseAmountToMinorUnits(rawAmount, currency);
+  const amount = parseAmountWithMode(rawAmount, currency, options);
   const creditDebitIndicator =
     balance.CdtDbtInd === 'CRDT' ? 'credit' : 'debit';
   const type = balance.Tp.CdOrPrtry.Cd;
@@ -140,21 +310,21 @@ export const parseBalance = (balance: any): Balance => {
     currency,
     creditDebitIndicator,
     type,
-  } as Balance;
+  } as Balance<AmountOfMode<M>>;
 };
 
-export const exportBalance = (balance: Balance): any => {
+export const exportBalance = (balance: Balance<Amount>): any => {
   const obj: any = {
-    Amt: {
-      '#text': exportAmountToString(balance.amount, balance.currency),
-      '@_Ccy': balance.currency,
-    },
-    CdtDbtInd: balance.creditDebitIndicator === 'credit' ? 'CRDT' : 'DBIT',
     Tp: {
       CdOrPrtry: {
         Cd: balance.type,
       },
     },
+    Amt: {
+      '#text': exportAmountToString(balance.amount, balance.currency),
+      '@_Ccy': balance.currency,
+    },
+    CdtDbtInd: balance.creditDebitIndicator === 'credit' ? 'CRDT' : 'DBIT',
     Dt: {
       DtTm: balance.date.toISOString(),
     },
@@ -198,14 +368,19 @@ export const exportBalanceReport = (currency: Currency, balance: BalanceInReport
   return obj;
 }
 
-export const parseEntry = (entry: any): Entry => {
+export const parseEntry = <M extends AmountMode = 'number'>(
+  entry: any,
+  options: AmountParsingOptions<M> = {},
+): Entry<AmountOfMode<M>> => {
   const referenceId = entry.NtryRef;
   const creditDebitIndicator = entry.CdtDbtInd === 'CRDT' ? 'credit' : 'debit';
-  const bookingDate = parseDate(entry.BookgDt);
+  const bookingDate = entry.BookgDt ? parseDate(entry.BookgDt) : undefined;
   const reversal = entry.RvslInd === true;
+  // Older versions use the code directly, newer versions a Cd / Prtry choice
+  const status = entry.Sts?.Cd || entry.Sts?.Prtry || entry.Sts;
   const rawAmount = entry.Amt['#text'];
   const currency = entry.Amt['@_Ccy'];
-  const amount = parseAmountToMinorUnits(rawAmount, currency);
+  const amount = parseAmountWithMode(rawAmount, currency, options);
   const proprietaryCode = entry.BkTxCd.Prtry?.Cd;
   const additionalInformation = parseAdditionalInformation(entry.AddtlNtryInf);
   const accountServicerReferenceId = entry.AcctSvcrRef;
@@ -224,7 +399,7 @@ export const parseEntry = (entry: any): Entry => {
       if (!Array.isArray(transactionDetails)) {
         transactionDetails = [transactionDetails];
       }
-      return transactionDetails.map(parseTransactionDetail);
+      return transactionDetails.map((transactionDetail: any) => parseTransactionDetail(transactionDetail, options));
     })
     .flat();
 
@@ -233,6 +408,7 @@ export const parseEntry = (entry: any): Entry => {
     creditDebitIndicator,
     bookingDate,
     reversal,
+    status,
     amount,
     currency,
     proprietaryCode,
@@ -240,145 +416,502 @@ export const parseEntry = (entry: any): Entry => {
     additionalInformation,
     accountServicerReferenceId,
     bankTransactionCode,
-  } as Entry;
+  } as Entry<AmountOfMode<M>>;
 };
 
-export const exportEntry = (entry: Entry): any => {
-  const obj: any = {
+/**
+ * Exports an entry in the layout of the given message version, following the element order of the schema.
+ * @param {Entry} entry - The entry to export.
+ * @param {number} [version=2] - The numeric message version.
+ * @returns {any} The Ntry element.
+ */
+export const exportEntry = (entry: Entry<Amount>, version: number = 2): any => {
+  // The status is mandatory, entries without one are reported as booked
+  const status = entry.status || 'BOOK';
+  return compact({
     NtryRef: entry.referenceId,
-    CdtDbtInd: entry.creditDebitIndicator === 'credit' ? 'CRDT' : 'DBIT',
-    BookgDt: {
-      DtTm: entry.bookingDate.toISOString(),
-    },
-    RvslInd: entry.reversal,
     Amt: {
       '#text': exportAmountToString(entry.amount, entry.currency),
       '@_Ccy': entry.currency,
     },
+    CdtDbtInd: entry.creditDebitIndicator === 'credit' ? 'CRDT' : 'DBIT',
+    RvslInd: entry.reversal,
+    // Versions 7 and later use a Cd / Prtry choice
+    Sts: version < 7 ? status : { Cd: status },
+    BookgDt: entry.bookingDate
+      ? { DtTm: entry.bookingDate.toISOString() }
+      : undefined,
+    AcctSvcrRef: entry.accountServicerReferenceId,
     BkTxCd: exportBankTransactionCode(entry.bankTransactionCode, entry.proprietaryCode),
+    NtryDtls: entry.transactions.map((tx) => ({ TxDtls: exportTransactionDetails(tx, version) })),
     AddtlNtryInf: entry.additionalInformation,
-    AcctSvcrRef: entry.accountServicerReferenceId,
-    NtryDtls: entry.transactions.map((tx) => ({TxDtls: exportTransactionDetails(tx)}))
-  }
-  return obj;
+  });
 }
 
-const parseTransactionDetail = (transactionDetail: any): Transaction => {
+const parseTransactionDetail = <M extends AmountMode = 'number'>(
+  transactionDetail: any,
+  options: AmountParsingOptions<M>,
+): Transaction<AmountOfMode<M>> => {
   const messageId = transactionDetail.Refs?.MsgId;
   const accountServicerReferenceId = transactionDetail.Refs?.AcctSvcrRef;
   const paymentInformationId = transactionDetail.Refs?.PmtInfId;
   const remittanceInformation = transactionDetail.RmtInf?.Ustrd;
   const proprietaryPurpose = transactionDetail.Purp?.Prtry;
-  const returnReason = transactionDetail.RtrInf?.Rsn;
+  // Return reasons are a Cd / Prtry choice in most versions
+  const rawReturnReason = transactionDetail.RtrInf?.Rsn;
+  const returnReason = rawReturnReason?.Cd || rawReturnReason?.Prtry || rawReturnReason;
   const returnAdditionalInformation = transactionDetail.RtrInf?.AddtlInf;
   const endToEndId = transactionDetail.Refs?.EndToEndId;
 
-  // Get Debtor information if 'Dbtr' is present
-  let debtor;
-  let debtorName;
-  let debtorAccount;
-  let debtorAgent;
-  if (transactionDetail.RltdPties?.Dbtr) {
-    debtorName = transactionDetail.RltdPties.Dbtr.Nm;
-  }
-  if (transactionDetail.RltdPties?.DbtrAcct) {
-    debtorAccount = parseAccount(transactionDetail.RltdPties.DbtrAcct);
-  }
-  if (transactionDetail.RltdAgts?.DbtrAgt) {
-    debtorAgent = parseAgent(transactionDetail.RltdAgts.DbtrAgt);
-  }
-
-  if (debtorName || debtorAccount || debtorAgent) {
-    debtor = {
-      name: debtorName,
-      account: debtorAccount,
-      agent: debtorAgent,
-    } as Party;
-  }
-
-  // Get Creditor information if 'Cdtr' is presentt
-  let creditor;
-  let creditorName;
-  let creditorAccount;
-  let creditorAgent;
-  if (transactionDetail.RltdPties?.Cdtr) {
-    creditorName = transactionDetail.RltdPties.Cdtr.Nm;
-  }
-  if (transactionDetail.RltdPties?.CdtrAcct) {
-    creditorAccount = parseAccount(transactionDetail.RltdPties.CdtrAcct);
-  }
-  if (transactionDetail.RltdAgts?.CdtrAgt) {
-    creditorAgent = parseAgent(transactionDetail.RltdAgts.CdtrAgt);
-  }
-
-  if (creditorName || creditorAccount || creditorAgent) {
-    creditor = {
-      name: creditorName,
-      account: creditorAccount,
-      agent: creditorAgent,
-    } as Party;
+  // Versions 3 and later carry the booked amount of each transaction
+  const amount = transactionDetail.Amt
+    ? parseAmountWithMode(transactionDetail.Amt['#text'], transactionDetail.Amt['@_Ccy'], options)
+    : undefined;
+  const currency = transactionDetail.Amt?.['@_Ccy'];
+  let creditDebitIndicator: 'credit' | 'debit' | undefined;
+  if (transactionDetail.CdtDbtInd) {
+    creditDebitIndicator = transactionDetail.CdtDbtInd === 'CRDT' ? 'credit' : 'debit';
   }
+  const amountDetails = transactionDetail.AmtDtls
+    ? parseTransactionAmountDetails(transactionDetail.AmtDtls, options)
+    : undefined;
+  const charges = transactionDetail.Chrgs ? parseTransactionCharges(transactionDetail.Chrgs, options) : undefined;
+
+  const relatedParties = transactionDetail.RltdPties;
+  const relatedAgents = transactionDetail.RltdAgts;
+  const initiatingParty = parseRelatedParty(relatedParties?.InitgPty);
+  const debtor = parseRelatedParty(relatedParties?.Dbtr, relatedParties?.DbtrAcct, relatedAgents?.DbtrAgt);
+  const ultimateDebtor = parseRelatedParty(relatedParties?.UltmtDbtr);
+  const creditor = parseRelatedParty(relatedParties?.Cdtr, relatedParties?.CdtrAcct, relatedAgents?.CdtrAgt);
+  const ultimateCreditor = parseRelatedParty(relatedParties?.UltmtCdtr);
+
+  // National creditor references are recognised from the country of the creditor account
+  const creditorCountry = (creditor?.account as IBANAccount | undefined)?.iban?.slice(0, 2) as Alpha2Country | undefined;
+  const structuredRemittanceInformation = transactionDetail.RmtInf?.Strd
+    ? toArray(transactionDetail.RmtInf.Strd).map(rawRemittance => parseStructuredRemittance(rawRemittance, options, creditorCountry))
+    : undefined;
+  const rfCreditorReference = remittanceInformation ? findRFCreditorReference(toArray(remittanceInformation).join(' ')) : undefined;
+  const creditorReference = structuredRemittanceInformation?.find(remittance => remittance.creditorReference)?.creditorReference
+    || (rfCreditorReference ? { reference: rfCreditorReference, scheme: 'rf' as const } : undefined);
 
   return {
     messageId,
     accountServicerReferenceId,
     endToEndId,
     paymentInformationId,
+    amount,
+    currency,
+    creditDebitIndicator,
+    instructedAmount: amountDetails?.instructed?.amount,
+    instructedCurrency: amountDetails?.instructed?.currency,
+    amountDetails,
+    charges,
     remittanceInformation,
+    structuredRemittanceInformation,
+    creditorReference,
     proprietaryPurpose,
     returnReason,
     returnAdditionalInformation,
+    initiatingParty,
     debtor,
+    ultimateDebtor,
     creditor,
-  } as Transaction;
+    ultimateCreditor,
+    relatedAgents: parseRelatedAgents(relatedAgents),
+  } as Transaction<AmountOfMode<M>>;
 };
 
-const exportTransactionDetails = (tx: Transaction): any => {
-  const obj: any = {
-    Refs: {
+const exportTransactionDetails = (tx: Transaction<Amount>, version: number): any => {
+  return compact({
+    Refs: compact({
       MsgId: tx.messageId,
       AcctSvcrRef: tx.accountServicerReferenceId,
       PmtInfId: tx.paymentInformationId,
       EndToEndId: tx.endToEndId,
-    },
-    RmtInf: {
+    }),
+    // Versions 3 and later carry the booked amount of each transaction
+    Amt: version >= 3 && tx.amount !== undefined && tx.currency
+      ? exportCurrencyAmount(tx.amount, tx.currency)
+      : undefined,
+    CdtDbtInd: version >= 3 && tx.creditDebitIndicator
+      ? (tx.creditDebitIndicator === 'credit' ? 'CRDT' : 'DBIT')
+      : undefined,
+    AmtDtls: exportTransactionAmountDetails(tx),
+    Chrgs: tx.charges ? exportTransactionCharges(tx.charges, version) : undefined,
+    RltdPties: compact({
+      InitgPty: exportRelatedParty(tx.initiatingParty, version),
+      Dbtr: exportRelatedParty(tx.debtor, version),
+      DbtrAcct: tx.debtor?.account ? exportAccount(tx.debtor.account) : undefined,
+      UltmtDbtr: exportRelatedParty(tx.ultimateDebtor, version),
+      Cdtr: exportRelatedParty(tx.creditor, version),
+      CdtrAcct: tx.creditor?.account ? exportAccount(tx.creditor.account) : undefined,
+      UltmtCdtr: exportRelatedParty(tx.ultimateCreditor, version),
+    }),
+    RltdAgts: exportRelatedAgents(tx, version),
+    Purp: tx.proprietaryPurpose ? { Prtry: tx.proprietaryPurpose } : undefined,
+    RmtInf: compact({
       Ustrd: tx.remittanceInformation,
-    },
-    Purp: {
-      Prtry: tx.proprietaryPurpose,
-    },
-    RtrInf: {
-      Rsn: tx.returnReason,
+      Strd: tx.structuredRemittanceInformation?.map(remittance => exportStructuredRemittance(remittance, version)),
+    }),
+    RtrInf: compact({
+      Rsn: exportReturnReason(tx.returnReason),
       AddtlInf: tx.returnAdditionalInformation,
-    },
+    }),
+  });
+}
+
+// Newer versions wrap the party in a Pty / Agt choice
+const parseRelatedParty = (rawParty: any, rawAccount?: any, rawAgent?: any): Party | undefined => {
+  const party = rawParty?.Pty || rawParty;
+  const address = parsePostalAddress(party?.PstlAdr);
+  const identification = parsePartyIdentification(party?.Id);
+  const agent = parseOptionalAgent(rawAgent);
+  const id = identification?.organisation?.other?.[0]?.id;
+  const result: Party = {
+    ...(id && { id }),
+    ...(party?.Nm !== undefined && { name: party.Nm.toString() as string }),
+    ...(address && { address }),
+    ...(identification && { identification }),
+    ...(rawAccount?.Id && { account: parseAccount(rawAccount) }),
+    ...(agent && { agent }),
   };
-  if (tx.debtor) {
-    obj.RltdPties = {
-      ...obj.RltdPties,
-      Dbtr: {
-        Nm: tx.debtor.name,
-      },
-      DbtrAcct: tx.debtor.account ? exportAccount(tx.debtor.account) : undefined,
-    };
-    obj.RltdAgts = {
-      DbtrAgt: tx.debtor.agent ? exportAgent(tx.debtor.agent) : undefined,
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+// Versions 8 and later wrap the related parties in a Pty / Agt choice
+const exportRelatedParty = (party: Party | undefined, version: number): any => {
+  if (!party) return undefined;
+  const identification = party.identification
+    || (party.id ? { organisation: { other: [{ id: party.id }] } } : undefined);
+  const obj = compact({
+    Nm: party.name,
+    PstlAdr: party.address ? exportPostalAddress(party.address, version) : undefined,
+    Id: identification ? exportPartyIdentification(identification, version) : undefined,
+  });
+  if (!obj) return undefined;
+  return version < 8 ? obj : { Pty: obj };
+}
+
+// Versions 8 and later carry building, floor, post box, room, town location and district details
+const exportPostalAddress = (address: StructuredAddress, version: number): any => compact({
+  StrtNm: address.streetName,
+  BldgNb: address.buildingNumber,
+  BldgNm: version >= 8 ? address.buildingName : undefined,
+  Flr: version >= 8 ? address.floor : undefined,
+  PstBx: version >= 8 ? address.postBox : undefined,
+  Room: version >= 8 ? address.room : undefined,
+  PstCd: address.postalCode,
+  TwnNm: address.townName,
+  TwnLctnNm: version >= 8 ? address.townLocationName : undefined,
+  DstrctNm: version >= 8 ? address.districtName : undefined,
+  CtrySubDvsn: address.countrySubDivision,
+  Ctry: address.country,
+});
+
+// Version 2 names the BIC of an organisation BICOrBEI, versions 8 and later add the LEI
+const exportPartyIdentification = (identification: PartyIdentification, version: number): any => {
+  const exportOther = (other?: GenericIdentification[]) => other?.map(({ id, schemeName, issuer }) => compact({
+    Id: id,
+    SchmeNm: schemeName ? (/^[A-Z0-9]{4}$/.test(schemeName) ? { Cd: schemeName } : { Prtry: schemeName }) : undefined,
+    Issr: issuer,
+  }));
+  const { organisation, privatePerson } = identification;
+  const birth = privatePerson?.dateAndPlaceOfBirth;
+
+  // Party identification is a choice, an organisation takes precedence over a private person
+  if (organisation) {
+    return {
+      OrgId: compact({
+        [version < 3 ? 'BICOrBEI' : 'AnyBIC']: organisation.anyBic,
+        LEI: version >= 8 ? organisation.lei : undefined,
+        Othr: exportOther(organisation.other),
+      }),
     };
   }
-  if (tx.creditor) {
-    obj.RltdPties = {
-      ...obj.RltdPties,
-      Cdtr: {
-        Nm: tx.creditor.name,
-      },
-      CdtrAcct: tx.creditor.account ? exportAccount(tx.creditor.account) : undefined,
-    };
-    obj.RltdAgts = {
-      CdtrAgt: tx.creditor.agent ? exportAgent(tx.creditor.agent) : undefined,
+  return {
+    PrvtId: compact({
+      DtAndPlcOfBirth: birth ? compact({
+        BirthDt: birth.birthDate.toISOString().split('T')[0],
+        PrvcOfBirth: birth.provinceOfBirth,
+        CityOfBirth: birth.cityOfBirth,
+        CtryOfBirth: birth.countryOfBirth,
+      }) : undefined,
+      Othr: exportOther(privatePerson?.other),
+    }),
+  };
+}
+
+const parseRelatedAgents = (rawAgents: any): RelatedAgents | undefined => compact({
+  instructingAgent: parseOptionalAgent(rawAgents?.InstgAgt),
+  instructedAgent: parseOptionalAgent(rawAgents?.InstdAgt),
+  intermediaryAgent1: parseOptionalAgent(rawAgents?.IntrmyAgt1),
+  intermediaryAgent2: parseOptionalAgent(rawAgents?.IntrmyAgt2),
+  intermediaryAgent3: parseOptionalAgent(rawAgents?.IntrmyAgt3),
+  receivingAgent: parseOptionalAgent(rawAgents?.RcvgAgt),
+  deliveringAgent: parseOptionalAgent(rawAgents?.DlvrgAgt),
+  issuingAgent: parseOptionalAgent(rawAgents?.IssgAgt),
+  settlementPlace: parseOptionalAgent(rawAgents?.SttlmPlc),
+});
+
+// Versions 8 and later start with the instructing and instructed agents
+const exportRelatedAgents = (tx: Transaction<Amount>, version: number): any => {
+  const agents = tx.relatedAgents || {};
+  const exportOptionalAgent = (agent?: Agent) => (agent ? exportVersionedAgent(agent, version) : undefined);
+  return compact({
+    InstgAgt: version >= 8 ? exportOptionalAgent(agents.instructingAgent) : undefined,
+    InstdAgt: version >= 8 ? exportOptionalAgent(agents.instructedAgent) : undefined,
+    DbtrAgt: exportOptionalAgent(tx.debtor?.agent),
+    CdtrAgt: exportOptionalAgent(tx.creditor?.agent),
+    IntrmyAgt1: exportOptionalAgent(agents.intermediaryAgent1),
+    IntrmyAgt2: exportOptionalAgent(agents.intermediaryAgent2),
+    IntrmyAgt3: exportOptionalAgent(agents.intermediaryAgent3),
+    RcvgAgt: exportOptionalAgent(agents.receivingAgent),
+    DlvrgAgt: exportOptionalAgent(agents.deliveringAgent),
+    IssgAgt: exportOptionalAgent(agents.issuingAgent),
+    SttlmPlc: exportOptionalAgent(agents.settlementPlace),
+  });
+}
+
+const parseTransactionAmountDetails = <M extends AmountMode = 'number'>(
+  amountDetails: any,
+  options: AmountParsingOptions<M>,
+): TransactionAmountDetails<AmountOfMode<M>> | undefined => {
+  const parseAmountAndCurrencyExchange = (rawAmount: any): AmountAndCurrencyExchange<AmountOfMode<M>> | undefined => {
+    if (!rawAmount?.Amt) return undefined;
+    return {
+      amount: parseAmountWithMode(rawAmount.Amt['#text'], rawAmount.Amt['@_Ccy'], options),
+      currency: rawAmount.Amt['@_Ccy'],
+      ...(rawAmount.CcyXchg && { currencyExchange: parseCurrencyExchange(rawAmount.CcyXchg) }),
     };
+  };
+
+  return compact({
+    instructed: parseAmountAndCurrencyExchange(amountDetails.InstdAmt),
+    transaction: parseAmountAndCurrencyExchange(amountDetails.TxAmt),
+    counterValue: parseAmountAndCurrencyExchange(amountDetails.CntrValAmt),
+    announcedPosting: parseAmountAndCurrencyExchange(amountDetails.AnncdPstngAmt),
+  });
+}
+
+// Falls back to the instructed amount of the transaction, for transactions created by hand
+const exportTransactionAmountDetails = (tx: Transaction<Amount>): any => {
+  const details = tx.amountDetails || {};
+  const instructed = details.instructed || (tx.instructedAmount !== undefined && tx.instructedCurrency
+    ? { amount: tx.instructedAmount, currency: tx.instructedCurrency }
+    : undefined);
+  const exportAmountAndCurrencyExchange = (amount?: AmountAndCurrencyExchange<Amount>) => {
+    if (!amount) return undefined;
+    return compact({
+      Amt: exportCurrencyAmount(amount.amount, amount.currency),
+      CcyXchg: amount.currencyExchange ? exportCurrencyExchange(amount.currencyExchange) : undefined,
+    });
+  };
+
+  return compact({
+    InstdAmt: exportAmountAndCurrencyExchange(instructed),
+    TxAmt: exportAmountAndCurrencyExchange(details.transaction),
+    CntrValAmt: exportAmountAndCurrencyExchange(details.counterValue),
+    AnncdPstngAmt: exportAmountAndCurrencyExchange(details.announcedPosting),
+  });
+}
+
+const parseCurrencyExchange = (currencyExchange: any): CurrencyExchange => ({
+  sourceCurrency: currencyExchange.SrcCcy,
+  ...(currencyExchange.TrgtCcy && { targetCurrency: currencyExchange.TrgtCcy }),
+  ...(currencyExchange.UnitCcy && { unitCurrency: currencyExchange.UnitCcy }),
+  exchangeRate: Number(currencyExchange.XchgRate),
+  ...(currencyExchange.CtrctId !== undefined && { contractId: currencyExchange.CtrctId.toString() }),
+  ...(currencyExchange.QtnDt && { quotationDate: new Date(currencyExchange.QtnDt) }),
+});
+
+const exportCurrencyExchange = (currencyExchange: CurrencyExchange): any => compact({
+  SrcCcy: currencyExchange.sourceCurrency,
+  TrgtCcy: currencyExchange.targetCurrency,
+  UnitCcy: currencyExchange.unitCurrency,
+  XchgRate: currencyExchange.exchangeRate,
+  CtrctId: currencyExchange.contractId,
+  QtnDt: currencyExchange.quotationDate?.toISOString(),
+});
+
+// Version 2 lists the charges directly, versions 3 and later group them in Rcrd with an overall total
+const parseTransactionCharges = <M extends AmountMode = 'number'>(
+  charges: any,
+  options: AmountParsingOptions<M>,
+): TransactionCharges<AmountOfMode<M>> => {
+  const rawRecords = charges.Rcrd !== undefined
+    ? toArray(charges.Rcrd)
+    : toArray(charges).filter((record: any) => record.Amt);
+  const rawTotal = charges.TtlChrgsAndTaxAmt ?? rawRecords.find((record: any) => record.TtlChrgsAndTaxAmt)?.TtlChrgsAndTaxAmt;
+
+  return {
+    ...(rawTotal && {
+      totalChargesAndTaxAmount: parseAmountWithMode(rawTotal['#text'], rawTotal['@_Ccy'], options),
+      totalChargesAndTaxCurrency: rawTotal['@_Ccy'],
+    }),
+    records: rawRecords.map((record: any) => parseChargesRecord(record, options)),
+  };
+}
+
+const parseChargesRecord = <M extends AmountMode = 'number'>(
+  record: any,
+  options: AmountParsingOptions<M>,
+): ChargesRecord<AmountOfMode<M>> => {
+  const type = record.Tp?.Cd || record.Tp?.Prtry?.Id;
+  // Version 2 names the agent that took the charge Pty
+  const rawAgent = record.Agt || record.Pty;
+  return {
+    amount: parseAmountWithMode(record.Amt['#text'], record.Amt['@_Ccy'], options),
+    currency: record.Amt['@_Ccy'],
+    ...(record.CdtDbtInd && { creditDebitIndicator: record.CdtDbtInd === 'CRDT' ? 'credit' : 'debit' }),
+    ...(record.ChrgInclInd !== undefined && { chargeIncluded: record.ChrgInclInd === true }),
+    ...(type && { type: type.toString() }),
+    ...(record.Rate !== undefined && { rate: Number(record.Rate) }),
+    ...(record.Br && { bearer: record.Br }),
+    ...(rawAgent && { agent: parseAgent(rawAgent) }),
+  };
+}
+
+const exportTransactionCharges = (charges: TransactionCharges<Amount>, version: number): any => {
+  const total = charges.totalChargesAndTaxAmount !== undefined && charges.totalChargesAndTaxCurrency
+    ? exportCurrencyAmount(charges.totalChargesAndTaxAmount, charges.totalChargesAndTaxCurrency)
+    : undefined;
+  const exportRecord = (record: ChargesRecord<Amount>, index: number) => compact({
+    // Version 2 has no overall total, it is reported on the first charge instead
+    TtlChrgsAndTaxAmt: version < 3 && index === 0 ? total : undefined,
+    Amt: exportCurrencyAmount(record.amount, record.currency),
+    CdtDbtInd: record.creditDebitIndicator ? (record.creditDebitIndicator === 'credit' ? 'CRDT' : 'DBIT') : undefined,
+    ChrgInclInd: version >= 3 ? record.chargeIncluded : undefined,
+    Tp: exportChargeType(record.type, version),
+    Rate: record.rate,
+    Br: record.bearer,
+    [version < 3 ? 'Pty' : 'Agt']: record.agent ? exportVersionedAgent(record.agent, version) : undefined,
+  });
+
+  if (version < 3) {
+    return charges.records.map(exportRecord);
+  }
+  return compact({
+    TtlChrgsAndTaxAmt: total,
+    Rcrd: charges.records.map(exportRecord),
+  });
+}
+
+// Version 2 only knows the BRKF and COMM codes, anything else is proprietary
+const exportChargeType = (type: string | undefined, version: number): any => {
+  if (!type) return undefined;
+  const isCode = version < 3 ? ['BRKF', 'COMM'].includes(type) : /^[A-Z0-9]{4}$/.test(type);
+  return isCode ? { Cd: type } : { Prtry: { Id: type } };
+}
+
+// Version 2 has a single amount of each kind, versions 3 to 11 typed lists of discounts and taxes,
+// and version 12 onwards only typed amounts (RmtAmtAndTp). Tax remittance is only known from version 3 onwards.
+const exportStructuredRemittance = (remittance: StructuredRemittance<Amount>, version: number): any => {
+  const documentAmount = remittance.referredDocumentAmount;
+  const documentAmountOf = (value: Amount | undefined) =>
+    value !== undefined && documentAmount ? exportCurrencyAmount(value, documentAmount.currency) : undefined;
+  const typedAmountOf = (value: Amount | undefined) => {
+    const amount = documentAmountOf(value);
+    return amount && version >= 3 ? { Amt: amount } : amount;
+  };
+  const taxAmountOf = (value: Amount | undefined) =>
+    value !== undefined && remittance.taxRemittance?.currency ? exportCurrencyAmount(value, remittance.taxRemittance.currency) : undefined;
+  const exportDate = (date: Date | undefined) => date?.toISOString().split('T')[0];
+  const exportType = (type: string | undefined, issuer: string | undefined, isCode: boolean) => compact({
+    CdOrPrtry: type ? (isCode ? { Cd: type } : { Prtry: type }) : undefined,
+    Issr: issuer,
+  });
+  const reference = remittance.creditorReference;
+  const tax = remittance.taxRemittance;
+
+  return compact({
+    RfrdDocInf: remittance.referredDocuments?.map(document => compact({
+      // Purchase orders only became a document type code in version 3
+      Tp: exportType(document.type, document.issuer, Object.values<string>(DocumentTypeCode).includes(document.type || '')
+        && (version >= 3 || document.type !== DocumentTypeCode.PurchaseOrder)),
+      Nb: document.number,
+      RltdDt: document.relatedDate && (version < 12 ? exportDate(document.relatedDate) : {
+        Tp: /^[A-Z0-9]{4}$/.test(document.relatedDateType || '')
+          ? { Cd: document.relatedDateType }
+          : { Prtry: document.relatedDateType || 'DOCUMENT DATE' },
+        Dt: exportDate(document.relatedDate),
+      }),
+    })),
+    RfrdDocAmt: documentAmount && (version < 12
+      ? compact({
+        DuePyblAmt: documentAmountOf(documentAmount.duePayableAmount),
+        DscntApldAmt: typedAmountOf(documentAmount.discountAppliedAmount),
+        CdtNoteAmt: documentAmountOf(documentAmount.creditNoteAmount),
+        TaxAmt: typedAmountOf(documentAmount.taxAmount),
+        RmtdAmt: documentAmountOf(documentAmount.remittedAmount),
+      })
+      : compact({
+        RmtAmtAndTp: ([
+          ['DUEP', documentAmount.duePayableAmount],
+          ['DICA', documentAmount.discountAppliedAmount],
+          ['CREN', documentAmount.creditNoteAmount],
+          ['TAXA', documentAmount.taxAmount],
+          ['RMTD', documentAmount.remittedAmount],
+        ] as const)
+          .filter(([, value]) => value !== undefined)
+          .map(([type, value]) => ({ Tp: { Cd: type }, Amt: documentAmountOf(value) })),
+      })),
+    CdtrRefInf: reference && compact({
+      Tp: exportType(reference.type, reference.issuer, Object.values<string>(CreditorReferenceTypeCode).includes(reference.type || '')),
+      Ref: reference.reference,
+    }),
+    TaxRmt: tax && version >= 3 ? compact({
+      Cdtr: tax.creditorTaxId ? { TaxId: tax.creditorTaxId } : undefined,
+      Dbtr: tax.debtorTaxId ? { TaxId: tax.debtorTaxId } : undefined,
+      RefNb: tax.referenceNumber,
+      Mtd: tax.method,
+      TtlTaxblBaseAmt: taxAmountOf(tax.totalTaxableBaseAmount),
+      TtlTaxAmt: taxAmountOf(tax.totalTaxAmount),
+      Dt: exportDate(tax.date),
+    }) : undefined,
+    AddtlRmtInf: remittance.additionalInformation,
+  });
+}
+
+const exportCurrencyAmount = (amount: Amount, currency: Currency): any => ({
+  '#text': exportAmountToString(amount, currency),
+  '@_Ccy': currency,
+});
+
+/**
+ * Parses the sum of the entries of a transactions summary into minor units.
+ * The sum carries no currency information, so it defaults to USD like the net amount of the entries.
+ */
+const parseSum = <M extends AmountMode = 'number'>(rawSum: any, options: AmountParsingOptions<M>): AmountOfMode<M> | undefined =>
+  rawSum !== undefined ? parseAmountWithMode(rawSum, 'USD', options) : undefined;
+
+const exportSum = (sum: Amount | undefined, currency?: Currency): string | undefined =>
+  sum !== undefined ? exportAmountToString(sum, currency) : undefined;
+
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : [value]);
+
+// ISO return reasons are 4 character codes (e.g. AC01), anything else (e.g. NACHA R03) is proprietary
+const exportReturnReason = (returnReason?: string): any => {
+  if (!returnReason) return undefined;
+  return /^[A-Z0-9]{4}$/.test(returnReason) ? { Cd: returnReason } : { Prtry: returnReason };
+}
+
+// Versions 3 and later name the BIC of a financial institution BICFI
+const exportVersionedAgent = (agent: Agent, version: number): any => {
+  const obj = exportAgent(agent);
+  if (version >= 3 && obj.FinInstnId.BIC) {
+    obj.FinInstnId = { BICFI: obj.FinInstnId.BIC };
   }
   return obj;
 }
 
+// Drops undefined values, empty objects and empty arrays, returning undefined when nothing is left
+const compact = (obj: Record<string, any>): any => {
+  const entries = Object.entries(obj).filter(([, value]) =>
+    value !== undefined && !(Array.isArray(value) && value.length === 0),
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
 const parseBankTransactionCode = (
   transactionCode: any,
 ): BankTransactionCode | undefined => {
@@ -403,10 +936,7 @@ const exportBankTransactionCode = (
 ): any => {
   const obj: any = {
   }
-  if (proprietaryCode) {
-    obj.Prtry = { Cd: proprietaryCode };
-  }
-  if (bankTransactionCode) {
+  if (bankTransactionCode?.domainCode) {
     obj.Domn = {
       Cd: bankTransactionCode.domainCode,
       Fmly: {
@@ -414,12 +944,14 @@ const exportBankTransactionCode = (
         SubFmlyCd: bankTransactionCode.domainSubFamilyCode,
       },
     };
-    if (bankTransactionCode.proprietaryCode) {
-      obj.Prtry = {
-        Cd: bankTransactionCode.proprietaryCode,
-        Issr: bankTransactionCode.proprietaryCodeIssuer,
-      };
-    }
+  }
+  if (bankTransactionCode?.proprietaryCode) {
+    obj.Prtry = {
+      Cd: bankTransactionCode.proprietaryCode,
+      Issr: bankTransactionCode.proprietaryCodeIssuer,
+    };
+  } else if (proprietaryCode) {
+    obj.Prtry = { Cd: proprietaryCode };
   }
   return obj;
 }
@@ -32,3 +32,33 @@ export function sumAmounts(amounts: number[], currency: Currency): string {
   const total = dineros.reduce((acc, next) => add(acc, next));
   return formatDinero(total);
 }
+
+/**
+ * Sums amounts of different currencies per currency.
+ * @param {{ amount: number; currency: Currency }[]} amounts - The amounts, in minor units of their currency.
+ * @returns {Partial<Record<Currency, string>>} The formatted total of every currency, in order of first appearance.
+ */
+export function sumAmountsByCurrency(amounts: { amount: number; currency: Currency }[]): Partial<Record<Currency, string>> {
+  const currencies = Array.from(new Set(amounts.map(({ currency }) => currency)));
+  return Object.fromEntries(currencies.map(currency => [
+    currency,
+    sumAmounts(amounts.filter(amount => amount.currency === currency).map(({ amount }) => amount), currency),
+  ]));
+}
+
+/**
+ * Sums amounts irrespective of their currencies, as the control sum (CtrlSum) of a mixed-currency message.
+ * Amounts are scaled to the largest precision of their currencies, so that 100 JPY and 1.25 USD add up to 101.25.
+ * @param {{ amount: number; currency: Currency }[]} amounts - The amounts, in minor units of their currency.
+ * @returns {string} The formatted total, with the largest precision of the currencies.
+ */
+export function sumAmountsAcrossCurrencies(amounts: { amount: number; currency: Currency }[]): string {
+  const exponent = Math.max(...amounts.map(({ currency }) => getCurrencyPrecision(currency)));
+  // The total has no currency of its own, XXX is the ISO 4217 code for transactions where no currency is involved
+  const curr = { code: 'XXX', base: 10, exponent };
+  const dineros = amounts.map(({ amount, currency }) => dinero({
+    amount: amount * 10 ** (exponent - getCurrencyPrecision(currency)),
+    currency: curr,
+  }));
+  return formatDinero(dineros.reduce((acc, next) => add(acc, next)));
+}
@@ -38,4 +38,58 @@ export class InvalidStructureError extends Iso20022JsError {
   constructor(message: string) {
     super(message);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error thrown when the XSD schema needed to validate a message is not available.
+ */
+export class SchemaNotFoundError extends Iso20022JsError {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Error thrown when a message is validated against its XSD schema without the optional libxmljs package installed.
+ */
+export class SchemaValidatorNotFoundError extends Iso20022JsError {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Error thrown when a party of a payment instruction carries an invalid IBAN, BIC, ABA routing number or account number.
+ * Names the offending instruction, so that it can be fixed before the file is sent to the bank.
+ */
+export class InvalidPaymentInstructionError extends Iso20022JsError {
+  /** The id (or end-to-end id) of the offending instruction, if it has one. */
+  public readonly instructionId?: string;
+  /** The position of the offending instruction, undefined for the initiating party. */
+  public readonly instructionIndex?: number;
+  /** The party of the instruction that failed validation. */
+  public readonly party: 'debtor' | 'creditor';
+  /** The problems found. */
+  public readonly errors: string[];
+
+  constructor(
+    message: string,
+    details: { instructionId?: string; instructionIndex?: number; party: 'debtor' | 'creditor'; errors: string[] },
+  ) {
+    super(message);
+    this.instructionId = details.instructionId;
+    this.instructionIndex = details.instructionIndex;
+    this.party = details.party;
+    this.errors = details.errors;
+  }
+}
+
+/**
+ * Error thrown when an amount cannot be represented exactly as a JavaScript number of minor units.
+ * Parse with the `bigint` amount mode to read such amounts.
+ */
+export class AmountOutOfRangeError extends Iso20022JsError {
+  constructor(message: string) {
+    super(message);
+  }
+}
@@ -13,6 +13,7 @@
  * - SWIFTCreditPaymentInstruction
  * - SEPACreditPaymentInstruction
  * - RTPCreditPaymentInstruction
+ * - SEPADirectDebitPaymentInstruction
  * @example
  * ```typescript
  * import { ISO20022 } from 'iso20022.js';
@@ -30,7 +31,7 @@
  *         accountNumber: '123456789012',
  *       },
  *       agent: {
- *         abaRoutingNumber: '37714568112',
+ *         abaRoutingNumber: '021000021',
  *       },
  *     },
  *     remittanceInformation: '1000 Hot Dogs Feb26',
@@ -43,9 +44,15 @@
  */
 
 export { default as ISO20022 } from './iso20022';
+export type { ISO20022ParsedMessages, ParsedISO20022Message } from './iso20022';
 
 export type {
   Party,
+  PartyIdentification,
+  OrganisationIdentification,
+  PrivateIdentification,
+  DateAndPlaceOfBirth,
+  GenericIdentification,
   Account,
   Agent,
   SWIFTCreditPaymentInstruction,
@@ -58,20 +65,79 @@ export type {
   BICAgent,
   ABAAgent,
   ACHLocalInstrument,
+  SEPADirectDebitPaymentInstruction,
+  MandateInformation,
+  MandateAmendmentInformation,
+  SEPADirectDebitSequenceType,
+  SEPADirectDebitLocalInstrument,
+  PaymentInformation,
+  DirectDebitPaymentInformation,
+  ChargeBearerType,
+  ServiceLevel,
+  InstructionPriority,
+  ExternalCategoryPurpose,
+  ExternalPurpose,
+  InstructionForCreditorAgent,
+  InstructionForCreditorAgentType,
+  RegulatoryReporting,
+  RegulatoryReportingDetails,
+  RegulatoryReportingType,
+  ExchangeRateInformation,
+  ExchangeRateType,
+  Amount,
+  AmountMode,
+  AmountOfMode,
+  AmountParsingOptions,
+  StructuredRemittance,
+  ReferredDocument,
+  RemittanceAmount,
+  CreditorReference,
+  TaxRemittance,
+  DocumentType,
+  CreditorReferenceType,
+  CreditorReferenceScheme,
 } from './lib/types';
 
 export { ACHLocalInstrumentCode, ACHLocalInstrumentCodeDescriptionMap } from './lib/types';
+export { ChargeBearerTypeCode, ChargeBearerTypeCodeDescriptionMap } from './lib/types';
+export { ServiceLevelCode, ServiceLevelCodeDescriptionMap, InstructionPriorityCode } from './lib/types';
+export {
+  ExternalCategoryPurposeCode,
+  ExternalCategoryPurposeCodeDescriptionMap,
+  ExternalPurposeCode,
+  ExternalPurposeCodeDescriptionMap,
+} from './lib/types';
+export {
+  InstructionForCreditorAgentCode,
+  InstructionForCreditorAgentCodeDescriptionMap,
+  RegulatoryReportingTypeCode,
+  ExchangeRateTypeCode,
+  ExchangeRateTypeCodeDescriptionMap,
+} from './lib/types';
+export { DocumentTypeCode, CreditorReferenceTypeCode } from './lib/types';
+export {
+  SEPADirectDebitSequenceTypeCode,
+  SEPADirectDebitSequenceTypeCodeDescriptionMap,
+  SEPADirectDebitLocalInstrumentCode,
+  SEPADirectDebitLocalInstrumentCodeDescriptionMap,
+} from './lib/types';
 
 // pain.001
+export type { PaymentInitiationVersion, RequestedExecutionDateOptions, PaymentTypeOptions } from './pain/001/payment-initiation';
+export { PaymentInitiationVersions } from './pain/001/payment-initiation';
 export type { SWIFTCreditPaymentInitiationConfig } from './pain/001/swift-credit-payment-initiation';
 export { SWIFTCreditPaymentInitiation } from './pain/001/swift-credit-payment-initiation';
-export type { SEPACreditPaymentInitiationConfig } from './pain/001/sepa-credit-payment-initiation';
+export type { SEPACreditPaymentInitiationConfig, SEPAInstantOptions } from './pain/001/sepa-credit-payment-initiation';
 export { SEPACreditPaymentInitiation } from './pain/001/sepa-credit-payment-initiation';
 export type { RTPCreditPaymentInitiationConfig } from './pain/001/rtp-credit-payment-initiation';
 export { RTPCreditPaymentInitiation } from './pain/001/rtp-credit-payment-initiation';
 export type { ACHCreditPaymentInitiationConfig } from './pain/001/ach-credit-payment-initiation';
 export { ACHCreditPaymentInitiation } from './pain/001/ach-credit-payment-initiation';
 
+// pain.008
+export type { SEPADirectDebitPaymentInitiationConfig } from './pain/008/sepa-direct-debit-payment-initiation';
+export { SEPADirectDebitPaymentInitiation } from './pain/008/sepa-direct-debit-payment-initiation';
+
 // pain.002
 export type {
   OriginalGroupInformation,
@@ -82,9 +148,27 @@ export type {
   PaymentStatusInformation as PaymentStatus,
   TransactionStatusInformation as TransactionStatus,
   StatusInformation,
+  StatusReason,
+  ChargesInformation,
+  OriginalTransactionReference,
+} from './pain/002/types';
+export {
+  PaymentStatusCode,
+  PaymentStatusCodeDescriptionMap,
+  StatusReasonCode,
+  StatusReasonCodeDescriptionMap,
+  isFinal,
+  isRejected,
+  isSuccessful,
 } from './pain/002/types';
-export { PaymentStatusCode } from './pain/002/types';
-export { PaymentStatusReport } from './pain/002/payment-status-report';
+export type {
+  PaymentStatusReportConfig,
+  PaymentStatusReportVersion,
+  PaymentStatusReportFromPaymentInitiationOptions,
+  ReportablePaymentInitiation,
+  TransactionStatusInput,
+} from './pain/002/payment-status-report';
+export { PaymentStatusReport, PaymentStatusReportVersions } from './pain/002/payment-status-report';
 
 // camt.053
 export type {
@@ -92,14 +176,100 @@ export type {
   Balance,
   Entry,
   Transaction,
+  RelatedAgents,
+  TransactionAmountDetails,
+  AmountAndCurrencyExchange,
+  CurrencyExchange,
+  TransactionCharges,
+  ChargesRecord,
   BalanceType,
 } from './camt/types';
 export { BalanceTypeCode, BalanceTypeCodeDescriptionMap } from './camt/types';
-export { CashManagementEndOfDayReport } from './camt/053/cash-management-end-of-day-report';
+export type { BankTransactionCode } from './camt/types';
+export type {
+  BankTransactionDomain,
+  BankTransactionFamily,
+  BankTransactionSubFamily,
+} from './camt/bank-transaction-codes';
+export {
+  BankTransactionDomainCode,
+  BankTransactionDomainCodeDescriptionMap,
+  BankTransactionFamilyCode,
+  BankTransactionFamilyCodeDescriptionMap,
+  BankTransactionSubFamilyCode,
+  BankTransactionSubFamilyCodeDescriptionMap,
+  BankTransactionCodeStructure,
+  isValidBankTransactionCode,
+  describeBankTransactionCode,
+  isCardTransaction,
+  isReturn,
+} from './camt/bank-transaction-codes';
+export type { CashManagementEndOfDayReportVersion } from './camt/053/cash-management-end-of-day-report';
+export { CashManagementEndOfDayReport, CashManagementEndOfDayReportVersions } from './camt/053/cash-management-end-of-day-report';
+
+// camt.052
+export type { Report, EntryStatus } from './camt/types';
+export { EntryStatusCode, EntryStatusCodeDescriptionMap } from './camt/types';
+export type { CashManagementAccountReportVersion } from './camt/052/cash-management-account-report';
+export { CashManagementAccountReport, CashManagementAccountReportVersions } from './camt/052/cash-management-account-report';
+
+// camt.054
+export type { Notification } from './camt/types';
+export type { CashManagementDebitCreditNotificationVersion } from './camt/054/cash-management-debit-credit-notification';
+export { CashManagementDebitCreditNotification, CashManagementDebitCreditNotificationVersions } from './camt/054/cash-management-debit-credit-notification';
+
+// schema validation
+export type {
+  SchemaValidationOptions,
+  SchemaValidationError,
+  SchemaValidationResult,
+} from './lib/schema-validation';
+export { validateXMLAgainstSchema } from './lib/schema-validation';
+
+// message detection
+export type { DetectedISO20022Message } from './lib/interfaces';
+export { detectISO20022Message } from './lib/interfaces';
+
+// identifier validation
+export type { IBANCountrySpecification, IdentifierValidationResult } from './lib/validation';
+
+// business days
+export type { BusinessDayCalendar, BusinessDayConvention } from './lib/business-days';
+export { toISODate, bankHolidays, isBusinessDay, nextBusinessDay, adjustToBusinessDay } from './lib/business-days';
+
+// creditor references
+export type { KIDAlgorithm } from './lib/creditor-reference';
+export {
+  generateCreditorReference,
+  validateCreditorReference,
+  detectCreditorReferenceScheme,
+  findRFCreditorReference,
+  creditorReferenceRemittance,
+  generateRFCreditorReference,
+  validateRFCreditorReference,
+  generateSwissQRReference,
+  validateSwissQRReference,
+  generateKIDReference,
+  validateKIDReference,
+  generateFinnishReference,
+  validateFinnishReference,
+} from './lib/creditor-reference';
+export {
+  IBANCountrySpecifications,
+  validateIBAN,
+  validateBIC,
+  validateABARoutingNumber,
+  validateUSAccountNumber,
+  validatePartyIdentifiers,
+} from './lib/validation';
 
 // errors
 export {
   Iso20022JsError,
   InvalidXmlError,
   InvalidXmlNamespaceError,
+  SchemaNotFoundError,
+  SchemaValidatorNotFoundError,
+  InvalidPaymentInstructionError,
+  AmountOutOfRangeError,
 } from './errors';
@@ -1,9 +1,27 @@
-import { Party, SWIFTCreditPaymentInstruction, SEPACreditPaymentInstruction, RTPCreditPaymentInstruction, ACHCreditPaymentInstruction } from './lib/types.js';
+import { Party, SWIFTCreditPaymentInstruction, SEPACreditPaymentInstruction, RTPCreditPaymentInstruction, ACHCreditPaymentInstruction, SEPADirectDebitPaymentInstruction, SEPADirectDebitSequenceType, SEPADirectDebitLocalInstrument } from './lib/types.js';
+import { PaymentInitiationVersion, PaymentTypeOptions, RequestedExecutionDateOptions } from './pain/001/payment-initiation';
 import { SWIFTCreditPaymentInitiation } from './pain/001/swift-credit-payment-initiation';
-import { SEPACreditPaymentInitiation } from './pain/001/sepa-credit-payment-initiation';
+import { SEPACreditPaymentInitiation, SEPAInstantOptions } from './pain/001/sepa-credit-payment-initiation';
 import { RTPCreditPaymentInitiation } from './pain/001/rtp-credit-payment-initiation';
 import { ACHCreditPaymentInitiation } from './pain/001/ach-credit-payment-initiation';
-import { GenericISO20022Message, getISO20022Implementation, ISO20022MessageTypeName } from './lib/interfaces';
+import { SEPADirectDebitPaymentInitiation } from './pain/008/sepa-direct-debit-payment-initiation';
+import { PaymentStatusReport } from './pain/002/payment-status-report';
+import { CashManagementGetAccount } from './camt/003/cash-management-get-account';
+import { CashManagementReturnAccount } from './camt/004/cash-management-return-account';
+import { CashManagementGetTransaction } from './camt/005/cash-management-get-transaction';
+import { CashManagementReturnTransaction } from './camt/006/cash-management-return-transaction';
+import { CashManagementAccountReport } from './camt/052/cash-management-account-report';
+import { CashManagementEndOfDayReport } from './camt/053/cash-management-end-of-day-report';
+import { CashManagementDebitCreditNotification } from './camt/054/cash-management-debit-credit-notification';
+import { detectISO20022Message, GenericISO20022Message, getISO20022Implementation, ISO20022Messages, ISO20022MessageTypeName, XML } from './lib/interfaces';
+import { ACHLocalInstrumentCodeDescriptionMap } from './lib/types';
+import { InvalidXmlError, InvalidXmlNamespaceError } from './errors';
+// These classes are only referenced as types above, so the imports would be elided.
+// Load their modules explicitly so they register themselves for parsing.
+import './pain/002/payment-status-report';
+import './camt/052/cash-management-account-report';
+import './camt/053/cash-management-end-of-day-report';
+import './camt/054/cash-management-debit-credit-notification';
 export * from './camt';
 export * from './lib';
 
@@ -52,7 +70,7 @@ export interface ISO20022Config {
  *         creditor: {
  *           name: 'Hans Schneider',
  *           account: {
- *             iban: 'DE1234567890123456',
+ *             iban: 'DE89370400440532013000',
  *           },
  *           agent: {
  *             bic: 'DEUTDEFF',
@@ -75,7 +93,7 @@ export interface ISO20022Config {
  *     creationDate: new Date(), // Optional
  * };
  */
-export interface SWIFTCreditPaymentInitiationConfig {
+export interface SWIFTCreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions {
   /**
    * An array of payment instructions.
    * @type {AtLeastOne<SWIFTCreditPaymentInstruction>}
@@ -93,6 +111,12 @@ export interface SWIFTCreditPaymentInitiationConfig {
    * @type {Date}
    */
   creationDate?: Date;
+
+  /**
+   * Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
+   * @type {PaymentInitiationVersion}
+   */
+  version?: PaymentInitiationVersion;
 }
 
 /**
@@ -109,7 +133,7 @@ export interface SWIFTCreditPaymentInitiationConfig {
  *         creditor: {
  *           name: 'Hans Schneider',
  *           account: {
- *             iban: 'DE1234567890123456',
+ *             iban: 'DE89370400440532013000',
  *           },
  *         },
  *         remittanceInformation: 'Invoice payment #123',
@@ -119,7 +143,7 @@ export interface SWIFTCreditPaymentInitiationConfig {
  *     creationDate: new Date(), // Optional
  * };
  */
-export interface SEPACreditPaymentInitiationConfig {
+export interface SEPACreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions, SEPAInstantOptions {
   /**
    * An array of payment instructions.
    * @type {AtLeastOne<SEPACreditPaymentInstruction>}
@@ -137,6 +161,12 @@ export interface SEPACreditPaymentInitiationConfig {
    * @type {Date}
    */
   creationDate?: Date;
+
+  /**
+   * Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
+   * @type {PaymentInitiationVersion}
+   */
+  version?: PaymentInitiationVersion;
 }
 
 /**
@@ -156,7 +186,7 @@ export interface SEPACreditPaymentInitiationConfig {
  *             accountNumber: '123456789012',
  *           },
  *           agent: {
- *             abaRoutingNumber: '37714568112',
+ *             abaRoutingNumber: '021000021',
  *           },
  *         },
  *         remittanceInformation: '1000 Hot Dogs Feb26',
@@ -166,7 +196,7 @@ export interface SEPACreditPaymentInitiationConfig {
  *     creationDate: new Date(), // Optional
  * };
  */
-export interface RTPCreditPaymentInitiationConfig {
+export interface RTPCreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions {
   /**
    * An array of payment instructions.
    * @type {AtLeastOne<RTPCreditPaymentInstruction>}
@@ -184,6 +214,12 @@ export interface RTPCreditPaymentInitiationConfig {
    * @type {Date}
    */
   creationDate?: Date;
+
+  /**
+   * Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
+   * @type {PaymentInitiationVersion}
+   */
+  version?: PaymentInitiationVersion;
 }
 
 /**
@@ -203,7 +239,7 @@ export interface RTPCreditPaymentInitiationConfig {
  *             accountNumber: '123456789012',
  *           },
  *           agent: {
- *             abaRoutingNumber: '123456789',
+ *             abaRoutingNumber: '026009593',
  *           },
  *         },
  *         remittanceInformation: 'Invoice #12345',
@@ -213,7 +249,7 @@ export interface RTPCreditPaymentInitiationConfig {
  *     creationDate: new Date(), // Optional
  * };
  */
-export interface ACHCreditPaymentInitiationConfig {
+export interface ACHCreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions {
   /**
    * An array of payment instructions.
    * @type {AtLeastOne<ACHCreditPaymentInstruction>}
@@ -231,6 +267,141 @@ export interface ACHCreditPaymentInitiationConfig {
    * @type {Date}
    */
   creationDate?: Date;
+
+  /**
+   * Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
+   * @type {PaymentInitiationVersion}
+   */
+  version?: PaymentInitiationVersion;
+}
+
+/**
+ * Configuration interface for SEPA Direct Debit Payment Initiation.
+ * @interface SEPADirectDebitPaymentInitiationConfig
+ * @example
+ * const config: SEPADirectDebitPaymentInitiationConfig = {
+ *     creditorSchemeId: 'ES29000B12345678',
+ *     sequenceType: 'RCUR', // Optional
+ *     paymentInstructions: [
+ *       {
+ *         type: 'sepa',
+ *         direction: 'debit',
+ *         amount: 1999, // €19.99 Euros
+ *         currency: 'EUR',
+ *         debtor: {
+ *           name: 'Hans Schneider',
+ *           account: {
+ *             iban: 'DE89370400440532013000',
+ *           },
+ *         },
+ *         mandate: {
+ *           mandateId: 'MANDATE-0001',
+ *           dateOfSignature: new Date('2025-01-15'),
+ *         },
+ *         remittanceInformation: 'Subscription March 2025',
+ *       },
+ *     ],
+ *     messageId: 'MSGID123', // Optional
+ *     creationDate: new Date(), // Optional
+ * };
+ */
+export interface SEPADirectDebitPaymentInitiationConfig {
+  /**
+   * An array of direct debit instructions.
+   * @type {AtLeastOne<SEPADirectDebitPaymentInstruction>}
+   */
+  paymentInstructions: AtLeastOne<SEPADirectDebitPaymentInstruction>;
+
+  /**
+   * The SEPA creditor identifier assigned to the initiating party.
+   * @type {string}
+   */
+  creditorSchemeId: string;
+
+  /**
+   * Optional unique identifier for the message. If not provided, a UUID will be generated.
+   * @type {string}
+   */
+  messageId?: string;
+
+  /**
+   * Optional creation date for the message. If not provided, current date will be used.
+   * @type {Date}
+   */
+  creationDate?: Date;
+
+  /**
+   * Optional date on which the debtors are debited. If not provided, the creation date will be used.
+   * @type {Date}
+   */
+  requestedCollectionDate?: Date;
+
+  /**
+   * Optional sequence type of the collections. If not provided, 'OOFF' (One Off) will be used.
+   * @type {SEPADirectDebitSequenceType}
+   */
+  sequenceType?: SEPADirectDebitSequenceType;
+
+  /**
+   * Optional direct debit scheme. If not provided, 'CORE' will be used.
+   * @type {SEPADirectDebitLocalInstrument}
+   */
+  localInstrument?: SEPADirectDebitLocalInstrument;
+}
+
+/**
+ * The message classes returned by `ISO20022.parse`, by message type.
+ */
+export interface ISO20022ParsedMessages {
+  'CAMT.003': CashManagementGetAccount;
+  'CAMT.004': CashManagementReturnAccount;
+  'CAMT.005': CashManagementGetTransaction;
+  'CAMT.006': CashManagementReturnTransaction;
+  'CAMT.052': CashManagementAccountReport;
+  'CAMT.053': CashManagementEndOfDayReport;
+  'CAMT.054': CashManagementDebitCreditNotification;
+  'PAIN.001': SEPACreditPaymentInitiation | SWIFTCreditPaymentInitiation | ACHCreditPaymentInitiation | RTPCreditPaymentInitiation;
+  'PAIN.002': PaymentStatusReport;
+  'PAIN.008': SEPADirectDebitPaymentInitiation;
+}
+
+/**
+ * A message returned by `ISO20022.parse`, discriminated by its `type`.
+ *
+ * @example
+ * ```typescript
+ * const parsed = ISO20022.parse(xml);
+ * if (parsed.type === 'CAMT.053') {
+ *   parsed.message.transactions; // CashManagementEndOfDayReport
+ * }
+ * ```
+ */
+export type ParsedISO20022Message = {
+  [T in keyof ISO20022ParsedMessages]: {
+    /** The message type, e.g. 'CAMT.053'. */
+    type: T;
+    /** The message version, e.g. 'camt.053.001.02'. Absent when parsed from JSON without a namespace. */
+    version?: string;
+    /** The parsed message. */
+    message: ISO20022ParsedMessages[T];
+  };
+}[keyof ISO20022ParsedMessages];
+
+/**
+ * Picks the pain.001 class matching the payment type of the first payment information block.
+ * @param {any} customerCreditTransferInitiation - The parsed `CstmrCdtTrfInitn` element.
+ * @returns The payment initiation class.
+ */
+function paymentInitiationImplementation(customerCreditTransferInitiation: any) {
+  const paymentInformations = customerCreditTransferInitiation?.PmtInf;
+  const paymentTypeInformation = (Array.isArray(paymentInformations) ? paymentInformations[0] : paymentInformations)?.PmtTpInf;
+  const serviceLevel = paymentTypeInformation?.SvcLvl?.Cd;
+  const localInstrument = paymentTypeInformation?.LclInstrm?.Prtry || paymentTypeInformation?.LclInstrm?.Cd;
+
+  if (serviceLevel === 'SEPA') return SEPACreditPaymentInitiation;
+  if (localInstrument === 'RTP') return RTPCreditPaymentInitiation;
+  if (localInstrument && localInstrument in ACHLocalInstrumentCodeDescriptionMap) return ACHCreditPaymentInitiation;
+  return SWIFTCreditPaymentInitiation;
 }
 
 /**
@@ -279,7 +450,7 @@ class ISO20022 {
    *       creditor: {
    *         name: 'Hans Schneider',
    *         account: {
-   *           iban: 'DE1234567890123456',
+   *           iban: 'DE89370400440532013000',
    *         },
    *         agent: {
    *           bic: 'DEUTDEFF',
@@ -311,6 +482,16 @@ class ISO20022 {
       paymentInstructions: config.paymentInstructions,
       messageId: config.messageId,
       creationDate: config.creationDate,
+      version: config.version,
+      requestedExecutionDate: config.requestedExecutionDate,
+      timeZone: config.timeZone,
+      businessDayCalendar: config.businessDayCalendar,
+      businessDayConvention: config.businessDayConvention,
+      chargeBearer: config.chargeBearer,
+      serviceLevel: config.serviceLevel,
+      instructionPriority: config.instructionPriority,
+      categoryPurpose: config.categoryPurpose,
+      purpose: config.purpose,
     });
   }
 
@@ -328,7 +509,7 @@ class ISO20022 {
    *       creditor: {
    *         name: 'Hans Schneider',
    *         account: {
-   *           iban: 'DE1234567890123456',
+   *           iban: 'DE89370400440532013000',
    *         },
    *       },
    *       remittanceInformation: 'Invoice payment #123',
@@ -336,6 +517,9 @@ class ISO20022 {
    *   ],
    *   messageId: 'SEPA-MSG-001', // Optional
    *   creationDate: new Date('2025-03-01'), // Optional
+   *   requestedExecutionDate: '2025-03-05', // Optional
+   *   businessDayConvention: 'following', // Optional
+   *   instant: true, // Optional, SEPA Instant Credit Transfer
    * });
    * @returns {SEPACreditPaymentInitiation} A new SEPA Credit Payment Initiation object.
    */
@@ -347,6 +531,19 @@ class ISO20022 {
       paymentInstructions: config.paymentInstructions,
       messageId: config.messageId,
       creationDate: config.creationDate,
+      version: config.version,
+      requestedExecutionDate: config.requestedExecutionDate,
+      timeZone: config.timeZone,
+      businessDayCalendar: config.businessDayCalendar,
+      businessDayConvention: config.businessDayConvention,
+      chargeBearer: config.chargeBearer,
+      serviceLevel: config.serviceLevel,
+      instructionPriority: config.instructionPriority,
+      categoryPurpose: config.categoryPurpose,
+      purpose: config.purpose,
+      instant: config.instant,
+      instantAmountLimit: config.instantAmountLimit,
+      singleTransactionPerPaymentInformation: config.singleTransactionPerPaymentInformation,
     });
   }
 
@@ -367,7 +564,7 @@ class ISO20022 {
    *           accountNumber: '123456789012',
    *         },
    *         agent: {
-   *           abaRoutingNumber: '37714568112',
+   *           abaRoutingNumber: '021000021',
    *         },
    *       },
    *       remittanceInformation: '1000 Hot Dogs Feb26',
@@ -386,6 +583,16 @@ class ISO20022 {
       paymentInstructions: config.paymentInstructions,
       messageId: config.messageId,
       creationDate: config.creationDate,
+      version: config.version,
+      requestedExecutionDate: config.requestedExecutionDate,
+      timeZone: config.timeZone,
+      businessDayCalendar: config.businessDayCalendar,
+      businessDayConvention: config.businessDayConvention,
+      chargeBearer: config.chargeBearer,
+      serviceLevel: config.serviceLevel,
+      instructionPriority: config.instructionPriority,
+      categoryPurpose: config.categoryPurpose,
+      purpose: config.purpose,
     });
   }
 
@@ -406,7 +613,7 @@ class ISO20022 {
    *           accountNumber: '123456789012',
    *         },
    *         agent: {
-   *           abaRoutingNumber: '123456789',
+   *           abaRoutingNumber: '026009593',
    *         },
    *       },
    *       remittanceInformation: 'Invoice #12345',
@@ -425,12 +632,138 @@ class ISO20022 {
       paymentInstructions: config.paymentInstructions,
       messageId: config.messageId,
       creationDate: config.creationDate,
+      version: config.version,
+      requestedExecutionDate: config.requestedExecutionDate,
+      timeZone: config.timeZone,
+      businessDayCalendar: config.businessDayCalendar,
+      businessDayConvention: config.businessDayConvention,
+      chargeBearer: config.chargeBearer,
+      serviceLevel: config.serviceLevel,
+      instructionPriority: config.instructionPriority,
+      categoryPurpose: config.categoryPurpose,
+      purpose: config.purpose,
     });
   }
 
-  /** Create a message CAMT or other */
-  createMessage(type: ISO20022MessageTypeName, config: any): GenericISO20022Message {
+  /**
+   * Creates a SEPA Direct Debit Payment Initiation message.
+   * @param {SEPADirectDebitPaymentInitiationConfig} config - Configuration containing direct debit instructions and optional parameters.
+   * @example
+   * const collection = iso20022.createSEPADirectDebitPaymentInitiation({
+   *   creditorSchemeId: 'ES29000B12345678',
+   *   sequenceType: 'FRST',
+   *   paymentInstructions: [
+   *     {
+   *       type: 'sepa',
+   *       direction: 'debit',
+   *       amount: 1999, // €19.99 Euros
+   *       currency: 'EUR',
+   *       debtor: {
+   *         name: 'Hans Schneider',
+   *         account: {
+   *           iban: 'DE89370400440532013000',
+   *         },
+   *       },
+   *       mandate: {
+   *         mandateId: 'MANDATE-0001',
+   *         dateOfSignature: new Date('2025-01-15'),
+   *       },
+   *     },
+   *   ],
+   *   requestedCollectionDate: new Date('2025-03-05'), // Optional
+   * });
+   * @returns {SEPADirectDebitPaymentInitiation} A new SEPA Direct Debit Payment Initiation object.
+   */
+  createSEPADirectDebitPaymentInitiation(
+    config: SEPADirectDebitPaymentInitiationConfig,
+  ) {
+    return new SEPADirectDebitPaymentInitiation({
+      initiatingParty: this.initiatingParty,
+      paymentInstructions: config.paymentInstructions,
+      creditorSchemeId: config.creditorSchemeId,
+      messageId: config.messageId,
+      creationDate: config.creationDate,
+      requestedCollectionDate: config.requestedCollectionDate,
+      sequenceType: config.sequenceType,
+      localInstrument: config.localInstrument,
+    });
+  }
+
+  /**
+   * Parses an ISO20022 XML message without knowing its type in advance.
+   * The message type and version are read from the namespace of the `Document` element.
+   * pain.001 files are parsed as SEPA, RTP, ACH or SWIFT transfers depending on their payment type information.
+   *
+   * @param {string} xml - The raw XML message.
+   * @returns {ParsedISO20022Message} The message type, version and parsed message.
+   * @throws {InvalidXmlError} If the XML has no `Document` element.
+   * @throws {InvalidXmlNamespaceError} If the message type or version is unknown or unsupported.
+   * @example
+   * ```typescript
+   * const parsed = ISO20022.parse(fs.readFileSync('inbound.xml', 'utf8'));
+   * switch (parsed.type) {
+   *   case 'CAMT.053':
+   *     console.log(parsed.message.transactions);
+   *     break;
+   *   case 'PAIN.002':
+   *     console.log(parsed.message.originalMessageId, parsed.message.status);
+   *     break;
+   * }
+   * ```
+   */
+  static parse(xml: string): ParsedISO20022Message {
+    const document = XML.getParser().parse(xml);
+    if (!document.Document) {
+      throw new InvalidXmlError('Invalid XML format');
+    }
+
+    const { type, version } = detectISO20022Message(document);
+    // Several classes implement PAIN.001, the payment type of the file picks one
+    if (type === ISO20022Messages.PAIN_001) {
+      return { type: 'PAIN.001', version, message: paymentInitiationImplementation(document.Document.CstmrCdtTrfInitn).fromXML(xml) };
+    }
+
+    const implementation = getISO20022Implementation(type);
+    if (!implementation) {
+      throw new InvalidXmlNamespaceError(`Unsupported message: ${version}`);
+    }
+    return { type, version, message: implementation.fromXML(xml) } as ParsedISO20022Message;
+  }
+
+  /**
+   * Parses a message exported with `toJSON` without knowing its type in advance.
+   * The message type is read from the namespace of the `Document` element when present, or from the message element under it.
+   *
+   * @param {string} json - The JSON string.
+   * @returns {ParsedISO20022Message} The message type, version and parsed message.
+   * @throws {InvalidXmlError} If the JSON has no `Document` element.
+   * @throws {InvalidXmlNamespaceError} If the message type is unknown or cannot be parsed from JSON.
+   */
+  static parseJSON(json: string): ParsedISO20022Message {
+    const document = JSON.parse(json);
+    if (!document?.Document) {
+      throw new InvalidXmlError('Invalid JSON format');
+    }
+
+    const { type, version } = detectISO20022Message(document);
+    if (type === ISO20022Messages.PAIN_001) {
+      return { type: 'PAIN.001', version, message: paymentInitiationImplementation(document.Document.CstmrCdtTrfInitn).fromJSON(json) };
+    }
+
     const implementation = getISO20022Implementation(type);
+    if (!implementation) {
+      throw new InvalidXmlNamespaceError(`Unsupported message: ${version || type}`);
+    }
+    return { type, version, message: implementation.fromJSON(json) } as ParsedISO20022Message;
+  }
+
+  /**
+   * Create a message CAMT, PAIN or other from the data of its implementation.
+   * PAIN.001 messages are created with the class matching the `type` of their payment instructions,
+   * instructions without a type are created as SWIFT payments.
+   */
+  createMessage(type: ISO20022MessageTypeName, config: any): GenericISO20022Message {
+    const implementation = getISO20022Implementation(type, config);
     if (!implementation) {
       throw new Error(`No implementation found for message type ${type}`);
     }
@@ -0,0 +1,267 @@
+/**
+ * The business day calendars of the payment systems behind the payment rails.
+ * - 'target2': TARGET2 / T2, the settlement system of SEPA payments in euro.
+ * - 'federal-reserve': the US Federal Reserve Banks, which settle ACH and Fedwire payments.
+ * - 'uk': the bank holidays of England and Wales, observed by Bacs, CHAPS and Faster Payments settlement.
+ */
+export type BusinessDayCalendar = 'target2' | 'federal-reserve' | 'uk';
+
+/**
+ * What happens to a date that is not a business day.
+ * - 'following': the date is rolled forward to the next business day.
+ * - 'reject': an error is thrown.
+ */
+export type BusinessDayConvention = 'following' | 'reject';
+
+/** The names of the calendars, used in error messages. */
+const BusinessDayCalendarNames: Record<BusinessDayCalendar, string> = {
+  target2: 'TARGET2',
+  'federal-reserve': 'US Federal Reserve',
+  uk: 'UK',
+};
+
+/** UK bank holidays moved or added by royal proclamation, by year. */
+const UKSpecialBankHolidays: Record<number, { moved?: Record<string, string>; added?: string[] }> = {
+  2002: { moved: { spring: '2002-06-04' }, added: ['2002-06-03'] },
+  2011: { added: ['2011-04-29'] },
+  2012: { moved: { spring: '2012-06-04' }, added: ['2012-06-05'] },
+  2020: { moved: { earlyMay: '2020-05-08' } },
+  2022: { moved: { spring: '2022-06-02' }, added: ['2022-06-03', '2022-09-19'] },
+  2023: { added: ['2023-05-08'] },
+};
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a UTC date as an ISO 8601 calendar date.
+ * @param {Date} date - The date, at midnight UTC.
+ * @returns {string} The date, e.g. '2025-03-05'.
+ */
+const formatUTCDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Builds the ISO 8601 calendar date of a day of a year.
+ * @param {number} year - The year.
+ * @param {number} month - The month, 1 to 12.
+ * @param {number} day - The day of the month, days past the end of the month spill over to the next one.
+ * @returns {string} The date, e.g. '2025-03-05'.
+ */
+const isoDate = (year: number, month: number, day: number): string => formatUTCDate(new Date(Date.UTC(year, month - 1, day)));
+
+/**
+ * Moves a calendar date by a number of days.
+ * @param {string} date - The date, e.g. '2025-03-05'.
+ * @param {number} days - The number of days, negative to move back.
+ * @returns {string} The moved date.
+ */
+const addDays = (date: string, days: number): string => formatUTCDate(new Date(Date.parse(date) + days * DAY_IN_MILLISECONDS));
+
+/**
+ * The day of the week of a calendar date.
+ * @param {string} date - The date, e.g. '2025-03-05'.
+ * @returns {number} The day of the week, 0 for Sunday to 6 for Saturday.
+ */
+const weekday = (date: string): number => new Date(date).getUTCDay();
+
+const isWeekend = (date: string): boolean => weekday(date) === 0 || weekday(date) === 6;
+
+/**
+ * Computes Easter Sunday in the Gregorian calendar with the anonymous (Meeus / Jones / Butcher) algorithm.
+ * @param {number} year - The year.
+ * @returns {string} The date of Easter Sunday.
+ */
+const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+};
+
+/**
+ * Finds the nth occurrence of a day of the week in a month.
+ * @param {number} year - The year.
+ * @param {number} month - The month, 1 to 12.
+ * @param {number} day - The day of the week, 0 for Sunday to 6 for Saturday.
+ * @param {number} n - The occurrence, 1 for the first, -1 for the last.
+ * @returns {string} The date.
+ */
+const nthWeekday = (year: number, month: number, day: number, n: number): string => {
+  if (n < 0) {
+    const lastDay = isoDate(year, month + 1, 0);
+    return addDays(lastDay, -((weekday(lastDay) - day + 7) % 7));
+  }
+  const firstDay = isoDate(year, month, 1);
+  return addDays(firstDay, (day - weekday(firstDay) + 7) % 7 + (n - 1) * 7);
+};
+
+/**
+ * Lists the TARGET2 closing days of a year, besides weekends.
+ * @param {number} year - The year.
+ * @returns {string[]} The closing days.
+ */
+const target2Holidays = (year: number): string[] => {
+  const easter = easterSunday(year);
+  return [
+    isoDate(year, 1, 1),
+    addDays(easter, -2),
+    addDays(easter, 1),
+    isoDate(year, 5, 1),
+    isoDate(year, 12, 25),
+    isoDate(year, 12, 26),
+  ];
+};
+
+/**
+ * Lists the US Federal Reserve holidays of a year, besides weekends.
+ * Holidays on a Sunday are observed on the following Monday, holidays on a Saturday are not observed.
+ * @param {number} year - The year.
+ * @returns {string[]} The holidays.
+ */
+const federalReserveHolidays = (year: number): string[] => {
+  const holidays = [
+    isoDate(year, 1, 1),
+    nthWeekday(year, 1, 1, 3), // Birthday of Martin Luther King, Jr.
+    nthWeekday(year, 2, 1, 3), // Washington's Birthday
+    nthWeekday(year, 5, 1, -1), // Memorial Day
+    ...(year >= 2022 ? [isoDate(year, 6, 19)] : []), // Juneteenth National Independence Day
+    isoDate(year, 7, 4),
+    nthWeekday(year, 9, 1, 1), // Labor Day
+    nthWeekday(year, 10, 1, 2), // Columbus Day
+    isoDate(year, 11, 11), // Veterans Day
+    nthWeekday(year, 11, 4, 4), // Thanksgiving Day
+    isoDate(year, 12, 25),
+  ];
+  return holidays.map(holiday => (weekday(holiday) === 0 ? addDays(holiday, 1) : holiday));
+};
+
+/**
+ * Lists the bank holidays of England and Wales of a year, besides weekends.
+ * New Year's Day, Christmas Day and Boxing Day falling on a weekend are substituted by the next free weekday.
+ * @param {number} year - The year.
+ * @returns {string[]} The bank holidays.
+ */
+const ukHolidays = (year: number): string[] => {
+  const special = UKSpecialBankHolidays[year] || {};
+  const easter = easterSunday(year);
+  const holidays = [
+    addDays(easter, -2),
+    addDays(easter, 1),
+    special.moved?.earlyMay || nthWeekday(year, 5, 1, 1),
+    special.moved?.spring || nthWeekday(year, 5, 1, -1),
+    nthWeekday(year, 8, 1, -1),
+    ...(special.added || []),
+  ];
+
+  const fixedHolidays = [isoDate(year, 1, 1), isoDate(year, 12, 25), isoDate(year, 12, 26)];
+  holidays.push(...fixedHolidays.filter(holiday => !isWeekend(holiday)));
+  fixedHolidays.filter(isWeekend).forEach(holiday => {
+    let substitute = holiday;
+    while (isWeekend(substitute) || holidays.includes(substitute)) {
+      substitute = addDays(substitute, 1);
+    }
+    holidays.push(substitute);
+  });
+  return holidays;
+};
+
+/**
+ * Reads a date as an ISO 8601 calendar date, in a time zone.
+ * Dates are instants, the same instant can fall on different calendar dates depending on the time zone:
+ * 2025-03-05 20:00 in New York is already 2025-03-06 in UTC. Strings are taken as calendar dates as they are.
+ * @param {Date | string} date - The date, or a calendar date such as '2025-03-05'.
+ * @param {string} [timeZone='UTC'] - The IANA time zone the date is read in, e.g. 'America/New_York'.
+ * @returns {string} The calendar date, e.g. '2025-03-05'.
+ * @throws {Error} If the date is invalid, or the time zone is unknown.
+ */
+export const toISODate = (date: Date | string, timeZone: string = 'UTC'): string => {
+  if (typeof date === 'string') {
+    const match = ISO_DATE_PATTERN.exec(date);
+    if (!match || isoDate(Number(match[1]), Number(match[2]), Number(match[3])) !== date) {
+      throw new Error(`Date ${date} must be a calendar date in the format YYYY-MM-DD`);
+    }
+    return date;
+  }
+  if (isNaN(date.getTime())) {
+    throw new Error('Date must be a valid date');
+  }
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(date);
+  } catch {
+    throw new Error(`Unknown time zone ${timeZone}`);
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Lists the holidays of a business day calendar in a year, weekends are never business days on top of them.
+ * @param {BusinessDayCalendar} calendar - The calendar.
+ * @param {number} year - The year.
+ * @returns {string[]} The holidays as calendar dates, in chronological order.
+ * @example
+ * bankHolidays('target2', 2025);
+ * // ['2025-01-01', '2025-04-18', '2025-04-21', '2025-05-01', '2025-12-25', '2025-12-26']
+ */
+export const bankHolidays = (calendar: BusinessDayCalendar, year: number): string[] => {
+  const holidays = calendar === 'target2' ? target2Holidays(year) : calendar === 'federal-reserve' ? federalReserveHolidays(year) : ukHolidays(year);
+  return Array.from(new Set(holidays)).sort();
+};
+
+/**
+ * Tells whether a date is a business day of a calendar, neither a weekend nor a holiday.
+ * @param {Date | string} date - The date, Dates are read in UTC.
+ * @param {BusinessDayCalendar} calendar - The calendar.
+ * @returns {boolean} Whether the date is a business day.
+ */
+export const isBusinessDay = (date: Date | string, calendar: BusinessDayCalendar): boolean => {
+  const day = toISODate(date);
+  return !isWeekend(day) && !bankHolidays(calendar, Number(day.slice(0, 4))).includes(day);
+};
+
+/**
+ * Rolls a date forward to the next business day of a calendar, business days are kept as they are.
+ * @param {Date | string} date - The date, Dates are read in UTC.
+ * @param {BusinessDayCalendar} calendar - The calendar.
+ * @returns {string} The business day, e.g. '2025-04-22' for Good Friday 2025 in TARGET2.
+ */
+export const nextBusinessDay = (date: Date | string, calendar: BusinessDayCalendar): string => {
+  let day = toISODate(date);
+  while (!isBusinessDay(day, calendar)) {
+    day = addDays(day, 1);
+  }
+  return day;
+};
+
+/**
+ * Applies a business day convention to a date.
+ * @param {Date | string} date - The date, Dates are read in UTC.
+ * @param {BusinessDayCalendar} calendar - The calendar.
+ * @param {BusinessDayConvention} convention - What happens when the date is not a business day.
+ * @returns {string} The date, rolled forward with the 'following' convention.
+ * @throws {Error} If the date is not a business day with the 'reject' convention.
+ */
+export const adjustToBusinessDay = (date: Date | string, calendar: BusinessDayCalendar, convention: BusinessDayConvention): string => {
+  const day = toISODate(date);
+  if (convention === 'following') {
+    return nextBusinessDay(day, calendar);
+  }
+  if (!isBusinessDay(day, calendar)) {
+    throw new Error(`${day} is not a ${BusinessDayCalendarNames[calendar]} business day`);
+  }
+  return day;
+};
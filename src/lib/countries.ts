@@ -1,7 +1,7 @@
 // https://en.wikipedia.org/wiki/ISO_3166-1_alpha-2
 // Taken from https://www.npmjs.com/package/i18n-iso-countries
 
-const Alpha2CountryCode = {
+export const Alpha2CountryCode = {
   AF: 'AF', // "Afghanistan",
   AL: 'AL', // "Albania",
   DZ: 'DZ', // "Algeria",
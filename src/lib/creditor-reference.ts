@@ -0,0 +1,346 @@
+import { Alpha2Country } from './countries';
+import { CreditorReference, CreditorReferenceScheme, CreditorReferenceTypeCode, StructuredRemittance } from './types';
+import { IdentifierValidationResult } from './validation';
+
+/**
+ * The check digit algorithms of Norwegian KID references, agreed between the creditor and its bank.
+ */
+export type KIDAlgorithm = 'mod10' | 'mod11';
+
+/** The countries whose national references are recognised in numeric creditor references. */
+const NationalCreditorReferenceSchemes: Partial<Record<Alpha2Country, CreditorReferenceScheme>> = {
+  CH: 'qrr',
+  LI: 'qrr',
+  NO: 'kid',
+  FI: 'fi',
+};
+
+const SWISS_QR_REFERENCE_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+const FINNISH_REFERENCE_WEIGHTS = [7, 3, 1];
+
+/**
+ * Computes the ISO 7064 mod 97-10 remainder of an alphanumeric string, letters counting as A = 10 ... Z = 35.
+ * @param {string} value - The string, upper case letters and digits.
+ * @returns {number} The remainder.
+ */
+const mod97 = (value: string): number => {
+  let remainder = 0;
+  for (const character of value) {
+    const digit = parseInt(character, 36);
+    remainder = (remainder * (digit > 9 ? 100 : 10) + digit) % 97;
+  }
+  return remainder;
+};
+
+/**
+ * Computes the mod 10 recursive check digit used by Swiss QR references and ESR / ISR references.
+ * @param {string} digits - The reference without its check digit.
+ * @returns {string} The check digit.
+ */
+const swissQRCheckDigit = (digits: string): string => {
+  const carry = Array.from(digits).reduce((carry, digit) => SWISS_QR_REFERENCE_TABLE[(carry + Number(digit)) % 10], 0);
+  return ((10 - carry) % 10).toString();
+};
+
+/**
+ * Computes the Luhn (MOD10) check digit of a Norwegian KID reference.
+ * @param {string} digits - The reference without its check digit.
+ * @returns {string} The check digit.
+ */
+const kidMod10CheckDigit = (digits: string): string => {
+  const sum = Array.from(digits).reverse().reduce((sum, digit, index) => {
+    // Every other digit is doubled, starting with the rightmost one
+    const value = Number(digit) * (index % 2 === 0 ? 2 : 1);
+    return sum + (value > 9 ? value - 9 : value);
+  }, 0);
+  return ((10 - (sum % 10)) % 10).toString();
+};
+
+/**
+ * Computes the MOD11 check digit of a Norwegian KID reference, weights 2 to 7 from the right.
+ * @param {string} digits - The reference without its check digit.
+ * @returns {string} The check digit, '-' when it would be 10.
+ */
+const kidMod11CheckDigit = (digits: string): string => {
+  const sum = Array.from(digits).reverse().reduce((sum, digit, index) => sum + Number(digit) * ((index % 6) + 2), 0);
+  const checkDigit = 11 - (sum % 11);
+  if (checkDigit === 11) return '0';
+  return checkDigit === 10 ? '-' : checkDigit.toString();
+};
+
+/**
+ * Computes the 7-3-1 weighted check digit of a Finnish national reference.
+ * @param {string} digits - The reference without its check digit.
+ * @returns {string} The check digit.
+ */
+const finnishCheckDigit = (digits: string): string => {
+  const sum = Array.from(digits).reverse().reduce((sum, digit, index) => sum + Number(digit) * FINNISH_REFERENCE_WEIGHTS[index % 3], 0);
+  return ((10 - (sum % 10)) % 10).toString();
+};
+
+/**
+ * Generates an ISO 11649 RF creditor reference by prefixing a reference with 'RF' and its check digits.
+ *
+ * @param {string} reference - The reference to protect, 1 to 21 letters and digits, e.g. an invoice number.
+ * @returns {string} The creditor reference, in electronic format.
+ * @throws {Error} If the reference is empty, too long or holds other characters than letters and digits.
+ * @example
+ * ```typescript
+ * generateRFCreditorReference('539007547034'); // 'RF18539007547034'
+ * ```
+ */
+export const generateRFCreditorReference = (reference: string): string => {
+  const normalized = (reference || '').toUpperCase();
+  if (!/^[A-Z0-9]{1,21}$/.test(normalized)) {
+    throw new Error(`Reference ${reference} must be 1 to 21 letters and digits to generate an RF creditor reference`);
+  }
+  const checkDigits = (98 - mod97(`${normalized}RF00`)).toString().padStart(2, '0');
+  return `RF${checkDigits}${normalized}`;
+};
+
+/**
+ * Validates an ISO 11649 RF creditor reference: 'RF', two check digits and up to 21 letters and digits, and the mod 97 checksum.
+ *
+ * @param {string} reference - The creditor reference, in electronic format (no spaces, upper case).
+ * @returns {IdentifierValidationResult} The validation result.
+ * @example
+ * ```typescript
+ * validateRFCreditorReference('RF18539007547034'); // { valid: true, errors: [] }
+ * ```
+ */
+export const validateRFCreditorReference = (reference: string): IdentifierValidationResult => {
+  if (!/^RF[0-9]{2}[A-Z0-9]{1,21}$/.test(reference || '')) {
+    return { valid: false, errors: [`RF creditor reference ${reference} must be 'RF', two check digits and 1 to 21 letters and digits`] };
+  }
+  if (mod97(reference.slice(4) + reference.slice(0, 4)) !== 1) {
+    return { valid: false, errors: [`RF creditor reference ${reference} has an invalid checksum`] };
+  }
+  return { valid: true, errors: [] };
+};
+
+/**
+ * Generates a Swiss QR reference (QRR) by padding a number to 26 digits and appending its mod 10 recursive check digit.
+ *
+ * @param {string} reference - The reference to protect, 1 to 26 digits.
+ * @returns {string} The QR reference, 27 digits.
+ * @throws {Error} If the reference is not 1 to 26 digits.
+ * @example
+ * ```typescript
+ * generateSwissQRReference('21000000000313947143000901'); // '210000000003139471430009017'
+ * ```
+ */
+export const generateSwissQRReference = (reference: string): string => {
+  if (!/^[0-9]{1,26}$/.test(reference || '')) {
+    throw new Error(`Reference ${reference} must be 1 to 26 digits to generate a Swiss QR reference`);
+  }
+  const digits = reference.padStart(26, '0');
+  return `${digits}${swissQRCheckDigit(digits)}`;
+};
+
+/**
+ * Validates a Swiss QR reference (QRR): 27 digits, not all zeros, ending with a mod 10 recursive check digit.
+ *
+ * @param {string} reference - The QR reference, without spaces.
+ * @returns {IdentifierValidationResult} The validation result.
+ */
+export const validateSwissQRReference = (reference: string): IdentifierValidationResult => {
+  if (!/^[0-9]{27}$/.test(reference || '') || /^0+$/.test(reference)) {
+    return { valid: false, errors: [`Swiss QR reference ${reference} must be 27 digits`] };
+  }
+  if (swissQRCheckDigit(reference.slice(0, 26)) !== reference[26]) {
+    return { valid: false, errors: [`Swiss QR reference ${reference} has an invalid check digit`] };
+  }
+  return { valid: true, errors: [] };
+};
+
+/**
+ * Generates a Norwegian KID reference by appending a MOD10 (Luhn) or MOD11 check digit.
+ *
+ * @param {string} reference - The reference to protect, 1 to 24 digits, e.g. a customer and invoice number.
+ * @param {KIDAlgorithm} [algorithm='mod10'] - The check digit algorithm agreed with the bank.
+ * @returns {string} The KID reference. With MOD11 its check digit is '-' when the remainder is 1.
+ * @throws {Error} If the reference is not 1 to 24 digits.
+ * @example
+ * ```typescript
+ * generateKIDReference('123456789'); // '1234567897'
+ * generateKIDReference('123456789', 'mod11'); // '1234567892'
+ * ```
+ */
+export const generateKIDReference = (reference: string, algorithm: KIDAlgorithm = 'mod10'): string => {
+  if (!/^[0-9]{1,24}$/.test(reference || '')) {
+    throw new Error(`Reference ${reference} must be 1 to 24 digits to generate a KID reference`);
+  }
+  return `${reference}${algorithm === 'mod11' ? kidMod11CheckDigit(reference) : kidMod10CheckDigit(reference)}`;
+};
+
+/**
+ * Validates a Norwegian KID reference: 2 to 25 digits, ending with a MOD10 or MOD11 check digit.
+ *
+ * @param {string} reference - The KID reference.
+ * @param {KIDAlgorithm} [algorithm] - The check digit algorithm agreed with the bank. Either is accepted if omitted.
+ * @returns {IdentifierValidationResult} The validation result.
+ */
+export const validateKIDReference = (reference: string, algorithm?: KIDAlgorithm): IdentifierValidationResult => {
+  if (!/^[0-9]{1,24}[0-9-]$/.test(reference || '')) {
+    return { valid: false, errors: [`KID reference ${reference} must be 2 to 25 digits`] };
+  }
+  const digits = reference.slice(0, -1);
+  const checkDigit = reference.slice(-1);
+  const valid = (algorithm !== 'mod11' && checkDigit === kidMod10CheckDigit(digits))
+    || (algorithm !== 'mod10' && checkDigit === kidMod11CheckDigit(digits));
+  if (!valid) {
+    return { valid: false, errors: [`KID reference ${reference} has an invalid check digit`] };
+  }
+  return { valid: true, errors: [] };
+};
+
+/**
+ * Generates a Finnish national reference (viitenumero) by appending its 7-3-1 weighted check digit.
+ *
+ * @param {string} reference - The reference to protect, 3 to 19 digits.
+ * @returns {string} The Finnish reference.
+ * @throws {Error} If the reference is not 3 to 19 digits.
+ * @example
+ * ```typescript
+ * generateFinnishReference('1234567'); // '12345672'
+ * ```
+ */
+export const generateFinnishReference = (reference: string): string => {
+  if (!/^[0-9]{3,19}$/.test(reference || '')) {
+    throw new Error(`Reference ${reference} must be 3 to 19 digits to generate a Finnish reference`);
+  }
+  return `${reference}${finnishCheckDigit(reference)}`;
+};
+
+/**
+ * Validates a Finnish national reference (viitenumero): 4 to 20 digits, ending with a 7-3-1 weighted check digit.
+ *
+ * @param {string} reference - The Finnish reference, without spaces.
+ * @returns {IdentifierValidationResult} The validation result.
+ */
+export const validateFinnishReference = (reference: string): IdentifierValidationResult => {
+  if (!/^[0-9]{4,20}$/.test(reference || '')) {
+    return { valid: false, errors: [`Finnish reference ${reference} must be 4 to 20 digits`] };
+  }
+  if (finnishCheckDigit(reference.slice(0, -1)) !== reference.slice(-1)) {
+    return { valid: false, errors: [`Finnish reference ${reference} has an invalid check digit`] };
+  }
+  return { valid: true, errors: [] };
+};
+
+/**
+ * Generates a creditor reference of the given scheme.
+ *
+ * @param {CreditorReferenceScheme} scheme - The creditor reference scheme.
+ * @param {string} reference - The reference to protect with check digits.
+ * @returns {string} The creditor reference, ready to be used as remittance information.
+ * @throws {Error} If the reference cannot be used in the scheme.
+ * @example
+ * ```typescript
+ * iso20022.createSEPACreditPaymentInitiation([{
+ *   ...instruction,
+ *   remittanceInformation: generateCreditorReference('rf', 'INV2025042'),
+ * }]);
+ * ```
+ */
+export const generateCreditorReference = (scheme: CreditorReferenceScheme, reference: string): string => {
+  switch (scheme) {
+    case 'rf':
+      return generateRFCreditorReference(reference);
+    case 'qrr':
+      return generateSwissQRReference(reference);
+    case 'kid':
+      return generateKIDReference(reference);
+    case 'fi':
+      return generateFinnishReference(reference);
+  }
+};
+
+/**
+ * Validates a creditor reference of the given scheme.
+ *
+ * @param {CreditorReferenceScheme} scheme - The creditor reference scheme.
+ * @param {string} reference - The creditor reference, in electronic format.
+ * @returns {IdentifierValidationResult} The validation result.
+ */
+export const validateCreditorReference = (scheme: CreditorReferenceScheme, reference: string): IdentifierValidationResult => {
+  switch (scheme) {
+    case 'rf':
+      return validateRFCreditorReference(reference);
+    case 'qrr':
+      return validateSwissQRReference(reference);
+    case 'kid':
+      return validateKIDReference(reference);
+    case 'fi':
+      return validateFinnishReference(reference);
+  }
+};
+
+/**
+ * Recognises the scheme of a creditor reference from its format and check digits.
+ * RF creditor references and Swiss QR references are recognised on their own. Numeric national references
+ * look alike, so KID and Finnish references are only recognised with the country of the creditor account.
+ *
+ * @param {string} reference - The creditor reference, spaces are ignored.
+ * @param {Alpha2Country} [country] - The country of the creditor account, e.g. from its IBAN.
+ * @returns {CreditorReferenceScheme | undefined} The scheme, or undefined if the reference is not a valid reference of a known scheme.
+ * @example
+ * ```typescript
+ * detectCreditorReferenceScheme('RF18 5390 0754 7034'); // 'rf'
+ * detectCreditorReferenceScheme('12345672', 'FI'); // 'fi'
+ * ```
+ */
+export const detectCreditorReferenceScheme = (reference: string, country?: Alpha2Country): CreditorReferenceScheme | undefined => {
+  const normalized = (reference || '').replace(/\s/g, '').toUpperCase();
+  if (validateRFCreditorReference(normalized).valid) return 'rf';
+  if (validateSwissQRReference(normalized).valid) return 'qrr';
+
+  const scheme = country ? NationalCreditorReferenceSchemes[country] : undefined;
+  if (scheme && validateCreditorReference(scheme, normalized).valid) return scheme;
+  return undefined;
+};
+
+/**
+ * Finds an RF creditor reference in free text, e.g. unstructured remittance information, printed with or without spaces.
+ *
+ * @param {string} text - The text to search.
+ * @returns {string | undefined} The first valid RF creditor reference, in electronic format.
+ * @example
+ * ```typescript
+ * findRFCreditorReference('Invoice 42 RF18 5390 0754 7034'); // 'RF18539007547034'
+ * ```
+ */
+export const findRFCreditorReference = (text: string): string | undefined => {
+  // Printed references are grouped by four characters
+  const candidates = (text || '').toUpperCase().match(/RF[0-9]{2}(?: ?[A-Z0-9]{1,4}){1,6}/g) || [];
+  for (const candidate of candidates) {
+    const compact = candidate.replace(/ /g, '');
+    // A greedy match can take the start of the following word, try the shorter prefixes as well
+    for (let length = compact.length; length > 4; length--) {
+      if (validateRFCreditorReference(compact.slice(0, length)).valid) return compact.slice(0, length);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Builds the structured remittance information carrying a creditor reference, with the type and issuer of its scheme:
+ * RF creditor references are structured communication references (SCOR) issued by ISO, Swiss QR references have the
+ * proprietary type 'QRR', and national references are structured communication references.
+ *
+ * @param {string} reference - The creditor reference.
+ * @param {CreditorReferenceScheme} [scheme] - The scheme of the reference, recognised from the reference if omitted.
+ * @returns {StructuredRemittance} The structured remittance information, for `structuredRemittanceInformation`.
+ */
+export const creditorReferenceRemittance = (reference: string, scheme?: CreditorReferenceScheme): StructuredRemittance => {
+  const normalized = reference.replace(/\s/g, '').toUpperCase();
+  const referenceScheme = scheme || detectCreditorReferenceScheme(normalized);
+  const creditorReference: CreditorReference = {
+    reference: normalized,
+    type: referenceScheme === 'qrr' ? 'QRR' : CreditorReferenceTypeCode.StructuredCommunicationReference,
+    ...(referenceScheme === 'rf' && { issuer: 'ISO' }),
+    ...(referenceScheme && { scheme: referenceScheme }),
+  };
+  return { creditorReference };
+};
@@ -1,4 +1,8 @@
 export * from './countries';
 export * from './currencies';
 export * from './interfaces';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './schema-validation';
+export * from './validation';
+export * from './creditor-reference';
+export * from './business-days';
@@ -1,5 +1,7 @@
 import { XMLBuilder, XMLParser } from 'fast-xml-parser';
 import { get } from 'http';
+import { SchemaValidationOptions, SchemaValidationResult } from './schema-validation';
+import { InvalidXmlNamespaceError } from '../errors';
 
 export type ISO20022MessageTypeName = `${string}.${string}`;
 export const ISO20022Messages: {[msg: string]: ISO20022MessageTypeName} = {
@@ -7,17 +9,81 @@ export const ISO20022Messages: {[msg: string]: ISO20022MessageTypeName} = {
   CAMT_004: "CAMT.004",
   CAMT_005: "CAMT.005",
   CAMT_006: "CAMT.006",
+  CAMT_052: "CAMT.052",
   CAMT_053: "CAMT.053",
+  CAMT_054: "CAMT.054",
   
   PAIN_001: "PAIN.001",
   PAIN_002: "PAIN.002",
+  PAIN_008: "PAIN.008",
 };
 
+const ISO20022_NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+/**
+ * The element directly under `Document` for each message, used to recognise documents without a namespace (e.g. JSON exports).
+ */
+const ISO20022MessageElements: {[element: string]: ISO20022MessageTypeName} = {
+  GetAcct: ISO20022Messages.CAMT_003,
+  RtrAcct: ISO20022Messages.CAMT_004,
+  GetTx: ISO20022Messages.CAMT_005,
+  RtrTx: ISO20022Messages.CAMT_006,
+  BkToCstmrAcctRpt: ISO20022Messages.CAMT_052,
+  BkToCstmrStmt: ISO20022Messages.CAMT_053,
+  BkToCstmrDbtCdtNtfctn: ISO20022Messages.CAMT_054,
+  CstmrCdtTrfInitn: ISO20022Messages.PAIN_001,
+  CstmrPmtStsRpt: ISO20022Messages.PAIN_002,
+  CstmrDrctDbtInitn: ISO20022Messages.PAIN_008,
+};
+
+/**
+ * The message type and version of a document.
+ */
+export interface DetectedISO20022Message {
+  /** The message type, e.g. 'CAMT.053'. */
+  type: ISO20022MessageTypeName;
+  /** The message version, e.g. 'camt.053.001.02'. Absent when the document has no namespace. */
+  version?: string;
+}
+
+/**
+ * Detects the message type and version of a parsed document from the namespace of its `Document` element,
+ * or from the message element under `Document` when there is no namespace.
+ *
+ * @param {{ Document: any }} document - The parsed document, as returned by `XML.getParser().parse` or `toJSON`.
+ * @returns {DetectedISO20022Message} The message type and version.
+ * @throws {InvalidXmlNamespaceError} If the namespace is not an ISO 20022 namespace, or the message is unknown.
+ */
+export function detectISO20022Message(document: { Document: any }): DetectedISO20022Message {
+  // Payment initiations export their attributes with a '@' prefix rather than '@_'
+  const namespace = (document.Document['@_xmlns'] || document.Document['@_Xmlns'] || document.Document['@xmlns']) as string | undefined;
+
+  if (namespace) {
+    if (!namespace.startsWith(ISO20022_NAMESPACE_PREFIX)) {
+      throw new InvalidXmlNamespaceError(`Unknown message namespace: ${namespace}`);
+    }
+    const version = namespace.substring(ISO20022_NAMESPACE_PREFIX.length);
+    const type = version.split('.').slice(0, 2).join('.').toUpperCase() as ISO20022MessageTypeName;
+    if (!Object.values(ISO20022Messages).includes(type)) {
+      throw new InvalidXmlNamespaceError(`Unknown message: ${version}`);
+    }
+    return { type, version };
+  }
+
+  const element = Object.keys(document.Document).find(key => key in ISO20022MessageElements);
+  if (!element) {
+    throw new InvalidXmlNamespaceError('Unable to detect the message type of the document');
+  }
+  return { type: ISO20022MessageElements[element] };
+}
+
 export interface GenericISO20022Message {
   /** serialize to XML string */
   serialize(): string;
   /** export to a json object that can then be serialized */
   toJSON(): any;
+  /** validate the serialized XML against the XSD schema of the message */
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult;
   readonly data: any;
 }
 
@@ -26,21 +92,41 @@ T extends GenericISO20022Message,
 > {
   /** tells what messages are supported */
   supportedMessages(): ISO20022MessageTypeName[];
+  /** tells whether the data can be handled, when several implementations support the same message (e.g. PAIN.001) */
+  supportsData?(data: any): boolean;
   fromXML(xml: string): T;
   fromJSON(json: string): T;
   new(data: any): T;
 }
 
-const ISO20022Implementations: Map<ISO20022MessageTypeName, GenericISO20022MessageFactory<GenericISO20022Message>> = new Map();
+const ISO20022Implementations: Map<ISO20022MessageTypeName, GenericISO20022MessageFactory<GenericISO20022Message>[]> = new Map();
 export function registerISO20022Implementation(cl: GenericISO20022MessageFactory<GenericISO20022Message>) {
   cl.supportedMessages().forEach((msg) => {
-    ISO20022Implementations.set(msg, cl);
+    const implementations = ISO20022Implementations.get(msg) || [];
+    if (!implementations.includes(cl)) implementations.push(cl);
+    ISO20022Implementations.set(msg, implementations);
   });
 }
-export function getISO20022Implementation(type: ISO20022MessageTypeName): GenericISO20022MessageFactory<GenericISO20022Message> | undefined {
-  return ISO20022Implementations.get(type);
+/**
+ * Gets the implementation of a message type.
+ * When several implementations support the message, the data picks the one whose `supportsData` accepts it,
+ * without data the first registered implementation is returned.
+ */
+export function getISO20022Implementation(type: ISO20022MessageTypeName, data?: any): GenericISO20022MessageFactory<GenericISO20022Message> | undefined {
+  const implementations = ISO20022Implementations.get(type) || [];
+  if (data === undefined) return implementations[0];
+  return implementations.find((implementation) => !implementation.supportsData || implementation.supportsData(data));
 }
 export class XML {
+  /** Elements holding decimal amounts, which are parsed into minor units. */
+  static readonly amountTags = [
+    'Amt', 'Amount', 'InstdAmt', 'Sum', 'TtlNetNtryAmt', 'TtlChrgsAndTaxAmt',
+    'DuePyblAmt', 'DscntApldAmt', 'CdtNoteAmt', 'TaxAmt', 'RmtdAmt', 'TtlTaxblBaseAmt', 'TtlTaxAmt',
+  ];
+
+  /** Elements holding references and document numbers, which keep their leading zeros. */
+  static readonly referenceTags = ['NtryRef', 'Ref', 'Nb', 'RefNb', 'TaxId'];
+
   /**
    * Creates and configures the XML Parser
    *
@@ -59,13 +145,16 @@ export class XML {
         isLeafNode,
       ) => {
         /**
-         * Codes and Entry References can look like numbers and get parsed
+         * Codes and references can look like numbers and get parsed
          * appropriately. We don't want this to happen, as they contain leading
          * zeros or are too long and overflow.
          *
          * Ex. <Cd>0001234<Cd> Should resolve to "0001234"
+         *
+         * Amounts are kept as written as well, so that they can be turned into
+         * minor units exactly, without going through a floating point number.
          */
-        if (isLeafNode && ['Cd', 'NtryRef'].includes(tagName)) return undefined;
+        if (isLeafNode && ['Cd', ...XML.referenceTags, ...XML.amountTags].includes(tagName)) return undefined;
         return tagValue;
       },
     });
@@ -0,0 +1,293 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import type { XMLDocument, XMLElement } from 'libxmljs';
+import { InvalidXmlNamespaceError, SchemaNotFoundError, SchemaValidatorNotFoundError } from '../errors';
+
+const ISO20022_NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+/**
+ * Options for validating a message against its XSD schema.
+ */
+export interface SchemaValidationOptions {
+  /**
+   * The schema to validate against, e.g. 'pain.001.001.03'.
+   * If not provided, the schema is detected from the namespace of the Document element.
+   */
+  schema?: string;
+  /**
+   * The directory containing the XSD schemas, laid out as `<family>/<schema>.xsd` (e.g. `pain/pain.001.001.03.xsd`).
+   * If not provided, the schemas bundled with the library are used.
+   */
+  schemaDirectory?: string;
+}
+
+/**
+ * A single schema violation found in a message.
+ */
+export interface SchemaValidationError {
+  /** Human readable description of the violation, as reported by the validator. */
+  message: string;
+  /** The rule that was violated, e.g. 'maxLength', 'pattern', 'unexpectedElement' or 'missingElement'. */
+  rule: string;
+  /** The local name of the offending element, e.g. 'MsgId'. */
+  element?: string;
+  /** The XPath of the offending element, e.g. '/Document/CstmrCdtTrfInitn/GrpHdr/MsgId'. */
+  xpath?: string;
+  /** The line of the offending element in the XML. */
+  line?: number;
+}
+
+/**
+ * The result of validating a message against its XSD schema.
+ */
+export interface SchemaValidationResult {
+  /** Whether the message is valid against the schema. */
+  valid: boolean;
+  /** The schema the message was validated against, e.g. 'pain.001.001.03'. Absent when the XML could not be parsed. */
+  schema?: string;
+  /**
+   * The violations found, empty when the message is valid.
+   * Holds a single 'unsupportedVersion' error when no XSD schema is available for the message version.
+   */
+  errors: SchemaValidationError[];
+}
+
+const schemaCache: Map<string, XMLDocument> = new Map();
+
+let libxmljs: typeof import('libxmljs') | undefined;
+
+/**
+ * The directory of this module: `dist` in the published package, whose ES module build defines __dirname,
+ * and `src/lib` in the repository. Running the TypeScript sources as ES modules, e.g. with tsx, defines no __dirname,
+ * the working directory is used instead.
+ * @returns {string} The module directory.
+ */
+function moduleDirectory(): string {
+  return typeof __dirname !== 'undefined' ? __dirname : process.cwd();
+}
+
+/**
+ * Loads libxmljs, an optional peer dependency, the first time a message is validated,
+ * so that the library can be used without the native addon installed.
+ * @returns {typeof import('libxmljs')} The libxmljs module.
+ * @throws {SchemaValidatorNotFoundError} If libxmljs is not installed.
+ */
+function loadLibxmljs(): typeof import('libxmljs') {
+  if (!libxmljs) {
+    try {
+      libxmljs = createRequire(path.join(moduleDirectory(), 'index.js'))('libxmljs') as typeof import('libxmljs');
+    } catch (error: any) {
+      if (error?.code !== 'MODULE_NOT_FOUND') {
+        throw error;
+      }
+      throw new SchemaValidatorNotFoundError('Schema validation requires the libxmljs package, install it with `npm install libxmljs`');
+    }
+  }
+  return libxmljs;
+}
+
+/**
+ * Validates a raw XML message against the XSD schema of its message type.
+ * Can be used on generated messages as well as on received files, before handing them to `fromXML`.
+ *
+ * @param {string} xml - The raw XML message.
+ * @param {SchemaValidationOptions} [options] - Options to pick the schema or the schema directory.
+ * @returns {SchemaValidationResult} The validation result, with structured errors.
+ * Messages whose version has no XSD schema in the schema directory, e.g. pain.002.001.03 or camt.053.001.02
+ * with the bundled schemas, are reported as invalid with a single 'unsupportedVersion' error.
+ * @throws {InvalidXmlNamespaceError} If no schema is given and it cannot be detected from the namespace.
+ * @throws {SchemaNotFoundError} If the schema directory cannot be found.
+ * @throws {SchemaValidatorNotFoundError} If the optional libxmljs package is not installed.
+ * @example
+ * ```typescript
+ * const result = validateXMLAgainstSchema(fs.readFileSync('pain.001.xml', 'utf8'));
+ * if (!result.valid) {
+ *   result.errors.forEach(error => console.log(error.xpath, error.rule, error.message));
+ * }
+ * ```
+ */
+export function validateXMLAgainstSchema(
+  xml: string,
+  options: SchemaValidationOptions = {},
+): SchemaValidationResult {
+  const { parseXml } = loadLibxmljs();
+  let document: XMLDocument;
+  try {
+    document = parseXml(xml);
+  } catch (error: any) {
+    return {
+      valid: false,
+      errors: [
+        {
+          message: String(error.message).trim(),
+          rule: 'wellFormed',
+          ...(error.line && { line: error.line as number }),
+        },
+      ],
+    };
+  }
+
+  const schema = options.schema || detectSchema(document);
+  const schemaDirectory = options.schemaDirectory || bundledSchemaDirectory();
+  if (!schemaDirectory) {
+    throw new SchemaNotFoundError('Unable to find the schema directory, pass it as the schemaDirectory option');
+  }
+
+  const schemaDocument = loadSchema(schema, schemaDirectory);
+  if (!schemaDocument) {
+    const availableSchemas = listSchemas(schemaDirectory, schema.split('.').slice(0, 2).join('.'));
+    return {
+      valid: false,
+      schema,
+      errors: [
+        {
+          message: `No XSD schema available for ${schema}, `
+            + (availableSchemas.length > 0 ? `available versions are ${availableSchemas.join(', ')}` : 'no version of the message is available'),
+          rule: 'unsupportedVersion',
+        },
+      ],
+    };
+  }
+
+  if (document.validate(schemaDocument)) {
+    return { valid: true, schema, errors: [] };
+  }
+
+  // Errors only carry the element name and line, so they are matched to the elements in document order
+  const root = document.root() as XMLElement;
+  const locations = elementLocations(root, `/${root.name()}`);
+  const reported = new Set<ElementLocation>();
+  const errors = document.validationErrors.map((validationError: any) => {
+    const message = String(validationError.message).trim();
+    const element = message.match(/^Element '(?:\{[^}]*\})?([^']+)'/)?.[1];
+    const candidates = locations.filter(location => location.name === element && location.line === validationError.line);
+    const location = candidates.find(candidate => !reported.has(candidate)) || candidates[0];
+    if (location) reported.add(location);
+
+    return {
+      message,
+      rule: validationRule(message),
+      ...(element && { element }),
+      ...(location && { xpath: location.xpath }),
+      ...(validationError.line && { line: validationError.line as number }),
+    } as SchemaValidationError;
+  });
+
+  return { valid: false, schema, errors };
+}
+
+/**
+ * Detects the schema of a message from the namespace of its Document element.
+ * @param {XMLDocument} document - The parsed XML document.
+ * @returns {string} The schema name, e.g. 'camt.053.001.02'.
+ */
+function detectSchema(document: XMLDocument): string {
+  const namespace = document.root()?.namespace()?.href() || '';
+  if (!namespace.startsWith(ISO20022_NAMESPACE_PREFIX)) {
+    throw new InvalidXmlNamespaceError(
+      'Unable to detect the message schema from the XML namespace',
+    );
+  }
+  return namespace.substring(ISO20022_NAMESPACE_PREFIX.length);
+}
+
+/**
+ * Loads and caches the XSD schema document.
+ * @param {string} schema - The schema name, e.g. 'pain.001.001.03'.
+ * @param {string} schemaDirectory - The directory containing the schemas.
+ * @returns {XMLDocument | undefined} The parsed XSD schema, or undefined if the directory has no schema for the version.
+ */
+function loadSchema(schema: string, schemaDirectory: string): XMLDocument | undefined {
+  const schemaPath = path.join(schemaDirectory, schema.split('.')[0], `${schema}.xsd`);
+  if (!fs.existsSync(schemaPath)) {
+    return undefined;
+  }
+
+  let schemaDocument = schemaCache.get(schemaPath);
+  if (!schemaDocument) {
+    schemaDocument = loadLibxmljs().parseXml(fs.readFileSync(schemaPath, 'utf8'));
+    schemaCache.set(schemaPath, schemaDocument);
+  }
+  return schemaDocument;
+}
+
+/**
+ * Lists the versions of a message that have an XSD schema in the schema directory.
+ * @param {string} schemaDirectory - The directory containing the schemas.
+ * @param {string} message - The message, e.g. 'camt.053'.
+ * @returns {string[]} The schema names, e.g. ['camt.053.001.12'].
+ */
+function listSchemas(schemaDirectory: string, message: string): string[] {
+  const familyDirectory = path.join(schemaDirectory, message.split('.')[0]);
+  if (!fs.existsSync(familyDirectory)) {
+    return [];
+  }
+  return fs.readdirSync(familyDirectory)
+    .filter(file => file.startsWith(`${message}.`) && file.endsWith('.xsd'))
+    .map(file => file.slice(0, -'.xsd'.length))
+    .sort();
+}
+
+/**
+ * Finds the `schemas` directory shipped with the library, at the root of the package, looking up from the module directory.
+ * @returns {string | undefined} The schema directory, if found.
+ */
+function bundledSchemaDirectory(): string | undefined {
+  let directory = moduleDirectory();
+  while (path.dirname(directory) !== directory) {
+    const candidate = path.join(directory, 'schemas');
+    if (fs.existsSync(path.join(candidate, 'pain'))) {
+      return candidate;
+    }
+    directory = path.dirname(directory);
+  }
+  return undefined;
+}
+
+/**
+ * Maps a validator message to a short rule name.
+ * @param {string} message - The validator message.
+ * @returns {string} The rule name.
+ */
+function validationRule(message: string): string {
+  const facet = message.match(/\[facet '([^']+)'\]/)?.[1];
+  if (facet) return facet;
+  if (message.includes('This element is not expected')) return 'unexpectedElement';
+  if (message.includes('Missing child element')) return 'missingElement';
+  if (message.includes('is not a valid value of the')) return 'datatype';
+  if (message.includes('attribute') && message.includes('is not allowed')) return 'unexpectedAttribute';
+  if (message.includes('attribute') && message.includes('is required but missing')) return 'missingAttribute';
+  if (message.includes('No matching global declaration')) return 'unknownElement';
+  return 'schema';
+}
+
+interface ElementLocation {
+  name: string;
+  line: number;
+  xpath: string;
+}
+
+/**
+ * Lists every element of the document with its line and namespace-free XPath,
+ * e.g. '/Document/CstmrCdtTrfInitn/PmtInf[2]/PmtInfId'.
+ * @param {XMLElement} element - The element to start from.
+ * @param {string} xpath - The XPath of the element.
+ * @returns {ElementLocation[]} The locations of the element and its descendants, in document order.
+ */
+function elementLocations(element: XMLElement, xpath: string): ElementLocation[] {
+  const children = element.childNodes().filter(node => node.type() === 'element');
+  const counts: Record<string, number> = {};
+  children.forEach(child => { counts[child.name()] = (counts[child.name()] || 0) + 1; });
+
+  const positions: Record<string, number> = {};
+  return [
+    { name: element.name(), line: element.line(), xpath },
+    ...children.flatMap(child => {
+      const name = child.name();
+      positions[name] = (positions[name] || 0) + 1;
+      const step = counts[name] > 1 ? `${name}[${positions[name]}]` : name;
+      return elementLocations(child, `${xpath}/${step}`);
+    }),
+  ];
+}
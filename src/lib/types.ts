@@ -21,14 +21,124 @@ export interface PaymentInstruction {
   creditor?: Party;
   /** Additional information about the payment. */
   remittanceInformation?: string;
+  /** Structured remittance information, e.g. the invoices settled by the payment and their creditor reference. */
+  structuredRemittanceInformation?: StructuredRemittance[];
+  /** Identifier of the payment information block (PmtInf) the instruction belongs to. Instructions sharing it are grouped together. */
+  paymentInformationId?: string;
+  /**
+   * Date on which the debtor account is to be debited, a calendar date such as '2025-03-05' or a Date read in the message's time zone.
+   * Defaults to the requested execution date of the message, or its creation date.
+   */
+  requestedExecutionDate?: Date | string;
+  /** Which party bears the charges of the payment. Defaults to the message's charge bearer. */
+  chargeBearer?: ChargeBearerType;
 }
 
+/**
+ * Represents a payment information block (PmtInf), grouping payment instructions
+ * that share a requested execution date, debtor, charge bearer and payment type.
+ */
+export interface PaymentInformation<T extends PaymentInstruction = PaymentInstruction> {
+  /** Unique identifier of the payment information block. */
+  id: string;
+  /** Date on which the debtor account is to be debited, at midnight UTC. */
+  requestedExecutionDate: Date;
+  /** The party, account and agent debited for every instruction in the block. */
+  debtor: Party;
+  /** Which party bears the charges of the payments in the block. */
+  chargeBearer: ChargeBearerType;
+  /** Agreement under which the payments in the block are processed. */
+  serviceLevel?: ServiceLevel;
+  /** Urgency with which the debtor agent processes the payments in the block. */
+  instructionPriority?: InstructionPriority;
+  /** High level purpose of the payments in the block. */
+  categoryPurpose?: ExternalCategoryPurpose;
+  /** The payment instructions in the block. */
+  paymentInstructions: [T, ...T[]];
+}
+
+/**
+ * Charge bearer types as defined in ISO 20022 ChargeBearerType1Code.
+ */
+export const ChargeBearerTypeCode = {
+  /** All transaction charges are to be borne by the debtor */
+  BorneByDebtor: 'DEBT',
+  /** All transaction charges are to be borne by the creditor */
+  BorneByCreditor: 'CRED',
+  /** Transaction charges on the sender side are borne by the debtor, on the receiver side by the creditor */
+  Shared: 'SHAR',
+  /** Charges are to be applied following the rules agreed in the service level and/or scheme */
+  FollowingServiceLevel: 'SLEV',
+} as const;
+
+export type ChargeBearerType =
+  (typeof ChargeBearerTypeCode)[keyof typeof ChargeBearerTypeCode];
+
+export const ChargeBearerTypeCodeDescriptionMap = {
+  'DEBT': 'Borne By Debtor',
+  'CRED': 'Borne By Creditor',
+  'SHAR': 'Shared',
+  'SLEV': 'Following Service Level',
+} as const;
+
+/**
+ * Service levels as defined in ISO 20022 ExternalServiceLevel1Code.
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
+ */
+export const ServiceLevelCode = {
+  /** Payment must be executed following the Single Euro Payments Area scheme */
+  SEPA: 'SEPA',
+  /** Payment must be executed as an urgent transaction cleared through a real-time gross settlement system */
+  UrgentPayment: 'URGP',
+  /** Payment must be executed as a non-urgent transaction, typically cleared through an automated clearing house */
+  NonUrgentPayment: 'NURG',
+  /** Payment must be executed as an urgent transaction cleared through a real-time net settlement system */
+  UrgentNetSettlement: 'URNS',
+  /** Payment must be executed with same day value to the creditor */
+  SameDayValue: 'SDVA',
+  /** Payment must be executed as a tracked SWIFT gpi customer credit transfer */
+  TrackedCustomerCreditTransfer: 'G001',
+} as const;
+
+export type ServiceLevel =
+  (typeof ServiceLevelCode)[keyof typeof ServiceLevelCode];
+
+export const ServiceLevelCodeDescriptionMap = {
+  'SEPA': 'Single Euro Payments Area',
+  'URGP': 'Urgent Payment',
+  'NURG': 'Non-urgent Payment',
+  'URNS': 'Urgent Payment Net Settlement',
+  'SDVA': 'Same Day Value',
+  'G001': 'Tracked Customer Credit Transfer',
+} as const;
+
+/**
+ * Instruction priorities as defined in ISO 20022 Priority2Code.
+ */
+export const InstructionPriorityCode = {
+  /** Priority level is high */
+  High: 'HIGH',
+  /** Priority level is normal */
+  Normal: 'NORM',
+} as const;
+
+export type InstructionPriority =
+  (typeof InstructionPriorityCode)[keyof typeof InstructionPriorityCode];
+
 /**
  * Represents a credit payment instruction, extending the base PaymentInstruction.
  */
 export interface CreditPaymentInstruction extends PaymentInstruction {
   direction?: 'credit';
   creditor: Party;
+  /** Agreement under which the payment is processed, e.g. URGP for urgent payments. Defaults to the message's service level. */
+  serviceLevel?: ServiceLevel;
+  /** Urgency with which the debtor agent processes the payment. Defaults to the message's instruction priority. */
+  instructionPriority?: InstructionPriority;
+  /** High level purpose of the payment, which banks may use for processing. Defaults to the message's category purpose. */
+  categoryPurpose?: ExternalCategoryPurpose;
+  /** Underlying reason of the payment, passed on to the creditor. Defaults to the message's purpose. */
+  purpose?: ExternalPurpose;
 }
 
 /**
@@ -37,6 +147,144 @@ export interface CreditPaymentInstruction extends PaymentInstruction {
 export interface SWIFTCreditPaymentInstruction extends CreditPaymentInstruction {
   /** Specifies that this is a SWIFT payment. */
   type?: 'swift';
+  /** Up to 3 agents between the debtor agent and the creditor agent, in the order the payment passes through them. */
+  intermediaryAgents?: Agent[];
+  /** The party that owes the money, when the debtor pays on its behalf. */
+  ultimateDebtor?: Party;
+  /** The party that ultimately receives the money, when the creditor receives it on its behalf. */
+  ultimateCreditor?: Party;
+  /** Instructions for the creditor agent, e.g. to phone the beneficiary (PHOB). */
+  instructionsForCreditorAgent?: InstructionForCreditorAgent[];
+  /** Up to 10 regulatory reports, required by the central banks of countries such as AE, IN and CN. */
+  regulatoryReporting?: RegulatoryReporting[];
+  /**
+   * The currency the creditor is paid in, when it differs from the currency of the amount.
+   * The amount is then written as an equivalent amount (EqvtAmt) in the debtor account currency, converted by the debtor agent.
+   */
+  currencyOfTransfer?: Currency;
+  /** The exchange rate of the payment, e.g. the rate and contract id of a pre-booked FX deal. */
+  exchangeRateInformation?: ExchangeRateInformation;
+}
+
+/**
+ * Exchange rate types as defined in ISO 20022 ExchangeRateType1Code.
+ */
+export const ExchangeRateTypeCode = {
+  /** Exchange rate applied is the spot rate */
+  Spot: 'SPOT',
+  /** Exchange rate applied is the market rate at the time of the sale */
+  Sale: 'SALE',
+  /** Exchange rate applied is the rate agreed between the parties, e.g. in an FX contract */
+  Agreed: 'AGRD',
+} as const;
+
+export type ExchangeRateType =
+  (typeof ExchangeRateTypeCode)[keyof typeof ExchangeRateTypeCode];
+
+export const ExchangeRateTypeCodeDescriptionMap = {
+  'SPOT': 'Spot',
+  'SALE': 'Sale',
+  'AGRD': 'Agreed',
+} as const;
+
+/**
+ * Represents the exchange rate information of a payment (XchgRateInf).
+ */
+export interface ExchangeRateInformation {
+  /** The currency in which the rate is expressed, e.g. USD for 1 USD = 150.25 JPY. Written from pain.001.001.04 onwards. */
+  unitCurrency?: Currency;
+  /** The exchange rate, with at most 10 decimals and 11 digits. */
+  rate?: number;
+  /** The type of the rate. */
+  rateType?: ExchangeRateType;
+  /** The id of the FX contract the rate was agreed in, at most 35 characters. Required for agreed rates. */
+  contractId?: string;
+}
+
+/**
+ * Instruction codes for the creditor agent as defined in ISO 20022 Instruction3Code.
+ */
+export const InstructionForCreditorAgentCode = {
+  /** Pay the creditor only by cheque */
+  PayCreditorByCheque: 'CHQB',
+  /** Hold the amount for the creditor, who will call, and pay on identification */
+  HoldCashForCreditor: 'HOLD',
+  /** Contact the creditor by phone about the payment */
+  PhoneBeneficiary: 'PHOB',
+  /** Contact the creditor by the most efficient telecommunication means */
+  Telecom: 'TELB',
+} as const;
+
+export type InstructionForCreditorAgentType =
+  (typeof InstructionForCreditorAgentCode)[keyof typeof InstructionForCreditorAgentCode];
+
+export const InstructionForCreditorAgentCodeDescriptionMap = {
+  'CHQB': 'Pay Creditor By Cheque',
+  'HOLD': 'Hold Cash For Creditor',
+  'PHOB': 'Phone Beneficiary',
+  'TELB': 'Telecom',
+} as const;
+
+/**
+ * Represents an instruction for the creditor agent (InstrForCdtrAgt).
+ */
+export interface InstructionForCreditorAgent {
+  /** The instruction code. */
+  code?: InstructionForCreditorAgentType;
+  /** Further information on the instruction, at most 140 characters. */
+  information?: string;
+}
+
+/**
+ * Regulatory reporting indicators as defined in ISO 20022 RegulatoryReportingType1Code.
+ */
+export const RegulatoryReportingTypeCode = {
+  /** Regulatory information applies to the credit side */
+  Credit: 'CRED',
+  /** Regulatory information applies to the debit side */
+  Debit: 'DEBT',
+  /** Regulatory information applies to both the credit and the debit side */
+  Both: 'BOTH',
+} as const;
+
+export type RegulatoryReportingType =
+  (typeof RegulatoryReportingTypeCode)[keyof typeof RegulatoryReportingTypeCode];
+
+/**
+ * Represents the information reported to the regulatory and statutory authorities (RgltryRptg).
+ */
+export interface RegulatoryReporting {
+  /** Whether the report applies to the debit side, the credit side or both. */
+  debitCreditReportingIndicator?: RegulatoryReportingType;
+  /** The authority that requires the report. */
+  authority?: {
+    /** The name of the authority, at most 140 characters. */
+    name?: string;
+    /** The country of the authority. */
+    country?: Alpha2Country;
+  };
+  /** The reported details, e.g. the purpose of payment code of the destination country. */
+  details?: RegulatoryReportingDetails[];
+}
+
+/**
+ * Represents the details of a regulatory report.
+ */
+export interface RegulatoryReportingDetails {
+  /** The type of the information, at most 35 characters. */
+  type?: string;
+  /** The date of the information. */
+  date?: Date;
+  /** The country of the information. */
+  country?: Alpha2Country;
+  /** The reporting code, at most 10 characters, e.g. the RBI purpose code P1006 for payments to India. */
+  code?: string;
+  /** The amount of the information, in minor units of its currency. */
+  amount?: number;
+  /** The currency of the amount. */
+  currency?: Currency;
+  /** Further information, every line at most 35 characters. */
+  information?: string[];
 }
 
 export interface SEPACreditPaymentInstruction extends CreditPaymentInstruction {
@@ -59,6 +307,125 @@ export interface ACHCreditPaymentInstruction extends CreditPaymentInstruction {
   currency: 'USD',
 }
 
+/**
+ * Represents a debit payment instruction, extending the base PaymentInstruction.
+ */
+export interface DebitPaymentInstruction extends PaymentInstruction {
+  direction?: 'debit';
+  debtor: Party;
+}
+
+/**
+ * Represents a SEPA direct debit payment instruction, extending the base PaymentInstruction.
+ */
+export interface SEPADirectDebitPaymentInstruction extends DebitPaymentInstruction {
+  /** Specifies that this is a SEPA payment. */
+  type?: 'sepa',
+  /** SEPA direct debits must use EUR as currency. */
+  currency: 'EUR',
+  /** The mandate signed by the debtor that authorises the collection. */
+  mandate: MandateInformation,
+  /** Date on which the debtor is debited. Defaults to the message's requested collection date. */
+  requestedCollectionDate?: Date,
+  /** Sequence type of the collection, e.g. FRST for the first collection of a mandate. Defaults to the message's sequence type. */
+  sequenceType?: SEPADirectDebitSequenceType,
+  /** Direct debit scheme of the collection. Defaults to the message's local instrument. */
+  localInstrument?: SEPADirectDebitLocalInstrument,
+  /** High level purpose of the collection. Defaults to the message's category purpose. */
+  categoryPurpose?: ExternalCategoryPurpose,
+}
+
+/**
+ * Represents a payment information block (PmtInf) of a direct debit initiation, grouping collections
+ * that share a requested collection date, sequence type and payment type.
+ */
+export interface DirectDebitPaymentInformation<T extends DebitPaymentInstruction = DebitPaymentInstruction> {
+  /** Unique identifier of the payment information block. */
+  id: string;
+  /** Date on which the debtors are debited, at midnight UTC. */
+  requestedCollectionDate: Date;
+  /** Sequence type of the collections in the block. */
+  sequenceType: SEPADirectDebitSequenceType;
+  /** Direct debit scheme of the collections in the block. */
+  localInstrument: SEPADirectDebitLocalInstrument;
+  /** High level purpose of the collections in the block. */
+  categoryPurpose?: ExternalCategoryPurpose;
+  /** The collections in the block. */
+  paymentInstructions: [T, ...T[]];
+}
+
+/**
+ * Represents the mandate under which a direct debit is collected.
+ */
+export interface MandateInformation {
+  /** Unique identification of the mandate, as assigned by the creditor. */
+  mandateId: string;
+  /** Date on which the debtor signed the mandate. */
+  dateOfSignature: Date;
+  /** Indicates whether the mandate has been amended since the last collection. */
+  amendmentIndicator?: boolean;
+  /** Details of the amended mandate elements. Required when amendmentIndicator is true. */
+  amendmentInformation?: MandateAmendmentInformation;
+}
+
+/**
+ * Represents the original values of mandate elements that have been amended.
+ */
+export interface MandateAmendmentInformation {
+  /** The mandate identification before the amendment. */
+  originalMandateId?: string;
+  /** The creditor scheme identification before the amendment. */
+  originalCreditorSchemeId?: string;
+  /** The creditor name before the amendment. */
+  originalCreditorName?: string;
+  /** The debtor account before the amendment. */
+  originalDebtorAccount?: Account;
+  /** The debtor agent before the amendment. */
+  originalDebtorAgent?: Agent;
+}
+
+/**
+ * SEPA Direct Debit sequence types as defined in ISO 20022 SequenceType3Code.
+ */
+export const SEPADirectDebitSequenceTypeCode = {
+  /** First collection of a series of direct debit instructions */
+  First: 'FRST',
+  /** Direct debit instruction where the debtor's authorisation is used for regular direct debit transactions */
+  Recurring: 'RCUR',
+  /** Direct debit instruction where the debtor's authorisation is used to initiate one single direct debit transaction */
+  OneOff: 'OOFF',
+  /** Final collection of a series of direct debit instructions */
+  Final: 'FNAL',
+} as const;
+
+export type SEPADirectDebitSequenceType =
+  (typeof SEPADirectDebitSequenceTypeCode)[keyof typeof SEPADirectDebitSequenceTypeCode];
+
+export const SEPADirectDebitSequenceTypeCodeDescriptionMap = {
+  'FRST': 'First',
+  'RCUR': 'Recurring',
+  'OOFF': 'One Off',
+  'FNAL': 'Final',
+} as const;
+
+/**
+ * SEPA Direct Debit schemes, sent as the local instrument code.
+ */
+export const SEPADirectDebitLocalInstrumentCode = {
+  /** SEPA Core Direct Debit scheme */
+  Core: 'CORE',
+  /** SEPA Business to Business Direct Debit scheme */
+  BusinessToBusiness: 'B2B',
+} as const;
+
+export type SEPADirectDebitLocalInstrument =
+  (typeof SEPADirectDebitLocalInstrumentCode)[keyof typeof SEPADirectDebitLocalInstrumentCode];
+
+export const SEPADirectDebitLocalInstrumentCodeDescriptionMap = {
+  'CORE': 'SEPA Core Direct Debit',
+  'B2B': 'SEPA Business to Business Direct Debit',
+} as const;
+
 /*
  * Represents a SEPA credit payment instruction, extending the base PaymentInstruction.
  */
@@ -216,6 +583,200 @@ export const ExternalCategoryPurposeCodeDescriptionMap = {
 export type ExternalCategoryPurpose =
   (typeof ExternalCategoryPurposeCode)[keyof typeof ExternalCategoryPurposeCode];
 
+/**
+ * Purpose codes as defined in ISO 20022 ExternalPurpose1Code, the underlying reason of a payment.
+ * Only the most common of the catalogue's codes are listed.
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
+ */
+export const ExternalPurposeCode = {
+  /** Transaction moves funds between 2 accounts of same account holder at the same bank */
+  AccountManagement: 'ACCT',
+  /** Transaction is an advance payment */
+  AdvancePayment: 'ADVA',
+  /** Transaction is related to the agricultural domain */
+  AgriculturalTransfer: 'AGRT',
+  /** Transaction is the payment of alimony */
+  AlimonyPayment: 'ALMY',
+  /** Transaction is related to a payment made to assist parent/guardian to maintain child */
+  ChildBenefit: 'BECH',
+  /** Transaction is related to a payment to a person who is unemployed/disabled */
+  UnemploymentDisabilityBenefit: 'BENE',
+  /** Transaction is related to a payment of business expenses */
+  BusinessExpenses: 'BEXP',
+  /** Transaction is related to payment of a bonus */
+  BonusPayment: 'BONU',
+  /** Transaction is a general cash management instruction */
+  CashManagementTransfer: 'CASH',
+  /** Transaction is related to capital building fringe fortune, ie capital building for retirement */
+  CapitalBuilding: 'CBFF',
+  /** Transaction is related to a payment of credit card account */
+  CreditCardPayment: 'CCRD',
+  /** Transaction is a payment for charity reasons */
+  CharityPayment: 'CHAR',
+  /** Transaction is a collection of funds initiated via a credit transfer or direct debit */
+  CollectionPayment: 'COLL',
+  /** Transaction is related to a payment of commercial credit or debit */
+  CommercialPayment: 'COMC',
+  /** Transaction is payment of commission */
+  Commission: 'COMM',
+  /** Transaction is related to a payment of consulting services */
+  Consulting: 'CONS',
+  /** Transaction is related to a debit card payment */
+  DebitCardPayment: 'DCRD',
+  /** Transaction is payment of dividends */
+  Dividend: 'DIVD',
+  /** Transaction is related to a payment of study/tuition fees */
+  Education: 'EDUC',
+  /** Transaction is related to a payment of electricity bill */
+  ElectricityBill: 'ELEC',
+  /** Transaction is related to a foreign exchange operation */
+  ForeignExchange: 'FREX',
+  /** Transaction is related to a payment of gas bill */
+  GasBill: 'GASB',
+  /** Transaction is related to purchase and sale of goods */
+  PurchaseSaleOfGoods: 'GDDS',
+  /** Transaction is related to purchase and sale of goods and services */
+  PurchaseSaleOfGoodsAndServices: 'GDSV',
+  /** Transaction is a payment to or from a government department */
+  GovernmentPayment: 'GOVT',
+  /** Transaction is the payment of Goods & Services Tax */
+  GoodsServicesTax: 'GSTX',
+  /** Transaction is related to the payment of a hedging operation */
+  Hedging: 'HEDG',
+  /** Transaction is reimbursement of credit card payment */
+  IrrevocableCreditCardPayment: 'ICCP',
+  /** Transaction is reimbursement of debit card payment */
+  IrrevocableDebitCardPayment: 'IDCP',
+  /** Transaction is payment of an insurance premium */
+  InsurancePremium: 'INSU',
+  /** Transaction is an intra-company payment, ie, a payment between two companies belonging to the same group */
+  IntraCompanyPayment: 'INTC',
+  /** Transaction is payment of interest */
+  Interest: 'INTE',
+  /** Transaction is for the payment of mutual funds, investment products and shares */
+  InvestmentAndSecurities: 'INVS',
+  /** Transaction is payment of a license fee */
+  LicenseFee: 'LICF',
+  /** Transaction is related to transfer of loan to borrower */
+  Loan: 'LOAN',
+  /** Transaction is related to repayment of loan to lender */
+  LoanRepayment: 'LOAR',
+  /** Transaction is related to a payment for medical care services */
+  MedicalServices: 'MDCS',
+  /** Transaction is related to a netting operation */
+  Netting: 'NETT',
+  /** Other payment purpose */
+  Other: 'OTHR',
+  /** Transaction is related to the payment of payroll */
+  Payroll: 'PAYR',
+  /** Transaction is the payment of pension */
+  PensionPayment: 'PENS',
+  /** Transaction is related to a payment of telephone bill */
+  TelephoneBill: 'PHON',
+  /** Transaction is a payment of property insurance */
+  PropertyInsurance: 'PPTI',
+  /** Transaction is the payment of rent */
+  Rent: 'RENT',
+  /** Transaction is related to a payment of a recurring installment made at regular intervals */
+  RecurringInstallmentPayment: 'RINP',
+  /** Transaction is the payment of royalties */
+  Royalties: 'ROYA',
+  /** Transaction is the payment of salaries */
+  SalaryPayment: 'SALA',
+  /** Transaction is related to purchase and sale of services */
+  PurchaseSaleOfServices: 'SCVE',
+  /** Transaction is the payment of securities */
+  Securities: 'SECU',
+  /** Transaction is related to a payment of service charges */
+  ServiceCharges: 'SERV',
+  /** Transaction is a social security benefit, ie payment made by a government to support individuals */
+  SocialSecurityBenefit: 'SSBE',
+  /** Transaction is related to a payment of information or entertainment services either in printed or electronic form */
+  Subscription: 'SUBS',
+  /** Transaction is related to a payment to a supplier */
+  SupplierPayment: 'SUPP',
+  /** Transaction is the payment of taxes */
+  TaxPayment: 'TAXS',
+  /** Transaction is related to a trade services operation */
+  TradeServices: 'TRAD',
+  /** Transaction is related to treasury operations */
+  TreasuryPayment: 'TREA',
+  /** Transaction is the payment of value added tax */
+  ValueAddedTaxPayment: 'VATX',
+  /** Transaction is related to a payment of withholding tax */
+  WithHolding: 'WHLD',
+  /** Transaction is related to a payment of water bill */
+  WaterBill: 'WTER',
+} as const;
+
+/**
+ * Description mapping of ExternalPurposeCode values to their names.
+ */
+export const ExternalPurposeCodeDescriptionMap = {
+  'ACCT': 'Account Management',
+  'ADVA': 'Advance Payment',
+  'AGRT': 'Agricultural Transfer',
+  'ALMY': 'Alimony Payment',
+  'BECH': 'Child Benefit',
+  'BENE': 'Unemployment Disability Benefit',
+  'BEXP': 'Business Expenses',
+  'BONU': 'Bonus Payment',
+  'CASH': 'Cash Management Transfer',
+  'CBFF': 'Capital Building',
+  'CCRD': 'Credit Card Payment',
+  'CHAR': 'Charity Payment',
+  'COLL': 'Collection Payment',
+  'COMC': 'Commercial Payment',
+  'COMM': 'Commission',
+  'CONS': 'Consulting',
+  'DCRD': 'Debit Card Payment',
+  'DIVD': 'Dividend',
+  'EDUC': 'Education',
+  'ELEC': 'Electricity Bill',
+  'FREX': 'Foreign Exchange',
+  'GASB': 'Gas Bill',
+  'GDDS': 'Purchase Sale Of Goods',
+  'GDSV': 'Purchase Sale Of Goods And Services',
+  'GOVT': 'Government Payment',
+  'GSTX': 'Goods And Services Tax',
+  'HEDG': 'Hedging',
+  'ICCP': 'Irrevocable Credit Card Payment',
+  'IDCP': 'Irrevocable Debit Card Payment',
+  'INSU': 'Insurance Premium',
+  'INTC': 'Intra Company Payment',
+  'INTE': 'Interest',
+  'INVS': 'Investment And Securities',
+  'LICF': 'License Fee',
+  'LOAN': 'Loan',
+  'LOAR': 'Loan Repayment',
+  'MDCS': 'Medical Services',
+  'NETT': 'Netting',
+  'OTHR': 'Other',
+  'PAYR': 'Payroll',
+  'PENS': 'Pension Payment',
+  'PHON': 'Telephone Bill',
+  'PPTI': 'Property Insurance',
+  'RENT': 'Rent',
+  'RINP': 'Recurring Installment Payment',
+  'ROYA': 'Royalties',
+  'SALA': 'Salary Payment',
+  'SCVE': 'Purchase Sale Of Services',
+  'SECU': 'Securities',
+  'SERV': 'Service Charges',
+  'SSBE': 'Social Security Benefit',
+  'SUBS': 'Subscription',
+  'SUPP': 'Supplier Payment',
+  'TAXS': 'Tax Payment',
+  'TRAD': 'Trade Services',
+  'TREA': 'Treasury Payment',
+  'VATX': 'Value Added Tax Payment',
+  'WHLD': 'With Holding',
+  'WTER': 'Water Bill',
+} as const;
+
+export type ExternalPurpose =
+  (typeof ExternalPurposeCode)[keyof typeof ExternalPurposeCode];
+
 /**
  * Represents a structured address format.
  */
@@ -224,8 +785,20 @@ export interface StructuredAddress {
   streetName?: string;
   /** The building number on the street. */
   buildingNumber?: string;
+  /** The name of the building. Only written from pain.001.001.09 onwards. */
+  buildingName?: string;
+  /** The floor or storey within the building. Only written from pain.001.001.09 onwards. */
+  floor?: string;
+  /** The numbered box in a post office. Only written from pain.001.001.09 onwards. */
+  postBox?: string;
+  /** The building room number. Only written from pain.001.001.09 onwards. */
+  room?: string;
   /** The name of the town or city. */
   townName?: string;
+  /** The specific location name within the town. Only written from pain.001.001.09 onwards. */
+  townLocationName?: string;
+  /** The district within the country subdivision. Only written from pain.001.001.09 onwards. */
+  districtName?: string;
   /** The subdivision of the country (e.g., state, province). */
   countrySubDivision?: string;
   /** The postal or ZIP code. */
@@ -248,6 +821,66 @@ export interface Party {
   account?: Account;
   /** The financial agent (e.g., bank) of the party. */
   agent?: Agent;
+  /** The organisation or private identification of the party. */
+  identification?: PartyIdentification;
+}
+
+/**
+ * Represents the identification of a party, either as an organisation or as a private person.
+ */
+export interface PartyIdentification {
+  /** Identification of the party as an organisation. */
+  organisation?: OrganisationIdentification;
+  /** Identification of the party as a private person. */
+  privatePerson?: PrivateIdentification;
+}
+
+/**
+ * Represents the identification of an organisation.
+ */
+export interface OrganisationIdentification {
+  /** The BIC of the organisation. */
+  anyBic?: string;
+  /** The Legal Entity Identifier of the organisation. */
+  lei?: string;
+  /** Other identifications of the organisation, e.g. a tax number. */
+  other?: GenericIdentification[];
+}
+
+/**
+ * Represents the identification of a private person.
+ */
+export interface PrivateIdentification {
+  /** The date and place of birth of the person. */
+  dateAndPlaceOfBirth?: DateAndPlaceOfBirth;
+  /** Other identifications of the person, e.g. a passport number. */
+  other?: GenericIdentification[];
+}
+
+/**
+ * Represents the date and place of birth of a private person.
+ */
+export interface DateAndPlaceOfBirth {
+  /** The date of birth. */
+  birthDate: Date;
+  /** The province of birth. */
+  provinceOfBirth?: string;
+  /** The city of birth. */
+  cityOfBirth: string;
+  /** The country of birth. */
+  countryOfBirth: Alpha2Country;
+}
+
+/**
+ * Represents an identification assigned under a scheme, e.g. a tax number or a SEPA creditor identifier.
+ */
+export interface GenericIdentification {
+  /** The identifier. */
+  id: string;
+  /** The name of the identification scheme, e.g. 'TXID' or 'SEPA'. */
+  schemeName?: string;
+  /** The issuer of the identification. */
+  issuer?: string;
 }
 
 /**
@@ -434,3 +1067,189 @@ export const CashAccountTypeCodeDescriptionMap = {
   'TRAN': 'Transacting Account',
   'TRAS': 'Cash Trading',
 } as const;
+
+/**
+ * An amount in minor units of its currency, e.g. cents for USD.
+ * Parsed amounts are numbers, or bigints when parsing with the `bigint` amount mode.
+ */
+export type Amount = number | bigint;
+
+/**
+ * How parsed amounts are represented.
+ * - `number`: JavaScript numbers, exact up to `Number.MAX_SAFE_INTEGER` minor units.
+ * - `bigint`: bigints, exact for any amount, e.g. for treasury-scale balances.
+ */
+export type AmountMode = 'number' | 'bigint';
+
+/**
+ * The amount type produced by an amount mode.
+ */
+export type AmountOfMode<M extends AmountMode> = M extends 'bigint' ? bigint : number;
+
+/**
+ * Options for parsing the amounts of a received message.
+ */
+export interface AmountParsingOptions<M extends AmountMode = AmountMode> {
+  /** How amounts are represented. Defaults to 'number'. */
+  amountMode?: M;
+}
+
+/**
+ * Represents structured remittance information (Strd), which lets the creditor match a payment to its receivables.
+ */
+export interface StructuredRemittance<A extends Amount = number> {
+  /** The documents settled by the payment, e.g. invoices or credit notes. */
+  referredDocuments?: ReferredDocument[];
+  /** The amounts of the referred documents. */
+  referredDocumentAmount?: RemittanceAmount<A>;
+  /** The reference assigned by the creditor, e.g. an ISO 11649 RF creditor reference. */
+  creditorReference?: CreditorReference;
+  /** The tax remitted with the payment. Only written from pain.001.001.04 and camt.053.001.03 onwards. */
+  taxRemittance?: TaxRemittance<A>;
+  /** Additional free text remittance information, at most 3 lines. */
+  additionalInformation?: string[];
+}
+
+/**
+ * Document types as defined in ISO 20022 DocumentType6Code.
+ * Other types are written as proprietary types.
+ */
+export const DocumentTypeCode = {
+  /** Metered service invoice */
+  MeteredServiceInvoice: 'MSIN',
+  /** Credit note related to financial adjustment */
+  CreditNoteRelatedToFinancialAdjustment: 'CNFA',
+  /** Debit note related to financial adjustment */
+  DebitNoteRelatedToFinancialAdjustment: 'DNFA',
+  /** Commercial invoice */
+  CommercialInvoice: 'CINV',
+  /** Credit note */
+  CreditNote: 'CREN',
+  /** Debit note */
+  DebitNote: 'DEBN',
+  /** Hire invoice */
+  HireInvoice: 'HIRI',
+  /** Self billed invoice */
+  SelfBilledInvoice: 'SBIN',
+  /** Commercial contract */
+  CommercialContract: 'CMCN',
+  /** Statement of account */
+  StatementOfAccount: 'SOAC',
+  /** Dispatch advice */
+  DispatchAdvice: 'DISP',
+  /** Bill of lading */
+  BillOfLading: 'BOLD',
+  /** Voucher */
+  Voucher: 'VCHR',
+  /** Accounts receivable open item */
+  AccountReceivableOpenItem: 'AROI',
+  /** Trade services utility transaction */
+  TradeServicesUtilityTransaction: 'TSUT',
+  /** Purchase order, only a code from pain.001.001.04 and camt.053.001.03 onwards */
+  PurchaseOrder: 'PUOR',
+} as const;
+
+export type DocumentType = (typeof DocumentTypeCode)[keyof typeof DocumentTypeCode];
+
+/**
+ * Creditor reference types as defined in ISO 20022 DocumentType3Code.
+ * Other types are written as proprietary types.
+ */
+export const CreditorReferenceTypeCode = {
+  /** Remittance advice message */
+  RemittanceAdviceMessage: 'RADM',
+  /** Related payment instruction */
+  RelatedPaymentInstruction: 'RPIN',
+  /** Foreign exchange deal reference */
+  ForeignExchangeDealReference: 'FXDR',
+  /** Dispatch advice */
+  DispatchAdvice: 'DISP',
+  /** Purchase order */
+  PurchaseOrder: 'PUOR',
+  /** Structured communication reference, e.g. an ISO 11649 RF creditor reference */
+  StructuredCommunicationReference: 'SCOR',
+} as const;
+
+export type CreditorReferenceType = (typeof CreditorReferenceTypeCode)[keyof typeof CreditorReferenceTypeCode];
+
+/**
+ * Represents a document settled by a payment.
+ */
+export interface ReferredDocument {
+  /** The type of the document, as a code (e.g. 'CINV' for a commercial invoice) or a proprietary type. */
+  type?: string;
+  /** The issuer of the document type. */
+  issuer?: string;
+  /** The number of the document, e.g. the invoice number. */
+  number?: string;
+  /** The date of the document, e.g. the invoice date. */
+  relatedDate?: Date;
+  /**
+   * The type of the related date, as a code or a proprietary type. Only written from pain.001.001.12 and camt.053.001.12 onwards,
+   * where the date must carry a type, 'DOCUMENT DATE' unless given.
+   */
+  relatedDateType?: string;
+}
+
+/**
+ * Represents the amounts of the documents settled by a payment, in minor units of a single currency.
+ */
+export interface RemittanceAmount<A extends Amount = number> {
+  /** The currency of the amounts. */
+  currency: Currency;
+  /** Amount due on the documents. */
+  duePayableAmount?: A;
+  /** Discount deducted from the amount due. */
+  discountAppliedAmount?: A;
+  /** Amount of credit notes deducted from the amount due. */
+  creditNoteAmount?: A;
+  /** Tax included in the amount due. */
+  taxAmount?: A;
+  /** Amount remitted for the documents. */
+  remittedAmount?: A;
+}
+
+/**
+ * The creditor reference schemes that can be generated, validated and recognised.
+ * - 'rf': ISO 11649 international creditor reference, e.g. 'RF18539007547034'.
+ * - 'qrr': Swiss QR reference of QR-bills, 27 digits with a mod 10 recursive check digit.
+ * - 'kid': Norwegian KID (kundeidentifikasjon), 2 to 25 digits with a MOD10 or MOD11 check digit.
+ * - 'fi': Finnish national reference (viitenumero), 4 to 20 digits with a 7-3-1 weighted check digit.
+ */
+export type CreditorReferenceScheme = 'rf' | 'qrr' | 'kid' | 'fi';
+
+/**
+ * Represents a reference assigned by the creditor to match the payment.
+ */
+export interface CreditorReference {
+  /** The reference, e.g. 'RF18539007547034'. */
+  reference: string;
+  /** The scheme of the reference, when it is a valid reference of a known scheme. Recognised when parsing, never written. */
+  scheme?: CreditorReferenceScheme;
+  /** The type of the reference, as a code (e.g. 'SCOR' for a structured communication reference) or a proprietary type. */
+  type?: string;
+  /** The issuer of the reference type, e.g. 'ISO' for ISO 11649 references. */
+  issuer?: string;
+}
+
+/**
+ * Represents the tax remitted with a payment.
+ */
+export interface TaxRemittance<A extends Amount = number> {
+  /** Tax identification of the creditor. */
+  creditorTaxId?: string;
+  /** Tax identification of the debtor. */
+  debtorTaxId?: string;
+  /** Reference of the tax remittance, as assigned by the tax authority. */
+  referenceNumber?: string;
+  /** Method used to calculate the tax. */
+  method?: string;
+  /** The currency of the tax amounts. */
+  currency?: Currency;
+  /** Total amount the tax is calculated on. */
+  totalTaxableBaseAmount?: A;
+  /** Total amount of tax. */
+  totalTaxAmount?: A;
+  /** Date on which the tax is due. */
+  date?: Date;
+}
@@ -0,0 +1,318 @@
+import { Alpha2Country, Alpha2CountryCode } from './countries';
+import { ABAAgent, BaseAccount, BICAgent, IBANAccount, Party } from './types';
+
+/**
+ * The IBAN format of a country, as published in the SWIFT IBAN registry.
+ */
+export interface IBANCountrySpecification {
+  /** The total length of the IBAN, including the country code and check digits. */
+  length: number;
+  /**
+   * The structure of the BBAN in registry notation, e.g. '8n10n' for Germany.
+   * 'n' stands for digits, 'a' for upper case letters and 'c' for alphanumeric characters.
+   */
+  bbanStructure: string;
+}
+
+/**
+ * IBAN formats by country.
+ * @see {@link https://www.swift.com/standards/data-standards/iban-international-bank-account-number}
+ */
+export const IBANCountrySpecifications: Partial<Record<Alpha2Country, IBANCountrySpecification>> = {
+  AD: { length: 24, bbanStructure: '4n4n12c' },
+  AE: { length: 23, bbanStructure: '3n16n' },
+  AL: { length: 28, bbanStructure: '8n16c' },
+  AT: { length: 20, bbanStructure: '5n11n' },
+  AZ: { length: 28, bbanStructure: '4a20c' },
+  BA: { length: 20, bbanStructure: '3n3n8n2n' },
+  BE: { length: 16, bbanStructure: '3n7n2n' },
+  BG: { length: 22, bbanStructure: '4a4n2n8c' },
+  BH: { length: 22, bbanStructure: '4a14c' },
+  BI: { length: 27, bbanStructure: '5n5n11n2n' },
+  BR: { length: 29, bbanStructure: '8n5n10n1a1c' },
+  BY: { length: 28, bbanStructure: '4c4n16c' },
+  CH: { length: 21, bbanStructure: '5n12c' },
+  CR: { length: 22, bbanStructure: '4n14n' },
+  CY: { length: 28, bbanStructure: '3n5n16c' },
+  CZ: { length: 24, bbanStructure: '4n6n10n' },
+  DE: { length: 22, bbanStructure: '8n10n' },
+  DJ: { length: 27, bbanStructure: '5n5n11n2n' },
+  DK: { length: 18, bbanStructure: '4n9n1n' },
+  DO: { length: 28, bbanStructure: '4c20n' },
+  EE: { length: 20, bbanStructure: '2n2n11n1n' },
+  EG: { length: 29, bbanStructure: '4n4n17n' },
+  ES: { length: 24, bbanStructure: '4n4n1n1n10n' },
+  FI: { length: 18, bbanStructure: '3n11n' },
+  FK: { length: 18, bbanStructure: '2a12n' },
+  FO: { length: 18, bbanStructure: '4n9n1n' },
+  FR: { length: 27, bbanStructure: '5n5n11c2n' },
+  GB: { length: 22, bbanStructure: '4a6n8n' },
+  GE: { length: 22, bbanStructure: '2a16n' },
+  GI: { length: 23, bbanStructure: '4a15c' },
+  GL: { length: 18, bbanStructure: '4n9n1n' },
+  GR: { length: 27, bbanStructure: '3n4n16c' },
+  GT: { length: 28, bbanStructure: '4c20c' },
+  HR: { length: 21, bbanStructure: '7n10n' },
+  HU: { length: 28, bbanStructure: '3n4n1n15n1n' },
+  IE: { length: 22, bbanStructure: '4a6n8n' },
+  IL: { length: 23, bbanStructure: '3n3n13n' },
+  IQ: { length: 23, bbanStructure: '4a3n12n' },
+  IS: { length: 26, bbanStructure: '4n2n6n10n' },
+  IT: { length: 27, bbanStructure: '1a5n5n12c' },
+  JO: { length: 30, bbanStructure: '4a4n18c' },
+  KW: { length: 30, bbanStructure: '4a22c' },
+  KZ: { length: 20, bbanStructure: '3n13c' },
+  LB: { length: 28, bbanStructure: '4n20c' },
+  LC: { length: 32, bbanStructure: '4a24c' },
+  LI: { length: 21, bbanStructure: '5n12c' },
+  LT: { length: 20, bbanStructure: '5n11n' },
+  LU: { length: 20, bbanStructure: '3n13c' },
+  LV: { length: 21, bbanStructure: '4a13c' },
+  LY: { length: 25, bbanStructure: '3n3n15n' },
+  MC: { length: 27, bbanStructure: '5n5n11c2n' },
+  MD: { length: 24, bbanStructure: '2c18c' },
+  ME: { length: 22, bbanStructure: '3n13n2n' },
+  MK: { length: 19, bbanStructure: '3n10c2n' },
+  MN: { length: 20, bbanStructure: '4n12n' },
+  MR: { length: 27, bbanStructure: '5n5n11n2n' },
+  MT: { length: 31, bbanStructure: '4a5n18c' },
+  MU: { length: 30, bbanStructure: '4a2n2n12n3n3a' },
+  NI: { length: 28, bbanStructure: '4a20n' },
+  NL: { length: 18, bbanStructure: '4a10n' },
+  NO: { length: 15, bbanStructure: '4n6n1n' },
+  OM: { length: 23, bbanStructure: '3n16c' },
+  PK: { length: 24, bbanStructure: '4a16c' },
+  PL: { length: 28, bbanStructure: '8n16n' },
+  PS: { length: 29, bbanStructure: '4a21c' },
+  PT: { length: 25, bbanStructure: '4n4n11n2n' },
+  QA: { length: 29, bbanStructure: '4a21c' },
+  RO: { length: 24, bbanStructure: '4a16c' },
+  RS: { length: 22, bbanStructure: '3n13n2n' },
+  RU: { length: 33, bbanStructure: '9n5n15c' },
+  SA: { length: 24, bbanStructure: '2n18c' },
+  SC: { length: 31, bbanStructure: '4a2n2n16n3a' },
+  SD: { length: 18, bbanStructure: '2n12n' },
+  SE: { length: 24, bbanStructure: '3n16n1n' },
+  SI: { length: 19, bbanStructure: '5n8n2n' },
+  SK: { length: 24, bbanStructure: '4n6n10n' },
+  SM: { length: 27, bbanStructure: '1a5n5n12c' },
+  SO: { length: 23, bbanStructure: '4n3n12n' },
+  ST: { length: 25, bbanStructure: '4n4n11n2n' },
+  SV: { length: 28, bbanStructure: '4a20n' },
+  TL: { length: 23, bbanStructure: '3n14n2n' },
+  TN: { length: 24, bbanStructure: '2n3n13n2n' },
+  TR: { length: 26, bbanStructure: '5n1n16c' },
+  UA: { length: 29, bbanStructure: '6n19c' },
+  VA: { length: 22, bbanStructure: '3n15n' },
+  VG: { length: 24, bbanStructure: '4a16n' },
+  XK: { length: 20, bbanStructure: '4n10n2n' },
+};
+
+/**
+ * Countries whose accounts are issued under the IBAN country code of another country,
+ * e.g. banks in French overseas departments use FR IBANs. Used to check BIC / IBAN country consistency.
+ */
+const IBANCountryTerritories: Partial<Record<Alpha2Country, Alpha2Country[]>> = {
+  FR: ['GF', 'GP', 'MQ', 'RE', 'PF', 'TF', 'YT', 'NC', 'BL', 'MF', 'PM', 'WF'],
+  GB: ['GG', 'JE', 'IM'],
+  FI: ['AX'],
+};
+
+/**
+ * The result of validating an account or agent identifier.
+ */
+export interface IdentifierValidationResult {
+  /** Whether the identifier is valid. */
+  valid: boolean;
+  /** Human readable descriptions of the problems found, empty when the identifier is valid. */
+  errors: string[];
+}
+
+const BBAN_CHARACTER_CLASSES: Record<string, string> = {
+  n: '[0-9]',
+  a: '[A-Z]',
+  c: '[A-Za-z0-9]',
+};
+
+/**
+ * Builds a regular expression from a BBAN structure in registry notation, e.g. '4a6n8n'.
+ * @param {string} bbanStructure - The BBAN structure.
+ * @returns {RegExp} The matching regular expression.
+ */
+const bbanPattern = (bbanStructure: string): RegExp => {
+  const parts = Array.from(bbanStructure.matchAll(/(\d+)([nac])/g));
+  return new RegExp(`^${parts.map(([, count, type]) => `${BBAN_CHARACTER_CLASSES[type]}{${count}}`).join('')}$`);
+};
+
+/**
+ * Computes the ISO 7064 mod 97-10 remainder of an IBAN, after moving the first four characters to the end.
+ * @param {string} iban - The IBAN, in electronic format.
+ * @returns {number} The remainder, 1 for a valid IBAN.
+ */
+const ibanRemainder = (iban: string): number => {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const character of rearranged) {
+    // Letters are replaced by two digits, A = 10 ... Z = 35
+    const value = parseInt(character, 36);
+    remainder = (remainder * (value > 9 ? 100 : 10) + value) % 97;
+  }
+  return remainder;
+};
+
+/**
+ * Validates an IBAN: electronic format, country specific length and BBAN structure, and the mod 97 checksum.
+ *
+ * @param {string} iban - The IBAN, in electronic format (no spaces, upper case).
+ * @returns {IdentifierValidationResult} The validation result.
+ * @example
+ * ```typescript
+ * validateIBAN('DE89370400440532013000'); // { valid: true, errors: [] }
+ * validateIBAN('DE89370400440532013001'); // { valid: false, errors: ['IBAN DE89370400440532013001 has an invalid checksum'] }
+ * ```
+ */
+export const validateIBAN = (iban: string): IdentifierValidationResult => {
+  if (!/^[A-Z]{2}[0-9]{2}[A-Za-z0-9]{1,30}$/.test(iban || '')) {
+    return {
+      valid: false,
+      errors: [`IBAN ${iban} must start with a country code and two check digits, without spaces`],
+    };
+  }
+
+  const country = iban.slice(0, 2) as Alpha2Country;
+  const specification = IBANCountrySpecifications[country];
+  if (!specification) {
+    return { valid: false, errors: [`IBAN ${iban} has an unknown country code ${country}`] };
+  }
+
+  const errors: string[] = [];
+  if (iban.length !== specification.length) {
+    errors.push(`IBAN ${iban} must be ${specification.length} characters long for ${country}`);
+  } else if (!bbanPattern(specification.bbanStructure).test(iban.slice(4))) {
+    errors.push(`IBAN ${iban} does not match the ${country} account structure ${specification.bbanStructure}`);
+  }
+  if (ibanRemainder(iban.toUpperCase()) !== 1) {
+    errors.push(`IBAN ${iban} has an invalid checksum`);
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validates a BIC: 8 or 11 characters, made of a bank code, a known country code, a location code and an optional branch code.
+ *
+ * @param {string} bic - The BIC.
+ * @returns {IdentifierValidationResult} The validation result.
+ * @example
+ * ```typescript
+ * validateBIC('BSCHESMMXXX'); // { valid: true, errors: [] }
+ * ```
+ */
+export const validateBIC = (bic: string): IdentifierValidationResult => {
+  if (!/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic || '')) {
+    return { valid: false, errors: [`BIC ${bic} must be 8 or 11 upper case letters and digits`] };
+  }
+
+  const country = bic.slice(4, 6);
+  if (!(country in Alpha2CountryCode)) {
+    return { valid: false, errors: [`BIC ${bic} has an unknown country code ${country}`] };
+  }
+
+  return { valid: true, errors: [] };
+};
+
+/**
+ * Ranges of the first two digits of an ABA routing number, as assigned by the Federal Reserve.
+ * 00 is used by the U.S. Government, 01-12 by regular Fed districts, 21-32 by thrift institutions,
+ * 61-72 by electronic transactions and 80 by traveler's checks.
+ */
+const ABA_ROUTING_NUMBER_PREFIXES: [number, number][] = [[0, 12], [21, 32], [61, 72], [80, 80]];
+
+const ABA_CHECKSUM_WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+/**
+ * Validates an ABA routing transit number: 9 digits, a Federal Reserve district prefix and the 3-7-1 weighted checksum.
+ *
+ * @param {string} routingNumber - The ABA routing number.
+ * @returns {IdentifierValidationResult} The validation result.
+ * @example
+ * ```typescript
+ * validateABARoutingNumber('026009593'); // { valid: true, errors: [] }
+ * validateABARoutingNumber('026009594'); // { valid: false, errors: ['ABA routing number 026009594 has an invalid checksum'] }
+ * ```
+ */
+export const validateABARoutingNumber = (routingNumber: string): IdentifierValidationResult => {
+  if (!/^[0-9]{9}$/.test(routingNumber || '')) {
+    return { valid: false, errors: [`ABA routing number ${routingNumber} must be 9 digits`] };
+  }
+
+  const errors: string[] = [];
+  const prefix = Number(routingNumber.slice(0, 2));
+  if (!ABA_ROUTING_NUMBER_PREFIXES.some(([from, to]) => prefix >= from && prefix <= to)) {
+    errors.push(`ABA routing number ${routingNumber} has an unassigned Federal Reserve prefix ${routingNumber.slice(0, 2)}`);
+  }
+
+  const checksum = ABA_CHECKSUM_WEIGHTS.reduce((sum, weight, index) => sum + weight * Number(routingNumber[index]), 0);
+  if (checksum % 10 !== 0) {
+    errors.push(`ABA routing number ${routingNumber} has an invalid checksum`);
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validates a US bank account number: 4 to 17 letters and digits, the length of the NACHA DFI account number field.
+ *
+ * @param {string} accountNumber - The account number.
+ * @returns {IdentifierValidationResult} The validation result.
+ * @example
+ * ```typescript
+ * validateUSAccountNumber('123456789012'); // { valid: true, errors: [] }
+ * ```
+ */
+export const validateUSAccountNumber = (accountNumber: string): IdentifierValidationResult => {
+  if (!/^[A-Za-z0-9]+$/.test(accountNumber || '')) {
+    return { valid: false, errors: [`US account number ${accountNumber} must only contain letters and digits`] };
+  }
+
+  if (accountNumber.length < 4 || accountNumber.length > 17) {
+    return { valid: false, errors: [`US account number ${accountNumber} must be 4 to 17 characters long`] };
+  }
+
+  return { valid: true, errors: [] };
+};
+
+/**
+ * Validates the IBAN and BIC of a party, and checks that the BIC belongs to the country of the IBAN.
+ * Parties routed by ABA routing number get their routing number and US account number validated instead.
+ * Parties without an IBAN account or a BIC or ABA agent are checked for what they have.
+ *
+ * @param {Party} party - The party to validate.
+ * @returns {IdentifierValidationResult} The validation result, with the problems of the account and the agent.
+ */
+export const validatePartyIdentifiers = (party: Party): IdentifierValidationResult => {
+  const iban = (party.account as IBANAccount | undefined)?.iban;
+  const bic = (party.agent as BICAgent | undefined)?.bic;
+  const routingNumber = (party.agent as ABAAgent | undefined)?.abaRoutingNumber;
+  const accountNumber = routingNumber !== undefined ? (party.account as BaseAccount | undefined)?.accountNumber : undefined;
+
+  const ibanResult = iban !== undefined ? validateIBAN(iban) : undefined;
+  const bicResult = bic !== undefined ? validateBIC(bic) : undefined;
+  const errors = [
+    ...(ibanResult?.errors || []),
+    ...(bicResult?.errors || []),
+    ...(accountNumber !== undefined ? validateUSAccountNumber(accountNumber).errors : []),
+    ...(routingNumber !== undefined ? validateABARoutingNumber(routingNumber).errors : []),
+  ];
+
+  if (ibanResult?.valid && bicResult?.valid) {
+    const ibanCountry = iban!.slice(0, 2) as Alpha2Country;
+    const bicCountry = bic!.slice(4, 6) as Alpha2Country;
+    const territories = IBANCountryTerritories[ibanCountry] || [];
+    if (bicCountry !== ibanCountry && !territories.includes(bicCountry)) {
+      errors.push(`BIC ${bic} is from ${bicCountry} but IBAN ${iban} is from ${ibanCountry}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+};
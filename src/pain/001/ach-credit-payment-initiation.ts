@@ -1,13 +1,11 @@
-import { ABAAgent, ACHCreditPaymentInstruction, ACHLocalInstrument, ACHLocalInstrumentCode, Account, Agent, BaseAccount, Party } from '../../lib/types';
+import { ABAAgent, ACHCreditPaymentInstruction, ACHLocalInstrument, ACHLocalInstrumentCode, Account, Agent, BaseAccount, ChargeBearerType, ChargeBearerTypeCode, ExternalCategoryPurpose, ExternalPurpose, InstructionPriority, InstructionPriorityCode, Party, PaymentInformation, ServiceLevel, ServiceLevelCode } from '../../lib/types';
 import { v4 as uuidv4 } from 'uuid';
 import { Currency } from '../../lib/currency';
 import { formatAmount, sumAmounts } from '../../dinero-helpers';
-import { sanitize } from '../../utils/format';
-import { PaymentInitiation } from './payment-initiation';
-import { XMLParser } from 'fast-xml-parser';
-import { InvalidXmlError, InvalidXmlNamespaceError } from "../../errors";
+import { PaymentInitiation, PaymentInitiationVersion, PaymentTypeOptions, RequestedExecutionDateOptions } from './payment-initiation';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
+import { InvalidXmlError } from "../../errors";
 import { parseAccount, parseAgent, parseAmountToMinorUnits } from "../../parseUtils";
-import { Alpha2Country } from "../../lib/countries";
 
 type AtLeastOne<T> = [T, ...T[]];
 
@@ -18,8 +16,18 @@ type AtLeastOne<T> = [T, ...T[]];
  * @property {AtLeastOne<ACHCreditPaymentInstruction>} paymentInstructions - Array containing at least one payment instruction for the ACH credit transfer.
  * @property {string} [messageId] - Optional unique identifier for the message. If not provided, a UUID will be generated.
  * @property {Date} [creationDate] - Optional creation date for the message. If not provided, current date will be used.
+ * @property {Date | string} [requestedExecutionDate] - Optional date on which the debtor account is to be debited. If not provided, the creation date will be used.
+ * @property {string} [timeZone] - Optional IANA time zone in which Dates are read. If not provided, 'UTC' will be used.
+ * @property {BusinessDayCalendar} [businessDayCalendar] - Optional business day calendar. If not provided, the US Federal Reserve calendar will be used.
+ * @property {BusinessDayConvention} [businessDayConvention] - Optional handling of non-business days, 'following' or 'reject'. If not provided, dates are written as they are.
+ * @property {ChargeBearerType} [chargeBearer] - Optional charge bearer. If not provided, 'SHAR' will be used.
+ * @property {ServiceLevel} [serviceLevel] - Optional service level, 'NURG' or 'SDVA' for same day ACH. If not provided, 'NURG' will be used.
+ * @property {InstructionPriority} [instructionPriority] - Optional instruction priority, ACH only allows 'NORM'. If not provided, 'NORM' will be used.
+ * @property {ExternalCategoryPurpose} [categoryPurpose] - Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard.
+ * @property {ExternalPurpose} [purpose] - Optional purpose code following ISO20022 ExternalPurpose1Code standard, written on every transaction.
+ * @property {PaymentInitiationVersion} [version] - Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
  */
-export interface ACHCreditPaymentInitiationConfig {
+export interface ACHCreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions {
     /** The party initiating the ACH credit transfer. */
     initiatingParty: Party
     /** Array containing at least one payment instruction for the ACH credit transfer. */
@@ -30,6 +38,8 @@ export interface ACHCreditPaymentInitiationConfig {
     creationDate?: Date
     /** Optional local instrument code for the ACH credit transfer. If not provided, 'CCD' (Corporate Credit or Debit) will be used. */
     localInstrument?: ACHLocalInstrument
+    /** Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used. */
+    version?: PaymentInitiationVersion
 }
 
 /**
@@ -50,7 +60,7 @@ export interface ACHCreditPaymentInitiationConfig {
  *       accountNumber: '0123456789'
  *     },
  *     agent: {
- *       abaRoutingNumber: '123456789',
+ *       abaRoutingNumber: '026009593',
  *     }
  *   },
  *   paymentInstructions: [{
@@ -64,7 +74,7 @@ export interface ACHCreditPaymentInitiationConfig {
  *         accountNumber: '0123456789'
  *       },
  *       agent: {
- *         abaRoutingNumber: '0123456789'
+ *         abaRoutingNumber: '021000021'
  *       }
  *     }
  *   }]
@@ -77,29 +87,53 @@ export interface ACHCreditPaymentInitiationConfig {
  * const parsedPayment = ACHCreditPaymentInitiation.fromXML(xml);
  * ```
  */
-export class ACHCreditPaymentInitiation extends PaymentInitiation {
+export class ACHCreditPaymentInitiation extends PaymentInitiation implements GenericISO20022Message {
     public initiatingParty: Party
     public paymentInstructions: AtLeastOne<ACHCreditPaymentInstruction>
     public messageId: string
     public creationDate: Date
     public paymentInformationId: string;
+    public paymentInformations: AtLeastOne<PaymentInformation<ACHCreditPaymentInstruction>>;
     public localInstrument: string;
-    public serviceLevel: string;
-    public instructionPriority: string;
+    public chargeBearer: ChargeBearerType;
+    public serviceLevel: ServiceLevel;
+    public instructionPriority: InstructionPriority;
+    public categoryPurpose?: ExternalCategoryPurpose;
+    public purpose?: ExternalPurpose;
     private formattedPaymentSum: string;
 
     constructor(config: ACHCreditPaymentInitiationConfig) {
-        super({ type: "ach" });
+        super({
+            type: "ach",
+            version: config.version,
+            executionDateOptions: {
+                requestedExecutionDate: config.requestedExecutionDate,
+                timeZone: config.timeZone,
+                businessDayCalendar: config.businessDayCalendar || 'federal-reserve',
+                businessDayConvention: config.businessDayConvention,
+            },
+        });
         this.initiatingParty = config.initiatingParty;
         this.paymentInstructions = config.paymentInstructions;
         this.messageId = config.messageId || uuidv4().replace(/-/g, '');
         this.creationDate = config.creationDate || new Date();
-        this.paymentInformationId = sanitize(uuidv4(), 35);
         this.localInstrument = config.localInstrument || ACHLocalInstrumentCode.CorporateCreditDebit;
-        this.serviceLevel = 'NURG'; // Normal Urgency
-        this.instructionPriority = 'NORM'; // Normal Priority
+        this.chargeBearer = config.chargeBearer || ChargeBearerTypeCode.Shared;
+        this.serviceLevel = config.serviceLevel || ServiceLevelCode.NonUrgentPayment;
+        this.instructionPriority = config.instructionPriority || InstructionPriorityCode.Normal;
+        this.categoryPurpose = config.categoryPurpose;
+        this.purpose = config.purpose;
         this.formattedPaymentSum = this.sumPaymentInstructions(this.paymentInstructions as AtLeastOne<ACHCreditPaymentInstruction>);
         this.validate();
+        this.paymentInformations = this.groupPaymentInstructions(this.paymentInstructions, {
+            debtor: this.initiatingParty,
+            requestedExecutionDate: this.executionDateOptions.requestedExecutionDate || this.creationDate,
+            chargeBearer: this.chargeBearer,
+            serviceLevel: this.serviceLevel,
+            instructionPriority: this.instructionPriority,
+            categoryPurpose: this.categoryPurpose,
+        });
+        this.paymentInformationId = this.paymentInformations[0].id;
     }
 
     /**
@@ -122,6 +156,8 @@ export class ACHCreditPaymentInitiation extends PaymentInitiation {
      * @throws {Error} If messageId exceeds 35 characters.
      * @throws {Error} If payment instructions have different currencies.
      * @throws {Error} If any creditor has incomplete information.
+     * @throws {Error} If structured remittance information has more than 3 lines of additional information.
+     * @throws {Error} If an instruction has another service level than NURG or SDVA, or another priority than NORM.
      */
     private validate() {
         if (this.messageId.length > 35) {
@@ -134,6 +170,12 @@ export class ACHCreditPaymentInitiation extends PaymentInitiation {
                 throw new Error('ACH payments must use USD as currency');
             }
         }
+
+        this.validateRemittanceInformation(this.paymentInstructions);
+        this.validatePaymentTypeInformation(this.paymentInstructions, this, {
+            serviceLevels: [ServiceLevelCode.NonUrgentPayment, ServiceLevelCode.SameDayValue],
+            instructionPriorities: [InstructionPriorityCode.Normal],
+        });
     }
 
     /**
@@ -142,8 +184,7 @@ export class ACHCreditPaymentInitiation extends PaymentInitiation {
      * @returns {Object} The payment information object formatted according to ACH specifications.
      */
     creditTransfer(instruction: ACHCreditPaymentInstruction) {
-        const paymentInstructionId = sanitize(instruction.id || uuidv4(), 35);
-        const endToEndId = sanitize(instruction.endToEndId || instruction.id || uuidv4(), 35);
+        const { instructionId: paymentInstructionId, endToEndId } = this.paymentIdentification(instruction);
 
         return {
             PmtId: {
@@ -169,77 +210,137 @@ export class ACHCreditPaymentInitiation extends PaymentInitiation {
                 },
                 Ccy: instruction.currency,
             },
-            RmtInf: instruction.remittanceInformation ? {
-                Ustrd: instruction.remittanceInformation,
-            } : undefined,
+            ...((instruction.purpose || this.purpose) && { Purp: { Cd: instruction.purpose || this.purpose } }),
+            RmtInf: this.remittanceInformation(instruction),
         };
     }
 
+    /**
+     * Generates a payment information block (PmtInf) for a group of ACH credit transfer instructions.
+     * @param {PaymentInformation<ACHCreditPaymentInstruction>} paymentInformation - The payment information block.
+     * @returns {Object} The PmtInf object formatted according to ACH specifications.
+     */
+    paymentInformation(paymentInformation: PaymentInformation<ACHCreditPaymentInstruction>) {
+        return {
+            PmtInfId: paymentInformation.id,
+            PmtMtd: 'TRF',
+            BtchBookg: false,
+            NbOfTxs: paymentInformation.paymentInstructions.length.toString(),
+            CtrlSum: this.sumPaymentInstructions(paymentInformation.paymentInstructions),
+            PmtTpInf: this.paymentTypeInformation(paymentInformation, { Prtry: this.localInstrument }),
+            ReqdExctnDt: this.requestedExecutionDate(paymentInformation.requestedExecutionDate),
+            Dbtr: this.party(paymentInformation.debtor),
+            DbtrAcct: this.account(paymentInformation.debtor.account as Account),
+            DbtrAgt: this.agent(paymentInformation.debtor.agent as Agent),
+            ChrgBr: paymentInformation.chargeBearer,
+            // payments[]
+            CdtTrfTxInf: paymentInformation.paymentInstructions.map(p => this.creditTransfer(p)),
+        };
+    }
+
+    /**
+     * Exports the ACH credit transfer initiation as a document object, the JSON form of the message.
+     * @returns {any} The document object.
+     */
+    toJSON(): any {
+        const Document = {
+            '@xmlns': this.namespace,
+            '@xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+            CstmrCdtTrfInitn: {
+                GrpHdr: {
+                    MsgId: this.messageId,
+                    CreDtTm: this.creationDate.toISOString(),
+                    NbOfTxs: this.paymentInstructions.length.toString(),
+                    CtrlSum: this.formattedPaymentSum,
+                    InitgPty: {
+                        Nm: this.initiatingParty.name,
+                        Id: {
+                            OrgId: {
+                                // Renamed to AnyBIC from pain.001.001.04 onwards
+                                [this.versionNumber < 4 ? 'BICOrBEI' : 'AnyBIC']: this.initiatingParty.id,
+                            },
+                        },
+                    },
+                },
+                PmtInf: this.paymentInformations.map(p => this.paymentInformation(p)),
+            }
+        };
+        return { Document };
+    }
+
     /**
      * Serializes the ACH credit transfer initiation to an XML string.
      * @returns {string} The XML representation of the ACH credit transfer initiation.
+     * @throws {InvalidPaymentInstructionError} If a debtor or creditor has an invalid ABA routing number or account number.
      */
     public serialize(): string {
+        this.validatePartyIdentifiers(this.initiatingParty, this.paymentInstructions);
+
         const builder = PaymentInitiation.getBuilder();
         const xml = {
             '?xml': {
                 '@version': '1.0',
                 '@encoding': 'UTF-8'
             },
-            Document: {
-                '@xmlns': 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03',
-                '@xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
-                CstmrCdtTrfInitn: {
-                    GrpHdr: {
-                        MsgId: this.messageId,
-                        CreDtTm: this.creationDate.toISOString(),
-                        NbOfTxs: this.paymentInstructions.length.toString(),
-                        CtrlSum: this.formattedPaymentSum,
-                        InitgPty: {
-                            Nm: this.initiatingParty.name,
-                            Id: {
-                                OrgId: {
-                                    BICOrBEI: this.initiatingParty.id,
-                                },
-                            },
-                        },
-                    },
-                    PmtInf: {
-                        PmtInfId: this.paymentInformationId,
-                        PmtMtd: 'TRF',
-                        BtchBookg: false,
-                        NbOfTxs: this.paymentInstructions.length.toString(),
-                        CtrlSum: this.formattedPaymentSum,
-                        PmtTpInf: {
-                            InstrPrty: this.instructionPriority,
-                            SvcLvl: { Cd: this.serviceLevel },
-                            LclInstrm: { Prtry: this.localInstrument },
-                        },
-                        ReqdExctnDt: this.creationDate.toISOString().split('T')[0],
-                        Dbtr: this.party(this.initiatingParty),
-                        DbtrAcct: this.account(this.initiatingParty.account as Account),
-                        DbtrAgt: this.agent(this.initiatingParty.agent as Agent),
-                        ChrgBr: 'SHAR',
-                        // payments[]
-                        CdtTrfTxInf: this.paymentInstructions.map(p => this.creditTransfer(p)),
-                    }
-                }
-            },
+            ...this.toJSON(),
         };
 
         return builder.build(xml);
     }
 
+    /**
+     * The configuration of the ACH credit transfer initiation, which can be passed back to its constructor.
+     * @returns {ACHCreditPaymentInitiationConfig} The configuration.
+     */
+    get data(): ACHCreditPaymentInitiationConfig {
+        return {
+            initiatingParty: this.initiatingParty,
+            paymentInstructions: this.paymentInstructions,
+            messageId: this.messageId,
+            creationDate: this.creationDate,
+            localInstrument: this.localInstrument as ACHLocalInstrument,
+            chargeBearer: this.chargeBearer,
+            serviceLevel: this.serviceLevel,
+            instructionPriority: this.instructionPriority,
+            categoryPurpose: this.categoryPurpose,
+            purpose: this.purpose,
+            version: this.version,
+            ...this.executionDateOptions,
+        };
+    }
+
+    static supportedMessages(): ISO20022MessageTypeName[] {
+        return [ISO20022Messages.PAIN_001];
+    }
+
+    /**
+     * Tells whether a configuration holds ACH payment instructions, to pick this class for generic PAIN.001 messages.
+     * @param {any} data - The configuration.
+     * @returns {boolean} Whether every payment instruction has type 'ach'.
+     */
+    static supportsData(data: any): boolean {
+        return PaymentInitiation.hasInstructionsOfType(data, 'ach');
+    }
+
+    /**
+     * Creates a ACHCreditPaymentInitiation instance from a JSON string exported with `toJSON`.
+     * @param {string} json - The JSON string.
+     * @returns {ACHCreditPaymentInitiation} A new ACHCreditPaymentInitiation instance.
+     * @throws {InvalidXmlError} If the JSON has no Document element.
+     */
+    static fromJSON(json: string): ACHCreditPaymentInitiation {
+        return ACHCreditPaymentInitiation.fromXML(PaymentInitiation.jsonToXML(json));
+    }
+
     /**
      * Creates an ACHCreditPaymentInitiation instance from an XML string.
      * @param {string} rawXml - The XML string to parse.
      * @returns {ACHCreditPaymentInitiation} A new ACHCreditPaymentInitiation instance.
      * @throws {InvalidXmlError} If the XML format is invalid.
      * @throws {InvalidXmlNamespaceError} If the XML namespace is invalid.
-     * @throws {Error} If multiple payment information blocks are found.
      */
     public static fromXML(rawXml: string): ACHCreditPaymentInitiation {
-        const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', textNodeName: '#text' });
+        const parser = XML.getParser();
         const xml = parser.parse(rawXml);
 
         if (!xml.Document) {
@@ -247,65 +348,65 @@ export class ACHCreditPaymentInitiation extends PaymentInitiation {
         }
 
         const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
-        if (!namespace.startsWith('urn:iso:std:iso:20022:tech:xsd:pain.001.001.03')) {
-            throw new InvalidXmlNamespaceError('Invalid PAIN.001 namespace');
-        }
+        const version = PaymentInitiation.parseVersion(namespace);
 
         const messageId = (xml.Document.CstmrCdtTrfInitn.GrpHdr.MsgId as string);
         const creationDate = new Date(xml.Document.CstmrCdtTrfInitn.GrpHdr.CreDtTm as string);
 
-        if (Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf)) {
-            throw new Error('Multiple PmtInf is not supported');
-        }
-
-        // Extract payment type information
-        const pmtTpInf = xml.Document.CstmrCdtTrfInitn.PmtInf.PmtTpInf;
+        const rawPaymentInformations: any[] = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf) ? xml.Document.CstmrCdtTrfInitn.PmtInf : [xml.Document.CstmrCdtTrfInitn.PmtInf];
 
-        // Assuming we have one PmtInf / one Debtor, we can hack together this information from InitgPty / Dbtr
+        // The initiating party's debtor information comes from the first PmtInf / Dbtr
         const initiatingParty = {
-            name: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Nm as string) || (xml.Document.CstmrCdtTrfInitn.PmtInf.Dbtr.Nm as string),
-            id: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.BICOrBEI) || (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.Othr?.Id),
-            agent: parseAgent(xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAgt),
-            account: parseAccount(xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAcct)
+            name: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Nm as string) || (rawPaymentInformations[0].Dbtr.Nm as string),
+            id: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.BICOrBEI) || (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.AnyBIC) || (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.Othr?.Id),
+            agent: parseAgent(rawPaymentInformations[0].DbtrAgt),
+            account: parseAccount(rawPaymentInformations[0].DbtrAcct)
         }
 
-        const rawInstructions = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf) ? xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf : [xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf];
-
-        const paymentInstructions = rawInstructions.map((inst: any) => {
-            const currency = (inst.Amt.InstdAmt['@_Ccy'] as Currency);
-            const amount = parseAmountToMinorUnits(Number(inst.Amt.InstdAmt['#text']), currency);
-            const rawPostalAddress = inst.Cdtr.PstlAdr;
-            return {
-                ...(inst.PmtId.InstrId && { id: (inst.PmtId.InstrId.toString() as string) }),
-                ...(inst.PmtId.EndToEndId && { endToEndId: (inst.PmtId.EndToEndId.toString() as string) }),
-                type: 'ach',
-                direction: 'credit',
-                amount: amount,
-                currency: currency,
-                creditor: {
-                    name: (inst.Cdtr?.Nm as string),
-                    agent: parseAgent(inst.CdtrAgt),
-                    account: parseAccount(inst.CdtrAcct),
-                    ...((rawPostalAddress && (rawPostalAddress.StrtNm || rawPostalAddress.BldgNb || rawPostalAddress.PstCd || rawPostalAddress.TwnNm || rawPostalAddress.Ctry)) ? {
-                        address: {
-                            ...(rawPostalAddress.StrtNm && { streetName: rawPostalAddress.StrtNm.toString() as string }),
-                            ...(rawPostalAddress.BldgNb && { buildingNumber: rawPostalAddress.BldgNb.toString() as string }),
-                            ...(rawPostalAddress.TwnNm && { townName: rawPostalAddress.TwnNm.toString() as string }),
-                            ...(rawPostalAddress.CtrySubDvsn && { countrySubDivision: rawPostalAddress.CtrySubDvsn.toString() as string }),
-                            ...(rawPostalAddress.PstCd && { postalCode: rawPostalAddress.PstCd.toString() as string }),
-                            ...(rawPostalAddress.Ctry && { country: rawPostalAddress.Ctry as Alpha2Country }),
-                        }
-                    } : {}),
-                },
-                ...(inst.RmtInf?.Ustrd && { remittanceInformation: inst.RmtInf.Ustrd.toString() as string })
-            }
+        const paymentInstructions = rawPaymentInformations.flatMap((rawPaymentInformation: any) => {
+            const rawInstructions = Array.isArray(rawPaymentInformation.CdtTrfTxInf) ? rawPaymentInformation.CdtTrfTxInf : [rawPaymentInformation.CdtTrfTxInf];
+            // Block level values are only kept on the instructions when they are needed to rebuild multiple blocks
+            const paymentInformation = rawPaymentInformations.length > 1 ? PaymentInitiation.parsePaymentInformation(rawPaymentInformation) : {};
+            return rawInstructions.map((inst: any) => ({ ...ACHCreditPaymentInitiation.parseCreditTransfer(inst), ...paymentInformation }));
         }) as AtLeastOne<ACHCreditPaymentInstruction>;
 
         return new ACHCreditPaymentInitiation({
             messageId: messageId,
             creationDate: creationDate,
             initiatingParty: initiatingParty,
-            paymentInstructions: paymentInstructions
+            paymentInstructions: paymentInstructions,
+            version,
+            requestedExecutionDate: PaymentInitiation.parseRequestedExecutionDate(rawPaymentInformations[0]),
+            ...PaymentInitiation.parsePaymentTypeInformation(rawPaymentInformations[0]),
         });
     }
+
+    /**
+     * Parses a single credit transfer transaction (CdtTrfTxInf) into an ACH payment instruction.
+     * @param {any} inst - The raw CdtTrfTxInf element.
+     * @returns {ACHCreditPaymentInstruction} The parsed payment instruction.
+     */
+    private static parseCreditTransfer(inst: any): ACHCreditPaymentInstruction {
+        const currency = (inst.Amt.InstdAmt['@_Ccy'] as Currency);
+        const amount = parseAmountToMinorUnits(inst.Amt.InstdAmt['#text'], currency);
+        const address = PaymentInitiation.parsePostalAddress(inst.Cdtr.PstlAdr);
+        return {
+            ...(inst.PmtId.InstrId && { id: (inst.PmtId.InstrId.toString() as string) }),
+            ...(inst.PmtId.EndToEndId && { endToEndId: (inst.PmtId.EndToEndId.toString() as string) }),
+            type: 'ach',
+            direction: 'credit',
+            amount: amount,
+            currency: currency,
+            creditor: {
+                name: (inst.Cdtr?.Nm as string),
+                agent: parseAgent(inst.CdtrAgt),
+                account: parseAccount(inst.CdtrAcct),
+                ...(address && { address }),
+            },
+            ...(inst.Purp?.Cd && { purpose: inst.Purp.Cd as ExternalPurpose }),
+            ...PaymentInitiation.parseRemittanceInformation(inst.RmtInf),
+        } as ACHCreditPaymentInstruction;
+    }
 }
+
+registerISO20022Implementation(ACHCreditPaymentInitiation);
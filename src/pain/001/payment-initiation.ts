@@ -1,4 +1,5 @@
 import { XMLBuilder } from 'fast-xml-parser';
+import { v4 as uuidv4 } from 'uuid';
 import {
     Party,
     IBANAccount,
@@ -7,17 +8,158 @@ import {
     BaseAccount,
     Agent,
     ABAAgent,
+    ChargeBearerType,
+    CreditPaymentInstruction,
+    ExternalCategoryPurpose,
+    ExternalPurpose,
+    InstructionPriority,
+    PaymentInformation,
+    PaymentInstruction,
+    StructuredAddress,
+    StructuredRemittance,
+    DocumentTypeCode,
+    CreditorReferenceTypeCode,
+    ServiceLevel,
   } from '../../lib/types';
+import { InvalidPaymentInstructionError, InvalidXmlError, InvalidXmlNamespaceError } from '../../errors';
+import { parseAccount, parseAgent, parsePostalAddress, parseStructuredRemittance } from '../../parseUtils';
+import { formatAmount } from '../../dinero-helpers';
+import { Currency } from '../../lib/currency';
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from '../../lib/schema-validation';
+import { sanitize } from '../../utils/format';
+import { validatePartyIdentifiers } from '../../lib/validation';
+import { validateCreditorReference } from '../../lib/creditor-reference';
+import { adjustToBusinessDay, BusinessDayCalendar, BusinessDayConvention, toISODate } from '../../lib/business-days';
+import { GenericISO20022Message } from '../../lib/interfaces';
+
+type AtLeastOne<T> = [T, ...T[]];
+
+/**
+ * The pain.001 message versions the credit transfer builders can write and read.
+ */
+export const PaymentInitiationVersions = [
+  'pain.001.001.03',
+  'pain.001.001.04',
+  'pain.001.001.05',
+  'pain.001.001.06',
+  'pain.001.001.07',
+  'pain.001.001.08',
+  'pain.001.001.09',
+  'pain.001.001.10',
+  'pain.001.001.11',
+  'pain.001.001.12',
+] as const;
+
+export type PaymentInitiationVersion = (typeof PaymentInitiationVersions)[number];
+
+const ISO20022_NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+// Document types written as codes, purchase orders only became a code in pain.001.001.04
+const DocumentTypeCodes: string[] = Object.values(DocumentTypeCode);
+const CreditorReferenceTypeCodes: string[] = Object.values(CreditorReferenceTypeCode);
+
+  /**
+   * Values applied to every payment information block unless an instruction overrides them.
+   */
+  export interface PaymentInformationDefaults {
+    /** The debtor of the block, usually the initiating party. */
+    debtor: Party;
+    /** The requested execution date of the block, usually the configured one or the creation date. */
+    requestedExecutionDate: Date | string;
+    /** The charge bearer of the block, usually the rail's default. */
+    chargeBearer: ChargeBearerType;
+    /** The service level of the block, usually the rail's default. */
+    serviceLevel?: ServiceLevel;
+    /** The instruction priority of the block. */
+    instructionPriority?: InstructionPriority;
+    /** The category purpose of the block. */
+    categoryPurpose?: ExternalCategoryPurpose;
+  }
+
+  /**
+   * How the payments of a message are processed, applied to every instruction unless it overrides them.
+   */
+  export interface PaymentTypeOptions {
+    /** Which party bears the charges of the payments. If not provided, the rail's usual charge bearer will be used. */
+    chargeBearer?: ChargeBearerType;
+    /** Agreement under which the payments are processed. If not provided, the rail's usual service level will be used. */
+    serviceLevel?: ServiceLevel;
+    /** Urgency with which the debtor agent processes the payments. If not provided, the rail's usual priority will be used. */
+    instructionPriority?: InstructionPriority;
+    /** Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard. */
+    categoryPurpose?: ExternalCategoryPurpose;
+    /** Optional purpose code following ISO20022 ExternalPurpose1Code standard, written on every transaction. */
+    purpose?: ExternalPurpose;
+  }
+
+  /**
+   * The payment type values a rail allows. Every value is allowed when a list is absent.
+   */
+  export interface PaymentTypeRules {
+    /** The charge bearers the rail allows. */
+    chargeBearers?: ChargeBearerType[];
+    /** The service levels the rail allows. */
+    serviceLevels?: ServiceLevel[];
+    /** The instruction priorities the rail allows. */
+    instructionPriorities?: InstructionPriority[];
+  }
   
+  /**
+   * How the requested execution date (ReqdExctnDt) of the payment information blocks is picked.
+   * The date is written as a calendar date, Dates are read in the time zone so that a file created in the evening
+   * in New York is not executed on the next UTC day.
+   */
+  export interface RequestedExecutionDateOptions {
+    /**
+     * Date on which the debtor account is to be debited, a calendar date such as '2025-03-05' or a Date read in the time zone.
+     * Instructions can override it. If not provided, the creation date will be used.
+     */
+    requestedExecutionDate?: Date | string;
+    /** IANA time zone in which Dates are read, e.g. 'America/New_York'. If not provided, 'UTC' will be used. */
+    timeZone?: string;
+    /** Business day calendar the requested execution dates are checked against, the rail's settlement calendar by default. */
+    businessDayCalendar?: BusinessDayCalendar;
+    /** What happens to requested execution dates that are not business days. If not provided, they are written as they are. */
+    businessDayConvention?: BusinessDayConvention;
+  }
+
   /**
    * Abstract base class for ISO20022 payment initiation (PAIN) messages.
    * @abstract
    */
-  export abstract class PaymentInitiation {
+  export abstract class PaymentInitiation implements GenericISO20022Message {
     public type: "swift" | "rtp" | "sepa" | "ach";
+    /** The pain.001 version the message is written in, 'pain.001.001.03' unless configured otherwise. */
+    public version: PaymentInitiationVersion;
+    /** How the requested execution date of the payment information blocks is picked. */
+    public executionDateOptions: RequestedExecutionDateOptions;
+    /** Ids generated for instructions without an id, so that every serialization writes the same ones. */
+    private generatedPaymentIds = new WeakMap<PaymentInstruction, string>();
 
-    constructor({ type }: { type: "swift" | "rtp" | "sepa" | "ach" }) {
+    constructor({ type, version, executionDateOptions = {} }: {
+      type: "swift" | "rtp" | "sepa" | "ach";
+      version?: PaymentInitiationVersion;
+      executionDateOptions?: RequestedExecutionDateOptions;
+    }) {
       this.type = type;
+      this.version = version || 'pain.001.001.03';
+      this.executionDateOptions = executionDateOptions;
+    }
+
+    /**
+     * The numeric part of the message version, e.g. 9 for 'pain.001.001.09'.
+     * Element names and structures changed between versions, this is used to pick them.
+     */
+    protected get versionNumber(): number {
+      return Number(this.version.split('.')[3]);
+    }
+
+    /**
+     * The XML namespace of the message version.
+     * @returns {string} The namespace, e.g. 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.09'.
+     */
+    get namespace(): string {
+      return `${ISO20022_NAMESPACE_PREFIX}${this.version}`;
     }
 
     /**
@@ -26,6 +168,19 @@ import {
      * @returns {string} The serialized payment initiation.
      */
     abstract serialize(): string;
+
+    /**
+     * Exports the payment initiation as a document object, the JSON form of the message.
+     * @abstract
+     * @returns {any} The document object.
+     */
+    abstract toJSON(): any;
+
+    /**
+     * The configuration of the payment initiation, which can be passed back to its constructor.
+     * @abstract
+     */
+    abstract get data(): any;
   
     /**
      * Formats a party's information according to ISO20022 standards.
@@ -39,18 +194,45 @@ import {
   
       // Only include address information if it exists
       if (party.address) {
-        result.PstlAdr = {
-          StrtNm: party.address.streetName,
-          BldgNb: party.address.buildingNumber,
-          PstCd: party.address.postalCode,
-          TwnNm: party.address.townName,
-          CtrySubDvsn: party.address.countrySubDivision,
-          Ctry: party.address.country,
-        };
+        result.PstlAdr = this.postalAddress(party.address);
       }
   
       return result;
     }
+
+    /**
+     * Formats a structured address according to ISO20022 standards.
+     * From pain.001.001.09 onwards the address carries building, floor, post box, room, town location and district details.
+     * @param {StructuredAddress} address - The structured address.
+     * @returns {Object} Formatted XML postal address.
+     */
+    postalAddress(address: StructuredAddress) {
+      if (this.versionNumber < 9) {
+        return {
+          StrtNm: address.streetName,
+          BldgNb: address.buildingNumber,
+          PstCd: address.postalCode,
+          TwnNm: address.townName,
+          CtrySubDvsn: address.countrySubDivision,
+          Ctry: address.country,
+        };
+      }
+
+      return {
+        StrtNm: address.streetName,
+        BldgNb: address.buildingNumber,
+        BldgNm: address.buildingName,
+        Flr: address.floor,
+        PstBx: address.postBox,
+        Room: address.room,
+        PstCd: address.postalCode,
+        TwnNm: address.townName,
+        TwnLctnNm: address.townLocationName,
+        DstrctNm: address.districtName,
+        CtrySubDvsn: address.countrySubDivision,
+        Ctry: address.country,
+      };
+    }
   
     /**
      * Formats an account according to ISO20022 standards.
@@ -109,7 +291,7 @@ import {
      * @example
      * // For a BIC agent
      * agent({ bic: 'BOFAUS3NXXX' })
-     * // Returns: { FinInstnId: { BIC: 'BOFAUS3NXXX' } }
+     * // Returns: { FinInstnId: { BIC: 'BOFAUS3NXXX' } }, or { FinInstnId: { BICFI: 'BOFAUS3NXXX' } } from pain.001.001.04 onwards
      *
      * @example
      * // For an ABA agent
@@ -120,7 +302,7 @@ import {
       if ((agent as BICAgent).bic !== undefined) {
         return {
           FinInstnId: {
-            BIC: (agent as BICAgent).bic,
+            [this.versionNumber < 4 ? 'BIC' : 'BICFI']: (agent as BICAgent).bic,
           },
         };
       } else {
@@ -137,6 +319,469 @@ import {
       }
     }
   
+    /**
+     * The payment identification (PmtId) written for a payment instruction: its id as instruction id (InstrId),
+     * and its end-to-end id, or else its id, as end-to-end id (EndToEndId).
+     * Instructions without ids get a generated one, kept for the lifetime of the message,
+     * so that every serialization and the status reports built from the message use the same ids.
+     * @param {PaymentInstruction} instruction - The payment instruction.
+     * @returns {{ instructionId: string, endToEndId: string }} The ids, shortened to 35 characters.
+     */
+    paymentIdentification(instruction: PaymentInstruction): { instructionId: string; endToEndId: string } {
+      if (!this.generatedPaymentIds.has(instruction)) {
+        this.generatedPaymentIds.set(instruction, uuidv4());
+      }
+      const generatedId = this.generatedPaymentIds.get(instruction) as string;
+      return {
+        instructionId: sanitize(instruction.id || generatedId, 35),
+        endToEndId: sanitize(instruction.endToEndId || instruction.id || generatedId, 35),
+      };
+    }
+
+    /**
+     * Formats the requested execution date of a payment information block.
+     * From pain.001.001.08 onwards the date is wrapped in a date / date time choice.
+     * @param {Date} date - The requested execution date.
+     * @returns {string | Object} The ReqdExctnDt value.
+     */
+    requestedExecutionDate(date: Date) {
+      const isoDate = date.toISOString().split('T')[0];
+      return this.versionNumber < 8 ? isoDate : { Dt: isoDate };
+    }
+
+    /**
+     * Formats the payment type information (PmtTpInf) of a payment information block.
+     * @param {PaymentInformation} paymentInformation - The payment information block.
+     * @param {Object} [localInstrument] - The local instrument (LclInstrm) of the rail, if any.
+     * @returns {Object} The PmtTpInf object.
+     */
+    paymentTypeInformation(paymentInformation: PaymentInformation, localInstrument?: Record<string, string>) {
+      return {
+        ...(paymentInformation.instructionPriority && { InstrPrty: paymentInformation.instructionPriority }),
+        ...(paymentInformation.serviceLevel && { SvcLvl: { Cd: paymentInformation.serviceLevel } }),
+        ...(localInstrument && { LclInstrm: localInstrument }),
+        ...(paymentInformation.categoryPurpose && { CtgyPurp: { Cd: paymentInformation.categoryPurpose } }),
+      };
+    }
+
+    /**
+     * Formats the remittance information (RmtInf) of a payment instruction, unstructured (Ustrd) and structured (Strd).
+     * @param {PaymentInstruction} instruction - The payment instruction.
+     * @param {number} [version] - The pain.001 version number whose layout is written, the message version by default.
+     * @returns {Object | undefined} The RmtInf object, or undefined if the instruction has no remittance information.
+     */
+    remittanceInformation(instruction: PaymentInstruction, version: number = this.versionNumber) {
+      const structured = instruction.structuredRemittanceInformation || [];
+      if (!instruction.remittanceInformation && structured.length === 0) {
+        return undefined;
+      }
+
+      return {
+        ...(instruction.remittanceInformation && { Ustrd: instruction.remittanceInformation }),
+        ...(structured.length > 0 && { Strd: structured.map(remittance => this.structuredRemittance(remittance, version)) }),
+      };
+    }
+
+    /**
+     * Formats structured remittance information (Strd) according to ISO20022 standards.
+     * From pain.001.001.04 onwards tax remittance is written, and from pain.001.001.12 onwards
+     * the referred document amounts are typed amounts (RmtAmtAndTp) and the related date carries a type.
+     * @param {StructuredRemittance} remittance - The structured remittance information.
+     * @param {number} [version] - The pain.001 version number whose layout is written, the message version by default.
+     * @returns {Object} Formatted XML structured remittance information.
+     */
+    structuredRemittance(remittance: StructuredRemittance, version: number = this.versionNumber) {
+      const amount = (value: number | undefined, currency: Currency | undefined) => (value === undefined || !currency ? undefined : {
+        '#': formatAmount(value, currency),
+        '@Ccy': currency,
+      });
+      const documentAmount = remittance.referredDocumentAmount;
+      const documentAmountOf = (value: number | undefined) => amount(value, documentAmount?.currency);
+      // Discounts and taxes are lists of typed amounts from pain.001.001.04 onwards
+      const typedAmountOf = (value: number | undefined) => {
+        const formatted = documentAmountOf(value);
+        return formatted && version >= 4 ? { Amt: formatted } : formatted;
+      };
+      const tax = remittance.taxRemittance;
+
+      return {
+        RfrdDocInf: remittance.referredDocuments?.map(document => ({
+          Tp: document.type || document.issuer ? {
+            CdOrPrtry: document.type && (DocumentTypeCodes.includes(document.type) && (version >= 4 || document.type !== DocumentTypeCode.PurchaseOrder)
+              ? { Cd: document.type }
+              : { Prtry: document.type }),
+            Issr: document.issuer,
+          } : undefined,
+          Nb: document.number,
+          RltdDt: document.relatedDate && (version < 12
+            ? document.relatedDate.toISOString().split('T')[0]
+            : {
+              Tp: /^[A-Z0-9]{4}$/.test(document.relatedDateType || '')
+                ? { Cd: document.relatedDateType }
+                : { Prtry: document.relatedDateType || 'DOCUMENT DATE' },
+              Dt: document.relatedDate.toISOString().split('T')[0],
+            }),
+        })),
+        RfrdDocAmt: documentAmount && (version < 12 ? {
+          DuePyblAmt: documentAmountOf(documentAmount.duePayableAmount),
+          DscntApldAmt: typedAmountOf(documentAmount.discountAppliedAmount),
+          CdtNoteAmt: documentAmountOf(documentAmount.creditNoteAmount),
+          TaxAmt: typedAmountOf(documentAmount.taxAmount),
+          RmtdAmt: documentAmountOf(documentAmount.remittedAmount),
+        } : {
+          RmtAmtAndTp: ([
+            ['DUEP', documentAmount.duePayableAmount],
+            ['DICA', documentAmount.discountAppliedAmount],
+            ['CREN', documentAmount.creditNoteAmount],
+            ['TAXA', documentAmount.taxAmount],
+            ['RMTD', documentAmount.remittedAmount],
+          ] as const)
+            .filter(([, value]) => value !== undefined)
+            .map(([type, value]) => ({ Tp: { Cd: type }, Amt: documentAmountOf(value) })),
+        }),
+        CdtrRefInf: remittance.creditorReference && {
+          Tp: remittance.creditorReference.type || remittance.creditorReference.issuer ? {
+            CdOrPrtry: remittance.creditorReference.type && (CreditorReferenceTypeCodes.includes(remittance.creditorReference.type)
+              ? { Cd: remittance.creditorReference.type }
+              : { Prtry: remittance.creditorReference.type }),
+            Issr: remittance.creditorReference.issuer,
+          } : undefined,
+          Ref: remittance.creditorReference.reference,
+        },
+        TaxRmt: tax && version >= 4 ? {
+          Cdtr: tax.creditorTaxId ? { TaxId: tax.creditorTaxId } : undefined,
+          Dbtr: tax.debtorTaxId ? { TaxId: tax.debtorTaxId } : undefined,
+          RefNb: tax.referenceNumber,
+          Mtd: tax.method,
+          TtlTaxblBaseAmt: amount(tax.totalTaxableBaseAmount, tax.currency),
+          TtlTaxAmt: amount(tax.totalTaxAmount, tax.currency),
+          Dt: tax.date?.toISOString().split('T')[0],
+        } : undefined,
+        AddtlRmtInf: remittance.additionalInformation,
+      };
+    }
+
+    /**
+     * Groups payment instructions into payment information blocks (PmtInf).
+     * Instructions sharing a requested execution date, debtor, charge bearer and payment type end up in the same block.
+     * An explicit paymentInformationId on an instruction decides the block on its own.
+     * Requested execution dates are turned into calendar dates, at midnight UTC, following the execution date options.
+     *
+     * @param {AtLeastOne<T>} instructions - The payment instructions to group, in order.
+     * @param {PaymentInformationDefaults} defaults - The values used when an instruction does not override them.
+     * @param {Object} [options] - How the instructions are grouped.
+     * @param {boolean} [options.splitByCurrency] - Whether instructions in different currencies end up in different blocks,
+     * so that every block has a control sum in a single currency. Instructions sharing a paymentInformationId are never split.
+     * @param {boolean} [options.singleTransaction] - Whether every instruction ends up in a block of its own.
+     * @returns {AtLeastOne<PaymentInformation<T>>} The payment information blocks, in order of first appearance.
+     * @throws {Error} If instructions sharing a paymentInformationId disagree on date, debtor, charge bearer or payment type.
+     * @throws {Error} If instructions share a paymentInformationId while every instruction must be in a block of its own.
+     * @throws {Error} If a requested execution date is not a business day and the business day convention is 'reject'.
+     */
+    groupPaymentInstructions<T extends CreditPaymentInstruction>(
+      instructions: AtLeastOne<T>,
+      defaults: PaymentInformationDefaults,
+      { splitByCurrency = false, singleTransaction = false }: { splitByCurrency?: boolean; singleTransaction?: boolean } = {},
+    ): AtLeastOne<PaymentInformation<T>> {
+      const groups = new Map<string, PaymentInformation<T>>();
+
+      for (const [instructionIndex, instruction] of instructions.entries()) {
+        const debtor = { ...defaults.debtor, ...instruction.debtor };
+        const requestedExecutionDate = this.resolveRequestedExecutionDate(
+          instruction.requestedExecutionDate || defaults.requestedExecutionDate,
+          instruction.id || instruction.endToEndId || `at index ${instructionIndex}`,
+        );
+        const chargeBearer = instruction.chargeBearer || defaults.chargeBearer;
+        const paymentType = {
+          serviceLevel: instruction.serviceLevel || defaults.serviceLevel,
+          instructionPriority: instruction.instructionPriority || defaults.instructionPriority,
+          categoryPurpose: instruction.categoryPurpose || defaults.categoryPurpose,
+        };
+        const groupingKey = PaymentInitiation.paymentInformationGroupingKey(debtor, requestedExecutionDate, chargeBearer);
+        const paymentTypeKey = [paymentType.serviceLevel, paymentType.instructionPriority, paymentType.categoryPurpose].join('|');
+        const currencyKey = splitByCurrency ? `|${instruction.currency}` : '';
+        const instructionKey = singleTransaction ? `|${instructionIndex}` : '';
+        const key = instruction.paymentInformationId
+          ? `id:${instruction.paymentInformationId}`
+          : `${groupingKey}|${paymentTypeKey}${currencyKey}${instructionKey}`;
+
+        const group = groups.get(key);
+        if (!group) {
+          groups.set(key, {
+            id: sanitize(instruction.paymentInformationId || uuidv4(), 35),
+            requestedExecutionDate,
+            debtor,
+            chargeBearer,
+            ...(paymentType.serviceLevel && { serviceLevel: paymentType.serviceLevel }),
+            ...(paymentType.instructionPriority && { instructionPriority: paymentType.instructionPriority }),
+            ...(paymentType.categoryPurpose && { categoryPurpose: paymentType.categoryPurpose }),
+            paymentInstructions: [instruction],
+          });
+          continue;
+        }
+
+        if (singleTransaction) {
+          throw new Error(`Payment information ${group.id} must hold a single payment instruction`);
+        }
+        if (groupingKey !== PaymentInitiation.paymentInformationGroupingKey(group.debtor, group.requestedExecutionDate, group.chargeBearer)) {
+          throw new Error(
+            `All payment instructions in payment information ${group.id} must share the same requested execution date, debtor and charge bearer`,
+          );
+        }
+        if (paymentTypeKey !== [group.serviceLevel, group.instructionPriority, group.categoryPurpose].join('|')) {
+          throw new Error(
+            `All payment instructions in payment information ${group.id} must share the same service level, instruction priority and category purpose`,
+          );
+        }
+        group.paymentInstructions.push(instruction);
+      }
+
+      return Array.from(groups.values()) as AtLeastOne<PaymentInformation<T>>;
+    }
+
+    /**
+     * Turns a requested execution date into a calendar date, in the configured time zone,
+     * and applies the configured business day convention to it.
+     * @param {Date | string} date - The requested execution date.
+     * @param {string} instructionName - The id or index of the instruction, for error messages.
+     * @returns {Date} The calendar date, at midnight UTC.
+     * @throws {Error} If the date is invalid, or not a business day and the business day convention is 'reject'.
+     */
+    private resolveRequestedExecutionDate(date: Date | string, instructionName: string): Date {
+      const { timeZone, businessDayCalendar, businessDayConvention } = this.executionDateOptions;
+      try {
+        const isoDate = toISODate(date, timeZone);
+        return new Date(businessDayCalendar && businessDayConvention
+          ? adjustToBusinessDay(isoDate, businessDayCalendar, businessDayConvention)
+          : isoDate);
+      } catch (error) {
+        throw new Error(`Invalid requested execution date of payment instruction ${instructionName}: ${(error as Error).message}`);
+      }
+    }
+
+    /**
+     * Validates the IBAN and BIC, or ABA routing number and account number, of the initiating party
+     * and of the debtor and creditor of every instruction.
+     * @param {Party} initiatingParty - The initiating party.
+     * @param {PaymentInstruction[]} instructions - The payment instructions.
+     * @param {'debtor' | 'creditor'} [initiatingPartyRole='debtor'] - The role of the initiating party, the creditor for direct debits.
+     * @throws {InvalidPaymentInstructionError} If a party has an invalid IBAN, BIC, ABA routing number or US account number,
+     * or a BIC from another country than its IBAN.
+     */
+    protected validatePartyIdentifiers(
+      initiatingParty: Party,
+      instructions: PaymentInstruction[],
+      initiatingPartyRole: 'debtor' | 'creditor' = 'debtor',
+    ) {
+      const initiatingPartyResult = validatePartyIdentifiers(initiatingParty);
+      if (!initiatingPartyResult.valid) {
+        throw new InvalidPaymentInstructionError(
+          `Invalid ${initiatingPartyRole} in initiating party: ${initiatingPartyResult.errors.join('; ')}`,
+          { party: initiatingPartyRole, errors: initiatingPartyResult.errors },
+        );
+      }
+
+      instructions.forEach((instruction, instructionIndex) => {
+        (['debtor', 'creditor'] as const).forEach(party => {
+          if (!instruction[party]) return;
+          const result = validatePartyIdentifiers(instruction[party] as Party);
+          if (result.valid) return;
+
+          const instructionId = instruction.id || instruction.endToEndId;
+          const instructionName = instructionId ? `payment instruction ${instructionId}` : `payment instruction at index ${instructionIndex}`;
+          throw new InvalidPaymentInstructionError(
+            `Invalid ${party} in ${instructionName}: ${result.errors.join('; ')}`,
+            { instructionId, instructionIndex, party, errors: result.errors },
+          );
+        });
+      });
+    }
+
+    /**
+     * Validates that the charge bearer, service level and instruction priority of every instruction,
+     * its own or the message's, are allowed by the rail.
+     * @param {CreditPaymentInstruction[]} instructions - The payment instructions.
+     * @param {PaymentTypeOptions} defaults - The values of the message, used when an instruction does not override them.
+     * @param {PaymentTypeRules} rules - The values the rail allows.
+     * @throws {Error} If an instruction has a value the rail does not allow.
+     */
+    protected validatePaymentTypeInformation(
+      instructions: CreditPaymentInstruction[],
+      defaults: PaymentTypeOptions,
+      rules: PaymentTypeRules,
+    ) {
+      const rail = this.type.toUpperCase();
+      instructions.forEach((instruction, instructionIndex) => {
+        const instructionId = instruction.id || instruction.endToEndId;
+        const instructionName = instructionId ? `Payment instruction ${instructionId}` : `Payment instruction at index ${instructionIndex}`;
+        const checks: [string, string | undefined, string[] | undefined][] = [
+          ['charge bearer', instruction.chargeBearer || defaults.chargeBearer, rules.chargeBearers],
+          ['service level', instruction.serviceLevel || defaults.serviceLevel, rules.serviceLevels],
+          ['instruction priority', instruction.instructionPriority || defaults.instructionPriority, rules.instructionPriorities],
+        ];
+        checks.forEach(([name, value, allowed]) => {
+          if (value && allowed && !allowed.includes(value)) {
+            throw new Error(`${instructionName} has ${name} ${value}, ${rail} payments only allow ${allowed.join(', ')}`);
+          }
+        });
+      });
+    }
+
+    /**
+     * Validates the number of remittance information occurrences of every instruction.
+     * Structured remittance information never holds more than 3 lines of additional information, and its creditor reference
+     * must have valid check digits when it is an RF creditor reference (SCOR issued by ISO), a Swiss QR reference (QRR)
+     * or a reference of an explicit scheme.
+     * @param {PaymentInstruction[]} instructions - The payment instructions.
+     * @param {Object} [limits] - The limits of the rail.
+     * @param {number} [limits.maxStructured] - The maximum number of structured remittance information per instruction.
+     * @param {boolean} [limits.exclusive] - Whether structured and unstructured remittance information exclude each other.
+     * @throws {Error} If an instruction exceeds one of the limits or has an invalid creditor reference.
+     */
+    protected validateRemittanceInformation(
+      instructions: PaymentInstruction[],
+      { maxStructured, exclusive = false }: { maxStructured?: number; exclusive?: boolean } = {},
+    ) {
+      instructions.forEach((instruction, instructionIndex) => {
+        const structured = instruction.structuredRemittanceInformation || [];
+        const instructionId = instruction.id || instruction.endToEndId;
+        const instructionName = instructionId ? `Payment instruction ${instructionId}` : `Payment instruction at index ${instructionIndex}`;
+
+        if (maxStructured !== undefined && structured.length > maxStructured) {
+          throw new Error(`${instructionName} must not have more than ${maxStructured} structured remittance information`);
+        }
+        if (exclusive && structured.length > 0 && instruction.remittanceInformation) {
+          throw new Error(`${instructionName} must not have both structured and unstructured remittance information`);
+        }
+        if (structured.some(remittance => (remittance.additionalInformation?.length || 0) > 3)) {
+          throw new Error(`${instructionName} must not have more than 3 lines of additional remittance information`);
+        }
+        structured.forEach(remittance => {
+          const reference = remittance.creditorReference;
+          if (!reference) return;
+          const isRFReference = reference.type === CreditorReferenceTypeCode.StructuredCommunicationReference && reference.issuer === 'ISO';
+          const scheme = reference.scheme || (isRFReference ? 'rf' : reference.type === 'QRR' ? 'qrr' : undefined);
+          const result = scheme ? validateCreditorReference(scheme, reference.reference) : undefined;
+          if (result && !result.valid) {
+            throw new Error(`${instructionName} has an invalid creditor reference: ${result.errors.join('; ')}`);
+          }
+        });
+      });
+    }
+
+    /**
+     * Builds the key used to decide whether two instructions belong to the same payment information block.
+     * @param {Party} debtor - The debtor of the instruction.
+     * @param {Date} requestedExecutionDate - The requested execution date of the instruction.
+     * @param {ChargeBearerType} chargeBearer - The charge bearer of the instruction.
+     * @returns {string} The grouping key.
+     */
+    static paymentInformationGroupingKey(debtor: Party, requestedExecutionDate: Date, chargeBearer: ChargeBearerType): string {
+      return [
+        requestedExecutionDate.toISOString().split('T')[0],
+        debtor.name,
+        (debtor.account as IBANAccount)?.iban || (debtor.account as BaseAccount)?.accountNumber,
+        (debtor.agent as BICAgent)?.bic || (debtor.agent as ABAAgent)?.abaRoutingNumber,
+        chargeBearer,
+      ].join('|');
+    }
+
+    /**
+     * Reads the requested execution date (ReqdExctnDt) of a payment information block, a date or, from pain.001.001.08, a date / date time choice.
+     * @param {any} rawPaymentInformation - The raw PmtInf element.
+     * @returns {string | undefined} The calendar date, e.g. '2025-03-05', or undefined if the block has none.
+     */
+    static parseRequestedExecutionDate(rawPaymentInformation: any): string | undefined {
+      const rawDate = rawPaymentInformation.ReqdExctnDt?.Dt || rawPaymentInformation.ReqdExctnDt?.DtTm || rawPaymentInformation.ReqdExctnDt;
+      const requestedExecutionDate = typeof rawDate === 'string' ? rawDate.slice(0, 10) : undefined;
+      return requestedExecutionDate && /^\d{4}-\d{2}-\d{2}$/.test(requestedExecutionDate) ? requestedExecutionDate : undefined;
+    }
+
+    /**
+     * Reads the charge bearer and the payment type information (PmtTpInf) of a payment information block.
+     * @param {any} rawPaymentInformation - The raw PmtInf element.
+     * @returns {PaymentTypeOptions} The charge bearer, service level, instruction priority and category purpose found in the block.
+     */
+    static parsePaymentTypeInformation(rawPaymentInformation: any): PaymentTypeOptions {
+      const paymentTypeInformation = rawPaymentInformation.PmtTpInf;
+      return {
+        ...(rawPaymentInformation.ChrgBr && { chargeBearer: rawPaymentInformation.ChrgBr as ChargeBearerType }),
+        ...(paymentTypeInformation?.SvcLvl?.Cd && { serviceLevel: paymentTypeInformation.SvcLvl.Cd as ServiceLevel }),
+        ...(paymentTypeInformation?.InstrPrty && { instructionPriority: paymentTypeInformation.InstrPrty as InstructionPriority }),
+        ...(paymentTypeInformation?.CtgyPurp?.Cd && { categoryPurpose: paymentTypeInformation.CtgyPurp.Cd as ExternalCategoryPurpose }),
+      };
+    }
+
+    /**
+     * Reads the payment information block (PmtInf) values that apply to every instruction in the block,
+     * so that parsed instructions are grouped back into the same blocks.
+     * @param {any} rawPaymentInformation - The raw PmtInf element.
+     * @returns {Partial<PaymentInstruction>} The block values, in the shape of payment instruction overrides.
+     */
+    static parsePaymentInformation(rawPaymentInformation: any): Partial<CreditPaymentInstruction> {
+      const requestedExecutionDate = PaymentInitiation.parseRequestedExecutionDate(rawPaymentInformation);
+      return {
+        ...(rawPaymentInformation.PmtInfId && { paymentInformationId: rawPaymentInformation.PmtInfId.toString() as string }),
+        ...(requestedExecutionDate && { requestedExecutionDate }),
+        ...PaymentInitiation.parsePaymentTypeInformation(rawPaymentInformation),
+        debtor: {
+          ...(rawPaymentInformation.Dbtr?.Nm && { name: rawPaymentInformation.Dbtr.Nm.toString() as string }),
+          ...(rawPaymentInformation.DbtrAcct && { account: parseAccount(rawPaymentInformation.DbtrAcct) }),
+          ...(rawPaymentInformation.DbtrAgt?.FinInstnId && { agent: parseAgent(rawPaymentInformation.DbtrAgt) }),
+        },
+      };
+    }
+
+    /**
+     * Parses the remittance information (RmtInf) of a transaction, unstructured and structured.
+     * @param {any} rawRemittanceInformation - The raw RmtInf element.
+     * @returns {Object} The remittance information, in the shape of payment instruction fields.
+     */
+    static parseRemittanceInformation(rawRemittanceInformation: any): Pick<PaymentInstruction, 'remittanceInformation' | 'structuredRemittanceInformation'> {
+      if (!rawRemittanceInformation) {
+        return {};
+      }
+      const rawStructured: any[] = rawRemittanceInformation.Strd === undefined
+        ? []
+        : Array.isArray(rawRemittanceInformation.Strd) ? rawRemittanceInformation.Strd : [rawRemittanceInformation.Strd];
+      return {
+        ...(rawRemittanceInformation.Ustrd && { remittanceInformation: rawRemittanceInformation.Ustrd.toString() as string }),
+        ...(rawStructured.length > 0 && { structuredRemittanceInformation: rawStructured.map(rawRemittance => parseStructuredRemittance(rawRemittance)) }),
+      };
+    }
+
+    /**
+     * Reads the pain.001 version from the namespace of a parsed document.
+     * @param {string} namespace - The namespace of the Document element.
+     * @returns {PaymentInitiationVersion} The message version.
+     * @throws {InvalidXmlNamespaceError} If the namespace is not a supported pain.001 version.
+     */
+    static parseVersion(namespace: string): PaymentInitiationVersion {
+      const version = (namespace || '').substring(ISO20022_NAMESPACE_PREFIX.length) as PaymentInitiationVersion;
+      if (!namespace?.startsWith(ISO20022_NAMESPACE_PREFIX) || !PaymentInitiationVersions.includes(version)) {
+        throw new InvalidXmlNamespaceError('Invalid PAIN.001 namespace');
+      }
+      return version;
+    }
+
+    /**
+     * Parses a raw postal address (PstlAdr) of any version into a structured address.
+     * @param {any} rawPostalAddress - The raw PstlAdr element.
+     * @returns {StructuredAddress | undefined} The structured address, or undefined if it holds no structured fields.
+     */
+    static parsePostalAddress(rawPostalAddress: any): StructuredAddress | undefined {
+      return parsePostalAddress(rawPostalAddress);
+    }
+
+    /**
+     * Validates the serialized payment initiation against the XSD schema of its message version.
+     * @param {SchemaValidationOptions} [options] - Options to pick the schema or the schema directory.
+     * @returns {SchemaValidationResult} The validation result, with structured errors.
+     */
+    validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+      return validateXMLAgainstSchema(this.serialize(), options);
+    }
+
     /**
      * Returns the string representation of the payment initiation.
      * @returns {string} The serialized payment initiation.
@@ -145,6 +790,34 @@ import {
       return this.serialize();
     }
 
+    /**
+     * Rebuilds the XML of a message exported with `toJSON`, so that it can be read by `fromXML`.
+     * @param {string} json - The JSON string.
+     * @returns {string} The XML string.
+     * @throws {InvalidXmlError} If the JSON has no Document element.
+     */
+    protected static jsonToXML(json: string): string {
+      const obj = JSON.parse(json);
+      if (!obj.Document) {
+        throw new InvalidXmlError('Invalid JSON format');
+      }
+      return PaymentInitiation.getBuilder().build(obj);
+    }
+
+    /**
+     * Tells whether every payment instruction of a configuration is of the given type.
+     * Used to pick the implementation when several classes support the same message.
+     * @param {any} data - The configuration.
+     * @param {string} type - The payment instruction type, e.g. 'sepa'.
+     * @param {boolean} includeUntyped - Whether instructions without a type also count as the type.
+     * @returns {boolean} Whether the configuration only holds instructions of the type.
+     */
+    protected static hasInstructionsOfType(data: any, type: string, includeUntyped: boolean = false): boolean {
+      return Array.isArray(data?.paymentInstructions)
+        && data.paymentInstructions.length > 0
+        && data.paymentInstructions.every((instruction: { type?: string }) => instruction.type === type || (includeUntyped && instruction.type === undefined));
+    }
+
     static getBuilder(): XMLBuilder {
       return new XMLBuilder({
         ignoreAttributes: false,
@@ -1,13 +1,11 @@
-import { ABAAgent, Account, Agent, BaseAccount, Party, RTPCreditPaymentInstruction } from '../../lib/types';
+import { ABAAgent, Account, Agent, BaseAccount, ChargeBearerType, ChargeBearerTypeCode, ExternalCategoryPurpose, ExternalPurpose, InstructionPriority, Party, PaymentInformation, RTPCreditPaymentInstruction, ServiceLevel, ServiceLevelCode } from '../../lib/types';
 import { v4 as uuidv4 } from 'uuid';
 import { Currency } from '../../lib/currency';
 import { formatAmount, sumAmounts } from '../../dinero-helpers';
-import { sanitize } from '../../utils/format';
-import { PaymentInitiation } from './payment-initiation';
-import { XMLParser } from 'fast-xml-parser';
-import { InvalidXmlError, InvalidXmlNamespaceError } from "../../errors";
+import { PaymentInitiation, PaymentInitiationVersion, PaymentTypeOptions, RequestedExecutionDateOptions } from './payment-initiation';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
+import { InvalidXmlError } from "../../errors";
 import { parseAccount, parseAgent, parseAmountToMinorUnits } from "../../parseUtils";
-import { Alpha2Country } from "lib/countries";
 
 type AtLeastOne<T> = [T, ...T[]];
 
@@ -18,8 +16,18 @@ type AtLeastOne<T> = [T, ...T[]];
  * @property {AtLeastOne<RTPCreditPaymentInstruction>} paymentInstructions - Array containing at least one payment instruction for the RTP credit transfer.
  * @property {string} [messageId] - Optional unique identifier for the message. If not provided, a UUID will be generated.
  * @property {Date} [creationDate] - Optional creation date for the message. If not provided, current date will be used.
+ * @property {Date | string} [requestedExecutionDate] - Optional date on which the debtor account is to be debited. If not provided, the creation date will be used.
+ * @property {string} [timeZone] - Optional IANA time zone in which Dates are read. If not provided, 'UTC' will be used.
+ * @property {BusinessDayCalendar} [businessDayCalendar] - Optional business day calendar. If not provided, dates are not checked.
+ * @property {BusinessDayConvention} [businessDayConvention] - Optional handling of non-business days, 'following' or 'reject'. Only applies with a calendar.
+ * @property {ChargeBearerType} [chargeBearer] - Optional charge bearer. If not provided, 'SLEV' will be used.
+ * @property {ServiceLevel} [serviceLevel] - Optional service level, RTP only allows 'URNS'. If not provided, 'URNS' will be used.
+ * @property {InstructionPriority} [instructionPriority] - Optional instruction priority, 'HIGH' or 'NORM'. If not provided, none is written.
+ * @property {ExternalCategoryPurpose} [categoryPurpose] - Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard.
+ * @property {ExternalPurpose} [purpose] - Optional purpose code following ISO20022 ExternalPurpose1Code standard, written on every transaction.
+ * @property {PaymentInitiationVersion} [version] - Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
  */
-export interface RTPCreditPaymentInitiationConfig {
+export interface RTPCreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions {
     /** The party initiating the RTP credit transfer. */
     initiatingParty: Party
     /** Array containing at least one payment instruction for the RTP credit transfer. */
@@ -28,6 +36,8 @@ export interface RTPCreditPaymentInitiationConfig {
     messageId?: string
     /** Optional creation date for the message. If not provided, current date will be used. */
     creationDate?: Date
+    /** Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used. */
+    version?: PaymentInitiationVersion
 }
 
 /**
@@ -51,22 +61,50 @@ export interface RTPCreditPaymentInitiationConfig {
  * ```
  * @see {@link https://docs.iso20022js.com/pain/rtpcredit} for more information.
  */
-export class RTPCreditPaymentInitiation extends PaymentInitiation {
+export class RTPCreditPaymentInitiation extends PaymentInitiation implements GenericISO20022Message {
     public initiatingParty: Party
     public paymentInstructions: AtLeastOne<RTPCreditPaymentInstruction>
     public messageId: string
     public creationDate: Date
     public paymentInformationId: string;
+    public paymentInformations: AtLeastOne<PaymentInformation<RTPCreditPaymentInstruction>>;
+    public chargeBearer: ChargeBearerType;
+    public serviceLevel: ServiceLevel;
+    public instructionPriority?: InstructionPriority;
+    public categoryPurpose?: ExternalCategoryPurpose;
+    public purpose?: ExternalPurpose;
     private formattedPaymentSum: string;
     constructor(config: RTPCreditPaymentInitiationConfig) {
-        super({ type: "rtp" });
+        super({
+            type: "rtp",
+            version: config.version,
+            executionDateOptions: {
+                requestedExecutionDate: config.requestedExecutionDate,
+                timeZone: config.timeZone,
+                businessDayCalendar: config.businessDayCalendar,
+                businessDayConvention: config.businessDayConvention,
+            },
+        });
         this.initiatingParty = config.initiatingParty;
         this.paymentInstructions = config.paymentInstructions;
         this.messageId = config.messageId || uuidv4().replace(/-/g, '');
         this.creationDate = config.creationDate || new Date();
-        this.paymentInformationId = sanitize(uuidv4(), 35);
+        this.chargeBearer = config.chargeBearer || ChargeBearerTypeCode.FollowingServiceLevel;
+        this.serviceLevel = config.serviceLevel || ServiceLevelCode.UrgentNetSettlement;
+        this.instructionPriority = config.instructionPriority;
+        this.categoryPurpose = config.categoryPurpose;
+        this.purpose = config.purpose;
         this.formattedPaymentSum = this.sumPaymentInstructions(this.paymentInstructions as AtLeastOne<RTPCreditPaymentInstruction>);
         this.validate();
+        this.paymentInformations = this.groupPaymentInstructions(this.paymentInstructions, {
+            debtor: this.initiatingParty,
+            requestedExecutionDate: this.executionDateOptions.requestedExecutionDate || this.creationDate,
+            chargeBearer: this.chargeBearer,
+            serviceLevel: this.serviceLevel,
+            instructionPriority: this.instructionPriority,
+            categoryPurpose: this.categoryPurpose,
+        });
+        this.paymentInformationId = this.paymentInformations[0].id;
     }
     /**
      * Calculates the sum of all payment instructions.
@@ -88,11 +126,18 @@ export class RTPCreditPaymentInitiation extends PaymentInitiation {
      * @throws {Error} If messageId exceeds 35 characters.
      * @throws {Error} If payment instructions have different currencies.
      * @throws {Error} If any creditor has incomplete address information.
+     * @throws {Error} If structured remittance information has more than 3 lines of additional information.
+     * @throws {Error} If an instruction has another service level than URNS.
      */
     private validate() {
         if (this.messageId.length > 35) {
             throw new Error('messageId must not exceed 35 characters');
         }
+
+        this.validateRemittanceInformation(this.paymentInstructions);
+        this.validatePaymentTypeInformation(this.paymentInstructions, this, {
+            serviceLevels: [ServiceLevelCode.UrgentNetSettlement],
+        });
     }
 
     /**
@@ -101,8 +146,7 @@ export class RTPCreditPaymentInitiation extends PaymentInitiation {
      * @returns {Object} The payment information object formatted according to SEPA specifications.
      */
     creditTransfer(instruction: RTPCreditPaymentInstruction) {
-        const paymentInstructionId = sanitize(instruction.id || uuidv4(), 35);
-        const endToEndId = sanitize(instruction.endToEndId || instruction.id || uuidv4(), 35);
+        const { instructionId: paymentInstructionId, endToEndId } = this.paymentIdentification(instruction);
 
         return {
             PmtId: {
@@ -124,70 +168,129 @@ export class RTPCreditPaymentInitiation extends PaymentInitiation {
                     },
                 },
             },
-            RmtInf: instruction.remittanceInformation ? {
-                Ustrd: instruction.remittanceInformation,
-            } : undefined,
+            ...((instruction.purpose || this.purpose) && { Purp: { Cd: instruction.purpose || this.purpose } }),
+            RmtInf: this.remittanceInformation(instruction),
+        };
+    }
+
+    /**
+     * Generates a payment information block (PmtInf) for a group of RTP credit transfer instructions.
+     * @param {PaymentInformation<RTPCreditPaymentInstruction>} paymentInformation - The payment information block.
+     * @returns {Object} The PmtInf object formatted according to RTP specifications.
+     */
+    paymentInformation(paymentInformation: PaymentInformation<RTPCreditPaymentInstruction>) {
+        return {
+            PmtInfId: paymentInformation.id,
+            PmtMtd: 'TRF',
+            NbOfTxs: paymentInformation.paymentInstructions.length.toString(),
+            CtrlSum: this.sumPaymentInstructions(paymentInformation.paymentInstructions),
+            PmtTpInf: this.paymentTypeInformation(paymentInformation, { Prtry: "RTP" }),
+            ReqdExctnDt: this.requestedExecutionDate(paymentInformation.requestedExecutionDate),
+            Dbtr: this.party(paymentInformation.debtor),
+            DbtrAcct: this.account(paymentInformation.debtor.account as Account),
+            DbtrAgt: this.agent(paymentInformation.debtor.agent as Agent),
+            ChrgBr: paymentInformation.chargeBearer,
+            // payments[]
+            CdtTrfTxInf: paymentInformation.paymentInstructions.map(p => this.creditTransfer(p)),
         };
     }
 
+    /**
+     * Exports the RTP credit transfer initiation as a document object, the JSON form of the message.
+     * @returns {any} The document object.
+     */
+    toJSON(): any {
+        const Document = {
+            '@xmlns': this.namespace,
+            '@xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+            CstmrCdtTrfInitn: {
+                GrpHdr: {
+                    MsgId: this.messageId,
+                    CreDtTm: this.creationDate.toISOString(),
+                    NbOfTxs: this.paymentInstructions.length.toString(),
+                    CtrlSum: this.formattedPaymentSum,
+                    InitgPty: {
+                        Nm: this.initiatingParty.name,
+                        Id: {
+                            OrgId: {
+                                Othr: {
+                                    Id: this.initiatingParty.id,
+                                },
+                            },
+                        },
+                    },
+                },
+                PmtInf: this.paymentInformations.map(p => this.paymentInformation(p)),
+            }
+        };
+        return { Document };
+    }
 
     /**
      * Serializes the RTP credit transfer initiation to an XML string.
      * @returns {string} The XML representation of the RTP credit transfer initiation.
+     * @throws {InvalidPaymentInstructionError} If a debtor or creditor has an invalid ABA routing number or account number.
      */
     public serialize(): string {
+        this.validatePartyIdentifiers(this.initiatingParty, this.paymentInstructions);
+
         const builder = PaymentInitiation.getBuilder();
         const xml = {
             '?xml': {
                 '@version': '1.0',
                 '@encoding': 'UTF-8'
             },
-            Document: {
-                '@xmlns': 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03',
-                '@xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
-                CstmrCdtTrfInitn: {
-                    GrpHdr: {
-                        MsgId: this.messageId,
-                        CreDtTm: this.creationDate.toISOString(),
-                        NbOfTxs: this.paymentInstructions.length.toString(),
-                        CtrlSum: this.formattedPaymentSum,
-                        InitgPty: {
-                            Nm: this.initiatingParty.name,
-                            Id: {
-                                OrgId: {
-                                    Othr: {
-                                        Id: this.initiatingParty.id,
-                                    },
-                                },
-                            },
-                        },
-                    },
-                    PmtInf: {
-                        PmtInfId: this.paymentInformationId,
-                        PmtMtd: 'TRF',
-                        NbOfTxs: this.paymentInstructions.length.toString(),
-                        CtrlSum: this.formattedPaymentSum,
-                        PmtTpInf: {
-                            SvcLvl: { Cd: 'URNS' },
-                            LclInstrm: { Prtry: "RTP" },
-                        },
-                        ReqdExctnDt: this.creationDate.toISOString().split('T').at(0),
-                        Dbtr: this.party(this.initiatingParty),
-                        DbtrAcct: this.account(this.initiatingParty.account as Account),
-                        DbtrAgt: this.agent(this.initiatingParty.agent as Agent),
-                        ChrgBr: 'SLEV',
-                        // payments[]
-                        CdtTrfTxInf: this.paymentInstructions.map(p => this.creditTransfer(p)),
-                    }
-                }
-            },
+            ...this.toJSON(),
         };
 
         return builder.build(xml);
     }
 
+    /**
+     * The configuration of the RTP credit transfer initiation, which can be passed back to its constructor.
+     * @returns {RTPCreditPaymentInitiationConfig} The configuration.
+     */
+    get data(): RTPCreditPaymentInitiationConfig {
+        return {
+            initiatingParty: this.initiatingParty,
+            paymentInstructions: this.paymentInstructions,
+            messageId: this.messageId,
+            creationDate: this.creationDate,
+            chargeBearer: this.chargeBearer,
+            serviceLevel: this.serviceLevel,
+            instructionPriority: this.instructionPriority,
+            categoryPurpose: this.categoryPurpose,
+            purpose: this.purpose,
+            version: this.version,
+            ...this.executionDateOptions,
+        };
+    }
+
+    static supportedMessages(): ISO20022MessageTypeName[] {
+        return [ISO20022Messages.PAIN_001];
+    }
+
+    /**
+     * Tells whether a configuration holds RTP payment instructions, to pick this class for generic PAIN.001 messages.
+     * @param {any} data - The configuration.
+     * @returns {boolean} Whether every payment instruction has type 'rtp'.
+     */
+    static supportsData(data: any): boolean {
+        return PaymentInitiation.hasInstructionsOfType(data, 'rtp');
+    }
+
+    /**
+     * Creates a RTPCreditPaymentInitiation instance from a JSON string exported with `toJSON`.
+     * @param {string} json - The JSON string.
+     * @returns {RTPCreditPaymentInitiation} A new RTPCreditPaymentInitiation instance.
+     * @throws {InvalidXmlError} If the JSON has no Document element.
+     */
+    static fromJSON(json: string): RTPCreditPaymentInitiation {
+        return RTPCreditPaymentInitiation.fromXML(PaymentInitiation.jsonToXML(json));
+    }
+
     public static fromXML(rawXml: string): RTPCreditPaymentInitiation {
-        const parser = new XMLParser({ ignoreAttributes: false });
+        const parser = XML.getParser();
         const xml = parser.parse(rawXml);
 
         if (!xml.Document) {
@@ -195,62 +298,65 @@ export class RTPCreditPaymentInitiation extends PaymentInitiation {
         }
 
         const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
-        if (!namespace.startsWith('urn:iso:std:iso:20022:tech:xsd:pain.001.001.03')) {
-            throw new InvalidXmlNamespaceError('Invalid PAIN.001 namespace');
-        }
+        const version = PaymentInitiation.parseVersion(namespace);
 
         const messageId = (xml.Document.CstmrCdtTrfInitn.GrpHdr.MsgId as string);
         const creationDate = new Date(xml.Document.CstmrCdtTrfInitn.GrpHdr.CreDtTm as string);
 
-        if (Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf)) {
-            throw new Error('Multiple PmtInf is not supported');
-        }
+        const rawPaymentInformations: any[] = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf) ? xml.Document.CstmrCdtTrfInitn.PmtInf : [xml.Document.CstmrCdtTrfInitn.PmtInf];
 
-        // Assuming we have one PmtInf / one Debtor, we can hack together this information from InitgPty / Dbtr
+        // The initiating party's debtor information comes from the first PmtInf / Dbtr
         const initiatingParty = {
-            name: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Nm as string) || (xml.Document.CstmrCdtTrfInitn.PmtInf.Dbtr.Nm as string),
-            id: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.Othr?.Id) || (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.BICOrBEI),
-            agent: parseAgent(xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAgt),
-            account: parseAccount(xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAcct)
+            name: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Nm as string) || (rawPaymentInformations[0].Dbtr.Nm as string),
+            id: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.Othr?.Id) || (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.BICOrBEI) || (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId?.AnyBIC),
+            agent: parseAgent(rawPaymentInformations[0].DbtrAgt),
+            account: parseAccount(rawPaymentInformations[0].DbtrAcct)
         }
 
-        const rawInstructions = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf) ? xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf : [xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf];
-
-        const paymentInstructions = rawInstructions.map((inst: any) => {
-            const currency = (inst.Amt.InstdAmt['@_Ccy'] as Currency);
-            const amount = parseAmountToMinorUnits(Number(inst.Amt.InstdAmt['#text']), currency);
-            const rawPostalAddress = inst.Cdtr.PstlAdr;
-            return {
-                ...(inst.PmtId.InstrId && { id: (inst.PmtId.InstrId.toString() as string) }),
-                ...(inst.PmtId.EndToEndId && { endToEndId: (inst.PmtId.EndToEndId.toString() as string) }),
-                type: 'sepa',
-                direction: 'credit',
-                amount: amount,
-                currency: currency,
-                creditor: {
-                    name: (inst.Cdtr?.Nm as string),
-                    agent: parseAgent(inst.CdtrAgt),
-                    account: parseAccount(inst.CdtrAcct),
-                    ...((rawPostalAddress && (rawPostalAddress.StreetName || rawPostalAddress.BldgNb || rawPostalAddress.PstlCd || rawPostalAddress.TwnNm || rawPostalAddress.Ctry)) ? {
-                        address: {
-                            ...(rawPostalAddress.StrtNm && { streetName: rawPostalAddress.StrtNm.toString() as string }),
-                            ...(rawPostalAddress.BldgNb && { buildingNumber: rawPostalAddress.BldgNb.toString() as string }),
-                            ...(rawPostalAddress.TwnNm && { townName: rawPostalAddress.TwnNm.toString() as string }),
-                            ...(rawPostalAddress.CtrySubDvsn && { countrySubDivision: rawPostalAddress.CtrySubDvsn.toString() as string }),
-                            ...(rawPostalAddress.PstCd && { postalCode: rawPostalAddress.PstCd.toString() as string }),
-                            ...(rawPostalAddress.Ctry && { country: rawPostalAddress.Ctry as Alpha2Country }),
-                        }
-                    } : {}),
-                },
-                ...(inst.RmtInf?.Ustrd && { remittanceInformation: inst.RmtInf.Ustrd.toString() as string })
-            }
+        const paymentInstructions = rawPaymentInformations.flatMap((rawPaymentInformation: any) => {
+            const rawInstructions = Array.isArray(rawPaymentInformation.CdtTrfTxInf) ? rawPaymentInformation.CdtTrfTxInf : [rawPaymentInformation.CdtTrfTxInf];
+            // Block level values are only kept on the instructions when they are needed to rebuild multiple blocks
+            const paymentInformation = rawPaymentInformations.length > 1 ? PaymentInitiation.parsePaymentInformation(rawPaymentInformation) : {};
+            return rawInstructions.map((inst: any) => ({ ...RTPCreditPaymentInitiation.parseCreditTransfer(inst), ...paymentInformation }));
         }) as AtLeastOne<RTPCreditPaymentInstruction>;
 
         return new RTPCreditPaymentInitiation({
             messageId: messageId,
             creationDate: creationDate,
             initiatingParty: initiatingParty,
-            paymentInstructions: paymentInstructions
+            paymentInstructions: paymentInstructions,
+            version,
+            requestedExecutionDate: PaymentInitiation.parseRequestedExecutionDate(rawPaymentInformations[0]),
+            ...PaymentInitiation.parsePaymentTypeInformation(rawPaymentInformations[0]),
         });
     }
+
+    /**
+     * Parses a single credit transfer transaction (CdtTrfTxInf) into an RTP payment instruction.
+     * @param {any} inst - The raw CdtTrfTxInf element.
+     * @returns {RTPCreditPaymentInstruction} The parsed payment instruction.
+     */
+    private static parseCreditTransfer(inst: any): RTPCreditPaymentInstruction {
+        const currency = (inst.Amt.InstdAmt['@_Ccy'] as Currency);
+        const amount = parseAmountToMinorUnits(inst.Amt.InstdAmt['#text'], currency);
+        const address = PaymentInitiation.parsePostalAddress(inst.Cdtr.PstlAdr);
+        return {
+            ...(inst.PmtId.InstrId && { id: (inst.PmtId.InstrId.toString() as string) }),
+            ...(inst.PmtId.EndToEndId && { endToEndId: (inst.PmtId.EndToEndId.toString() as string) }),
+            type: 'sepa',
+            direction: 'credit',
+            amount: amount,
+            currency: currency,
+            creditor: {
+                name: (inst.Cdtr?.Nm as string),
+                agent: parseAgent(inst.CdtrAgt),
+                account: parseAccount(inst.CdtrAcct),
+                ...(address && { address }),
+            },
+            ...(inst.Purp?.Cd && { purpose: inst.Purp.Cd as ExternalPurpose }),
+            ...PaymentInitiation.parseRemittanceInformation(inst.RmtInf),
+        } as RTPCreditPaymentInstruction;
+    }
 }
+
+registerISO20022Implementation(RTPCreditPaymentInitiation);
@@ -1,16 +1,29 @@
-import { Account, Agent, BICAgent, ExternalCategoryPurpose, IBANAccount, Party, SEPACreditPaymentInstruction } from "../../lib/types";
-import { PaymentInitiation } from './payment-initiation';
-import { sanitize } from "../../utils/format";
+import { Account, Agent, BICAgent, ChargeBearerType, ChargeBearerTypeCode, ExternalCategoryPurpose, ExternalPurpose, IBANAccount, InstructionPriority, Party, PaymentInformation, SEPACreditPaymentInstruction, ServiceLevel, ServiceLevelCode } from "../../lib/types";
+import { PaymentInitiation, PaymentInitiationVersion, PaymentTypeOptions, RequestedExecutionDateOptions } from './payment-initiation';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
 import { Currency } from '../../lib/currency';
 import { formatAmount, sumAmounts } from '../../dinero-helpers';
 import { v4 as uuidv4 } from 'uuid';
-import { XMLParser } from 'fast-xml-parser';
-import { InvalidXmlError, InvalidXmlNamespaceError } from "../../errors";
+import { InvalidXmlError } from "../../errors";
 import { parseAccount, parseAgent, parseAmountToMinorUnits } from "../../parseUtils";
-import { Alpha2Country } from "lib/countries";
 
 type AtLeastOne<T> = [T, ...T[]];
 
+/** The local instrument of SEPA Instant Credit Transfers. */
+const INSTANT_LOCAL_INSTRUMENT = 'INST';
+
+/**
+ * How SEPA Instant Credit Transfers (SCT Inst) are written.
+ */
+export interface SEPAInstantOptions {
+  /** Whether the payments are SEPA Instant Credit Transfers, written with the local instrument INST. */
+  instant?: boolean;
+  /** The maximum amount of an instant payment, in euro cents. If not provided, instant payments are not limited, as the scheme has no maximum. */
+  instantAmountLimit?: number;
+  /** Whether every payment is written in a payment information block of its own, as some banks require for instant payments. */
+  singleTransactionPerPaymentInformation?: boolean;
+}
+
 /**
  * Configuration for SEPA Credit Payment Initiation.
  *
@@ -18,9 +31,21 @@ type AtLeastOne<T> = [T, ...T[]];
  * @property {AtLeastOne<SEPACreditPaymentInstruction>} paymentInstructions - An array containing at least one payment instruction for SEPA credit transfer.
  * @property {string} [messageId] - Optional unique identifier for the message. If not provided, a UUID will be generated.
  * @property {Date} [creationDate] - Optional creation date for the message. If not provided, current date will be used.
+ * @property {ChargeBearerType} [chargeBearer] - Optional charge bearer, SEPA only allows 'SLEV'. If not provided, 'SLEV' will be used.
+ * @property {ServiceLevel} [serviceLevel] - Optional service level, SEPA only allows 'SEPA'. If not provided, 'SEPA' will be used.
+ * @property {InstructionPriority} [instructionPriority] - Optional instruction priority, 'HIGH' or 'NORM'. If not provided, none is written.
  * @property {ExternalCategoryPurpose} [categoryPurpose] - Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard.
+ * @property {ExternalPurpose} [purpose] - Optional purpose code following ISO20022 ExternalPurpose1Code standard, written on every transaction.
+ * @property {Date | string} [requestedExecutionDate] - Optional date on which the debtor account is to be debited. If not provided, the creation date will be used.
+ * @property {string} [timeZone] - Optional IANA time zone in which Dates are read. If not provided, 'UTC' will be used.
+ * @property {BusinessDayCalendar} [businessDayCalendar] - Optional business day calendar. If not provided, the TARGET2 calendar will be used.
+ * @property {BusinessDayConvention} [businessDayConvention] - Optional handling of non-business days, 'following' or 'reject'. If not provided, dates are written as they are.
+ * @property {boolean} [instant] - Optional, whether the payments are SEPA Instant Credit Transfers. Instant payments settle every day, so dates are not checked against TARGET2.
+ * @property {number} [instantAmountLimit] - Optional maximum amount of an instant payment, in euro cents. If not provided, instant payments are not limited.
+ * @property {boolean} [singleTransactionPerPaymentInformation] - Optional, whether every payment is written in its own payment information block.
+ * @property {PaymentInitiationVersion} [version] - Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
  */
-export interface SEPACreditPaymentInitiationConfig {
+export interface SEPACreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions, SEPAInstantOptions {
   /** The party initiating the SEPA credit transfer. */
   initiatingParty: Party;
   /** An array containing at least one payment instruction for SEPA credit transfer. */
@@ -29,8 +54,8 @@ export interface SEPACreditPaymentInitiationConfig {
   messageId?: string;
   /** Optional creation date for the message. If not provided, current date will be used. */
   creationDate?: Date;
-  /** Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard */
-  categoryPurpose?: ExternalCategoryPurpose;
+  /** Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used. */
+  version?: PaymentInitiationVersion;
 }
 
 /**
@@ -54,13 +79,21 @@ export interface SEPACreditPaymentInitiationConfig {
  * ```
  * @see {@link https://docs.iso20022js.com/pain/sepacredit} for more information.
  */
-export class SEPACreditPaymentInitiation extends PaymentInitiation {
+export class SEPACreditPaymentInitiation extends PaymentInitiation implements GenericISO20022Message {
   public initiatingParty: Party;
   public messageId: string;
   public creationDate: Date;
   public paymentInstructions: AtLeastOne<SEPACreditPaymentInstruction>;
   public paymentInformationId: string;
+  public paymentInformations: AtLeastOne<PaymentInformation<SEPACreditPaymentInstruction>>;
+  public chargeBearer: ChargeBearerType;
+  public serviceLevel: ServiceLevel;
+  public instructionPriority?: InstructionPriority;
   public categoryPurpose?: ExternalCategoryPurpose;
+  public purpose?: ExternalPurpose;
+  public instant: boolean;
+  public instantAmountLimit?: number;
+  public singleTransactionPerPaymentInformation: boolean;
   private formattedPaymentSum: string;
 
   /**
@@ -68,15 +101,40 @@ export class SEPACreditPaymentInitiation extends PaymentInitiation {
    * @param {SEPACreditPaymentInitiationConfig} config - The configuration object for the SEPA credit transfer.
    */
   constructor(config: SEPACreditPaymentInitiationConfig) {
-    super({ type: "sepa" });
+    super({
+      type: "sepa",
+      version: config.version,
+      executionDateOptions: {
+        requestedExecutionDate: config.requestedExecutionDate,
+        timeZone: config.timeZone,
+        // Instant payments settle around the clock, every day of the year
+        businessDayCalendar: config.businessDayCalendar || (config.instant ? undefined : 'target2'),
+        businessDayConvention: config.businessDayConvention,
+      },
+    });
     this.initiatingParty = config.initiatingParty;
     this.paymentInstructions = config.paymentInstructions;
     this.messageId = config.messageId || uuidv4().replace(/-/g, '');
     this.creationDate = config.creationDate || new Date();
     this.formattedPaymentSum = this.sumPaymentInstructions(this.paymentInstructions as AtLeastOne<SEPACreditPaymentInstruction>);
-    this.paymentInformationId = sanitize(uuidv4(), 35);
+    this.chargeBearer = config.chargeBearer || ChargeBearerTypeCode.FollowingServiceLevel;
+    this.serviceLevel = config.serviceLevel || ServiceLevelCode.SEPA;
+    this.instructionPriority = config.instructionPriority;
     this.categoryPurpose = config.categoryPurpose;
+    this.purpose = config.purpose;
+    this.instant = config.instant || false;
+    this.instantAmountLimit = config.instantAmountLimit;
+    this.singleTransactionPerPaymentInformation = config.singleTransactionPerPaymentInformation || false;
     this.validate();
+    this.paymentInformations = this.groupPaymentInstructions(this.paymentInstructions, {
+      debtor: this.initiatingParty,
+      requestedExecutionDate: this.executionDateOptions.requestedExecutionDate || this.creationDate,
+      chargeBearer: this.chargeBearer,
+      serviceLevel: this.serviceLevel,
+      instructionPriority: this.instructionPriority,
+      categoryPurpose: this.categoryPurpose,
+    }, { singleTransaction: this.singleTransactionPerPaymentInformation });
+    this.paymentInformationId = this.paymentInformations[0].id;
   }
 
 
@@ -104,6 +162,9 @@ export class SEPACreditPaymentInitiation extends PaymentInitiation {
    * @throws {Error} If messageId exceeds 35 characters.
    * @throws {Error} If payment instructions have different currencies.
    * @throws {Error} If any creditor has incomplete address information.
+   * @throws {Error} If an instruction has more than one structured remittance information, or both structured and unstructured.
+   * @throws {Error} If an instruction has another charge bearer than SLEV or another service level than SEPA.
+   * @throws {Error} If an instant payment exceeds the instant amount limit.
    */
   private validate() {
     if (this.messageId.length > 35) {
@@ -111,6 +172,24 @@ export class SEPACreditPaymentInitiation extends PaymentInitiation {
     }
 
     this.validateAllInstructionsHaveSameCurrency();
+    this.validateRemittanceInformation(this.paymentInstructions, { maxStructured: 1, exclusive: true });
+    this.validatePaymentTypeInformation(this.paymentInstructions, this, {
+      chargeBearers: [ChargeBearerTypeCode.FollowingServiceLevel],
+      serviceLevels: [ServiceLevelCode.SEPA],
+    });
+
+    const instantAmountLimit = this.instantAmountLimit;
+    if (this.instant && instantAmountLimit !== undefined) {
+      this.paymentInstructions.forEach((instruction, instructionIndex) => {
+        if (instruction.amount <= instantAmountLimit) return;
+        const instructionId = instruction.id || instruction.endToEndId;
+        const instructionName = instructionId ? `Payment instruction ${instructionId}` : `Payment instruction at index ${instructionIndex}`;
+        throw new Error(
+          `${instructionName} has amount ${formatAmount(instruction.amount, instruction.currency)} ${instruction.currency}, `
+          + `SEPA Instant payments must not exceed ${formatAmount(instantAmountLimit, 'EUR')} EUR`,
+        );
+      });
+    }
   }
 
   // Validates that all payment instructions have the same currency
@@ -129,8 +208,7 @@ export class SEPACreditPaymentInitiation extends PaymentInitiation {
    * @returns {Object} The payment information object formatted according to SEPA specifications.
    */
   creditTransfer(instruction: SEPACreditPaymentInstruction) {
-    const paymentInstructionId = sanitize(instruction.id || uuidv4(), 35);
-    const endToEndId = sanitize(instruction.endToEndId || instruction.id || uuidv4(), 35);
+    const { instructionId: paymentInstructionId, endToEndId } = this.paymentIdentification(instruction);
 
     return {
       PmtId: {
@@ -149,71 +227,134 @@ export class SEPACreditPaymentInitiation extends PaymentInitiation {
         Id: { IBAN: (instruction.creditor.account as IBANAccount).iban },
         Ccy: instruction.currency,
       },
-      RmtInf: instruction.remittanceInformation ? {
-        Ustrd: instruction.remittanceInformation,
-      } : undefined,
+      ...((instruction.purpose || this.purpose) && { Purp: { Cd: instruction.purpose || this.purpose } }),
+      RmtInf: this.remittanceInformation(instruction),
+    };
+  }
+
+  /**
+   * Generates a payment information block (PmtInf) for a group of SEPA credit transfer instructions.
+   * @param {PaymentInformation<SEPACreditPaymentInstruction>} paymentInformation - The payment information block.
+   * @returns {Object} The PmtInf object formatted according to SEPA specifications.
+   */
+  paymentInformation(paymentInformation: PaymentInformation<SEPACreditPaymentInstruction>) {
+    return {
+      PmtInfId: paymentInformation.id,
+      PmtMtd: 'TRF',
+      // Instant payments are booked one by one
+      ...(this.instant && { BtchBookg: 'false' }),
+      NbOfTxs: paymentInformation.paymentInstructions.length.toString(),
+      CtrlSum: this.sumPaymentInstructions(paymentInformation.paymentInstructions),
+      PmtTpInf: this.paymentTypeInformation(paymentInformation, this.instant ? { Cd: INSTANT_LOCAL_INSTRUMENT } : undefined),
+      ReqdExctnDt: this.requestedExecutionDate(paymentInformation.requestedExecutionDate),
+      Dbtr: this.party(paymentInformation.debtor),
+      DbtrAcct: this.account(paymentInformation.debtor.account as Account),
+      DbtrAgt: this.agent(paymentInformation.debtor.agent as Agent),
+      ChrgBr: paymentInformation.chargeBearer,
+      // payments[]
+      CdtTrfTxInf: paymentInformation.paymentInstructions.map(p => this.creditTransfer(p)),
     };
   }
 
+  /**
+   * Exports the SEPA credit transfer initiation as a document object, the JSON form of the message.
+   * @returns {any} The document object.
+   */
+  toJSON(): any {
+    const Document = {
+      '@xmlns': this.namespace,
+      '@xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      CstmrCdtTrfInitn: {
+        GrpHdr: {
+          MsgId: this.messageId,
+          CreDtTm: this.creationDate.toISOString(),
+          NbOfTxs: this.paymentInstructions.length.toString(),
+          CtrlSum: this.formattedPaymentSum,
+          InitgPty: {
+            Nm: this.initiatingParty.name,
+            Id: {
+              OrgId: {
+                Othr: {
+                  Id: this.initiatingParty.id,
+                },
+              },
+            },
+          },
+        },
+        PmtInf: this.paymentInformations.map(p => this.paymentInformation(p)),
+      }
+    };
+    return { Document };
+  }
+
   /**
    * Serializes the SEPA credit transfer initiation to an XML string.
    * @returns {string} The XML representation of the SEPA credit transfer initiation.
+   * @throws {InvalidPaymentInstructionError} If a debtor or creditor has an invalid IBAN or BIC.
    */
   public serialize(): string {
+    this.validatePartyIdentifiers(this.initiatingParty, this.paymentInstructions);
+
     const builder = PaymentInitiation.getBuilder();
     const xml = {
       '?xml': {
         '@version': '1.0',
         '@encoding': 'UTF-8'
       },
-      Document: {
-        '@xmlns': 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03',
-        '@xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
-        CstmrCdtTrfInitn: {
-          GrpHdr: {
-            MsgId: this.messageId,
-            CreDtTm: this.creationDate.toISOString(),
-            NbOfTxs: this.paymentInstructions.length.toString(),
-            CtrlSum: this.formattedPaymentSum,
-            InitgPty: {
-              Nm: this.initiatingParty.name,
-              Id: {
-                OrgId: {
-                  Othr: {
-                    Id: this.initiatingParty.id,
-                  },
-                },
-              },
-            },
-          },
-          PmtInf: {
-            PmtInfId: this.paymentInformationId,
-            PmtMtd: 'TRF',
-            NbOfTxs: this.paymentInstructions.length.toString(),
-            CtrlSum: this.formattedPaymentSum,
-            PmtTpInf: {
-              SvcLvl: { Cd: 'SEPA' },
-              ...(this.categoryPurpose && {
-                CtgyPurp: { Cd: this.categoryPurpose }
-              }),
-            },
-            ReqdExctnDt: this.creationDate.toISOString().split('T').at(0),
-            Dbtr: this.party(this.initiatingParty),
-            DbtrAcct: this.account(this.initiatingParty.account as Account),
-            DbtrAgt: this.agent(this.initiatingParty.agent as Agent),
-            ChrgBr: 'SLEV',
-            // payments[]
-            CdtTrfTxInf: this.paymentInstructions.map(p => this.creditTransfer(p)),
-          }
-        }
-      },
+      ...this.toJSON(),
     };
 
     return builder.build(xml);
   }
 
+  /**
+   * The configuration of the SEPA credit transfer initiation, which can be passed back to its constructor.
+   * @returns {SEPACreditPaymentInitiationConfig} The configuration.
+   */
+  get data(): SEPACreditPaymentInitiationConfig {
+    return {
+      initiatingParty: this.initiatingParty,
+      paymentInstructions: this.paymentInstructions,
+      messageId: this.messageId,
+      creationDate: this.creationDate,
+      chargeBearer: this.chargeBearer,
+      serviceLevel: this.serviceLevel,
+      instructionPriority: this.instructionPriority,
+      categoryPurpose: this.categoryPurpose,
+      purpose: this.purpose,
+      instant: this.instant,
+      instantAmountLimit: this.instantAmountLimit,
+      singleTransactionPerPaymentInformation: this.singleTransactionPerPaymentInformation,
+      version: this.version,
+      ...this.executionDateOptions,
+    };
+  }
+
+  static supportedMessages(): ISO20022MessageTypeName[] {
+    return [ISO20022Messages.PAIN_001];
+  }
+
+  /**
+   * Tells whether a configuration holds SEPA payment instructions, to pick this class for generic PAIN.001 messages.
+   * @param {any} data - The configuration.
+   * @returns {boolean} Whether every payment instruction has type 'sepa'.
+   */
+  static supportsData(data: any): boolean {
+    return PaymentInitiation.hasInstructionsOfType(data, 'sepa');
+  }
+
+  /**
+   * Creates a SEPACreditPaymentInitiation instance from a JSON string exported with `toJSON`.
+   * @param {string} json - The JSON string.
+   * @returns {SEPACreditPaymentInitiation} A new SEPACreditPaymentInitiation instance.
+   * @throws {InvalidXmlError} If the JSON has no Document element.
+   */
+  static fromJSON(json: string): SEPACreditPaymentInitiation {
+    return SEPACreditPaymentInitiation.fromXML(PaymentInitiation.jsonToXML(json));
+  }
+
   public static fromXML(rawXml: string): SEPACreditPaymentInitiation {
-    const parser = new XMLParser({ ignoreAttributes: false });
+    const parser = XML.getParser();
     const xml = parser.parse(rawXml);
 
     if (!xml.Document) {
@@ -221,63 +362,67 @@ export class SEPACreditPaymentInitiation extends PaymentInitiation {
     }
 
     const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
-    if (!namespace.startsWith('urn:iso:std:iso:20022:tech:xsd:pain.001.001.03')) {
-      throw new InvalidXmlNamespaceError('Invalid PAIN.001 namespace');
-    }
+    const version = PaymentInitiation.parseVersion(namespace);
 
     const messageId = (xml.Document.CstmrCdtTrfInitn.GrpHdr.MsgId as string);
     const creationDate = new Date(xml.Document.CstmrCdtTrfInitn.GrpHdr.CreDtTm as string);
 
-    if (Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf)) {
-      throw new Error('Multiple PmtInf is not supported');
-    }
+    const rawPaymentInformations: any[] = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf) ? xml.Document.CstmrCdtTrfInitn.PmtInf : [xml.Document.CstmrCdtTrfInitn.PmtInf];
 
-    // Assuming we have one PmtInf / one Debtor, we can hack together this information from InitgPty / Dbtr
+    // The initiating party's debtor information comes from the first PmtInf / Dbtr
     const initiatingParty = {
-      name: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Nm as string) || (xml.Document.CstmrCdtTrfInitn.PmtInf.Dbtr.Nm as string),
+      name: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Nm as string) || (rawPaymentInformations[0].Dbtr.Nm as string),
       id: (xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id.OrgId.Othr.Id as string),
-      agent: parseAgent(xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAgt),
-      account: parseAccount(xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAcct)
+      agent: parseAgent(rawPaymentInformations[0].DbtrAgt),
+      account: parseAccount(rawPaymentInformations[0].DbtrAcct)
     }
 
-    const rawInstructions = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf) ? xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf : [xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf];
-
-    const paymentInstructions = rawInstructions.map((inst: any) => {
-      const currency = (inst.Amt.InstdAmt['@_Ccy'] as Currency);
-      const amount = parseAmountToMinorUnits(Number(inst.Amt.InstdAmt['#text']), currency);
-      const rawPostalAddress = inst.Cdtr.PstlAdr;
-      return {
-        ...(inst.PmtId.InstrId && { id: (inst.PmtId.InstrId.toString() as string) }),
-        ...(inst.PmtId.EndToEndId && { endToEndId: (inst.PmtId.EndToEndId.toString() as string) }),
-        type: 'sepa',
-        direction: 'credit',
-        amount: amount,
-        currency: currency,
-        creditor: {
-          name: (inst.Cdtr?.Nm as string),
-          agent: parseAgent(inst.CdtrAgt),
-          account: parseAccount(inst.CdtrAcct),
-          ...((rawPostalAddress && (rawPostalAddress.StreetName || rawPostalAddress.BldgNb || rawPostalAddress.PstlCd || rawPostalAddress.TwnNm || rawPostalAddress.Ctry)) ? {
-            address: {
-              ...(rawPostalAddress.StrtNm && { streetName: rawPostalAddress.StrtNm.toString() as string }),
-              ...(rawPostalAddress.BldgNb && { buildingNumber: rawPostalAddress.BldgNb.toString() as string }),
-              ...(rawPostalAddress.TwnNm && { townName: rawPostalAddress.TwnNm.toString() as string }),
-              ...(rawPostalAddress.CtrySubDvsn && { countrySubDivision: rawPostalAddress.CtrySubDvsn.toString() as string }),
-              ...(rawPostalAddress.PstCd && { postalCode: rawPostalAddress.PstCd.toString() as string }),
-              ...(rawPostalAddress.Ctry && { country: rawPostalAddress.Ctry as Alpha2Country }),
-            }
-          } : {}),
-        },
-        ...(inst.RmtInf?.Ustrd && { remittanceInformation: inst.RmtInf.Ustrd.toString() as string })
-      }
+    const paymentInstructions = rawPaymentInformations.flatMap((rawPaymentInformation: any) => {
+      const rawInstructions = Array.isArray(rawPaymentInformation.CdtTrfTxInf) ? rawPaymentInformation.CdtTrfTxInf : [rawPaymentInformation.CdtTrfTxInf];
+      // Block level values are only kept on the instructions when they are needed to rebuild multiple blocks
+      const paymentInformation = rawPaymentInformations.length > 1 ? PaymentInitiation.parsePaymentInformation(rawPaymentInformation) : {};
+      return rawInstructions.map((inst: any) => ({ ...SEPACreditPaymentInitiation.parseCreditTransfer(inst), ...paymentInformation }));
     }) as AtLeastOne<SEPACreditPaymentInstruction>;
 
     return new SEPACreditPaymentInitiation({
       messageId: messageId,
       creationDate: creationDate,
       initiatingParty: initiatingParty,
-      paymentInstructions: paymentInstructions
+      paymentInstructions: paymentInstructions,
+      version,
+      requestedExecutionDate: PaymentInitiation.parseRequestedExecutionDate(rawPaymentInformations[0]),
+      ...PaymentInitiation.parsePaymentTypeInformation(rawPaymentInformations[0]),
+      instant: rawPaymentInformations[0].PmtTpInf?.LclInstrm?.Cd === INSTANT_LOCAL_INSTRUMENT,
     });
   }
 
+  /**
+   * Parses a single credit transfer transaction (CdtTrfTxInf) into a SEPA payment instruction.
+   * @param {any} inst - The raw CdtTrfTxInf element.
+   * @returns {SEPACreditPaymentInstruction} The parsed payment instruction.
+   */
+  private static parseCreditTransfer(inst: any): SEPACreditPaymentInstruction {
+    const currency = (inst.Amt.InstdAmt['@_Ccy'] as Currency);
+    const amount = parseAmountToMinorUnits(inst.Amt.InstdAmt['#text'], currency);
+    const address = PaymentInitiation.parsePostalAddress(inst.Cdtr.PstlAdr);
+    return {
+      ...(inst.PmtId.InstrId && { id: (inst.PmtId.InstrId.toString() as string) }),
+      ...(inst.PmtId.EndToEndId && { endToEndId: (inst.PmtId.EndToEndId.toString() as string) }),
+      type: 'sepa',
+      direction: 'credit',
+      amount: amount,
+      currency: currency,
+      creditor: {
+        name: (inst.Cdtr?.Nm as string),
+        agent: parseAgent(inst.CdtrAgt),
+        account: parseAccount(inst.CdtrAcct),
+        ...(address && { address }),
+      },
+      ...(inst.Purp?.Cd && { purpose: inst.Purp.Cd as ExternalPurpose }),
+      ...PaymentInitiation.parseRemittanceInformation(inst.RmtInf),
+    } as SEPACreditPaymentInstruction;
+  }
+
 }
+
+registerISO20022Implementation(SEPACreditPaymentInitiation);
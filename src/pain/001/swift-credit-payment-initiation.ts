@@ -1,23 +1,54 @@
 import { dinero, toDecimal } from 'dinero.js';
-import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { XMLBuilder } from 'fast-xml-parser';
 import { v4 as uuidv4 } from 'uuid';
-import { InvalidXmlError, InvalidXmlNamespaceError } from "../../errors";
-import { Alpha2Country } from "../../lib/countries";
+import { InvalidXmlError } from "../../errors";
 import { Currency } from '../../lib/currency';
-import { formatAmount, currencyObj } from '../../dinero-helpers';
+import { Alpha2Country } from '../../lib/countries';
+import { formatAmount, currencyObj, sumAmounts, sumAmountsAcrossCurrencies, sumAmountsByCurrency } from '../../dinero-helpers';
 import {
   Account,
+  Agent,
+  BaseAccount,
   BICAgent,
+  ChargeBearerType,
+  ChargeBearerTypeCode,
+  ExternalCategoryPurpose,
+  ExternalPurpose,
+  ExchangeRateInformation,
+  ExchangeRateType,
+  ExchangeRateTypeCode,
   IBANAccount,
+  InstructionForCreditorAgent,
+  InstructionForCreditorAgentType,
+  InstructionPriority,
+  InstructionPriorityCode,
   Party,
+  PaymentInformation,
+  RegulatoryReporting,
+  RegulatoryReportingType,
+  ServiceLevel,
+  ServiceLevelCode,
   SWIFTCreditPaymentInstruction
-} from '../../lib/types.js';
-import { parseAccount, parseAmountToMinorUnits } from "../../parseUtils";
-import { sanitize } from '../../utils/format';
-import { PaymentInitiation } from './payment-initiation';
+} from '../../lib/types';
+import { parseAccount, parseAmountToMinorUnits, parseOptionalAgent } from "../../parseUtils";
+import { PaymentInitiation, PaymentInitiationVersion, PaymentTypeOptions, RequestedExecutionDateOptions } from './payment-initiation';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
 
 type AtLeastOne<T> = [T, ...T[]];
 
+/**
+ * Regulatory reporting codes the central banks of destination countries require on incoming cross-border payments,
+ * in the details of the regulatory reporting of every instruction.
+ */
+const RegulatoryReportingRequirements: Partial<Record<Alpha2Country, { pattern: RegExp; description: string }>> = {
+  /** Central Bank of the UAE purpose of payment codes, e.g. GDS for goods bought or sold */
+  AE: { pattern: /^[A-Z]{3}$/, description: 'a 3-letter UAE purpose of payment code' },
+  /** Reserve Bank of India purpose codes, e.g. P1006 for business and management consultancy */
+  IN: { pattern: /^P\d{4}$/, description: 'an RBI purpose code such as P1006' },
+  /** Cross-border RMB trade types, goods (GOD), services (SVC) or capital account (CAC) */
+  CN: { pattern: /^(GOD|SVC|CAC)$/, description: 'a trade type code GOD, SVC or CAC' },
+};
+
 /**
  * Configuration for SWIFT Credit Payment Initiation.
  *
@@ -25,8 +56,18 @@ type AtLeastOne<T> = [T, ...T[]];
  * @property {AtLeastOne<SWIFTCreditPaymentInstruction>} paymentInstructions - An array of payment instructions.
  * @property {string} [messageId] - Optional unique identifier for the message. If not provided, a UUID will be generated.
  * @property {Date} [creationDate] - Optional creation date for the message. If not provided, current date will be used.
+ * @property {Date | string} [requestedExecutionDate] - Optional date on which the debtor account is to be debited. If not provided, the creation date will be used.
+ * @property {string} [timeZone] - Optional IANA time zone in which Dates are read. If not provided, 'UTC' will be used.
+ * @property {BusinessDayCalendar} [businessDayCalendar] - Optional business day calendar. If not provided, dates are not checked.
+ * @property {BusinessDayConvention} [businessDayConvention] - Optional handling of non-business days, 'following' or 'reject'. Only applies with a calendar.
+ * @property {ChargeBearerType} [chargeBearer] - Optional charge bearer, 'DEBT' (OUR), 'CRED' (BEN) or 'SHAR' (SHA). If not provided, 'SHAR' will be used.
+ * @property {ServiceLevel} [serviceLevel] - Optional service level, 'URGP', 'NURG', 'SDVA' or 'G001'. If not provided, 'URGP' will be used.
+ * @property {InstructionPriority} [instructionPriority] - Optional instruction priority, 'HIGH' or 'NORM'. If not provided, 'NORM' will be used.
+ * @property {ExternalCategoryPurpose} [categoryPurpose] - Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard.
+ * @property {ExternalPurpose} [purpose] - Optional purpose code following ISO20022 ExternalPurpose1Code standard, written on every transaction.
+ * @property {PaymentInitiationVersion} [version] - Optional pain.001 version to write. If not provided, 'pain.001.001.03' will be used.
  */
-export interface SWIFTCreditPaymentInitiationConfig {
+export interface SWIFTCreditPaymentInitiationConfig extends RequestedExecutionDateOptions, PaymentTypeOptions {
   /** The party initiating the payment. */
   initiatingParty: Party;
   /** An array of payment instructions. */
@@ -35,10 +76,12 @@ export interface SWIFTCreditPaymentInitiationConfig {
   messageId?: string;
   /** Optional creation date for the message. If not provided, current date will be used. */
   creationDate?: Date;
+  /** Optional pain.001 version to write, CBPR+ requires 'pain.001.001.09'. If not provided, 'pain.001.001.03' will be used. */
+  version?: PaymentInitiationVersion;
 }
 
 /**
- * Represents a SWIFT Credit Payment v3 Initiation message (pain.001.001.03).
+ * Represents a SWIFT Credit Payment Initiation message (pain.001.001.03 unless configured otherwise).
  * @class
  * @extends PaymentInitiation
  * @param {SWIFTCreditPaymentInitiationConfig} config - The configuration for the SWIFT Credit Payment Initiation message.
@@ -56,26 +99,57 @@ export interface SWIFTCreditPaymentInitiationConfig {
  * ```
  * @see {@link https://docs.iso20022js.com/pain/sepacredit} for more information.
  */
-export class SWIFTCreditPaymentInitiation extends PaymentInitiation {
+export class SWIFTCreditPaymentInitiation extends PaymentInitiation implements GenericISO20022Message {
   public initiatingParty: Party;
   public messageId: string;
   public creationDate: Date;
   public paymentInstructions: SWIFTCreditPaymentInstruction[];
   public paymentInformationId: string;
+  public paymentInformations: AtLeastOne<PaymentInformation<SWIFTCreditPaymentInstruction>>;
+  public chargeBearer: ChargeBearerType;
+  public serviceLevel: ServiceLevel;
+  public instructionPriority: InstructionPriority;
+  public categoryPurpose?: ExternalCategoryPurpose;
+  public purpose?: ExternalPurpose;
+  private formattedPaymentSum: string;
 
   /**
    * Creates an instance of SWIFTCreditPaymentInitiation.
    * @param {SWIFTCreditPaymentInitiationConfig} config - The configuration object.
    */
   constructor(config: SWIFTCreditPaymentInitiationConfig) {
-    super({ type: "swift" });
+    super({
+      type: "swift",
+      version: config.version,
+      executionDateOptions: {
+        requestedExecutionDate: config.requestedExecutionDate,
+        timeZone: config.timeZone,
+        businessDayCalendar: config.businessDayCalendar,
+        businessDayConvention: config.businessDayConvention,
+      },
+    });
     this.initiatingParty = config.initiatingParty;
     this.paymentInstructions = config.paymentInstructions;
     this.messageId =
       config.messageId || uuidv4().replace(/-/g, '').substring(0, 35);
     this.creationDate = config.creationDate || new Date();
-    this.paymentInformationId = sanitize(uuidv4(), 35);
+    // The control sum of the message is the total of all amounts, irrespective of their currencies
+    this.formattedPaymentSum = sumAmountsAcrossCurrencies(this.paymentInstructions);
+    this.chargeBearer = config.chargeBearer || ChargeBearerTypeCode.Shared;
+    this.serviceLevel = config.serviceLevel || ServiceLevelCode.UrgentPayment;
+    this.instructionPriority = config.instructionPriority || InstructionPriorityCode.Normal;
+    this.categoryPurpose = config.categoryPurpose;
+    this.purpose = config.purpose;
     this.validate();
+    this.paymentInformations = this.groupPaymentInstructions(config.paymentInstructions, {
+      debtor: this.initiatingParty,
+      requestedExecutionDate: this.executionDateOptions.requestedExecutionDate || this.creationDate,
+      chargeBearer: this.chargeBearer,
+      serviceLevel: this.serviceLevel,
+      instructionPriority: this.instructionPriority,
+      categoryPurpose: this.categoryPurpose,
+    }, { splitByCurrency: true });
+    this.paymentInformationId = this.paymentInformations[0].id;
   }
 
   /**
@@ -83,6 +157,10 @@ export class SWIFTCreditPaymentInitiation extends PaymentInitiation {
    * @private
    * @throws {Error} If messageId exceeds 35 characters.
    * @throws {Error} If any creditor has incomplete address information.
+   * @throws {Error} If an instruction has both structured and unstructured remittance information, which CBPR+ does not allow.
+   * @throws {Error} If an instruction has a charge bearer or service level that SWIFT payments do not use, such as SLEV or SEPA.
+   * @throws {Error} If an instruction has too many intermediary agents or regulatory reports, or lacks the regulatory reporting of its destination country.
+   * @throws {Error} If an instruction has an invalid currency of transfer or exchange rate information.
    */
   private validate() {
     if (this.messageId.length > 35) {
@@ -104,9 +182,102 @@ export class SWIFTCreditPaymentInitiation extends PaymentInitiation {
       );
     }
 
+    this.validateRemittanceInformation(this.paymentInstructions, { exclusive: true });
+    this.validateRoutingAndRegulatoryReporting();
+    this.validateForeignExchange();
+    this.validatePaymentTypeInformation(this.paymentInstructions, this, {
+      chargeBearers: [ChargeBearerTypeCode.BorneByDebtor, ChargeBearerTypeCode.BorneByCreditor, ChargeBearerTypeCode.Shared],
+      serviceLevels: [
+        ServiceLevelCode.UrgentPayment,
+        ServiceLevelCode.NonUrgentPayment,
+        ServiceLevelCode.SameDayValue,
+        ServiceLevelCode.TrackedCustomerCreditTransfer,
+      ],
+    });
+
     // Add more validation as needed
   }
 
+  /**
+   * Validates the intermediary agents, instructions for the creditor agent and regulatory reporting of every instruction.
+   * Payments to countries such as AE, IN and CN must carry the regulatory reporting code their central bank requires,
+   * the destination country being the country of the creditor agent's BIC, or else of the creditor's address.
+   * @private
+   * @throws {Error} If an instruction exceeds the limits of pain.001 or lacks the regulatory reporting of its destination country.
+   */
+  private validateRoutingAndRegulatoryReporting() {
+    this.paymentInstructions.forEach((instruction, instructionIndex) => {
+      const instructionId = instruction.id || instruction.endToEndId;
+      const instructionName = instructionId ? `Payment instruction ${instructionId}` : `Payment instruction at index ${instructionIndex}`;
+      const reports = instruction.regulatoryReporting || [];
+      const details = reports.flatMap(report => report.details || []);
+
+      if ((instruction.intermediaryAgents?.length || 0) > 3) {
+        throw new Error(`${instructionName} must not have more than 3 intermediary agents`);
+      }
+      if (reports.length > 10) {
+        throw new Error(`${instructionName} must not have more than 10 regulatory reports`);
+      }
+      if (instruction.instructionsForCreditorAgent?.some(creditorAgentInstruction => (creditorAgentInstruction.information?.length || 0) > 140)) {
+        throw new Error(`${instructionName} must not have instructions for the creditor agent longer than 140 characters`);
+      }
+      if (details.some(detail => (detail.code?.length || 0) > 10)) {
+        throw new Error(`${instructionName} must not have regulatory reporting codes longer than 10 characters`);
+      }
+      if (details.some(detail => (detail.type?.length || 0) > 35 || detail.information?.some(line => line.length > 35))) {
+        throw new Error(`${instructionName} must not have regulatory reporting types or information lines longer than 35 characters`);
+      }
+
+      const creditorAgentBic = (instruction.creditor.agent as BICAgent | undefined)?.bic;
+      const destinationCountry = (creditorAgentBic ? creditorAgentBic.substring(4, 6) : instruction.creditor.address?.country) as Alpha2Country;
+      const requirement = RegulatoryReportingRequirements[destinationCountry];
+      if (requirement && !details.some(detail => detail.code && requirement.pattern.test(detail.code))) {
+        throw new Error(`${instructionName} to ${destinationCountry} requires regulatory reporting details with ${requirement.description}`);
+      }
+    });
+  }
+
+
+  /**
+   * Validates the currency of transfer and exchange rate information of every instruction.
+   * An equivalent amount is debited from the debtor account, so it must be in the currency of that account when it is known.
+   * @private
+   * @throws {Error} If an instruction converts an amount into its own currency or from another currency than its debtor account's.
+   * @throws {Error} If an exchange rate is not a positive rate of at most 11 digits, 10 of them decimals.
+   * @throws {Error} If an agreed exchange rate has no contract id, or the contract id exceeds 35 characters.
+   */
+  private validateForeignExchange() {
+    this.paymentInstructions.forEach((instruction, instructionIndex) => {
+      const instructionId = instruction.id || instruction.endToEndId;
+      const instructionName = instructionId ? `Payment instruction ${instructionId}` : `Payment instruction at index ${instructionIndex}`;
+      const debtorAccount = (instruction.debtor?.account || this.initiatingParty.account) as BaseAccount | undefined;
+      const exchangeRate = instruction.exchangeRateInformation;
+
+      if (instruction.currencyOfTransfer === instruction.currency) {
+        throw new Error(`${instructionName} must not have its own currency ${instruction.currency} as currency of transfer`);
+      }
+      if (instruction.currencyOfTransfer && debtorAccount?.currency && debtorAccount.currency !== instruction.currency) {
+        throw new Error(
+          `${instructionName} has an equivalent amount in ${instruction.currency}, but its debtor account is in ${debtorAccount.currency}`,
+        );
+      }
+      if (!exchangeRate) return;
+
+      if (exchangeRate.rate !== undefined) {
+        const rate = exchangeRate.rate.toString();
+        const [integerDigits, fractionDigits = ''] = rate.split('.');
+        if (!/^\d+(\.\d+)?$/.test(rate) || exchangeRate.rate <= 0 || fractionDigits.length > 10 || integerDigits.length + fractionDigits.length > 11) {
+          throw new Error(`${instructionName} has exchange rate ${rate}, which must be positive with at most 11 digits, 10 of them decimals`);
+        }
+      }
+      if (exchangeRate.rateType === ExchangeRateTypeCode.Agreed && !exchangeRate.contractId) {
+        throw new Error(`${instructionName} has an agreed exchange rate, which requires a contract id`);
+      }
+      if ((exchangeRate.contractId?.length || 0) > 35) {
+        throw new Error(`${instructionName} has an exchange rate contract id longer than 35 characters`);
+      }
+    });
+  }
 
   /**
    * Generates payment information for a single payment instruction.
@@ -114,44 +285,143 @@ export class SWIFTCreditPaymentInitiation extends PaymentInitiation {
    * @returns {Object} The credit transfer object.
    */
   creditTransfer(paymentInstruction: SWIFTCreditPaymentInstruction): Record<string, any> {
-    const paymentInstructionId = sanitize(paymentInstruction.id || uuidv4(), 35);
+    const { instructionId, endToEndId } = this.paymentIdentification(paymentInstruction);
     const curr = currencyObj(paymentInstruction.currency);
     const d = dinero({ amount: paymentInstruction.amount, currency: curr });
     const amount = toDecimal(d);
 
     return {
       PmtId: {
-        InstrId: paymentInstructionId,
-        EndToEndId: paymentInstructionId,
+        InstrId: instructionId,
+        EndToEndId: endToEndId,
       },
-      Amt: {
+      // An equivalent amount is debited in the currency of the debtor account and paid in the currency of transfer
+      Amt: paymentInstruction.currencyOfTransfer ? {
+        EqvtAmt: {
+          Amt: {
+            '#': amount,
+            '@Ccy': paymentInstruction.currency,
+          },
+          CcyOfTrf: paymentInstruction.currencyOfTransfer,
+        },
+      } : {
         InstdAmt: {
           '#': amount,
           '@Ccy': paymentInstruction.currency,
         },
       },
-      // TODO: Add support for intermediary bank information
-      // This is necessary when the SWIFT Payment needs to be routed through multiple banks in order to reach the recipient
-      // intermediaryBanks will probably need to be an array of BICAgents. There needs to be an easy way to get this information for users
+      ...(paymentInstruction.exchangeRateInformation && {
+        XchgRateInf: this.exchangeRateInformation(paymentInstruction.exchangeRateInformation),
+      }),
+      ...(paymentInstruction.ultimateDebtor && { UltmtDbtr: this.ultimateParty(paymentInstruction.ultimateDebtor) }),
+      // Intermediary agents are numbered in the order the payment passes through them, starting from the debtor agent
+      ...Object.fromEntries((paymentInstruction.intermediaryAgents || []).map((agent, index) => [`IntrmyAgt${index + 1}`, this.agent(agent)])),
       CdtrAgt: this.agent(paymentInstruction.creditor.agent as BICAgent),
       Cdtr: this.party(paymentInstruction.creditor as Party),
       CdtrAcct: this.internationalAccount(
         paymentInstruction.creditor.account as IBANAccount,
       ),
-      RmtInf: paymentInstruction.remittanceInformation
-        ? {
-          Ustrd: paymentInstruction.remittanceInformation,
-        }
-        : undefined,
+      ...(paymentInstruction.ultimateCreditor && { UltmtCdtr: this.ultimateParty(paymentInstruction.ultimateCreditor) }),
+      ...(paymentInstruction.instructionsForCreditorAgent?.length && {
+        InstrForCdtrAgt: paymentInstruction.instructionsForCreditorAgent.map(instruction => ({
+          Cd: instruction.code,
+          InstrInf: instruction.information,
+        })),
+      }),
+      ...((paymentInstruction.purpose || this.purpose) && { Purp: { Cd: paymentInstruction.purpose || this.purpose } }),
+      ...(paymentInstruction.regulatoryReporting?.length && {
+        RgltryRptg: paymentInstruction.regulatoryReporting.map(report => this.regulatoryReporting(report)),
+      }),
+      RmtInf: this.remittanceInformation(paymentInstruction),
     };
   }
 
   /**
-   * Serializes the payment initiation to an XML string.
-   * @returns {string} The XML representation of the payment initiation.
+   * Formats the exchange rate information (XchgRateInf) of a payment instruction.
+   * From pain.001.001.04 onwards the unit currency of the rate is written.
+   * @param {ExchangeRateInformation} exchangeRate - The exchange rate information.
+   * @returns {Object} The XchgRateInf object.
+   */
+  exchangeRateInformation(exchangeRate: ExchangeRateInformation): Record<string, any> {
+    return {
+      UnitCcy: this.versionNumber >= 4 ? exchangeRate.unitCurrency : undefined,
+      XchgRate: exchangeRate.rate?.toString(),
+      RateTp: exchangeRate.rateType,
+      CtrctId: exchangeRate.contractId,
+    };
+  }
+
+  /**
+   * Formats an ultimate debtor or creditor, identified by its name, address and organisation id.
+   * @param {Party} party - The ultimate party.
+   * @returns {Object} The UltmtDbtr or UltmtCdtr object.
+   */
+  ultimateParty(party: Party): Record<string, any> {
+    return {
+      ...this.party(party),
+      ...(party.id && { Id: { OrgId: { Othr: { Id: party.id } } } }),
+    };
+  }
+
+  /**
+   * Formats a regulatory report (RgltryRptg) of a payment instruction.
+   * @param {RegulatoryReporting} report - The regulatory report.
+   * @returns {Object} The RgltryRptg object.
+   */
+  regulatoryReporting(report: RegulatoryReporting): Record<string, any> {
+    return {
+      DbtCdtRptgInd: report.debitCreditReportingIndicator,
+      Authrty: (report.authority?.name || report.authority?.country) ? {
+        Nm: report.authority.name,
+        Ctry: report.authority.country,
+      } : undefined,
+      Dtls: report.details?.map(detail => ({
+        Tp: detail.type,
+        Dt: detail.date?.toISOString().split('T')[0],
+        Ctry: detail.country,
+        Cd: detail.code,
+        Amt: detail.amount !== undefined && detail.currency ? {
+          '#': formatAmount(detail.amount, detail.currency),
+          '@Ccy': detail.currency,
+        } : undefined,
+        Inf: detail.information,
+      })),
+    };
+  }
+
+  /**
+   * Generates a payment information block (PmtInf) for a group of payment instructions.
+   * @param {PaymentInformation<SWIFTCreditPaymentInstruction>} paymentInformation - The payment information block.
+   * @returns {Object} The PmtInf object.
+   */
+  paymentInformation(paymentInformation: PaymentInformation<SWIFTCreditPaymentInstruction>): Record<string, any> {
+    const { paymentInstructions } = paymentInformation;
+    // Blocks only mix currencies when they share an explicit paymentInformationId, their control sum would be meaningless
+    const currency = paymentInstructions[0].currency;
+    const singleCurrency = paymentInstructions.every(instruction => instruction.currency === currency);
+    return {
+      PmtInfId: paymentInformation.id,
+      PmtMtd: 'TRF',
+      BtchBookg: 'false',
+      NbOfTxs: paymentInstructions.length.toString(),
+      CtrlSum: singleCurrency ? sumAmounts(paymentInstructions.map(instruction => instruction.amount), currency) : undefined,
+      PmtTpInf: this.paymentTypeInformation(paymentInformation),
+      ReqdExctnDt: this.requestedExecutionDate(paymentInformation.requestedExecutionDate),
+      Dbtr: this.party(paymentInformation.debtor),
+      DbtrAcct: this.account(paymentInformation.debtor.account as Account),
+      DbtrAgt: this.agent(paymentInformation.debtor.agent as BICAgent),
+      ChrgBr: paymentInformation.chargeBearer,
+      CdtTrfTxInf: paymentInformation.paymentInstructions.map(p => this.creditTransfer(p)),
+    };
+  }
+
+  /**
+   * Parses a SWIFT pain.001 XML string into a payment initiation.
+   * @param {string} rawXml - The raw XML string.
+   * @returns {SWIFTCreditPaymentInitiation} The parsed payment initiation.
    */
   public static fromXML(rawXml: string): SWIFTCreditPaymentInitiation {
-    const parser = new XMLParser({ ignoreAttributes: false });
+    const parser = XML.getParser();
     const xml = parser.parse(rawXml);
 
     if (!xml.Document) {
@@ -159,115 +429,270 @@ export class SWIFTCreditPaymentInitiation extends PaymentInitiation {
     }
 
     const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
-    if (!namespace.startsWith('urn:iso:std:iso:20022:tech:xsd:pain.001.001')) {
-      throw new InvalidXmlNamespaceError('Invalid PAIN.001 namespace');
-    }
+    const version = PaymentInitiation.parseVersion(namespace);
 
     const messageId = xml.Document.CstmrCdtTrfInitn.GrpHdr.MsgId as string;
     const creationDate = new Date(xml.Document.CstmrCdtTrfInitn.GrpHdr.CreDtTm as string);
 
+    const rawPaymentInformations: any[] = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf)
+      ? xml.Document.CstmrCdtTrfInitn.PmtInf
+      : [xml.Document.CstmrCdtTrfInitn.PmtInf];
+
     // Parse and validate accounts
-    // Create base initiating party
+    // Create base initiating party from the first payment information block
     const baseInitiatingParty: Party = {
       name: xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Nm,
       id: xml.Document.CstmrCdtTrfInitn.GrpHdr.InitgPty.Id?.OrgId?.Othr?.Id,
-      account: parseAccount(xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAcct),
+      account: parseAccount(rawPaymentInformations[0].DbtrAcct),
       agent: {
-        bic: xml.Document.CstmrCdtTrfInitn.PmtInf.DbtrAgt?.FinInstnId?.BIC
+        bic: rawPaymentInformations[0].DbtrAgt?.FinInstnId?.BIC || rawPaymentInformations[0].DbtrAgt?.FinInstnId?.BICFI
       }
     };
 
-    const rawInstructions = Array.isArray(xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf)
-      ? xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf
-      : [xml.Document.CstmrCdtTrfInitn.PmtInf.CdtTrfTxInf];
-
-    const paymentInstructions = rawInstructions.map((inst: any) => {
-      const currency = inst.Amt.InstdAmt['@_Ccy'] as Currency;
-      const amount = parseAmountToMinorUnits(Number(inst.Amt.InstdAmt['#text']), currency);
-
-      // Create base creditor party
-      const creditor: Party = {
-        name: inst.Cdtr.Nm as string,
-        agent: {
-          bic: inst.CdtrAgt?.FinInstnId?.BIC
-        },
-        account: (inst.CdtrAcct?.Id?.IBAN || inst.CdtrAcct?.Id?.Othr?.Id) ? parseAccount(inst.CdtrAcct) : undefined,
-        address: {
-          streetName: inst.Cdtr.PstlAdr.StrtNm as string,
-          buildingNumber: inst.Cdtr.PstlAdr.BldgNb as string,
-          postalCode: inst.Cdtr.PstlAdr.PstCd as string,
-          townName: inst.Cdtr.PstlAdr.TwnNm as string,
-          countrySubDivision: inst.Cdtr.PstlAdr.CtrySubDvsn as string,
-          country: inst.Cdtr.PstlAdr.Ctry as Alpha2Country
-        }
-      };
-
-      // Return instruction with validated data
-      return {
-        type: 'swift' as const,
-        direction: 'credit' as const,
-        ...(inst.PmtId.InstrId && { id: inst.PmtId.InstrId.toString() }),
-        ...(inst.PmtId.EndToEndId && { endToEndId: inst.PmtId.EndToEndId.toString() }),
-        amount,
-        currency,
-        creditor
-      };
+    const paymentInstructions = rawPaymentInformations.flatMap((rawPaymentInformation: any) => {
+      const rawInstructions = Array.isArray(rawPaymentInformation.CdtTrfTxInf)
+        ? rawPaymentInformation.CdtTrfTxInf
+        : [rawPaymentInformation.CdtTrfTxInf];
+      // Block level values are only kept on the instructions when they are needed to rebuild multiple blocks
+      const paymentInformation = rawPaymentInformations.length > 1
+        ? PaymentInitiation.parsePaymentInformation(rawPaymentInformation)
+        : {};
+      return rawInstructions.map((inst: any) => ({
+        ...SWIFTCreditPaymentInitiation.parseCreditTransfer(inst),
+        ...paymentInformation,
+      }));
     });
 
     return new SWIFTCreditPaymentInitiation({
       messageId,
       creationDate,
       initiatingParty: baseInitiatingParty,
-      paymentInstructions: paymentInstructions as AtLeastOne<SWIFTCreditPaymentInstruction>
+      paymentInstructions: paymentInstructions as AtLeastOne<SWIFTCreditPaymentInstruction>,
+      version,
+      requestedExecutionDate: PaymentInitiation.parseRequestedExecutionDate(rawPaymentInformations[0]),
+      ...PaymentInitiation.parsePaymentTypeInformation(rawPaymentInformations[0]),
     });
   }
 
-  public serialize(): string {
-    const builder = PaymentInitiation.getBuilder();
-    const xml = {
-      '?xml': {
-        '@version': '1.0',
-        '@encoding': 'UTF-8'
+  /**
+   * Parses a single credit transfer transaction (CdtTrfTxInf) into a SWIFT payment instruction.
+   * @param {any} inst - The raw CdtTrfTxInf element.
+   * @returns {SWIFTCreditPaymentInstruction} The parsed payment instruction.
+   */
+  private static parseCreditTransfer(inst: any): SWIFTCreditPaymentInstruction {
+    // Equivalent amounts are read as the amount in the debtor account currency with the currency of transfer
+    const rawAmount = inst.Amt.InstdAmt || inst.Amt.EqvtAmt.Amt;
+    const currency = rawAmount['@_Ccy'] as Currency;
+    const amount = parseAmountToMinorUnits(rawAmount['#text'], currency);
+    const rawExchangeRate = inst.XchgRateInf;
+
+    // Create base creditor party
+    const creditor: Party = {
+      name: inst.Cdtr.Nm as string,
+      agent: {
+        bic: inst.CdtrAgt?.FinInstnId?.BIC || inst.CdtrAgt?.FinInstnId?.BICFI
       },
-      Document: {
-        '@xmlns': 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03',
-        CstmrCdtTrfInitn: {
-          GrpHdr: {
-            MsgId: this.messageId,
-            CreDtTm: this.creationDate.toISOString(),
-            NbOfTxs: this.paymentInstructions.length.toString(),
-            InitgPty: {
-              Nm: this.initiatingParty.name,
-              Id: {
-                OrgId: {
-                  Othr: {
-                    Id: this.initiatingParty.id,
-                  },
+      account: (inst.CdtrAcct?.Id?.IBAN || inst.CdtrAcct?.Id?.Othr?.Id) ? parseAccount(inst.CdtrAcct) : undefined,
+      address: PaymentInitiation.parsePostalAddress(inst.Cdtr.PstlAdr)
+    };
+
+    const intermediaryAgents = [inst.IntrmyAgt1, inst.IntrmyAgt2, inst.IntrmyAgt3]
+      .map(rawAgent => parseOptionalAgent(rawAgent))
+      .filter((agent): agent is Agent => agent !== undefined);
+    const ultimateDebtor = SWIFTCreditPaymentInitiation.parseUltimateParty(inst.UltmtDbtr);
+    const ultimateCreditor = SWIFTCreditPaymentInitiation.parseUltimateParty(inst.UltmtCdtr);
+    const rawCreditorAgentInstructions: any[] = inst.InstrForCdtrAgt === undefined
+      ? []
+      : Array.isArray(inst.InstrForCdtrAgt) ? inst.InstrForCdtrAgt : [inst.InstrForCdtrAgt];
+    const rawRegulatoryReports: any[] = inst.RgltryRptg === undefined
+      ? []
+      : Array.isArray(inst.RgltryRptg) ? inst.RgltryRptg : [inst.RgltryRptg];
+
+    // Return instruction with validated data
+    return {
+      type: 'swift' as const,
+      direction: 'credit' as const,
+      ...(inst.PmtId.InstrId && { id: inst.PmtId.InstrId.toString() }),
+      ...(inst.PmtId.EndToEndId && { endToEndId: inst.PmtId.EndToEndId.toString() }),
+      amount,
+      currency,
+      ...(inst.Amt.EqvtAmt && { currencyOfTransfer: inst.Amt.EqvtAmt.CcyOfTrf as Currency }),
+      ...(rawExchangeRate && {
+        exchangeRateInformation: {
+          ...(rawExchangeRate.UnitCcy && { unitCurrency: rawExchangeRate.UnitCcy as Currency }),
+          ...(rawExchangeRate.XchgRate !== undefined && { rate: Number(rawExchangeRate.XchgRate) }),
+          ...(rawExchangeRate.RateTp && { rateType: rawExchangeRate.RateTp as ExchangeRateType }),
+          ...(rawExchangeRate.CtrctId !== undefined && { contractId: rawExchangeRate.CtrctId.toString() as string }),
+        },
+      }),
+      creditor,
+      ...(ultimateDebtor && { ultimateDebtor }),
+      ...(intermediaryAgents.length > 0 && { intermediaryAgents }),
+      ...(ultimateCreditor && { ultimateCreditor }),
+      ...(rawCreditorAgentInstructions.length > 0 && {
+        instructionsForCreditorAgent: rawCreditorAgentInstructions.map((rawInstruction: any): InstructionForCreditorAgent => ({
+          ...(rawInstruction.Cd && { code: rawInstruction.Cd as InstructionForCreditorAgentType }),
+          ...(rawInstruction.InstrInf !== undefined && { information: rawInstruction.InstrInf.toString() as string }),
+        })),
+      }),
+      ...(inst.Purp?.Cd && { purpose: inst.Purp.Cd as ExternalPurpose }),
+      ...(rawRegulatoryReports.length > 0 && {
+        regulatoryReporting: rawRegulatoryReports.map(rawReport => SWIFTCreditPaymentInitiation.parseRegulatoryReporting(rawReport)),
+      }),
+      ...PaymentInitiation.parseRemittanceInformation(inst.RmtInf),
+    };
+  }
+
+  /**
+   * Parses an ultimate debtor or creditor (UltmtDbtr, UltmtCdtr).
+   * @param {any} rawParty - The raw party element.
+   * @returns {Party | undefined} The party, or undefined if there is none.
+   */
+  private static parseUltimateParty(rawParty: any): Party | undefined {
+    if (!rawParty) {
+      return undefined;
+    }
+    const address = PaymentInitiation.parsePostalAddress(rawParty.PstlAdr);
+    return {
+      ...(rawParty.Nm !== undefined && { name: rawParty.Nm.toString() as string }),
+      ...(rawParty.Id?.OrgId?.Othr?.Id !== undefined && { id: rawParty.Id.OrgId.Othr.Id.toString() as string }),
+      ...(address && { address }),
+    };
+  }
+
+  /**
+   * Parses a regulatory report (RgltryRptg) of a credit transfer transaction.
+   * @param {any} rawReport - The raw RgltryRptg element.
+   * @returns {RegulatoryReporting} The regulatory report.
+   */
+  private static parseRegulatoryReporting(rawReport: any): RegulatoryReporting {
+    const rawDetails: any[] = rawReport.Dtls === undefined ? [] : Array.isArray(rawReport.Dtls) ? rawReport.Dtls : [rawReport.Dtls];
+    return {
+      ...(rawReport.DbtCdtRptgInd && { debitCreditReportingIndicator: rawReport.DbtCdtRptgInd as RegulatoryReportingType }),
+      ...(rawReport.Authrty && {
+        authority: {
+          ...(rawReport.Authrty.Nm !== undefined && { name: rawReport.Authrty.Nm.toString() as string }),
+          ...(rawReport.Authrty.Ctry && { country: rawReport.Authrty.Ctry as Alpha2Country }),
+        },
+      }),
+      ...(rawDetails.length > 0 && {
+        details: rawDetails.map(rawDetail => {
+          const currency = rawDetail.Amt?.['@_Ccy'] as Currency | undefined;
+          const information = rawDetail.Inf === undefined ? [] : Array.isArray(rawDetail.Inf) ? rawDetail.Inf : [rawDetail.Inf];
+          return {
+            ...(rawDetail.Tp !== undefined && { type: rawDetail.Tp.toString() as string }),
+            ...(rawDetail.Dt && { date: new Date(rawDetail.Dt) }),
+            ...(rawDetail.Ctry && { country: rawDetail.Ctry as Alpha2Country }),
+            ...(rawDetail.Cd && { code: rawDetail.Cd as string }),
+            ...(currency && { amount: parseAmountToMinorUnits(rawDetail.Amt['#text'], currency), currency }),
+            ...(information.length > 0 && { information: information.map((line: any) => line.toString() as string) }),
+          };
+        }),
+      }),
+    };
+  }
+
+  /**
+   * The total of the instruction amounts in every currency, as written in the control sums of the payment information blocks.
+   * @returns {Partial<Record<Currency, string>>} The formatted total of every currency, e.g. { USD: '1500.00', JPY: '250000' }.
+   */
+  get controlSums(): Partial<Record<Currency, string>> {
+    return sumAmountsByCurrency(this.paymentInstructions);
+  }
+
+  /**
+   * Exports the payment initiation as a document object, the JSON form of the message.
+   * @returns {any} The document object.
+   */
+  toJSON(): any {
+    const Document = {
+      '@xmlns': this.namespace,
+      CstmrCdtTrfInitn: {
+        GrpHdr: {
+          MsgId: this.messageId,
+          CreDtTm: this.creationDate.toISOString(),
+          NbOfTxs: this.paymentInstructions.length.toString(),
+          CtrlSum: this.formattedPaymentSum,
+          InitgPty: {
+            Nm: this.initiatingParty.name,
+            Id: {
+              OrgId: {
+                Othr: {
+                  Id: this.initiatingParty.id,
                 },
               },
             },
           },
-          PmtInf: {
-            PmtInfId: this.paymentInformationId,
-            PmtMtd: 'TRF',
-            BtchBookg: 'false',
-            PmtTpInf: {
-              InstrPrty: 'NORM',
-              SvcLvl: {
-                Cd: 'URGP',
-              },
-            },
-            ReqdExctnDt: this.creationDate.toISOString().split('T')[0], // TODO: Check time zone eventually
-            Dbtr: this.party(this.initiatingParty),
-            DbtrAcct: this.account(this.initiatingParty.account as Account),
-            DbtrAgt: this.agent(this.initiatingParty.agent as BICAgent),
-            ChrgBr: 'SHAR',
-            CdtTrfTxInf: this.paymentInstructions.map(p => this.creditTransfer(p)),
-          },
         },
+        PmtInf: this.paymentInformations.map(p => this.paymentInformation(p)),
+      },
+    };
+    return { Document };
+  }
+
+  /**
+   * Serializes the payment initiation to an XML string.
+   * @returns {string} The XML representation of the payment initiation.
+   * @throws {InvalidPaymentInstructionError} If a debtor or creditor has an invalid IBAN or BIC.
+   */
+  public serialize(): string {
+    this.validatePartyIdentifiers(this.initiatingParty, this.paymentInstructions);
+
+    const builder = PaymentInitiation.getBuilder();
+    const xml = {
+      '?xml': {
+        '@version': '1.0',
+        '@encoding': 'UTF-8'
       },
+      ...this.toJSON(),
     };
 
     return builder.build(xml);
   }
+
+  /**
+   * The configuration of the SWIFT credit transfer initiation, which can be passed back to its constructor.
+   * @returns {SWIFTCreditPaymentInitiationConfig} The configuration.
+   */
+  get data(): SWIFTCreditPaymentInitiationConfig {
+    return {
+      initiatingParty: this.initiatingParty,
+      paymentInstructions: this.paymentInstructions as AtLeastOne<SWIFTCreditPaymentInstruction>,
+      messageId: this.messageId,
+      creationDate: this.creationDate,
+      chargeBearer: this.chargeBearer,
+      serviceLevel: this.serviceLevel,
+      instructionPriority: this.instructionPriority,
+      categoryPurpose: this.categoryPurpose,
+      purpose: this.purpose,
+      version: this.version,
+      ...this.executionDateOptions,
+    };
+  }
+
+  static supportedMessages(): ISO20022MessageTypeName[] {
+    return [ISO20022Messages.PAIN_001];
+  }
+
+  /**
+   * Tells whether a configuration holds SWIFT payment instructions, to pick this class for generic PAIN.001 messages.
+   * Instructions without a type are SWIFT payments, as when parsing a message without a specific payment type.
+   * @param {any} data - The configuration.
+   * @returns {boolean} Whether every payment instruction has type 'swift' or no type.
+   */
+  static supportsData(data: any): boolean {
+    return PaymentInitiation.hasInstructionsOfType(data, 'swift', true);
+  }
+
+  /**
+   * Creates a SWIFTCreditPaymentInitiation instance from a JSON string exported with `toJSON`.
+   * @param {string} json - The JSON string.
+   * @returns {SWIFTCreditPaymentInitiation} A new SWIFTCreditPaymentInitiation instance.
+   * @throws {InvalidXmlError} If the JSON has no Document element.
+   */
+  static fromJSON(json: string): SWIFTCreditPaymentInitiation {
+    return SWIFTCreditPaymentInitiation.fromXML(PaymentInitiation.jsonToXML(json));
+  }
 }
+
+registerISO20022Implementation(SWIFTCreditPaymentInitiation);
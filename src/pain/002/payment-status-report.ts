@@ -1,38 +1,149 @@
-import { XMLParser } from 'fast-xml-parser';
-import { Party } from '../../lib/types';
-import { parseParty } from '../../parseUtils';
+import { v4 as uuidv4 } from 'uuid';
+import { Party, PaymentInformation, PaymentInstruction } from '../../lib/types';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
+import { SchemaValidationOptions, SchemaValidationResult, validateXMLAgainstSchema } from '../../lib/schema-validation';
+import { InvalidXmlError } from '../../errors';
+import { exportRecipient, parseParty } from '../../parseUtils';
+import { PaymentInitiation } from '../001/payment-initiation';
 import {
+  exportGroupStatusInformation,
+  exportPaymentStatusInformations,
   parseGroupStatusInformation,
   parsePaymentStatusInformations,
   parseTransactionStatusInformations,
 } from './utils';
 import {
+  PaymentStatusCode,
   StatusInformation,
   PaymentStatus,
   OriginalGroupInformation,
+  BaseStatusInformation,
+  GroupStatusInformation,
+  PaymentStatusInformation,
+  TransactionStatusInformation,
 } from './types';
 
+const ISO20022_NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+/**
+ * The pain.002 message versions that can be serialized.
+ */
+export const PaymentStatusReportVersions = [
+  'pain.002.001.03',
+  'pain.002.001.04',
+  'pain.002.001.05',
+  'pain.002.001.06',
+  'pain.002.001.07',
+  'pain.002.001.08',
+  'pain.002.001.09',
+  'pain.002.001.10',
+  'pain.002.001.11',
+  'pain.002.001.12',
+  'pain.002.001.13',
+  'pain.002.001.14',
+] as const;
+
+export type PaymentStatusReportVersion = (typeof PaymentStatusReportVersions)[number];
+
+/**
+ * The statuses of the group status code list (TransactionGroupStatus3Code) of pain.002.001.03,
+ * used for the group and payment information statuses.
+ * Newer versions use the external status code set, which adds statuses such as ACCC,
+ * reported for instant payments once the creditor's account has been credited.
+ */
+const Version3GroupStatuses: PaymentStatus[] = [
+  PaymentStatusCode.AcceptedTechnicalValidation,
+  PaymentStatusCode.Received,
+  PaymentStatusCode.PartiallyAccepted,
+  PaymentStatusCode.AcceptedCustomerProfile,
+  PaymentStatusCode.AcceptedSettlementInProgress,
+  PaymentStatusCode.AcceptedSettlementCompleted,
+  PaymentStatusCode.AcceptedWithChange,
+  PaymentStatusCode.Pending,
+  PaymentStatusCode.Rejected,
+];
+
+/**
+ * The statuses of the transaction status code list (TransactionIndividualStatus3Code) of pain.002.001.03,
+ * which, unlike the group list, has no received (RCVD) or partially accepted (PART) status.
+ */
+const Version3TransactionStatuses: PaymentStatus[] = [
+  PaymentStatusCode.AcceptedTechnicalValidation,
+  PaymentStatusCode.AcceptedCustomerProfile,
+  PaymentStatusCode.AcceptedSettlementInProgress,
+  PaymentStatusCode.AcceptedSettlementCompleted,
+  PaymentStatusCode.AcceptedWithChange,
+  PaymentStatusCode.Pending,
+  PaymentStatusCode.Rejected,
+];
+
+/**
+ * Checks whether a status can be written in pain.002.001.03, at the level of the status information.
+ * @param {StatusInformation} statusInformation - The group, payment or transaction status.
+ * @returns {boolean} Whether the status is part of the pain.002.001.03 code list of its level.
+ */
+const isVersion3Status = (statusInformation: StatusInformation): boolean =>
+  (statusInformation.type === 'transaction' ? Version3TransactionStatuses : Version3GroupStatuses).includes(statusInformation.status);
+
+/** The version reports are written in when they hold statuses pain.002.001.03 does not know, as in the EPC implementation guidelines. */
+const EXTERNAL_STATUS_CODE_VERSION: PaymentStatusReportVersion = 'pain.002.001.10';
+
 /**
  * Configuration interface for creating a PaymentStatusReport instance.
  */
-interface PaymentStatusReportConfig {
+export interface PaymentStatusReportConfig {
   /** Unique identifier for the message */
   messageId: string;
   creationDate: Date;
   initatingParty: Party;
   originalGroupInformation: OriginalGroupInformation;
   statusInformations: StatusInformation[];
+  /** The message version, detected from the namespace when parsing. Defaults to 'pain.002.001.03', or 'pain.002.001.10' for statuses such as ACCC that it does not know. */
+  version?: PaymentStatusReportVersion;
+}
+
+/**
+ * A payment initiation that a status report can be built for.
+ */
+export type ReportablePaymentInitiation = PaymentInitiation & {
+  messageId: string;
+  initiatingParty: Party;
+  paymentInstructions: PaymentInstruction[];
+  paymentInformationId: string;
+  paymentInformations?: PaymentInformation[];
+};
+
+/**
+ * The status of a single transaction, either a bare status or a status with a reason.
+ */
+export type TransactionStatusInput = PaymentStatus | Pick<BaseStatusInformation, 'status' | 'reason'>;
+
+/**
+ * Options for building a PaymentStatusReport from a payment initiation.
+ */
+export interface PaymentStatusReportFromPaymentInitiationOptions {
+  /** Unique identifier for the message. Defaults to a generated identifier. */
+  messageId?: string;
+  /** Date and time when the report was created. Defaults to now. */
+  creationDate?: Date;
+  /** The party sending the report. Defaults to the initiating party of the payment initiation. */
+  initiatingParty?: Party;
+  /** Optional status of the whole original message. */
+  groupStatus?: Pick<BaseStatusInformation, 'status' | 'reason'>;
+  /** The message version. Defaults to 'pain.002.001.03', or 'pain.002.001.10' for statuses such as ACCC that it does not know. */
+  version?: PaymentStatusReportVersion;
 }
 
 /**
  * Represents a Payment Status Report, containing information about the status of payments and transactions.
  */
-export class PaymentStatusReport {
+export class PaymentStatusReport implements GenericISO20022Message {
   private _messageId: string;
   private _creationDate: Date;
   private _initatingParty: Party;
   private _originalGroupInformation: OriginalGroupInformation;
   private _statusInformations: StatusInformation[];
+  private _version: PaymentStatusReportVersion;
 
   /**
    * Creates a new PaymentStatusReport instance.
@@ -44,6 +155,79 @@ export class PaymentStatusReport {
     this._initatingParty = config.initatingParty;
     this._originalGroupInformation = config.originalGroupInformation;
     this._statusInformations = config.statusInformations;
+    const hasVersion3Statuses = config.statusInformations.every(isVersion3Status);
+    this._version = config.version || (hasVersion3Statuses ? 'pain.002.001.03' : EXTERNAL_STATUS_CODE_VERSION);
+  }
+
+  /**
+   * Creates a PaymentStatusReport for a payment initiation, reporting the status of its transactions.
+   * Transactions are matched on the end-to-end ID written for them by the payment initiation, see `paymentIdentification`,
+   * and reported under their payment information block.
+   * Reports on instant payments, settled on the creditor's account (ACCC) or on the debtor's account (ACSC),
+   * are written in pain.002.001.10 unless a version is given, as pain.002.001.03 does not know ACCC.
+   *
+   * @param {ReportablePaymentInitiation} paymentInitiation - The payment initiation to report on.
+   * @param {Record<string, TransactionStatusInput>} statuses - The statuses, keyed by end-to-end ID.
+   * @param {PaymentStatusReportFromPaymentInitiationOptions} [options] - Options for the report.
+   * @returns {PaymentStatusReport} A new PaymentStatusReport instance.
+   * @throws {Error} If an end-to-end ID is not part of the payment initiation.
+   * @example
+   * ```typescript
+   * const report = PaymentStatusReport.fromPaymentInitiation(payment, {
+   *   'INV-001': 'ACSC',
+   *   'INV-002': { status: 'RJCT', reason: { code: 'AC04' } },
+   * });
+   * const xml = report.serialize();
+   * ```
+   */
+  static fromPaymentInitiation(
+    paymentInitiation: ReportablePaymentInitiation,
+    statuses: Record<string, TransactionStatusInput>,
+    options: PaymentStatusReportFromPaymentInitiationOptions = {},
+  ): PaymentStatusReport {
+    const paymentInformations: { id: string; paymentInstructions: PaymentInstruction[] }[] =
+      paymentInitiation.paymentInformations || [{
+        id: paymentInitiation.paymentInformationId,
+        paymentInstructions: paymentInitiation.paymentInstructions,
+      }];
+
+    const originalPaymentIds = new Map<string, string>();
+    paymentInformations.forEach(paymentInformation => {
+      paymentInformation.paymentInstructions.forEach(instruction => {
+        originalPaymentIds.set(paymentInitiation.paymentIdentification(instruction).endToEndId, paymentInformation.id);
+      });
+    });
+
+    const transactionStatuses: TransactionStatusInformation[] = Object.entries(statuses).map(([endToEndId, input]) => {
+      const originalPaymentId = originalPaymentIds.get(endToEndId);
+      if (!originalPaymentId) {
+        throw new Error(`End-to-end ID ${endToEndId} is not part of payment initiation ${paymentInitiation.messageId}`);
+      }
+      const { status, reason } = typeof input === 'string' ? { status: input, reason: undefined } : input;
+      return {
+        type: 'transaction',
+        originalEndToEndId: endToEndId,
+        originalPaymentId,
+        status,
+        ...(reason && { reason }),
+      };
+    });
+
+    const groupStatuses: GroupStatusInformation[] = options.groupStatus
+      ? [{ type: 'group', originalMessageId: paymentInitiation.messageId, ...options.groupStatus }]
+      : [];
+
+    return new PaymentStatusReport({
+      messageId: options.messageId || uuidv4().replace(/-/g, ''),
+      creationDate: options.creationDate || new Date(),
+      initatingParty: options.initiatingParty || paymentInitiation.initiatingParty,
+      originalGroupInformation: {
+        originalMessageId: paymentInitiation.messageId,
+        originalMessageNameId: paymentInitiation.namespace.substring(ISO20022_NAMESPACE_PREFIX.length),
+      },
+      statusInformations: [...groupStatuses, ...transactionStatuses],
+      version: options.version,
+    });
   }
 
   /**
@@ -52,8 +236,38 @@ export class PaymentStatusReport {
    * @returns {PaymentStatusReport} A new PaymentStatusReport instance.
    */
   static fromXML(rawXml: string): PaymentStatusReport {
-    const parser = new XMLParser({ ignoreAttributes: false });
+    const parser = XML.getParser();
     const xml = parser.parse(rawXml);
+
+    if (!xml.Document) {
+      throw new InvalidXmlError('Invalid XML format');
+    }
+
+    return PaymentStatusReport.fromDocumentObject(xml);
+  }
+
+  /**
+   * Creates a PaymentStatusReport instance from a JSON string exported with `toJSON`.
+   * @param {string} json - The JSON string.
+   * @returns {PaymentStatusReport} A new PaymentStatusReport instance.
+   * @throws {InvalidXmlError} If the JSON has no Document element.
+   */
+  static fromJSON(json: string): PaymentStatusReport {
+    const obj = JSON.parse(json);
+
+    if (!obj.Document) {
+      throw new InvalidXmlError('Invalid JSON format');
+    }
+
+    return PaymentStatusReport.fromDocumentObject(obj);
+  }
+
+  /**
+   * Creates a PaymentStatusReport instance from a parsed document.
+   * @param {{ Document: any }} xml - The parsed document.
+   * @returns {PaymentStatusReport} A new PaymentStatusReport instance.
+   */
+  static fromDocumentObject(xml: { Document: any }): PaymentStatusReport {
     const customerPaymentStatusReport = xml.Document.CstmrPmtStsRpt;
     const rawCreationDate = customerPaymentStatusReport.GrpHdr.CreDtTm;
     const messageId = customerPaymentStatusReport.GrpHdr.MsgId;
@@ -66,32 +280,37 @@ export class PaymentStatusReport {
       customerPaymentStatusReport.OrgnlGrpInfAndSts;
     const originalGroupInformation = {
       originalMessageId: rawOriginalGroupInformation.OrgnlMsgId,
+      originalMessageNameId: rawOriginalGroupInformation.OrgnlMsgNmId,
     };
 
     const rawPmtInfAndSts = customerPaymentStatusReport.OrgnlPmtInfAndSts;
     const pmtInfAndSts = Array.isArray(rawPmtInfAndSts)
       ? rawPmtInfAndSts
       : [rawPmtInfAndSts].filter(Boolean);
-    // Find all TxnInfoAndSts
-    const txnInfoAndSts = pmtInfAndSts
+    // Find all TxnInfoAndSts, keeping the payment they belong to
+    const transactionStatusInformations = pmtInfAndSts
       .map(pmtInfAndSt => {
         // If there is no TxInfAndSts, return an empty array
         if (!pmtInfAndSt.hasOwnProperty('TxInfAndSts')) {
           return [];
         }
         // Otherwise, return the TxInfAndSts
-        return Array.isArray(pmtInfAndSt.TxInfAndSts)
+        const txnInfoAndSts = Array.isArray(pmtInfAndSt.TxInfAndSts)
           ? pmtInfAndSt.TxInfAndSts
           : [pmtInfAndSt.TxInfAndSts];
+        return parseTransactionStatusInformations(txnInfoAndSts, pmtInfAndSt.OrgnlPmtInfId?.toString());
       })
       .flat();
 
+    const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns'] || '') as string;
+    const version = namespace.substring(ISO20022_NAMESPACE_PREFIX.length) as PaymentStatusReportVersion;
+
     const statusInformations = [
       parseGroupStatusInformation(
         customerPaymentStatusReport.OrgnlGrpInfAndSts,
       ),
       parsePaymentStatusInformations(pmtInfAndSts),
-      parseTransactionStatusInformations(txnInfoAndSts),
+      transactionStatusInformations,
     ]
       .flat()
       .filter(statusInformation => statusInformation !== null);
@@ -102,9 +321,99 @@ export class PaymentStatusReport {
       initatingParty,
       originalGroupInformation,
       statusInformations: statusInformations,
+      version: PaymentStatusReportVersions.includes(version) ? version : undefined,
     });
   }
 
+  /**
+   * Exports the Payment Status Report as a document object.
+   * @returns {any} The document object.
+   * @throws {Error} If a transaction status can not be placed under a payment.
+   * @throws {Error} If a pain.002.001.03 report holds a status of the external status code set, such as ACCC.
+   */
+  toJSON(): any {
+    if (this._version === 'pain.002.001.03') {
+      const newerStatus = this._statusInformations.find(statusInformation => !isVersion3Status(statusInformation));
+      if (newerStatus) {
+        throw new Error(`Status ${newerStatus.status} is not part of pain.002.001.03, use a newer version such as ${EXTERNAL_STATUS_CODE_VERSION}`);
+      }
+    }
+
+    const groupStatus = this._statusInformations.find(
+      (statusInformation): statusInformation is GroupStatusInformation => statusInformation.type === 'group',
+    );
+    const paymentStatuses = this._statusInformations.filter(
+      (statusInformation): statusInformation is PaymentStatusInformation => statusInformation.type === 'payment',
+    );
+    const transactionStatuses = this._statusInformations.filter(
+      (statusInformation): statusInformation is TransactionStatusInformation => statusInformation.type === 'transaction',
+    );
+
+    const Document = {
+      CstmrPmtStsRpt: {
+        GrpHdr: {
+          MsgId: this._messageId,
+          CreDtTm: this._creationDate.toISOString(),
+          InitgPty: exportRecipient(this._initatingParty),
+        },
+        OrgnlGrpInfAndSts: exportGroupStatusInformation(
+          this._originalGroupInformation.originalMessageId,
+          this._originalGroupInformation.originalMessageNameId || 'pain.001.001.03',
+          groupStatus,
+        ),
+        OrgnlPmtInfAndSts: exportPaymentStatusInformations(
+          paymentStatuses,
+          transactionStatuses,
+          Number(this._version.split('.').pop()),
+        ),
+      },
+    };
+    return { Document };
+  }
+
+  /**
+   * Serializes the Payment Status Report to XML.
+   * @returns {string} The XML string.
+   * @throws {Error} If a transaction status can not be placed under a payment.
+   * @throws {Error} If a pain.002.001.03 report holds a status of the external status code set, such as ACCC.
+   */
+  serialize(): string {
+    const builder = XML.getBuilder();
+    const obj = this.toJSON();
+    obj.Document['@_xmlns'] = `${ISO20022_NAMESPACE_PREFIX}${this._version}`;
+    obj.Document['@_xmlns:xsi'] = 'http://www.w3.org/2001/XMLSchema-instance';
+
+    return builder.build(obj);
+  }
+
+  /**
+   * Validates the serialized Payment Status Report against the XSD schema of its message version.
+   * @param {SchemaValidationOptions} [options] - Options to pick the schema or the schema directory.
+   * @returns {SchemaValidationResult} The validation result, with structured errors.
+   */
+  validateAgainstSchema(options?: SchemaValidationOptions): SchemaValidationResult {
+    return validateXMLAgainstSchema(this.serialize(), options);
+  }
+
+  /**
+   * The configuration of the Payment Status Report, which can be passed back to its constructor.
+   * @returns {PaymentStatusReportConfig} The configuration.
+   */
+  get data(): PaymentStatusReportConfig {
+    return {
+      messageId: this._messageId,
+      creationDate: this._creationDate,
+      initatingParty: this._initatingParty,
+      originalGroupInformation: this._originalGroupInformation,
+      statusInformations: this._statusInformations,
+      version: this._version,
+    };
+  }
+
+  static supportedMessages(): ISO20022MessageTypeName[] {
+    return [ISO20022Messages.PAIN_002];
+  }
+
   /**
    * Gets the message ID of the Payment Status Report.
    * @returns {string} The message ID.
@@ -137,6 +446,14 @@ export class PaymentStatusReport {
     return this._originalGroupInformation.originalMessageId;
   }
 
+  /**
+   * Gets the message version, e.g. 'pain.002.001.03'.
+   * @returns {PaymentStatusReportVersion} The message version.
+   */
+  get version(): PaymentStatusReportVersion {
+    return this._version;
+  }
+
   /**
    * Gets all status information entries in the Payment Status Report.
    * @returns {StatusInformation[]} An array of StatusInformation objects.
@@ -178,3 +495,5 @@ export class PaymentStatusReport {
     return this.firstStatusInformation.status;
   }
 }
+
+registerISO20022Implementation(PaymentStatusReport);
@@ -1,4 +1,5 @@
-import { Party } from '../../lib/types';
+import { Agent, Party, StructuredRemittance } from '../../lib/types';
+import { Currency } from '../../lib/currency';
 
 /**
  * Represents the original group information in a payment status report.
@@ -6,6 +7,8 @@ import { Party } from '../../lib/types';
 export interface OriginalGroupInformation {
   /** The original message ID associated with the group. */
   originalMessageId: string;
+  /** The message name of the original message, e.g. 'pain.001.001.03'. Defaults to 'pain.001.001.03' when serializing. */
+  originalMessageNameId?: string;
 }
 
 /**
@@ -14,23 +17,602 @@ export interface OriginalGroupInformation {
 export type StatusType = 'group' | 'payment' | 'transaction';
 
 /**
- * Represents the status codes in a payment status report.
- * @see {@link https://www.iso20022.org/sites/default/files/2022-03/externalcodesets_4q2021_v2_1.xlsx}
+ * Represents the status codes in a payment status report (ExternalPaymentTransactionStatus1Code).
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
  */
 export const PaymentStatusCode = {
+  /** Payment initiation or individual transaction included in the payment initiation has been rejected. */
   Rejected: 'RJCT',
-  PartiallyAccepted: 'ACCP',
-  Pending: 'PNDG',
+  /** A number of transactions have been accepted, whereas another number of transactions have not yet achieved 'accepted' status. */
+  PartiallyAccepted: 'PART',
+  /** Payment initiation or individual transaction included in the payment initiation is pending. Further checks and status update will be performed. */
+  Pending: 'PDNG',
+  /** Alias of AcceptedCustomerProfile. */
   Accepted: 'ACCP',
+  /** All preceding checks such as technical validation and customer profile were successful and therefore the payment initiation has been accepted for execution. */
   AcceptedSettlementInProgress: 'ACSP',
-  AcceptedCreditSettlementCompleted: 'ACSC',
+  /** Settlement on the creditor's account has been completed. */
+  AcceptedCreditSettlementCompleted: 'ACCC',
+  /** Settlement on the debtor's account has been completed. */
   AcceptedSettlementCompleted: 'ACSC',
+  /** Authentication and syntactical and semantical validation are successful. */
   AcceptedTechnicalValidation: 'ACTC',
+  /** Preceding check of technical validation was successful. Customer profile check was also successful. */
+  AcceptedCustomerProfile: 'ACCP',
+  /** Preceding check of technical validation and customer profile was successful and an automatic funds check was positive. */
+  AcceptedFundsChecked: 'ACFC',
+  /** Payment instruction to pay by cheque has been accepted, and the cheque has been issued but not yet been deposited or cleared. */
+  AcceptedAndChequeIssued: 'ACIS',
+  /** Status of transaction released from the debtor agent and accepted by the clearing. */
+  AcceptedClearingProcessed: 'ACPD',
+  /** Instruction is accepted but a change will be made, such as date or remittance not sent. */
+  AcceptedWithChange: 'ACWC',
+  /** Payment instruction included in the credit transfer is accepted without being posted to the creditor customer's account. */
+  AcceptedWithoutPosting: 'ACWP',
+  /** Payment transaction previously reported with status 'ACWP' is blocked, for example, funds will neither be posted to the creditor's account, nor be returned to the debtor. */
+  Blocked: 'BLCK',
+  /** Payment initiation has been successfully cancelled after having received a request for cancellation. */
+  Cancelled: 'CANC',
+  /** Cash has been picked up by the creditor. */
+  CashPickedUpByCreditor: 'CPUC',
+  /** Payment initiation needs multiple authentications, where some but not yet all have been performed. Syntactical and semantical validations are successful. */
+  PartiallyAcceptedTechnicalCorrect: 'PATC',
+  /** Request for payment has been presented to the debtor. */
+  Presented: 'PRES',
+  /** Payment initiation has been received by the receiving agent. */
+  Received: 'RCVD',
 } as const;
 
+/**
+ * Description mapping of PaymentStatusCode values to their names.
+ */
+export const PaymentStatusCodeDescriptionMap = {
+  'RJCT': 'Rejected',
+  'PART': 'Partially Accepted',
+  'PDNG': 'Pending',
+  'ACSP': 'Accepted Settlement In Progress',
+  'ACCC': 'Accepted Credit Settlement Completed',
+  'ACSC': 'Accepted Settlement Completed',
+  'ACTC': 'Accepted Technical Validation',
+  'ACCP': 'Accepted Customer Profile',
+  'ACFC': 'Accepted Funds Checked',
+  'ACIS': 'Accepted And Cheque Issued',
+  'ACPD': 'Accepted Clearing Processed',
+  'ACWC': 'Accepted With Change',
+  'ACWP': 'Accepted Without Posting',
+  'BLCK': 'Blocked',
+  'CANC': 'Cancelled',
+  'CPUC': 'Cash Picked Up By Creditor',
+  'PATC': 'Partially Accepted Technical Correct',
+  'PRES': 'Presented',
+  'RCVD': 'Received',
+};
+
 export type PaymentStatus =
   (typeof PaymentStatusCode)[keyof typeof PaymentStatusCode];
 
+/**
+ * Represents the reason codes of a status in a payment status report (ExternalStatusReason1Code).
+ * @see {@link https://www.iso20022.org/catalogue-messages/additional-content-messages/external-code-sets}
+ */
+export const StatusReasonCode = {
+  AbortedClearingTimeout: 'AB01',
+  AbortedClearingFatalError: 'AB02',
+  AbortedSettlementTimeout: 'AB03',
+  AbortedSettlementFatalError: 'AB04',
+  TimeoutCreditorAgent: 'AB05',
+  TimeoutInstructedAgent: 'AB06',
+  OfflineAgent: 'AB07',
+  OfflineCreditorAgent: 'AB08',
+  ErrorCreditorAgent: 'AB09',
+  ErrorInstructedAgent: 'AB10',
+  TimeoutDebtorAgent: 'AB11',
+  IncorrectAccountNumber: 'AC01',
+  InvalidDebtorAccountNumber: 'AC02',
+  InvalidCreditorAccountNumber: 'AC03',
+  ClosedAccountNumber: 'AC04',
+  ClosedDebtorAccountNumber: 'AC05',
+  BlockedAccount: 'AC06',
+  ClosedCreditorAccountNumber: 'AC07',
+  InvalidBranchCode: 'AC08',
+  InvalidAccountCurrency: 'AC09',
+  InvalidDebtorAccountCurrency: 'AC10',
+  InvalidCreditorAccountCurrency: 'AC11',
+  InvalidAccountType: 'AC12',
+  InvalidDebtorAccountType: 'AC13',
+  InvalidCreditorAccountType: 'AC14',
+  AccountDetailsChanged: 'AC15',
+  CardNumberInvalid: 'AC16',
+  AlreadyExpiredRTP: 'AEXR',
+  TransactionForbidden: 'AG01',
+  InvalidBankOperationCode: 'AG02',
+  TransactionNotSupported: 'AG03',
+  InvalidAgentCountry: 'AG04',
+  InvalidDebtorAgentCountry: 'AG05',
+  InvalidCreditorAgentCountry: 'AG06',
+  UnsuccessfulDirectDebit: 'AG07',
+  InvalidAccessRights: 'AG08',
+  PaymentNotReceived: 'AG09',
+  AgentSuspended: 'AG10',
+  CreditorAgentSuspended: 'AG11',
+  NotAllowedBookTransfer: 'AG12',
+  ForbiddenReturnPayment: 'AG13',
+  IncorrectAgent: 'AGNT',
+  AlreadyAcceptedRTP: 'ALAC',
+  ZeroAmount: 'AM01',
+  NotAllowedAmount: 'AM02',
+  NotAllowedCurrency: 'AM03',
+  InsufficientFunds: 'AM04',
+  Duplication: 'AM05',
+  TooLowAmount: 'AM06',
+  BlockedAmount: 'AM07',
+  WrongAmount: 'AM09',
+  InvalidControlSum: 'AM10',
+  InvalidTransactionCurrency: 'AM11',
+  InvalidAmount: 'AM12',
+  AmountExceedsClearingSystemLimit: 'AM13',
+  AmountExceedsAgreedLimit: 'AM14',
+  AmountBelowClearingSystemMinimum: 'AM15',
+  InvalidGroupControlSum: 'AM16',
+  InvalidPaymentInfoControlSum: 'AM17',
+  InvalidNumberOfTransactions: 'AM18',
+  InvalidGroupNumberOfTransactions: 'AM19',
+  InvalidPaymentInfoNumberOfTransactions: 'AM20',
+  LimitExceeded: 'AM21',
+  ZeroAmountNotApplied: 'AM22',
+  AmountExceedsSettlementLimit: 'AM23',
+  AlreadyPaidRTP: 'APAR',
+  AlreadyReturnedTransaction: 'ARDT',
+  AlreadyRejectedRTP: 'ARJR',
+  InconsistentWithEndCustomer: 'BE01',
+  MissingCreditorAddress: 'BE04',
+  UnrecognisedInitiatingParty: 'BE05',
+  UnknownEndCustomer: 'BE06',
+  MissingDebtorAddress: 'BE07',
+  MissingDebtorName: 'BE08',
+  InvalidCountry: 'BE09',
+  InvalidDebtorCountry: 'BE10',
+  InvalidCreditorCountry: 'BE11',
+  InvalidCountryOfResidence: 'BE12',
+  InvalidDebtorCountryOfResidence: 'BE13',
+  InvalidCreditorCountryOfResidence: 'BE14',
+  InvalidIdentificationCode: 'BE15',
+  InvalidDebtorIdentificationCode: 'BE16',
+  InvalidCreditorIdentificationCode: 'BE17',
+  InvalidContactDetails: 'BE18',
+  InvalidChargeBearerCode: 'BE19',
+  InvalidNameLength: 'BE20',
+  MissingName: 'BE21',
+  MissingCreditorName: 'BE22',
+  AccountProxyInvalid: 'BE23',
+  CheckERI: 'CERI',
+  RequestedExecutionDateTooFarInFuture: 'CH03',
+  RequestedExecutionDateTooFarInPast: 'CH04',
+  ElementIsNotToBeUsedAtBAndCLevel: 'CH07',
+  MandateChangesNotAllowed: 'CH09',
+  InformationOnMandateChangesMissing: 'CH10',
+  CreditorIdentifierIncorrect: 'CH11',
+  CreditorIdentifierNotUnambiguouslyAtTransactionLevel: 'CH12',
+  OriginalDebtorAccountIsNotToBeUsed: 'CH13',
+  OriginalDebtorAgentIsNotToBeUsed: 'CH14',
+  ElementContentIncludesMoreThan140Characters: 'CH15',
+  ElementContentFormallyIncorrect: 'CH16',
+  ElementNotAdmitted: 'CH17',
+  ValuesWillBeSetToNextTARGETDay: 'CH19',
+  DecimalPointsNotCompatibleWithCurrency: 'CH20',
+  RequiredCompulsoryElementMissing: 'CH21',
+  CoreAndB2BWithinOneMessage: 'CH22',
+  ChequeSettledOnCreditorAccount: 'CHQC',
+  AuthorisationCancelled: 'CN01',
+  CreditorBankIsNotRegistered: 'CNOR',
+  IncorrectCurrency: 'CURR',
+  RequestedByCustomer: 'CUST',
+  DebtorBankIsNotRegistered: 'DNOR',
+  ElectronicSignaturesCorrect: 'DS01',
+  OrderCancelled: 'DS02',
+  OrderNotCancelled: 'DS03',
+  OrderRejected: 'DS04',
+  OrderForwarded: 'DS05',
+  TransferOrder: 'DS06',
+  ProcessingOK: 'DS07',
+  DecompressionError: 'DS08',
+  DecryptionError: 'DS09',
+  DataSignRequested: 'DS0A',
+  UnknownDataSignFormat: 'DS0B',
+  SignerCertificateRevoked: 'DS0C',
+  SignerCertificateNotValid: 'DS0D',
+  IncorrectSignerCertificate: 'DS0E',
+  SignerCertificationAuthoritySignerNotValid: 'DS0F',
+  NotAllowedPayment: 'DS0G',
+  NotAllowedAccount: 'DS0H',
+  NotAllowedNumberOfTransaction: 'DS0K',
+  Signer1CertificateRevoked: 'DS10',
+  Signer1CertificateNotValid: 'DS11',
+  IncorrectSigner1Certificate: 'DS12',
+  SignerCertificationAuthoritySigner1NotValid: 'DS13',
+  UserDoesNotExist: 'DS14',
+  IdenticalSignatureFound: 'DS15',
+  PublicKeyVersionIncorrect: 'DS16',
+  DifferentOrderDataInSignatures: 'DS17',
+  RepeatOrder: 'DS18',
+  ElectronicSignatureRightsInsufficient: 'DS19',
+  Signer2CertificateRevoked: 'DS20',
+  Signer2CertificateNotValid: 'DS21',
+  IncorrectSigner2Certificate: 'DS22',
+  SignerCertificationAuthoritySigner2NotValid: 'DS23',
+  WaitingTimeExpired: 'DS24',
+  OrderFileDeleted: 'DS25',
+  UserSignedMultipleTimes: 'DS26',
+  UserNotYetActivated: 'DS27',
+  InvalidDate: 'DT01',
+  InvalidCreationDate: 'DT02',
+  InvalidNonProcessingDate: 'DT03',
+  FutureDateNotSupported: 'DT04',
+  InvalidCutOffDate: 'DT05',
+  ExecutionDateChanged: 'DT06',
+  DuplicateMessageID: 'DU01',
+  DuplicatePaymentInformationID: 'DU02',
+  DuplicateTransaction: 'DU03',
+  DuplicateEndToEndID: 'DU04',
+  DuplicateInstructionID: 'DU05',
+  DuplicatePayment: 'DUPL',
+  CorrespondentBankNotPossible: 'ED01',
+  BalanceInfoRequest: 'ED03',
+  SettlementFailed: 'ED05',
+  SettlementSystemNotAvailable: 'ED06',
+  ExpiryDateTooLong: 'EDTL',
+  ExpiryDateTimeReached: 'EDTR',
+  ERIOptionNotSupported: 'ERIN',
+  InvalidFileFormat: 'FF01',
+  SyntaxError: 'FF02',
+  InvalidPaymentTypeInformation: 'FF03',
+  InvalidServiceLevelCode: 'FF04',
+  InvalidLocalInstrumentCode: 'FF05',
+  InvalidCategoryPurposeCode: 'FF06',
+  InvalidPurpose: 'FF07',
+  InvalidEndToEndId: 'FF08',
+  InvalidChequeNumber: 'FF09',
+  BankSystemProcessingError: 'FF10',
+  ClearingRequestAborted: 'FF11',
+  OriginalTransactionNotEligibleForRequestedReturn: 'FF12',
+  RequestForCancellationNotFound: 'FF13',
+  FollowingCancellationRequest: 'FOCR',
+  Fraud: 'FR01',
+  PaymentTransferredAndTracked: 'G000',
+  PaymentTransferredAndNotTracked: 'G001',
+  CreditDebitNotConfirmed: 'G002',
+  CreditPendingDocuments: 'G003',
+  CreditPendingFunds: 'G004',
+  DeliveredWithServiceLevel: 'G005',
+  DeliveredWithoutServiceLevel: 'G006',
+  CorrespondingOriginalFileStillNotSent: 'ID01',
+  NoMandate: 'MD01',
+  MissingMandatoryInformationInMandate: 'MD02',
+  CollectionNotDue: 'MD05',
+  RefundRequestByEndCustomer: 'MD06',
+  EndCustomerDeceased: 'MD07',
+  NotSpecifiedReasonCustomerGenerated: 'MS02',
+  NotSpecifiedReasonAgentGenerated: 'MS03',
+  Narrative: 'NARR',
+  NoERI: 'NERI',
+  NoAnswerFromCustomer: 'NOAS',
+  NoOriginalTransactionReceived: 'NOOR',
+  BankIdentifierIncorrect: 'RC01',
+  InvalidBankIdentifier: 'RC02',
+  InvalidDebtorBankIdentifier: 'RC03',
+  InvalidCreditorBankIdentifier: 'RC04',
+  InvalidBICIdentifier: 'RC05',
+  InvalidDebtorBICIdentifier: 'RC06',
+  InvalidCreditorBICIdentifier: 'RC07',
+  InvalidClearingSystemMemberIdentifier: 'RC08',
+  InvalidDebtorClearingSystemMemberIdentifier: 'RC09',
+  InvalidCreditorClearingSystemMemberIdentifier: 'RC10',
+  InvalidIntermediaryAgent: 'RC11',
+  MissingCreditorSchemeId: 'RC12',
+  ReceiverCustomerInformation: 'RECI',
+  NotUniqueTransactionReference: 'RF01',
+  MissingDebtorAccountOrIdentification: 'RR01',
+  MissingDebtorNameOrAddress: 'RR02',
+  MissingCreditorNameOrAddress: 'RR03',
+  RegulatoryReason: 'RR04',
+  RegulatoryInformationInvalid: 'RR05',
+  TaxInformationInvalid: 'RR06',
+  RemittanceInformationInvalid: 'RR07',
+  RemittanceInformationTruncated: 'RR08',
+  InvalidStructuredCreditorReference: 'RR09',
+  InvalidCharacterSet: 'RR10',
+  InvalidDebtorAgentServiceID: 'RR11',
+  InvalidPartyID: 'RR12',
+  ReturnUponUnableToApply: 'RUTA',
+  SpecificServiceOfferedByDebtorAgent: 'SL01',
+  SpecificServiceOfferedByCreditorAgent: 'SL02',
+  CreditorNotOnWhitelistOfDebtor: 'SL11',
+  CreditorOnBlacklistOfDebtor: 'SL12',
+  MaximumNumberOfDirectDebitTransactionsExceeded: 'SL13',
+  MaximumDirectDebitTransactionAmountExceeded: 'SL14',
+  RTPServiceProviderIdentifierIncorrect: 'SPII',
+  TransmissionAborted: 'TA01',
+  NoDataAvailable: 'TD01',
+  FileNonReadable: 'TD02',
+  IncorrectFileStructure: 'TD03',
+  TokenInvalid: 'TK01',
+  SenderTokenNotFound: 'TK02',
+  ReceiverTokenNotFound: 'TK03',
+  TokenMissing: 'TK09',
+  TokenCounterpartyMismatch: 'TKCM',
+  TokenSingleUse: 'TKSG',
+  TokenSuspended: 'TKSP',
+  TokenValueLimitExceeded: 'TKVE',
+  TokenExpired: 'TKXP',
+  InvalidCutOffTime: 'TM01',
+  TransmissionSuccessful: 'TS01',
+  TransferToSignByHand: 'TS04',
+  UnknownCreditor: 'UCRD',
+  UnduePayment: 'UPAY',
+} as const;
+
+/**
+ * Description mapping of StatusReasonCode values to their names.
+ */
+export const StatusReasonCodeDescriptionMap = {
+  'AB01': 'Aborted Clearing Timeout',
+  'AB02': 'Aborted Clearing Fatal Error',
+  'AB03': 'Aborted Settlement Timeout',
+  'AB04': 'Aborted Settlement Fatal Error',
+  'AB05': 'Timeout Creditor Agent',
+  'AB06': 'Timeout Instructed Agent',
+  'AB07': 'Offline Agent',
+  'AB08': 'Offline Creditor Agent',
+  'AB09': 'Error Creditor Agent',
+  'AB10': 'Error Instructed Agent',
+  'AB11': 'Timeout Debtor Agent',
+  'AC01': 'Incorrect Account Number',
+  'AC02': 'Invalid Debtor Account Number',
+  'AC03': 'Invalid Creditor Account Number',
+  'AC04': 'Closed Account Number',
+  'AC05': 'Closed Debtor Account Number',
+  'AC06': 'Blocked Account',
+  'AC07': 'Closed Creditor Account Number',
+  'AC08': 'Invalid Branch Code',
+  'AC09': 'Invalid Account Currency',
+  'AC10': 'Invalid Debtor Account Currency',
+  'AC11': 'Invalid Creditor Account Currency',
+  'AC12': 'Invalid Account Type',
+  'AC13': 'Invalid Debtor Account Type',
+  'AC14': 'Invalid Creditor Account Type',
+  'AC15': 'Account Details Changed',
+  'AC16': 'Card Number Invalid',
+  'AEXR': 'Already Expired RTP',
+  'AG01': 'Transaction Forbidden',
+  'AG02': 'Invalid Bank Operation Code',
+  'AG03': 'Transaction Not Supported',
+  'AG04': 'Invalid Agent Country',
+  'AG05': 'Invalid Debtor Agent Country',
+  'AG06': 'Invalid Creditor Agent Country',
+  'AG07': 'Unsuccessful Direct Debit',
+  'AG08': 'Invalid Access Rights',
+  'AG09': 'Payment Not Received',
+  'AG10': 'Agent Suspended',
+  'AG11': 'Creditor Agent Suspended',
+  'AG12': 'Not Allowed Book Transfer',
+  'AG13': 'Forbidden Return Payment',
+  'AGNT': 'Incorrect Agent',
+  'ALAC': 'Already Accepted RTP',
+  'AM01': 'Zero Amount',
+  'AM02': 'Not Allowed Amount',
+  'AM03': 'Not Allowed Currency',
+  'AM04': 'Insufficient Funds',
+  'AM05': 'Duplication',
+  'AM06': 'Too Low Amount',
+  'AM07': 'Blocked Amount',
+  'AM09': 'Wrong Amount',
+  'AM10': 'Invalid Control Sum',
+  'AM11': 'Invalid Transaction Currency',
+  'AM12': 'Invalid Amount',
+  'AM13': 'Amount Exceeds Clearing System Limit',
+  'AM14': 'Amount Exceeds Agreed Limit',
+  'AM15': 'Amount Below Clearing System Minimum',
+  'AM16': 'Invalid Group Control Sum',
+  'AM17': 'Invalid Payment Info Control Sum',
+  'AM18': 'Invalid Number Of Transactions',
+  'AM19': 'Invalid Group Number Of Transactions',
+  'AM20': 'Invalid Payment Info Number Of Transactions',
+  'AM21': 'Limit Exceeded',
+  'AM22': 'Zero Amount Not Applied',
+  'AM23': 'Amount Exceeds Settlement Limit',
+  'APAR': 'Already Paid RTP',
+  'ARDT': 'Already Returned Transaction',
+  'ARJR': 'Already Rejected RTP',
+  'BE01': 'Inconsistent With End Customer',
+  'BE04': 'Missing Creditor Address',
+  'BE05': 'Unrecognised Initiating Party',
+  'BE06': 'Unknown End Customer',
+  'BE07': 'Missing Debtor Address',
+  'BE08': 'Missing Debtor Name',
+  'BE09': 'Invalid Country',
+  'BE10': 'Invalid Debtor Country',
+  'BE11': 'Invalid Creditor Country',
+  'BE12': 'Invalid Country Of Residence',
+  'BE13': 'Invalid Debtor Country Of Residence',
+  'BE14': 'Invalid Creditor Country Of Residence',
+  'BE15': 'Invalid Identification Code',
+  'BE16': 'Invalid Debtor Identification Code',
+  'BE17': 'Invalid Creditor Identification Code',
+  'BE18': 'Invalid Contact Details',
+  'BE19': 'Invalid Charge Bearer Code',
+  'BE20': 'Invalid Name Length',
+  'BE21': 'Missing Name',
+  'BE22': 'Missing Creditor Name',
+  'BE23': 'Account Proxy Invalid',
+  'CERI': 'Check ERI',
+  'CH03': 'Requested Execution Date Too Far In Future',
+  'CH04': 'Requested Execution Date Too Far In Past',
+  'CH07': 'Element Is Not To Be Used At B And C Level',
+  'CH09': 'Mandate Changes Not Allowed',
+  'CH10': 'Information On Mandate Changes Missing',
+  'CH11': 'Creditor Identifier Incorrect',
+  'CH12': 'Creditor Identifier Not Unambiguously At Transaction Level',
+  'CH13': 'Original Debtor Account Is Not To Be Used',
+  'CH14': 'Original Debtor Agent Is Not To Be Used',
+  'CH15': 'Element Content Includes More Than 140 Characters',
+  'CH16': 'Element Content Formally Incorrect',
+  'CH17': 'Element Not Admitted',
+  'CH19': 'Values Will Be Set To Next TARGET Day',
+  'CH20': 'Decimal Points Not Compatible With Currency',
+  'CH21': 'Required Compulsory Element Missing',
+  'CH22': 'Core And B2B Within One Message',
+  'CHQC': 'Cheque Settled On Creditor Account',
+  'CN01': 'Authorisation Cancelled',
+  'CNOR': 'Creditor Bank Is Not Registered',
+  'CURR': 'Incorrect Currency',
+  'CUST': 'Requested By Customer',
+  'DNOR': 'Debtor Bank Is Not Registered',
+  'DS01': 'Electronic Signatures Correct',
+  'DS02': 'Order Cancelled',
+  'DS03': 'Order Not Cancelled',
+  'DS04': 'Order Rejected',
+  'DS05': 'Order Forwarded',
+  'DS06': 'Transfer Order',
+  'DS07': 'Processing OK',
+  'DS08': 'Decompression Error',
+  'DS09': 'Decryption Error',
+  'DS0A': 'Data Sign Requested',
+  'DS0B': 'Unknown Data Sign Format',
+  'DS0C': 'Signer Certificate Revoked',
+  'DS0D': 'Signer Certificate Not Valid',
+  'DS0E': 'Incorrect Signer Certificate',
+  'DS0F': 'Signer Certification Authority Signer Not Valid',
+  'DS0G': 'Not Allowed Payment',
+  'DS0H': 'Not Allowed Account',
+  'DS0K': 'Not Allowed Number Of Transaction',
+  'DS10': 'Signer 1 Certificate Revoked',
+  'DS11': 'Signer 1 Certificate Not Valid',
+  'DS12': 'Incorrect Signer 1 Certificate',
+  'DS13': 'Signer Certification Authority Signer 1 Not Valid',
+  'DS14': 'User Does Not Exist',
+  'DS15': 'Identical Signature Found',
+  'DS16': 'Public Key Version Incorrect',
+  'DS17': 'Different Order Data In Signatures',
+  'DS18': 'Repeat Order',
+  'DS19': 'Electronic Signature Rights Insufficient',
+  'DS20': 'Signer 2 Certificate Revoked',
+  'DS21': 'Signer 2 Certificate Not Valid',
+  'DS22': 'Incorrect Signer 2 Certificate',
+  'DS23': 'Signer Certification Authority Signer 2 Not Valid',
+  'DS24': 'Waiting Time Expired',
+  'DS25': 'Order File Deleted',
+  'DS26': 'User Signed Multiple Times',
+  'DS27': 'User Not Yet Activated',
+  'DT01': 'Invalid Date',
+  'DT02': 'Invalid Creation Date',
+  'DT03': 'Invalid Non Processing Date',
+  'DT04': 'Future Date Not Supported',
+  'DT05': 'Invalid Cut Off Date',
+  'DT06': 'Execution Date Changed',
+  'DU01': 'Duplicate Message ID',
+  'DU02': 'Duplicate Payment Information ID',
+  'DU03': 'Duplicate Transaction',
+  'DU04': 'Duplicate End To End ID',
+  'DU05': 'Duplicate Instruction ID',
+  'DUPL': 'Duplicate Payment',
+  'ED01': 'Correspondent Bank Not Possible',
+  'ED03': 'Balance Info Request',
+  'ED05': 'Settlement Failed',
+  'ED06': 'Settlement System Not Available',
+  'EDTL': 'Expiry Date Too Long',
+  'EDTR': 'Expiry Date Time Reached',
+  'ERIN': 'ERI Option Not Supported',
+  'FF01': 'Invalid File Format',
+  'FF02': 'Syntax Error',
+  'FF03': 'Invalid Payment Type Information',
+  'FF04': 'Invalid Service Level Code',
+  'FF05': 'Invalid Local Instrument Code',
+  'FF06': 'Invalid Category Purpose Code',
+  'FF07': 'Invalid Purpose',
+  'FF08': 'Invalid End To End Id',
+  'FF09': 'Invalid Cheque Number',
+  'FF10': 'Bank System Processing Error',
+  'FF11': 'Clearing Request Aborted',
+  'FF12': 'Original Transaction Not Eligible For Requested Return',
+  'FF13': 'Request For Cancellation Not Found',
+  'FOCR': 'Following Cancellation Request',
+  'FR01': 'Fraud',
+  'G000': 'Payment Transferred And Tracked',
+  'G001': 'Payment Transferred And Not Tracked',
+  'G002': 'Credit Debit Not Confirmed',
+  'G003': 'Credit Pending Documents',
+  'G004': 'Credit Pending Funds',
+  'G005': 'Delivered With Service Level',
+  'G006': 'Delivered Without Service Level',
+  'ID01': 'Corresponding Original File Still Not Sent',
+  'MD01': 'No Mandate',
+  'MD02': 'Missing Mandatory Information In Mandate',
+  'MD05': 'Collection Not Due',
+  'MD06': 'Refund Request By End Customer',
+  'MD07': 'End Customer Deceased',
+  'MS02': 'Not Specified Reason Customer Generated',
+  'MS03': 'Not Specified Reason Agent Generated',
+  'NARR': 'Narrative',
+  'NERI': 'No ERI',
+  'NOAS': 'No Answer From Customer',
+  'NOOR': 'No Original Transaction Received',
+  'RC01': 'Bank Identifier Incorrect',
+  'RC02': 'Invalid Bank Identifier',
+  'RC03': 'Invalid Debtor Bank Identifier',
+  'RC04': 'Invalid Creditor Bank Identifier',
+  'RC05': 'Invalid BIC Identifier',
+  'RC06': 'Invalid Debtor BIC Identifier',
+  'RC07': 'Invalid Creditor BIC Identifier',
+  'RC08': 'Invalid Clearing System Member Identifier',
+  'RC09': 'Invalid Debtor Clearing System Member Identifier',
+  'RC10': 'Invalid Creditor Clearing System Member Identifier',
+  'RC11': 'Invalid Intermediary Agent',
+  'RC12': 'Missing Creditor Scheme Id',
+  'RECI': 'Receiver Customer Information',
+  'RF01': 'Not Unique Transaction Reference',
+  'RR01': 'Missing Debtor Account Or Identification',
+  'RR02': 'Missing Debtor Name Or Address',
+  'RR03': 'Missing Creditor Name Or Address',
+  'RR04': 'Regulatory Reason',
+  'RR05': 'Regulatory Information Invalid',
+  'RR06': 'Tax Information Invalid',
+  'RR07': 'Remittance Information Invalid',
+  'RR08': 'Remittance Information Truncated',
+  'RR09': 'Invalid Structured Creditor Reference',
+  'RR10': 'Invalid Character Set',
+  'RR11': 'Invalid Debtor Agent Service ID',
+  'RR12': 'Invalid Party ID',
+  'RUTA': 'Return Upon Unable To Apply',
+  'SL01': 'Specific Service Offered By Debtor Agent',
+  'SL02': 'Specific Service Offered By Creditor Agent',
+  'SL11': 'Creditor Not On Whitelist Of Debtor',
+  'SL12': 'Creditor On Blacklist Of Debtor',
+  'SL13': 'Maximum Number Of Direct Debit Transactions Exceeded',
+  'SL14': 'Maximum Direct Debit Transaction Amount Exceeded',
+  'SPII': 'RTP Service Provider Identifier Incorrect',
+  'TA01': 'Transmission Aborted',
+  'TD01': 'No Data Available',
+  'TD02': 'File Non Readable',
+  'TD03': 'Incorrect File Structure',
+  'TK01': 'Token Invalid',
+  'TK02': 'Sender Token Not Found',
+  'TK03': 'Receiver Token Not Found',
+  'TK09': 'Token Missing',
+  'TKCM': 'Token Counterparty Mismatch',
+  'TKSG': 'Token Single Use',
+  'TKSP': 'Token Suspended',
+  'TKVE': 'Token Value Limit Exceeded',
+  'TKXP': 'Token Expired',
+  'TM01': 'Invalid Cut Off Time',
+  'TS01': 'Transmission Successful',
+  'TS04': 'Transfer To Sign By Hand',
+  'UCRD': 'Unknown Creditor',
+  'UPAY': 'Undue Payment',
+};
+
+export type StatusReason =
+  (typeof StatusReasonCode)[keyof typeof StatusReasonCode];
+
 /**
  * Represents the base structure for status information in a payment status report.
  */
@@ -41,8 +623,8 @@ export interface BaseStatusInformation {
   status: PaymentStatus;
   /** Optional reason for the status. */
   reason?: {
-    /** Optional reason code. */
-    code?: string;
+    /** Optional reason code, usually one of StatusReasonCode. Banks may send codes outside the catalogue. */
+    code?: StatusReason | (string & {});
     /** Optional additional information about the reason. */
     additionalInformation?: string;
   };
@@ -76,6 +658,66 @@ export interface TransactionStatusInformation extends BaseStatusInformation {
   type: 'transaction';
   /** The original end-to-end ID associated with the transaction. */
   originalEndToEndId: string;
+  /** The original payment ID of the payment the transaction belongs to. */
+  originalPaymentId?: string;
+  /** The original instruction ID associated with the transaction. */
+  originalInstructionId?: string;
+  /** The original unique end-to-end transaction reference (UETR). Only written from pain.002.001.09 onwards. */
+  originalUETR?: string;
+  /** Identifier assigned by the reporting party to the status report of the transaction. */
+  statusId?: string;
+  /** Date and time at which the transaction was accepted. */
+  acceptanceDateTime?: Date;
+  /** Reference assigned by the account servicing institution to the transaction. */
+  accountServicerReferenceId?: string;
+  /** Reference assigned by the clearing system to the transaction. */
+  clearingSystemReferenceId?: string;
+  /** Charges applied to the transaction. Parsed only, not written when serializing. */
+  charges?: ChargesInformation[];
+  /** Details of the original transaction, as echoed back by the bank. Parsed only, not written when serializing. */
+  originalTransactionReference?: OriginalTransactionReference;
+}
+
+/**
+ * Represents the charges applied to a transaction in a payment status report.
+ */
+export interface ChargesInformation {
+  /** The amount of the charges, in minor units. */
+  amount: number;
+  /** The currency of the charges. */
+  currency: Currency;
+  /** The agent that took the charges. */
+  agent?: Agent;
+  /** The type of the charges, e.g. 'COMM'. */
+  type?: string;
+}
+
+/**
+ * Represents the details of the original transaction a status is reported on.
+ */
+export interface OriginalTransactionReference {
+  /** The original amount, in minor units. */
+  amount?: number;
+  /** The currency of the original amount. */
+  currency?: Currency;
+  /** The original requested execution date. */
+  requestedExecutionDate?: Date;
+  /** The original requested collection date, for direct debits. */
+  requestedCollectionDate?: Date;
+  /** The original payment method, e.g. 'TRF'. */
+  paymentMethod?: string;
+  /** The original unstructured remittance information. */
+  remittanceInformation?: string;
+  /** The original structured remittance information, amounts in minor units. */
+  structuredRemittanceInformation?: StructuredRemittance[];
+  /** The original ultimate debtor. */
+  ultimateDebtor?: Party;
+  /** The original debtor, with its account and agent. */
+  debtor?: Party;
+  /** The original creditor, with its account and agent. */
+  creditor?: Party;
+  /** The original ultimate creditor. */
+  ultimateCreditor?: Party;
 }
 
 /**
@@ -85,3 +727,41 @@ export type StatusInformation =
   | GroupStatusInformation
   | PaymentStatusInformation
   | TransactionStatusInformation;
+
+/**
+ * Statuses after which no further status update is expected for a payment.
+ */
+const FinalPaymentStatuses: PaymentStatus[] = [
+  PaymentStatusCode.AcceptedCreditSettlementCompleted,
+  PaymentStatusCode.AcceptedSettlementCompleted,
+  PaymentStatusCode.AcceptedAndChequeIssued,
+  PaymentStatusCode.CashPickedUpByCreditor,
+  PaymentStatusCode.Rejected,
+  PaymentStatusCode.Cancelled,
+];
+
+/**
+ * Whether the status is final, meaning no further status update is expected.
+ * @param {Pick<BaseStatusInformation, 'status'>} statusInformation - The status information.
+ * @returns {boolean} True for settled, rejected and cancelled statuses.
+ */
+export const isFinal = (statusInformation: Pick<BaseStatusInformation, 'status'>): boolean =>
+  FinalPaymentStatuses.includes(statusInformation.status);
+
+/**
+ * Whether the payment, group or transaction has been rejected.
+ * @param {Pick<BaseStatusInformation, 'status'>} statusInformation - The status information.
+ * @returns {boolean} True for the RJCT status.
+ */
+export const isRejected = (statusInformation: Pick<BaseStatusInformation, 'status'>): boolean =>
+  statusInformation.status === PaymentStatusCode.Rejected;
+
+/**
+ * Whether the payment, group or transaction has been successfully completed.
+ * @param {Pick<BaseStatusInformation, 'status'>} statusInformation - The status information.
+ * @returns {boolean} True for final statuses other than rejected and cancelled.
+ */
+export const isSuccessful = (statusInformation: Pick<BaseStatusInformation, 'status'>): boolean =>
+  isFinal(statusInformation) &&
+  !isRejected(statusInformation) &&
+  statusInformation.status !== PaymentStatusCode.Cancelled;
@@ -1,34 +1,23 @@
 import {
   PaymentStatus,
+  BaseStatusInformation,
   GroupStatusInformation,
   PaymentStatusInformation,
   TransactionStatusInformation,
   PaymentStatusCode,
+  ChargesInformation,
+  OriginalTransactionReference,
 } from './types';
-import { parseAdditionalInformation } from '../../parseUtils';
+import { IBANAccount, Party } from '../../lib/types';
+import { Alpha2Country } from '../../lib/countries';
+import { parseAccount, parseAdditionalInformation, parseAmountToMinorUnits, parseDate, parseOptionalAgent, parseStructuredRemittance } from '../../parseUtils';
+import { PaymentInitiation } from '../001/payment-initiation';
 
-// NOTE: Consider not even using this switch statement.
 const parseStatus = (status: string): PaymentStatus => {
-  switch (status) {
-    case PaymentStatusCode.Rejected:
-      return PaymentStatusCode.Rejected;
-    case PaymentStatusCode.PartiallyAccepted:
-      return PaymentStatusCode.PartiallyAccepted;
-    case PaymentStatusCode.Pending:
-      return PaymentStatusCode.Pending;
-    case PaymentStatusCode.Accepted:
-      return PaymentStatusCode.Accepted;
-    case PaymentStatusCode.AcceptedSettlementInProgress:
-      return PaymentStatusCode.AcceptedSettlementInProgress;
-    case PaymentStatusCode.AcceptedCreditSettlementCompleted:
-      return PaymentStatusCode.AcceptedCreditSettlementCompleted;
-    case PaymentStatusCode.AcceptedSettlementCompleted:
-      return PaymentStatusCode.AcceptedSettlementCompleted;
-    case PaymentStatusCode.AcceptedTechnicalValidation:
-      return PaymentStatusCode.AcceptedTechnicalValidation;
-    default:
-      throw new Error(`Unknown status: ${status}`);
+  if (!(Object.values(PaymentStatusCode) as string[]).includes(status)) {
+    throw new Error(`Unknown status: ${status}`);
   }
+  return status as PaymentStatus;
 };
 
 export const parseGroupStatusInformation = (
@@ -75,16 +64,28 @@ export const parsePaymentStatusInformations = (
 
 export const parseTransactionStatusInformations = (
   allTxnsInfoAndStatuses: any[],
+  originalPaymentId?: string,
 ): TransactionStatusInformation[] => {
   const transactionStatuses = allTxnsInfoAndStatuses.map((transaction: any) => {
     return {
       type: 'transaction' as const,
       originalEndToEndId: transaction.OrgnlEndToEndId,
+      ...(originalPaymentId !== undefined && { originalPaymentId }),
+      ...(transaction.OrgnlInstrId !== undefined && { originalInstructionId: transaction.OrgnlInstrId.toString() as string }),
+      ...(transaction.OrgnlUETR !== undefined && { originalUETR: transaction.OrgnlUETR.toString() as string }),
+      ...(transaction.StsId !== undefined && { statusId: transaction.StsId.toString() as string }),
+      ...(transaction.AccptncDtTm !== undefined && { acceptanceDateTime: new Date(transaction.AccptncDtTm) }),
+      ...(transaction.AcctSvcrRef !== undefined && { accountServicerReferenceId: transaction.AcctSvcrRef.toString() as string }),
+      ...(transaction.ClrSysRef !== undefined && { clearingSystemReferenceId: transaction.ClrSysRef.toString() as string }),
+      ...(transaction.ChrgsInf !== undefined && { charges: toArray(transaction.ChrgsInf).map(parseChargesInformation) }),
+      ...(transaction.OrgnlTxRef !== undefined && {
+        originalTransactionReference: parseOriginalTransactionReference(transaction.OrgnlTxRef),
+      }),
       status: parseStatus(transaction.TxSts),
       reason: {
         code: transaction.StsRsnInf?.Rsn?.Cd,
         additionalInformation: parseAdditionalInformation(
-          transaction.StsRsnInf?.Rsn?.AddtlInf,
+          transaction.StsRsnInf?.AddtlInf ?? transaction.StsRsnInf?.Rsn?.AddtlInf,
         ),
       },
     };
@@ -92,3 +93,146 @@ export const parseTransactionStatusInformations = (
 
   return transactionStatuses;
 };
+
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : [value]);
+
+const parseAmount = (rawAmount: any) => ({
+  amount: parseAmountToMinorUnits(rawAmount['#text'], rawAmount['@_Ccy']),
+  currency: rawAmount['@_Ccy'],
+});
+
+const parseChargesInformation = (rawCharges: any): ChargesInformation => {
+  const agent = parseOptionalAgent(rawCharges.Agt);
+  const type = rawCharges.Tp?.Cd || rawCharges.Tp?.Prtry?.Id;
+  return {
+    ...parseAmount(rawCharges.Amt),
+    ...(agent && { agent }),
+    ...(type && { type }),
+  };
+};
+
+// Newer versions wrap parties in a Pty / Agt choice
+const parseOriginalParty = (rawParty: any, rawAccount?: any, rawAgent?: any): Party | undefined => {
+  const party = rawParty?.Pty || rawParty;
+  const address = PaymentInitiation.parsePostalAddress(party?.PstlAdr);
+  const agent = parseOptionalAgent(rawAgent);
+  const result: Party = {
+    ...(party?.Nm !== undefined && { name: party.Nm.toString() as string }),
+    ...(address && { address }),
+    ...(rawAccount?.Id && { account: parseAccount(rawAccount) }),
+    ...(agent && { agent }),
+  };
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+const parseOriginalTransactionReference = (rawReference: any): OriginalTransactionReference => {
+  const rawAmount = rawReference.Amt?.InstdAmt || rawReference.Amt?.EqvtAmt?.Amt;
+  const ultimateDebtor = parseOriginalParty(rawReference.UltmtDbtr);
+  const debtor = parseOriginalParty(rawReference.Dbtr, rawReference.DbtrAcct, rawReference.DbtrAgt);
+  const creditor = parseOriginalParty(rawReference.Cdtr, rawReference.CdtrAcct, rawReference.CdtrAgt);
+  const ultimateCreditor = parseOriginalParty(rawReference.UltmtCdtr);
+  const remittanceInformation = rawReference.RmtInf?.Ustrd;
+  const structuredRemittanceInformation = rawReference.RmtInf?.Strd;
+
+  return {
+    ...(rawAmount && parseAmount(rawAmount)),
+    ...(rawReference.ReqdExctnDt && { requestedExecutionDate: parseDate(rawReference.ReqdExctnDt) }),
+    ...(rawReference.ReqdColltnDt && { requestedCollectionDate: parseDate(rawReference.ReqdColltnDt) }),
+    ...(rawReference.PmtMtd && { paymentMethod: rawReference.PmtMtd as string }),
+    ...(remittanceInformation !== undefined && {
+      remittanceInformation: toArray(remittanceInformation).join(' '),
+    }),
+    ...(structuredRemittanceInformation !== undefined && {
+      structuredRemittanceInformation: toArray(structuredRemittanceInformation).map(rawRemittance => parseStructuredRemittance(
+        rawRemittance,
+        {},
+        (creditor?.account as IBANAccount | undefined)?.iban?.slice(0, 2) as Alpha2Country | undefined,
+      )),
+    }),
+    ...(ultimateDebtor && { ultimateDebtor }),
+    ...(debtor && { debtor }),
+    ...(creditor && { creditor }),
+    ...(ultimateCreditor && { ultimateCreditor }),
+  };
+};
+
+const exportStatusReason = (
+  reason: BaseStatusInformation['reason'],
+): any => {
+  if (!reason?.code && !reason?.additionalInformation) {
+    return undefined;
+  }
+  return {
+    Rsn: reason.code ? { Cd: reason.code } : undefined,
+    AddtlInf: reason.additionalInformation,
+  };
+};
+
+export const exportGroupStatusInformation = (
+  originalMessageId: string,
+  originalMessageNameId: string,
+  groupStatus?: GroupStatusInformation,
+): any => {
+  return {
+    OrgnlMsgId: originalMessageId,
+    OrgnlMsgNmId: originalMessageNameId,
+    GrpSts: groupStatus?.status,
+    StsRsnInf: exportStatusReason(groupStatus?.reason),
+  };
+};
+
+/**
+ * Nests payment and transaction statuses into OrgnlPmtInfAndSts elements.
+ * Transactions are placed under the payment they belong to, falling back to the first payment.
+ * @param {PaymentStatusInformation[]} paymentStatuses - The payment statuses.
+ * @param {TransactionStatusInformation[]} transactionStatuses - The transaction statuses.
+ * @param {number} [version=3] - The numeric message version, e.g. 14 for pain.002.001.14.
+ * @returns {any[]} The OrgnlPmtInfAndSts elements, in order of first appearance.
+ * @throws {Error} If a transaction status can not be placed under a payment.
+ */
+export const exportPaymentStatusInformations = (
+  paymentStatuses: PaymentStatusInformation[],
+  transactionStatuses: TransactionStatusInformation[],
+  version: number = 3,
+): any[] => {
+  const payments = new Map<string, any>();
+  const getPayment = (originalPaymentId: string) => {
+    if (!payments.has(originalPaymentId)) {
+      payments.set(originalPaymentId, { OrgnlPmtInfId: originalPaymentId });
+    }
+    return payments.get(originalPaymentId);
+  };
+
+  paymentStatuses.forEach(paymentStatus => {
+    const payment = getPayment(paymentStatus.originalPaymentId);
+    payment.PmtInfSts = paymentStatus.status;
+    payment.StsRsnInf = exportStatusReason(paymentStatus.reason);
+  });
+
+  transactionStatuses.forEach(transactionStatus => {
+    const originalPaymentId = transactionStatus.originalPaymentId || paymentStatuses[0]?.originalPaymentId;
+    if (!originalPaymentId) {
+      throw new Error(
+        `originalPaymentId is required for transaction ${transactionStatus.originalEndToEndId} when the report has no payment status`,
+      );
+    }
+    const payment = getPayment(originalPaymentId);
+    payment.TxInfAndSts = [
+      ...(payment.TxInfAndSts || []),
+      {
+        StsId: transactionStatus.statusId,
+        OrgnlInstrId: transactionStatus.originalInstructionId,
+        OrgnlEndToEndId: transactionStatus.originalEndToEndId,
+        // The UETR was introduced in version 9
+        OrgnlUETR: version >= 9 ? transactionStatus.originalUETR : undefined,
+        TxSts: transactionStatus.status,
+        StsRsnInf: exportStatusReason(transactionStatus.reason),
+        AccptncDtTm: transactionStatus.acceptanceDateTime?.toISOString(),
+        AcctSvcrRef: transactionStatus.accountServicerReferenceId,
+        ClrSysRef: transactionStatus.clearingSystemReferenceId,
+      },
+    ];
+  });
+
+  return Array.from(payments.values());
+};
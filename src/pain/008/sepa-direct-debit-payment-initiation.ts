@@ -0,0 +1,629 @@
+import {
+  Account,
+  Agent,
+  BICAgent,
+  DirectDebitPaymentInformation,
+  ExternalCategoryPurpose,
+  IBANAccount,
+  MandateInformation,
+  Party,
+  SEPADirectDebitLocalInstrument,
+  SEPADirectDebitLocalInstrumentCode,
+  SEPADirectDebitPaymentInstruction,
+  SEPADirectDebitSequenceType,
+  SEPADirectDebitSequenceTypeCode,
+} from '../../lib/types';
+import { PaymentInitiation } from '../001/payment-initiation';
+import { GenericISO20022Message, ISO20022Messages, ISO20022MessageTypeName, registerISO20022Implementation, XML } from '../../lib/interfaces';
+import { sanitize } from '../../utils/format';
+import { Currency } from '../../lib/currency';
+import { formatAmount, sumAmounts } from '../../dinero-helpers';
+import { v4 as uuidv4 } from 'uuid';
+import { InvalidPaymentInstructionError, InvalidXmlError, InvalidXmlNamespaceError } from '../../errors';
+import { parseAccount, parseAgent, parseAmountToMinorUnits } from '../../parseUtils';
+import { Alpha2Country } from '../../lib/countries';
+
+type AtLeastOne<T> = [T, ...T[]];
+
+/**
+ * Configuration for SEPA Direct Debit Payment Initiation.
+ *
+ * @property {Party} initiatingParty - The creditor collecting the direct debits. Its account and agent receive the funds.
+ * @property {AtLeastOne<SEPADirectDebitPaymentInstruction>} paymentInstructions - An array containing at least one direct debit instruction.
+ * @property {string} creditorSchemeId - The SEPA creditor identifier assigned to the creditor.
+ * @property {string} [messageId] - Optional unique identifier for the message. If not provided, a UUID will be generated.
+ * @property {Date} [creationDate] - Optional creation date for the message. If not provided, current date will be used.
+ * @property {Date} [requestedCollectionDate] - Optional date on which the debtors are debited. If not provided, the creation date will be used.
+ * @property {SEPADirectDebitSequenceType} [sequenceType] - Optional sequence type of the collections. If not provided, 'OOFF' (One Off) will be used.
+ * @property {SEPADirectDebitLocalInstrument} [localInstrument] - Optional direct debit scheme. If not provided, 'CORE' will be used.
+ * @property {ExternalCategoryPurpose} [categoryPurpose] - Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard.
+ */
+export interface SEPADirectDebitPaymentInitiationConfig {
+  /** The creditor collecting the direct debits. Its account and agent receive the funds. */
+  initiatingParty: Party;
+  /** An array containing at least one direct debit instruction. */
+  paymentInstructions: AtLeastOne<SEPADirectDebitPaymentInstruction>;
+  /** The SEPA creditor identifier assigned to the creditor. */
+  creditorSchemeId: string;
+  /** Optional unique identifier for the message. If not provided, a UUID will be generated. */
+  messageId?: string;
+  /** Optional creation date for the message. If not provided, current date will be used. */
+  creationDate?: Date;
+  /** Optional date on which the debtors are debited. If not provided, the creation date will be used. */
+  requestedCollectionDate?: Date;
+  /** Optional sequence type of the collections. If not provided, 'OOFF' (One Off) will be used. */
+  sequenceType?: SEPADirectDebitSequenceType;
+  /** Optional direct debit scheme. If not provided, 'CORE' will be used. */
+  localInstrument?: SEPADirectDebitLocalInstrument;
+  /** Optional category purpose code following ISO20022 ExternalCategoryPurpose1Code standard */
+  categoryPurpose?: ExternalCategoryPurpose;
+}
+
+/**
+ * Represents a SEPA Direct Debit Payment Initiation (pain.008.001.11).
+ * This class handles the creation and serialization of SEPA direct debit messages
+ * according to the ISO20022 standard.
+ * @class
+ * @extends PaymentInitiation
+ * @param {SEPADirectDebitPaymentInitiationConfig} config - The configuration for the SEPA Direct Debit Payment Initiation message.
+ * @example
+ * ```typescript
+ * // Creating a direct debit message
+ * const collection = new SEPADirectDebitPaymentInitiation({
+ *   initiatingParty: {
+ *     name: 'Electrical',
+ *     id: 'ELECTRIC',
+ *     account: { iban: 'ES9121000418450200051332' },
+ *     agent: { bic: 'BSCHESMMXXX' },
+ *   },
+ *   creditorSchemeId: 'ES29000B12345678',
+ *   sequenceType: 'RCUR',
+ *   paymentInstructions: [{
+ *     type: 'sepa',
+ *     direction: 'debit',
+ *     amount: 1999, // €19.99
+ *     currency: 'EUR',
+ *     debtor: {
+ *       name: 'Dáel Muñiz',
+ *       account: { iban: 'ES3701822200150201504058' },
+ *       agent: { bic: 'BBVAESMMXXX' },
+ *     },
+ *     mandate: {
+ *       mandateId: 'MANDATE-0001',
+ *       dateOfSignature: new Date('2025-01-15'),
+ *     },
+ *     remittanceInformation: 'Subscription March 2025',
+ *   }],
+ * });
+ * // Parsing from XML
+ * const parsedCollection = SEPADirectDebitPaymentInitiation.fromXML(collection.serialize());
+ * ```
+ */
+export class SEPADirectDebitPaymentInitiation extends PaymentInitiation implements GenericISO20022Message {
+  public initiatingParty: Party;
+  public messageId: string;
+  public creationDate: Date;
+  public requestedCollectionDate: Date;
+  public paymentInstructions: AtLeastOne<SEPADirectDebitPaymentInstruction>;
+  public paymentInformations: AtLeastOne<DirectDebitPaymentInformation<SEPADirectDebitPaymentInstruction>>;
+  public paymentInformationId: string;
+  public creditorSchemeId: string;
+  public sequenceType: SEPADirectDebitSequenceType;
+  public localInstrument: SEPADirectDebitLocalInstrument;
+  public categoryPurpose?: ExternalCategoryPurpose;
+  private formattedPaymentSum: string;
+
+  /**
+   * Creates an instance of SEPADirectDebitPaymentInitiation.
+   * @param {SEPADirectDebitPaymentInitiationConfig} config - The configuration object for the SEPA direct debit.
+   */
+  constructor(config: SEPADirectDebitPaymentInitiationConfig) {
+    super({ type: "sepa" });
+    this.initiatingParty = config.initiatingParty;
+    this.paymentInstructions = config.paymentInstructions;
+    this.creditorSchemeId = config.creditorSchemeId;
+    this.messageId = config.messageId || uuidv4().replace(/-/g, '');
+    this.creationDate = config.creationDate || new Date();
+    this.requestedCollectionDate = config.requestedCollectionDate || this.creationDate;
+    this.sequenceType = config.sequenceType || SEPADirectDebitSequenceTypeCode.OneOff;
+    this.localInstrument = config.localInstrument || SEPADirectDebitLocalInstrumentCode.Core;
+    this.categoryPurpose = config.categoryPurpose;
+    this.validate();
+    this.formattedPaymentSum = sumAmounts(
+      this.paymentInstructions.map(i => i.amount),
+      this.paymentInstructions[0].currency,
+    );
+    this.paymentInformations = this.groupDirectDebits(this.paymentInstructions);
+    this.paymentInformationId = this.paymentInformations[0].id;
+  }
+
+  /**
+   * Validates the payment initiation data according to SEPA Direct Debit requirements.
+   * @private
+   * @throws {Error} If messageId exceeds 35 characters.
+   * @throws {Error} If the creditor scheme identifier is missing or exceeds 35 characters.
+   * @throws {InvalidPaymentInstructionError} If the creditor agent has no BIC.
+   * @throws {Error} If any payment instruction does not use EUR.
+   * @throws {Error} If any debtor is missing a name or IBAN.
+   * @throws {Error} If any mandate is incomplete.
+   * @throws {Error} If an instruction has more than one structured remittance information, or both structured and unstructured.
+   */
+  private validate() {
+    if (this.messageId.length > 35) {
+      throw new Error('messageId must not exceed 35 characters');
+    }
+
+    if (!this.creditorSchemeId || this.creditorSchemeId.length > 35) {
+      throw new Error('creditorSchemeId is required and must not exceed 35 characters');
+    }
+
+    if (!(this.initiatingParty.agent as BICAgent)?.bic) {
+      const errors = ['The creditor agent must be identified by a BIC'];
+      throw new InvalidPaymentInstructionError(
+        `Invalid creditor in initiating party: ${errors.join('; ')}`,
+        { party: 'creditor', errors },
+      );
+    }
+
+    for (const instruction of this.paymentInstructions) {
+      if (instruction.currency !== 'EUR') {
+        throw new Error('SEPA direct debits must use EUR as currency');
+      }
+
+      if (!instruction.debtor?.name || !(instruction.debtor.account as IBANAccount)?.iban) {
+        throw new Error('All debtors must have a name and an IBAN account');
+      }
+
+      this.validateMandate(instruction.mandate);
+    }
+
+    this.validateRemittanceInformation(this.paymentInstructions, { maxStructured: 1, exclusive: true });
+  }
+
+  /**
+   * Groups direct debit instructions into payment information blocks (PmtInf).
+   * Instructions sharing a requested collection date, sequence type, local instrument and category purpose end up in the same block.
+   * An explicit paymentInformationId on an instruction decides the block on its own.
+   * @private
+   * @param {AtLeastOne<SEPADirectDebitPaymentInstruction>} instructions - The direct debit instructions to group, in order.
+   * @returns {AtLeastOne<DirectDebitPaymentInformation<SEPADirectDebitPaymentInstruction>>} The payment information blocks, in order of first appearance.
+   * @throws {Error} If instructions sharing a paymentInformationId disagree on collection date, sequence type or payment type.
+   */
+  private groupDirectDebits(
+    instructions: AtLeastOne<SEPADirectDebitPaymentInstruction>,
+  ): AtLeastOne<DirectDebitPaymentInformation<SEPADirectDebitPaymentInstruction>> {
+    const groups = new Map<string, DirectDebitPaymentInformation<SEPADirectDebitPaymentInstruction>>();
+    const groupingKey = (paymentInformation: Omit<DirectDebitPaymentInformation, 'id' | 'paymentInstructions'>) => [
+      paymentInformation.requestedCollectionDate.toISOString().split('T')[0],
+      paymentInformation.sequenceType,
+      paymentInformation.localInstrument,
+      paymentInformation.categoryPurpose,
+    ].join('|');
+
+    for (const instruction of instructions) {
+      const paymentInformation = {
+        requestedCollectionDate: instruction.requestedCollectionDate || this.requestedCollectionDate,
+        sequenceType: instruction.sequenceType || this.sequenceType,
+        localInstrument: instruction.localInstrument || this.localInstrument,
+        categoryPurpose: instruction.categoryPurpose || this.categoryPurpose,
+      };
+      const key = groupingKey(paymentInformation);
+      const groupKey = instruction.paymentInformationId ? `id:${instruction.paymentInformationId}` : key;
+
+      const group = groups.get(groupKey);
+      if (!group) {
+        groups.set(groupKey, {
+          id: sanitize(instruction.paymentInformationId || uuidv4(), 35),
+          ...paymentInformation,
+          paymentInstructions: [instruction],
+        });
+        continue;
+      }
+
+      if (key !== groupingKey(group)) {
+        throw new Error(
+          `All payment instructions in payment information ${group.id} must share the same requested collection date, sequence type, local instrument and category purpose`,
+        );
+      }
+      group.paymentInstructions.push(instruction);
+    }
+
+    return Array.from(groups.values()) as AtLeastOne<DirectDebitPaymentInformation<SEPADirectDebitPaymentInstruction>>;
+  }
+
+  /**
+   * Validates the mandate of a single direct debit instruction.
+   * @private
+   * @param {MandateInformation} mandate - The mandate to validate.
+   * @throws {Error} If the mandate is missing its identifier or signature date.
+   * @throws {Error} If the mandate is flagged as amended without amendment details.
+   */
+  private validateMandate(mandate: MandateInformation) {
+    if (!mandate?.mandateId || mandate.mandateId.length > 35) {
+      throw new Error('mandateId is required and must not exceed 35 characters');
+    }
+
+    if (!(mandate.dateOfSignature instanceof Date) || isNaN(mandate.dateOfSignature.getTime())) {
+      throw new Error('Mandate dateOfSignature must be a valid date');
+    }
+
+    if (mandate.amendmentIndicator && !mandate.amendmentInformation) {
+      throw new Error('amendmentInformation is required when amendmentIndicator is true');
+    }
+  }
+
+  /**
+   * Formats an agent for pain.008.001.11, which identifies institutions by BICFI rather than BIC.
+   * @param {Agent} agent - The agent to be formatted.
+   * @returns {Object} Formatted XML agent information.
+   */
+  bicfiAgent(agent: Agent): Record<string, any> {
+    if ((agent as BICAgent).bic !== undefined) {
+      return {
+        FinInstnId: {
+          BICFI: (agent as BICAgent).bic,
+        },
+      };
+    }
+    return this.agent(agent);
+  }
+
+  /**
+   * Formats a SEPA creditor identifier as a private identification with the 'SEPA' scheme.
+   * @param {string} creditorSchemeId - The creditor identifier.
+   * @returns {Object} Formatted XML creditor scheme identification.
+   */
+  creditorSchemeIdentification(creditorSchemeId: string) {
+    return {
+      Id: {
+        PrvtId: {
+          Othr: {
+            Id: creditorSchemeId,
+            SchmeNm: { Prtry: 'SEPA' },
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Generates the mandate related information for a direct debit transaction.
+   * @param {MandateInformation} mandate - The mandate information.
+   * @returns {Object} The mandate formatted according to SEPA specifications.
+   */
+  mandate(mandate: MandateInformation) {
+    const amendment = mandate.amendmentInformation;
+    return {
+      MndtId: mandate.mandateId,
+      DtOfSgntr: mandate.dateOfSignature.toISOString().split('T')[0],
+      ...(mandate.amendmentIndicator !== undefined && { AmdmntInd: mandate.amendmentIndicator.toString() }),
+      ...(mandate.amendmentIndicator && amendment && {
+        AmdmntInfDtls: {
+          ...(amendment.originalMandateId && { OrgnlMndtId: amendment.originalMandateId }),
+          ...((amendment.originalCreditorName || amendment.originalCreditorSchemeId) && {
+            OrgnlCdtrSchmeId: {
+              ...(amendment.originalCreditorName && { Nm: amendment.originalCreditorName }),
+              ...(amendment.originalCreditorSchemeId && this.creditorSchemeIdentification(amendment.originalCreditorSchemeId)),
+            },
+          }),
+          ...(amendment.originalDebtorAccount && { OrgnlDbtrAcct: this.account(amendment.originalDebtorAccount) }),
+          ...(amendment.originalDebtorAgent && { OrgnlDbtrAgt: this.bicfiAgent(amendment.originalDebtorAgent) }),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Generates transaction information for a single SEPA direct debit instruction.
+   * @param {SEPADirectDebitPaymentInstruction} instruction - The direct debit instruction.
+   * @returns {Object} The transaction information object formatted according to SEPA specifications.
+   */
+  directDebit(instruction: SEPADirectDebitPaymentInstruction) {
+    const { instructionId: paymentInstructionId, endToEndId } = this.paymentIdentification(instruction);
+
+    return {
+      PmtId: {
+        InstrId: paymentInstructionId,
+        EndToEndId: endToEndId,
+      },
+      InstdAmt: {
+        '#': formatAmount(instruction.amount, instruction.currency),
+        '@Ccy': instruction.currency,
+      },
+      DrctDbtTx: {
+        MndtRltdInf: this.mandate(instruction.mandate),
+      },
+      // The debtor agent is mandatory, SEPA allows it to be omitted for IBAN-only collections
+      DbtrAgt: instruction.debtor.agent
+        ? this.bicfiAgent(instruction.debtor.agent)
+        : { FinInstnId: { Othr: { Id: 'NOTPROVIDED' } } },
+      Dbtr: this.party(instruction.debtor),
+      DbtrAcct: this.account(instruction.debtor.account as Account),
+      // pain.008.001.11 shares the remittance information layout of pain.001.001.12
+      RmtInf: this.remittanceInformation(instruction, 12),
+    };
+  }
+
+  /**
+   * Generates a payment information block (PmtInf) for a group of SEPA direct debit instructions.
+   * @param {DirectDebitPaymentInformation<SEPADirectDebitPaymentInstruction>} paymentInformation - The payment information block.
+   * @returns {Object} The PmtInf object formatted according to SEPA specifications.
+   */
+  paymentInformation(paymentInformation: DirectDebitPaymentInformation<SEPADirectDebitPaymentInstruction>) {
+    return {
+      PmtInfId: paymentInformation.id,
+      PmtMtd: 'DD',
+      NbOfTxs: paymentInformation.paymentInstructions.length.toString(),
+      CtrlSum: sumAmounts(
+        paymentInformation.paymentInstructions.map(i => i.amount),
+        paymentInformation.paymentInstructions[0].currency,
+      ),
+      PmtTpInf: {
+        SvcLvl: { Cd: 'SEPA' },
+        LclInstrm: { Cd: paymentInformation.localInstrument },
+        SeqTp: paymentInformation.sequenceType,
+        ...(paymentInformation.categoryPurpose && {
+          CtgyPurp: { Cd: paymentInformation.categoryPurpose }
+        }),
+      },
+      ReqdColltnDt: paymentInformation.requestedCollectionDate.toISOString().split('T')[0],
+      Cdtr: this.party(this.initiatingParty),
+      CdtrAcct: this.account(this.initiatingParty.account as Account),
+      CdtrAgt: this.bicfiAgent(this.initiatingParty.agent as BICAgent),
+      ChrgBr: 'SLEV',
+      CdtrSchmeId: this.creditorSchemeIdentification(this.creditorSchemeId),
+      // collections[]
+      DrctDbtTxInf: paymentInformation.paymentInstructions.map(p => this.directDebit(p)),
+    };
+  }
+
+  /**
+   * The XML namespace of the message, direct debits are written as pain.008.001.11.
+   * @returns {string} The namespace.
+   */
+  get namespace(): string {
+    return 'urn:iso:std:iso:20022:tech:xsd:pain.008.001.11';
+  }
+
+  /**
+   * Exports the SEPA direct debit initiation as a document object, the JSON form of the message.
+   * @returns {any} The document object.
+   */
+  toJSON(): any {
+    const Document = {
+      '@xmlns': this.namespace,
+      '@xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      CstmrDrctDbtInitn: {
+        GrpHdr: {
+          MsgId: this.messageId,
+          CreDtTm: this.creationDate.toISOString(),
+          NbOfTxs: this.paymentInstructions.length.toString(),
+          CtrlSum: this.formattedPaymentSum,
+          InitgPty: {
+            Nm: this.initiatingParty.name,
+            ...(this.initiatingParty.id && {
+              Id: {
+                OrgId: {
+                  Othr: {
+                    Id: this.initiatingParty.id,
+                  },
+                },
+              },
+            }),
+          },
+        },
+        PmtInf: this.paymentInformations.map(p => this.paymentInformation(p)),
+      }
+    };
+    return { Document };
+  }
+
+  /**
+   * Serializes the SEPA direct debit initiation to an XML string.
+   * @returns {string} The XML representation of the SEPA direct debit initiation.
+   * @throws {InvalidPaymentInstructionError} If a debtor or creditor has an invalid IBAN or BIC.
+   */
+  public serialize(): string {
+    this.validatePartyIdentifiers(this.initiatingParty, this.paymentInstructions, 'creditor');
+
+    const builder = PaymentInitiation.getBuilder();
+    const xml = {
+      '?xml': {
+        '@version': '1.0',
+        '@encoding': 'UTF-8'
+      },
+      ...this.toJSON(),
+    };
+
+    return builder.build(xml);
+  }
+
+  /**
+   * The configuration of the SEPA direct debit initiation, which can be passed back to its constructor.
+   * @returns {SEPADirectDebitPaymentInitiationConfig} The configuration.
+   */
+  get data(): SEPADirectDebitPaymentInitiationConfig {
+    return {
+      initiatingParty: this.initiatingParty,
+      paymentInstructions: this.paymentInstructions,
+      creditorSchemeId: this.creditorSchemeId,
+      messageId: this.messageId,
+      creationDate: this.creationDate,
+      requestedCollectionDate: this.requestedCollectionDate,
+      sequenceType: this.sequenceType,
+      localInstrument: this.localInstrument,
+      categoryPurpose: this.categoryPurpose,
+    };
+  }
+
+  static supportedMessages(): ISO20022MessageTypeName[] {
+    return [ISO20022Messages.PAIN_008];
+  }
+
+  /**
+   * Creates a SEPADirectDebitPaymentInitiation instance from a JSON string exported with `toJSON`.
+   * @param {string} json - The JSON string.
+   * @returns {SEPADirectDebitPaymentInitiation} A new SEPADirectDebitPaymentInitiation instance.
+   * @throws {InvalidXmlError} If the JSON has no Document element.
+   */
+  static fromJSON(json: string): SEPADirectDebitPaymentInitiation {
+    return SEPADirectDebitPaymentInitiation.fromXML(PaymentInitiation.jsonToXML(json));
+  }
+
+  /**
+   * Creates a SEPADirectDebitPaymentInitiation instance from an XML string.
+   * @param {string} rawXml - The XML string to parse.
+   * @returns {SEPADirectDebitPaymentInitiation} A new SEPADirectDebitPaymentInitiation instance.
+   * @throws {InvalidXmlError} If the XML format is invalid.
+   * @throws {InvalidXmlNamespaceError} If the XML namespace is invalid.
+   */
+  public static fromXML(rawXml: string): SEPADirectDebitPaymentInitiation {
+    const parser = XML.getParser();
+    const xml = parser.parse(rawXml);
+
+    if (!xml.Document) {
+      throw new InvalidXmlError("Invalid XML format");
+    }
+
+    const namespace = (xml.Document['@_xmlns'] || xml.Document['@_Xmlns']) as string;
+    if (!namespace.startsWith('urn:iso:std:iso:20022:tech:xsd:pain.008.001.')) {
+      throw new InvalidXmlNamespaceError('Invalid PAIN.008 namespace');
+    }
+
+    const directDebitInitiation = xml.Document.CstmrDrctDbtInitn;
+    const messageId = directDebitInitiation.GrpHdr.MsgId.toString();
+    const creationDate = new Date(directDebitInitiation.GrpHdr.CreDtTm as string);
+
+    const rawPaymentInformations: any[] = Array.isArray(directDebitInitiation.PmtInf) ? directDebitInitiation.PmtInf : [directDebitInitiation.PmtInf];
+    const firstPaymentInformation = rawPaymentInformations[0];
+
+    // The creditor is the party collecting the funds, so we rebuild the initiating party from InitgPty and the first PmtInf / Cdtr
+    const initiatingParty = {
+      name: (directDebitInitiation.GrpHdr.InitgPty.Nm as string) || (firstPaymentInformation.Cdtr.Nm as string),
+      ...(directDebitInitiation.GrpHdr.InitgPty.Id?.OrgId?.Othr?.Id && {
+        id: directDebitInitiation.GrpHdr.InitgPty.Id.OrgId.Othr.Id.toString() as string,
+      }),
+      agent: parseAgent(firstPaymentInformation.CdtrAgt),
+      account: parseAccount(firstPaymentInformation.CdtrAcct),
+    };
+
+    const rawFirstInstruction = Array.isArray(firstPaymentInformation.DrctDbtTxInf) ? firstPaymentInformation.DrctDbtTxInf[0] : firstPaymentInformation.DrctDbtTxInf;
+
+    // The creditor scheme identification may be given once per PmtInf or on every transaction
+    const rawCreditorSchemeId = firstPaymentInformation.CdtrSchmeId || rawFirstInstruction.DrctDbtTx?.CdtrSchmeId;
+    const creditorSchemeId = rawCreditorSchemeId?.Id?.PrvtId?.Othr?.Id?.toString() as string;
+
+    const paymentInstructions = rawPaymentInformations.flatMap((rawPaymentInformation: any) => {
+      const rawInstructions = Array.isArray(rawPaymentInformation.DrctDbtTxInf) ? rawPaymentInformation.DrctDbtTxInf : [rawPaymentInformation.DrctDbtTxInf];
+      // Block level values are only kept on the instructions when they are needed to rebuild multiple blocks
+      const paymentInformation = rawPaymentInformations.length > 1 ? SEPADirectDebitPaymentInitiation.parseDirectDebitPaymentInformation(rawPaymentInformation) : {};
+      return rawInstructions.map((inst: any) => ({ ...SEPADirectDebitPaymentInitiation.parseDirectDebit(inst), ...paymentInformation }));
+    }) as AtLeastOne<SEPADirectDebitPaymentInstruction>;
+
+    const { requestedCollectionDate, sequenceType, localInstrument, categoryPurpose } =
+      SEPADirectDebitPaymentInitiation.parseDirectDebitPaymentInformation(firstPaymentInformation);
+
+    return new SEPADirectDebitPaymentInitiation({
+      messageId: messageId,
+      creationDate: creationDate,
+      initiatingParty: initiatingParty,
+      paymentInstructions: paymentInstructions,
+      creditorSchemeId: creditorSchemeId,
+      requestedCollectionDate: requestedCollectionDate,
+      ...(sequenceType && { sequenceType }),
+      ...(localInstrument && { localInstrument }),
+      ...(categoryPurpose && { categoryPurpose }),
+    });
+  }
+
+  /**
+   * Reads the payment information block (PmtInf) values that apply to every collection in the block,
+   * so that parsed instructions are grouped back into the same blocks.
+   * @private
+   * @param {any} rawPaymentInformation - The raw PmtInf element.
+   * @returns {Partial<SEPADirectDebitPaymentInstruction>} The block values, in the shape of direct debit instruction overrides.
+   */
+  private static parseDirectDebitPaymentInformation(rawPaymentInformation: any): Partial<SEPADirectDebitPaymentInstruction> {
+    const paymentTypeInformation = rawPaymentInformation.PmtTpInf;
+    return {
+      ...(rawPaymentInformation.PmtInfId && { paymentInformationId: rawPaymentInformation.PmtInfId.toString() as string }),
+      requestedCollectionDate: new Date(rawPaymentInformation.ReqdColltnDt?.Dt || rawPaymentInformation.ReqdColltnDt),
+      ...(paymentTypeInformation?.SeqTp && { sequenceType: paymentTypeInformation.SeqTp as SEPADirectDebitSequenceType }),
+      ...(paymentTypeInformation?.LclInstrm?.Cd && { localInstrument: paymentTypeInformation.LclInstrm.Cd as SEPADirectDebitLocalInstrument }),
+      ...(paymentTypeInformation?.CtgyPurp?.Cd && { categoryPurpose: paymentTypeInformation.CtgyPurp.Cd as ExternalCategoryPurpose }),
+    };
+  }
+
+  /**
+   * Parses a single direct debit transaction (DrctDbtTxInf) into a SEPA direct debit instruction.
+   * @private
+   * @param {any} inst - The raw DrctDbtTxInf element.
+   * @returns {SEPADirectDebitPaymentInstruction} The parsed direct debit instruction.
+   */
+  private static parseDirectDebit(inst: any): SEPADirectDebitPaymentInstruction {
+    const currency = (inst.InstdAmt['@_Ccy'] as Currency);
+    const amount = parseAmountToMinorUnits(inst.InstdAmt['#text'], currency);
+    const rawPostalAddress = inst.Dbtr.PstlAdr;
+    const rawDebtorAgent = inst.DbtrAgt?.FinInstnId?.Othr?.Id === 'NOTPROVIDED' ? undefined : inst.DbtrAgt;
+    return {
+      ...(inst.PmtId.InstrId && { id: (inst.PmtId.InstrId.toString() as string) }),
+      ...(inst.PmtId.EndToEndId && { endToEndId: (inst.PmtId.EndToEndId.toString() as string) }),
+      type: 'sepa',
+      direction: 'debit',
+      amount: amount,
+      currency: currency,
+      debtor: {
+        name: (inst.Dbtr?.Nm as string),
+        ...(rawDebtorAgent && { agent: parseAgent(rawDebtorAgent) }),
+        account: parseAccount(inst.DbtrAcct),
+        ...((rawPostalAddress && (rawPostalAddress.StrtNm || rawPostalAddress.BldgNb || rawPostalAddress.PstCd || rawPostalAddress.TwnNm || rawPostalAddress.Ctry)) ? {
+          address: {
+            ...(rawPostalAddress.StrtNm && { streetName: rawPostalAddress.StrtNm.toString() as string }),
+            ...(rawPostalAddress.BldgNb && { buildingNumber: rawPostalAddress.BldgNb.toString() as string }),
+            ...(rawPostalAddress.TwnNm && { townName: rawPostalAddress.TwnNm.toString() as string }),
+            ...(rawPostalAddress.CtrySubDvsn && { countrySubDivision: rawPostalAddress.CtrySubDvsn.toString() as string }),
+            ...(rawPostalAddress.PstCd && { postalCode: rawPostalAddress.PstCd.toString() as string }),
+            ...(rawPostalAddress.Ctry && { country: rawPostalAddress.Ctry as Alpha2Country }),
+          }
+        } : {}),
+      },
+      mandate: SEPADirectDebitPaymentInitiation.parseMandate(inst.DrctDbtTx.MndtRltdInf),
+      ...PaymentInitiation.parseRemittanceInformation(inst.RmtInf),
+    } as SEPADirectDebitPaymentInstruction;
+  }
+
+  /**
+   * Parses the mandate related information of a direct debit transaction.
+   * @private
+   * @param {any} rawMandate - The raw MndtRltdInf element.
+   * @returns {MandateInformation} The parsed mandate.
+   */
+  private static parseMandate(rawMandate: any): MandateInformation {
+    const amendmentIndicator = rawMandate.AmdmntInd === undefined
+      ? undefined
+      : rawMandate.AmdmntInd === true || rawMandate.AmdmntInd === 'true';
+    const rawAmendment = rawMandate.AmdmntInfDtls;
+    const rawOriginalDebtorAgent = rawAmendment?.OrgnlDbtrAgt;
+
+    return {
+      mandateId: rawMandate.MndtId.toString(),
+      dateOfSignature: new Date(rawMandate.DtOfSgntr),
+      ...(amendmentIndicator !== undefined && { amendmentIndicator }),
+      ...(rawAmendment && {
+        amendmentInformation: {
+          ...(rawAmendment.OrgnlMndtId && { originalMandateId: rawAmendment.OrgnlMndtId.toString() }),
+          ...(rawAmendment.OrgnlCdtrSchmeId?.Id?.PrvtId?.Othr?.Id && {
+            originalCreditorSchemeId: rawAmendment.OrgnlCdtrSchmeId.Id.PrvtId.Othr.Id.toString(),
+          }),
+          ...(rawAmendment.OrgnlCdtrSchmeId?.Nm && { originalCreditorName: rawAmendment.OrgnlCdtrSchmeId.Nm.toString() }),
+          ...(rawAmendment.OrgnlDbtrAcct && { originalDebtorAccount: parseAccount(rawAmendment.OrgnlDbtrAcct) }),
+          ...(rawOriginalDebtorAgent && (rawOriginalDebtorAgent.FinInstnId?.BICFI || rawOriginalDebtorAgent.FinInstnId?.BIC) && {
+            originalDebtorAgent: parseAgent(rawOriginalDebtorAgent),
+          }),
+        },
+      }),
+    };
+  }
+}
+
+registerISO20022Implementation(SEPADirectDebitPaymentInitiation);
@@ -1,7 +1,10 @@
-import { Account, AccountIdentification, AccountIdentificationIBAN, AccountIdentificationOther, Agent, BaseAccount, IBANAccount, MessageHeader, Party, StructuredAddress } from 'lib/types';
+import { Account, AccountIdentification, AccountIdentificationIBAN, AccountIdentificationOther, Agent, Amount, AmountMode, AmountOfMode, AmountParsingOptions, BaseAccount, GenericIdentification, IBANAccount, MessageHeader, Party, PartyIdentification, RemittanceAmount, StructuredAddress, StructuredRemittance } from 'lib/types';
+import { Alpha2Country } from './lib/countries';
+import { detectCreditorReferenceScheme } from './lib/creditor-reference';
 import { getCurrencyPrecision } from './lib/currencies';
 import { Currency } from './lib/currency';
 import { formatAmount } from './dinero-helpers';
+import { AmountOutOfRangeError, InvalidStructureError } from './errors';
 
 export const parseAccount = (account: any): Account => {
   // Return just IBAN if it exists, else detailed local account details
@@ -72,10 +75,10 @@ export const exportAccountIdentification = (accountId: AccountIdentification): a
 
 // TODO: Add both BIC and ABA routing numbers at the same time
 export const parseAgent = (agent: any): Agent => {
-  // Get BIC if it exists first
-  if (agent.FinInstnId.BIC) {
+  // Get BIC if it exists first, newer versions name it BICFI
+  if (agent.FinInstnId.BIC || agent.FinInstnId.BICFI) {
     return {
-      bic: agent.FinInstnId.BIC,
+      bic: agent.FinInstnId.BIC || agent.FinInstnId.BICFI,
     } as Agent;
   }
 
@@ -84,6 +87,15 @@ export const parseAgent = (agent: any): Agent => {
   } as Agent;
 };
 
+// Agents without a BIC or clearing system member ID (e.g. name only) are left out
+export const parseOptionalAgent = (rawAgent: any): Agent | undefined => {
+  const financialInstitution = rawAgent?.FinInstnId;
+  if (!financialInstitution?.BIC && !financialInstitution?.BICFI && !financialInstitution?.ClrSysMmbId && !financialInstitution?.Othr) {
+    return undefined;
+  }
+  return parseAgent(rawAgent);
+};
+
 export const exportAgent = (agent: Agent): any => {
   const obj: any = {
     FinInstnId: {},
@@ -96,20 +108,103 @@ export const exportAgent = (agent: Agent): any => {
   return obj;
 };
 
-// Parse raw currency data and turn into minor units
+// Sign, integer digits, fraction digits and exponent of a decimal amount
+const DECIMAL_AMOUNT_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Shifts the decimal point of an amount by the currency precision, using string arithmetic only.
+ * Numbers are read through their shortest round-trip representation, so 4.35 is read as "4.35".
+ * Digits beyond the currency precision are dropped.
+ * @param {number | string} rawAmount - The decimal amount, e.g. "1.13".
+ * @param {number} precision - The number of minor unit digits of the currency.
+ * @returns {string | undefined} The signed integer digits in minor units, e.g. "113", or undefined if the amount is not a decimal number.
+ */
+const toMinorUnitDigits = (rawAmount: number | string, precision: number): string | undefined => {
+  const match = String(rawAmount).trim().match(DECIMAL_AMOUNT_PATTERN);
+  if (!match || (!match[2] && !match[3])) {
+    return undefined;
+  }
+  const [, sign, integerDigits, fractionDigits = '', exponent = '0'] = match;
+  const digits = integerDigits + fractionDigits;
+  const pointPosition = integerDigits.length + Number(exponent) + precision;
+  const minorUnits = pointPosition > 0
+    ? digits.padEnd(pointPosition, '0').slice(0, pointPosition).replace(/^0+(?=\d)/, '')
+    : '0';
+  return sign === '-' && minorUnits !== '0' ? `-${minorUnits}` : minorUnits;
+};
+
+/**
+ * Parses a decimal amount into minor units, exactly.
+ * Amounts are accepted as written in the message ("1.13") as well as numbers.
+ * @param {number | string} rawAmount - The decimal amount.
+ * @param {Currency} [currency='USD'] - The currency, which gives the number of minor unit digits.
+ * @returns {number} The amount in minor units, NaN if it is not a decimal number.
+ * @throws {AmountOutOfRangeError} If the amount exceeds `Number.MAX_SAFE_INTEGER` minor units.
+ */
 export const parseAmountToMinorUnits = (
-  rawAmount: number,
+  rawAmount: number | string,
   currency: Currency = 'USD',
 ): number => {
-  const precision = getCurrencyPrecision(currency);
-  // Also make sure Javascript number parsing error do not happen.
-  return Math.floor(Number(rawAmount) * 10 ** precision);
+  const digits = toMinorUnitDigits(rawAmount, getCurrencyPrecision(currency));
+  if (digits === undefined) {
+    return NaN;
+  }
+  const amount = Number(digits);
+  if (!Number.isSafeInteger(amount)) {
+    throw new AmountOutOfRangeError(
+      `Amount ${rawAmount} ${currency} cannot be represented exactly as a number, parse it with the 'bigint' amount mode`,
+    );
+  }
+  return amount;
+};
+
+/**
+ * Parses a decimal amount into minor units as a bigint, exactly and without any size limit.
+ * @param {number | string} rawAmount - The decimal amount.
+ * @param {Currency} [currency='USD'] - The currency, which gives the number of minor unit digits.
+ * @returns {bigint} The amount in minor units.
+ * @throws {InvalidStructureError} If the amount is not a decimal number.
+ */
+export const parseAmountToBigIntMinorUnits = (
+  rawAmount: number | string,
+  currency: Currency = 'USD',
+): bigint => {
+  const digits = toMinorUnitDigits(rawAmount, getCurrencyPrecision(currency));
+  if (digits === undefined) {
+    throw new InvalidStructureError(`Invalid amount: ${rawAmount}`);
+  }
+  return BigInt(digits);
+};
+
+/**
+ * Parses a decimal amount into minor units, as a number or a bigint depending on the amount mode.
+ * @param {number | string} rawAmount - The decimal amount.
+ * @param {Currency} [currency='USD'] - The currency, which gives the number of minor unit digits.
+ * @param {AmountParsingOptions} [options] - The amount mode, defaults to 'number'.
+ * @returns {AmountOfMode} The amount in minor units.
+ */
+export const parseAmountWithMode = <M extends AmountMode = 'number'>(
+  rawAmount: number | string,
+  currency: Currency = 'USD',
+  options: AmountParsingOptions<M> = {},
+): AmountOfMode<M> => {
+  return (options.amountMode === 'bigint'
+    ? parseAmountToBigIntMinorUnits(rawAmount, currency)
+    : parseAmountToMinorUnits(rawAmount, currency)) as AmountOfMode<M>;
 };
 
 export const exportAmountToString = (
-  amount: number,
+  amount: Amount,
   currency: Currency = 'USD',
 ): string => {
+  if (typeof amount === 'bigint') {
+    // Dinero works on numbers, bigints are formatted digit by digit
+    const precision = getCurrencyPrecision(currency);
+    const digits = (amount < 0n ? -amount : amount).toString().padStart(precision + 1, '0');
+    const integerDigits = digits.slice(0, digits.length - precision);
+    const formatted = precision > 0 ? `${integerDigits}.${digits.slice(-precision)}` : digits;
+    return amount < 0n ? `-${formatted}` : formatted;
+  }
   return formatAmount(amount, currency);
 }
 
@@ -126,6 +221,188 @@ export const parseParty = (party: any): Party => {
   } as Party;
 };
 
+/**
+ * Parses a raw postal address (PstlAdr) of any version into a structured address.
+ * @param {any} rawPostalAddress - The raw PstlAdr element.
+ * @returns {StructuredAddress | undefined} The structured address, or undefined if it holds no structured fields.
+ */
+export const parsePostalAddress = (rawPostalAddress: any): StructuredAddress | undefined => {
+  if (!rawPostalAddress) {
+    return undefined;
+  }
+
+  const address: StructuredAddress = {
+    ...(rawPostalAddress.StrtNm && { streetName: rawPostalAddress.StrtNm.toString() as string }),
+    ...(rawPostalAddress.BldgNb && { buildingNumber: rawPostalAddress.BldgNb.toString() as string }),
+    ...(rawPostalAddress.BldgNm && { buildingName: rawPostalAddress.BldgNm.toString() as string }),
+    ...(rawPostalAddress.Flr && { floor: rawPostalAddress.Flr.toString() as string }),
+    ...(rawPostalAddress.PstBx && { postBox: rawPostalAddress.PstBx.toString() as string }),
+    ...(rawPostalAddress.Room && { room: rawPostalAddress.Room.toString() as string }),
+    ...(rawPostalAddress.TwnNm && { townName: rawPostalAddress.TwnNm.toString() as string }),
+    ...(rawPostalAddress.TwnLctnNm && { townLocationName: rawPostalAddress.TwnLctnNm.toString() as string }),
+    ...(rawPostalAddress.DstrctNm && { districtName: rawPostalAddress.DstrctNm.toString() as string }),
+    ...(rawPostalAddress.CtrySubDvsn && { countrySubDivision: rawPostalAddress.CtrySubDvsn.toString() as string }),
+    ...(rawPostalAddress.PstCd && { postalCode: rawPostalAddress.PstCd.toString() as string }),
+    ...(rawPostalAddress.Ctry && { country: rawPostalAddress.Ctry as Alpha2Country }),
+  };
+
+  return Object.keys(address).length > 0 ? address : undefined;
+};
+
+// Older versions name the BIC of an organisation BICOrBEI
+export const parsePartyIdentification = (rawIdentification: any): PartyIdentification | undefined => {
+  const parseOther = (rawOther: any): GenericIdentification[] | undefined => {
+    if (!rawOther) return undefined;
+    return (Array.isArray(rawOther) ? rawOther : [rawOther]).map((other: any) => ({
+      id: other.Id.toString(),
+      ...((other.SchmeNm?.Cd || other.SchmeNm?.Prtry) && { schemeName: (other.SchmeNm.Cd || other.SchmeNm.Prtry).toString() }),
+      ...(other.Issr && { issuer: other.Issr.toString() }),
+    }));
+  };
+
+  const rawOrganisation = rawIdentification?.OrgId;
+  const rawPrivatePerson = rawIdentification?.PrvtId;
+  if (!rawOrganisation && !rawPrivatePerson) {
+    return undefined;
+  }
+
+  const anyBic = rawOrganisation?.AnyBIC || rawOrganisation?.BICOrBEI;
+  const organisationOther = parseOther(rawOrganisation?.Othr);
+  const rawBirth = rawPrivatePerson?.DtAndPlcOfBirth;
+  const privateOther = parseOther(rawPrivatePerson?.Othr);
+  return {
+    ...(rawOrganisation && {
+      organisation: {
+        ...(anyBic && { anyBic }),
+        ...(rawOrganisation.LEI && { lei: rawOrganisation.LEI.toString() }),
+        ...(organisationOther && { other: organisationOther }),
+      },
+    }),
+    ...(rawPrivatePerson && {
+      privatePerson: {
+        ...(rawBirth && {
+          dateAndPlaceOfBirth: {
+            birthDate: new Date(rawBirth.BirthDt),
+            ...(rawBirth.PrvcOfBirth && { provinceOfBirth: rawBirth.PrvcOfBirth.toString() }),
+            cityOfBirth: rawBirth.CityOfBirth.toString(),
+            countryOfBirth: rawBirth.CtryOfBirth,
+          },
+        }),
+        ...(privateOther && { other: privateOther }),
+      },
+    }),
+  };
+};
+
+// Document amount types of the amounts that had their own element before version 12
+const RemittanceAmountTypes = {
+  DUEP: 'duePayableAmount',
+  DICA: 'discountAppliedAmount',
+  CREN: 'creditNoteAmount',
+  TAXA: 'taxAmount',
+  RMTD: 'remittedAmount',
+} as const;
+
+/**
+ * Parses the structured remittance information (Strd) of any version.
+ * Amounts are read from their own elements (DuePyblAmt, ...) or, from version 12 onwards, from typed RmtAmtAndTp elements.
+ * @param {any} rawRemittance - The raw Strd element.
+ * The scheme of the creditor reference is recognised from its format and check digits.
+ * @param {AmountParsingOptions} [options] - How to parse the amounts.
+ * @param {Alpha2Country} [country] - The country of the creditor account, to recognise national creditor references.
+ * @returns {StructuredRemittance} The structured remittance information.
+ */
+export const parseStructuredRemittance = <M extends AmountMode = 'number'>(
+  rawRemittance: any,
+  options: AmountParsingOptions<M> = {},
+  country?: Alpha2Country,
+): StructuredRemittance<AmountOfMode<M>> => {
+  const toArray = (value: any): any[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+  // Discounts and taxes are lists of typed amounts from version 4 onwards, only the first one is kept
+  const rawAmountOf = (value: any) => {
+    const first = toArray(value)[0];
+    return first?.Amt ?? first;
+  };
+  const parseTypeCode = (rawType: any): string | undefined => {
+    const code = rawType?.CdOrPrtry?.Cd ?? rawType?.CdOrPrtry?.Prtry;
+    return code !== undefined ? code.toString() : undefined;
+  };
+
+  const referredDocuments = toArray(rawRemittance.RfrdDocInf).map((rawDocument: any) => {
+    const type = parseTypeCode(rawDocument.Tp);
+    // Version 12 wraps the related date in a date and type
+    const rawDate = rawDocument.RltdDt?.Dt ?? rawDocument.RltdDt;
+    const rawDateType = rawDocument.RltdDt?.Tp?.Cd ?? rawDocument.RltdDt?.Tp?.Prtry;
+    return {
+      ...(type && { type }),
+      ...(rawDocument.Tp?.Issr && { issuer: rawDocument.Tp.Issr.toString() }),
+      ...(rawDocument.Nb !== undefined && { number: rawDocument.Nb.toString() }),
+      ...(rawDate && { relatedDate: new Date(rawDate) }),
+      ...(rawDateType !== undefined && { relatedDateType: rawDateType.toString() }),
+    };
+  });
+
+  let referredDocumentAmount: RemittanceAmount<AmountOfMode<M>> | undefined;
+  const rawDocumentAmount = rawRemittance.RfrdDocAmt;
+  if (rawDocumentAmount) {
+    const rawAmounts: [keyof typeof RemittanceAmountTypes, any][] = rawDocumentAmount.RmtAmtAndTp
+      ? toArray(rawDocumentAmount.RmtAmtAndTp).map((typed: any) => [typed.Tp?.Cd, typed.Amt])
+      : [
+        ['DUEP', rawAmountOf(rawDocumentAmount.DuePyblAmt)],
+        ['DICA', rawAmountOf(rawDocumentAmount.DscntApldAmt)],
+        ['CREN', rawAmountOf(rawDocumentAmount.CdtNoteAmt)],
+        ['TAXA', rawAmountOf(rawDocumentAmount.TaxAmt)],
+        ['RMTD', rawAmountOf(rawDocumentAmount.RmtdAmt)],
+      ];
+    rawAmounts.forEach(([type, rawAmount]) => {
+      if (!rawAmount || !RemittanceAmountTypes[type]) return;
+      referredDocumentAmount = referredDocumentAmount || { currency: rawAmount['@_Ccy'] };
+      referredDocumentAmount[RemittanceAmountTypes[type]] = parseAmountWithMode(rawAmount['#text'], rawAmount['@_Ccy'], options);
+    });
+  }
+
+  const rawCreditorReference = rawRemittance.CdtrRefInf;
+  const creditorReferenceType = parseTypeCode(rawCreditorReference?.Tp);
+  const creditorReferenceScheme = rawCreditorReference?.Ref !== undefined
+    ? detectCreditorReferenceScheme(rawCreditorReference.Ref.toString(), country)
+    : undefined;
+
+  const rawTax = rawRemittance.TaxRmt;
+  const rawTaxAmount = rawTax?.TtlTaxAmt ?? rawTax?.TtlTaxblBaseAmt;
+
+  const additionalInformation = toArray(rawRemittance.AddtlRmtInf).map((line: any) => line.toString());
+
+  return {
+    ...(referredDocuments.length > 0 && { referredDocuments }),
+    ...(referredDocumentAmount && { referredDocumentAmount }),
+    ...(rawCreditorReference?.Ref !== undefined && {
+      creditorReference: {
+        reference: rawCreditorReference.Ref.toString(),
+        ...(creditorReferenceType && { type: creditorReferenceType }),
+        ...(rawCreditorReference.Tp?.Issr && { issuer: rawCreditorReference.Tp.Issr.toString() }),
+        ...(creditorReferenceScheme && { scheme: creditorReferenceScheme }),
+      },
+    }),
+    ...(rawTax && {
+      taxRemittance: {
+        ...(rawTax.Cdtr?.TaxId !== undefined && { creditorTaxId: rawTax.Cdtr.TaxId.toString() }),
+        ...(rawTax.Dbtr?.TaxId !== undefined && { debtorTaxId: rawTax.Dbtr.TaxId.toString() }),
+        ...(rawTax.RefNb !== undefined && { referenceNumber: rawTax.RefNb.toString() }),
+        ...(rawTax.Mtd !== undefined && { method: rawTax.Mtd.toString() }),
+        ...(rawTaxAmount && { currency: rawTaxAmount['@_Ccy'] }),
+        ...(rawTax.TtlTaxblBaseAmt && {
+          totalTaxableBaseAmount: parseAmountWithMode(rawTax.TtlTaxblBaseAmt['#text'], rawTax.TtlTaxblBaseAmt['@_Ccy'], options),
+        }),
+        ...(rawTax.TtlTaxAmt && {
+          totalTaxAmount: parseAmountWithMode(rawTax.TtlTaxAmt['#text'], rawTax.TtlTaxAmt['@_Ccy'], options),
+        }),
+        ...(rawTax.Dt && { date: new Date(rawTax.Dt) }),
+      },
+    }),
+    ...(additionalInformation.length > 0 && { additionalInformation }),
+  };
+};
+
 export const parseRecipient = (recipient: any): {
   id?: string;
   name?: string;
@@ -139,8 +416,8 @@ export const parseRecipient = (recipient: any): {
 
 export const exportRecipient = (recipient: ReturnType<typeof parseRecipient>): any => {
   return {
-    Id: recipient.id ? { OrgId: { Othr: { Id: recipient.id } } } : undefined,
     Nm: recipient.name,
+    Id: recipient.id ? { OrgId: { Othr: { Id: recipient.id } } } : undefined,
   }
 }
 
@@ -0,0 +1,116 @@
+import { CashManagementAccountReport } from '../../../src/camt/052/cash-management-account-report';
+import { getISO20022Implementation, ISO20022Messages } from '../../../src/lib/interfaces';
+import { InvalidXmlNamespaceError } from '../../../src/errors';
+import fs from 'fs';
+
+describe('CashManagementAccountReport', () => {
+  const filePath = `${process.cwd()}/test/assets/example/camt_052_v12_intraday_report.xml`;
+  const camt052V12Sample = fs.readFileSync(filePath, 'utf8');
+
+  function checkReport(accountReport: CashManagementAccountReport) {
+    expect(accountReport).toBeInstanceOf(CashManagementAccountReport);
+    expect(accountReport.messageId).toBe('RPT-20250310-1400');
+    expect(accountReport.creationDate.toISOString()).toBe('2025-03-10T14:00:00.000Z');
+    expect(accountReport.recipient).toEqual({
+      id: 'ELECTRIC',
+      name: 'Electrical',
+    });
+
+    // Synthetic methods (map reduced)
+    expect(accountReport.reports.length).toBe(1);
+    expect(accountReport.balances.length).toBe(3);
+    expect(accountReport.entries.length).toBe(2);
+    expect(accountReport.transactions.length).toBe(2);
+
+    const report = accountReport.reports[0];
+    expect(report.id).toBe('RPT-USD-0007');
+    expect(report.electronicSequenceNumber).toBe(7);
+    expect(report.account).toEqual({
+      accountNumber: '123456789012',
+      currency: 'USD',
+    });
+    expect(report.agent).toEqual({ bic: 'CHASUS33XXX' });
+    expect(report.numOfEntries).toBe(2);
+    expect(report.numOfDebitEntries).toBe(1);
+
+    // Interim balances
+    expect(accountReport.interimBalances).toEqual([
+      {
+        date: new Date('2025-03-10T14:00:00.000Z'),
+        amount: 12500_00,
+        currency: 'USD',
+        creditDebitIndicator: 'credit',
+        type: 'ITBD',
+      },
+      {
+        date: new Date('2025-03-10T14:00:00.000Z'),
+        amount: 11700_00,
+        currency: 'USD',
+        creditDebitIndicator: 'credit',
+        type: 'ITAV',
+      },
+    ]);
+
+    // Booked ACH credit
+    const bookedCredit = report.entries[0];
+    expect(bookedCredit.status).toBe('BOOK');
+    expect(bookedCredit.bookingDate).toEqual(new Date('2025-03-10T09:30:00.000Z'));
+    expect(bookedCredit.amount).toBe(2500_00);
+    expect(bookedCredit.transactions[0].debtor?.name).toBe('Acme Corp');
+
+    // Pending wire debit
+    expect(accountReport.pendingEntries.length).toBe(1);
+    const pendingDebit = accountReport.pendingEntries[0];
+    expect(pendingDebit.referenceId).toBe('0002');
+    expect(pendingDebit.status).toBe('PDNG');
+    expect(pendingDebit.bookingDate).toBeUndefined();
+    expect(pendingDebit.creditDebitIndicator).toBe('debit');
+    expect(pendingDebit.amount).toBe(800_00);
+    expect(pendingDebit.additionalInformation).toBe('OUTGOING WIRE PENDING RELEASE');
+    expect(pendingDebit.transactions[0].creditor?.name).toBe('John Doe');
+  }
+
+  it('should create an instance from XML', () => {
+    const accountReport = CashManagementAccountReport.fromXML(camt052V12Sample);
+    checkReport(accountReport);
+    expect(accountReport.reports[0].fromDate).toEqual(new Date('2025-03-10T00:00:00.000Z'));
+    expect(accountReport.reports[0].toDate).toEqual(new Date('2025-03-10T14:00:00.000Z'));
+  });
+
+  it('should create an instance from JSON', () => {
+    const accountReport = CashManagementAccountReport.fromXML(camt052V12Sample);
+    const json = JSON.stringify(accountReport.toJSON());
+    checkReport(CashManagementAccountReport.fromJSON(json));
+  });
+
+  it('should round trip through serialize', () => {
+    const accountReport = CashManagementAccountReport.fromXML(camt052V12Sample);
+    expect(accountReport.version).toBe('camt.052.001.12');
+    const xml = accountReport.serialize();
+    expect(xml).toContain('urn:iso:std:iso:20022:tech:xsd:camt.052.001.12');
+    checkReport(CashManagementAccountReport.fromXML(xml));
+  });
+
+  it('should serialize a valid camt.052.001.12 report', () => {
+    const accountReport = CashManagementAccountReport.fromXML(camt052V12Sample);
+    expect(accountReport.serialize()).toMatch(/<Sts>[\s\n]*<Cd>PDNG<\/Cd>[\s\n]*<\/Sts>/);
+    expect(accountReport.validateAgainstSchema()).toEqual({ valid: true, schema: 'camt.052.001.12', errors: [] });
+  });
+
+  it('should serialize in the layout of the given version', () => {
+    const accountReport = CashManagementAccountReport.fromXML(camt052V12Sample);
+    const xml = accountReport.serialize('camt.052.001.02');
+    expect(xml).toContain('urn:iso:std:iso:20022:tech:xsd:camt.052.001.02');
+    expect(xml).toContain('<Sts>PDNG</Sts>');
+    checkReport(CashManagementAccountReport.fromXML(xml));
+  });
+
+  it('should be registered as the CAMT.052 implementation', () => {
+    expect(getISO20022Implementation(ISO20022Messages.CAMT_052)).toBe(CashManagementAccountReport);
+  });
+
+  it('should throw on a non CAMT.052 namespace', () => {
+    const camt053 = fs.readFileSync(`${process.cwd()}/test/assets/goldman_sachs/camt_053_uk_v2_1.xml`, 'utf8');
+    expect(() => CashManagementAccountReport.fromXML(camt053)).toThrow(InvalidXmlNamespaceError);
+  });
+});
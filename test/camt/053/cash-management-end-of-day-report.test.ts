@@ -1,4 +1,5 @@
 import { CashManagementEndOfDayReport } from '../../../src/camt/053/cash-management-end-of-day-report';
+import { AmountOutOfRangeError, InvalidXmlNamespaceError } from '../../../src/errors';
 import fs from 'fs';
 
 describe('CashManagementEndOfDayReport', () => {
@@ -31,7 +32,7 @@ describe('CashManagementEndOfDayReport', () => {
         expect(statement.fromDate).toBeInstanceOf(Date);
         expect(statement.toDate).toBeInstanceOf(Date);
         expect(statement.numOfEntries).toBe(14);
-        expect(statement.sumOfEntries).toBe(140);
+        expect(statement.sumOfEntries).toBe(140_00);
         expect(statement.netAmountOfEntries).toBe(40_00);
         expect(statement.account).toEqual({
           accountNumber: 'DD01100056869',
@@ -223,6 +224,11 @@ describe('CashManagementEndOfDayReport', () => {
           proprietaryCode: 'N196',
           proprietaryCodeIssuer: 'ABNAMRO',
         });
+
+        const acceptgiro = report.transactions.find(tx => tx.accountServicerReferenceId === '3095D4322561460S0PS');
+        expect(acceptgiro?.structuredRemittanceInformation).toEqual([{
+          creditorReference: { reference: '1234567812345678', type: 'SCOR', issuer: 'CUR' },
+        }]);
       });
     });
 
@@ -270,6 +276,201 @@ describe('CashManagementEndOfDayReport', () => {
   });
 
 
+  describe('versions', () => {
+    const camt053V2Sample = fs.readFileSync(`${process.cwd()}/test/assets/goldman_sachs/camt_053_us_v2_sample.xml`, 'utf8');
+
+    it('should detect the version from the namespace', () => {
+      const report = CashManagementEndOfDayReport.fromXML(camt053V2Sample);
+      expect(report.version).toBe('camt.053.001.02');
+      expect(report.serialize()).toContain('urn:iso:std:iso:20022:tech:xsd:camt.053.001.02');
+    });
+
+    it('should serialize a valid camt.053.001.12 statement', () => {
+      const report = CashManagementEndOfDayReport.fromXML(camt053V2Sample);
+      const xml = report.serialize('camt.053.001.12');
+      expect(xml).toContain('urn:iso:std:iso:20022:tech:xsd:camt.053.001.12');
+      expect(xml).toMatch(/<TtlNetNtry>[\s\n]*<Amt>40.00<\/Amt>[\s\n]*<CdtDbtInd>CRDT<\/CdtDbtInd>/);
+      expect(xml).toMatch(/<Sts>[\s\n]*<Cd>BOOK<\/Cd>[\s\n]*<\/Sts>/);
+      expect(xml).toContain('<BICFI>GSCRUS33</BICFI>');
+      expect(new CashManagementEndOfDayReport({ ...report.data, version: 'camt.053.001.12' }).validateAgainstSchema())
+        .toEqual({ valid: true, schema: 'camt.053.001.12', errors: [] });
+    });
+
+    it('should round trip a camt.053.001.12 statement', () => {
+      const report = CashManagementEndOfDayReport.fromXML(camt053V2Sample);
+      const recreated = CashManagementEndOfDayReport.fromXML(report.serialize('camt.053.001.12'));
+      expect(recreated.version).toBe('camt.053.001.12');
+      expect(recreated.messageId).toBe(report.messageId);
+      expect(recreated.recipient).toEqual(report.recipient);
+      expect(recreated.balances).toEqual(report.balances);
+      expect(recreated.entries.map(entry => ({ ...entry, status: undefined })))
+        .toEqual(report.entries.map(entry => ({ ...entry, status: undefined })));
+      expect(recreated.statements[0].netAmountOfEntries).toBe(40_00);
+      expect(recreated.statements[0].netCreditDebitIndicator).toBe('credit');
+    });
+
+    it('should throw on an unsupported version', () => {
+      const camt053V13 = camt053V2Sample.replace('camt.053.001.02', 'camt.053.001.13');
+      expect(() => CashManagementEndOfDayReport.fromXML(camt053V13)).toThrow(InvalidXmlNamespaceError);
+      expect(() => CashManagementEndOfDayReport.fromXML(camt053V13)).toThrow('Unsupported CAMT.053 version: camt.053.001.13');
+    });
+  });
+
+  describe('amounts', () => {
+    const camt053V2Sample = fs.readFileSync(`${process.cwd()}/test/assets/goldman_sachs/camt_053_us_v2_sample.xml`, 'utf8');
+    const treasuryScaleSample = camt053V2Sample.replace('>843686.20<', '>123456789012345678.99<');
+
+    it('should parse amounts exactly', () => {
+      const report = CashManagementEndOfDayReport.fromXML(camt053V2Sample.replace('>843686.20<', '>4.35<'));
+      expect(report.balances[0].amount).toBe(435);
+    });
+
+    it('should parse the sums of the transactions summary exactly', () => {
+      const report = CashManagementEndOfDayReport.fromXML(camt053V2Sample.replace('<Sum>140.00</Sum>', '<Sum>123456789012345678.99</Sum>'), { amountMode: 'bigint' });
+      expect(report.statements[0].sumOfEntries).toBe(12345678901234567899n);
+      expect(report.statements[0].sumOfCreditEntries).toBe(90_00n);
+      expect(report.serialize()).toContain('<Sum>123456789012345678.99</Sum>');
+    });
+
+    it('should throw on amounts that do not fit in a number', () => {
+      expect(() => CashManagementEndOfDayReport.fromXML(treasuryScaleSample)).toThrow(AmountOutOfRangeError);
+    });
+
+    it('should parse amounts as bigints in the bigint amount mode', () => {
+      const report = CashManagementEndOfDayReport.fromXML(treasuryScaleSample, { amountMode: 'bigint' });
+      expect(report.balances[0].amount).toBe(12345678901234567899n);
+      expect(typeof report.entries[0].amount).toBe('bigint');
+      expect(report.statements[0].netAmountOfEntries).toBe(40_00n);
+      expect(report.statements[0].sumOfEntries).toBe(140_00n);
+      expect(report.serialize()).toContain('>123456789012345678.99<');
+
+      const recreated = CashManagementEndOfDayReport.fromJSON(JSON.stringify(report.toJSON()), { amountMode: 'bigint' });
+      expect(recreated.balances).toEqual(report.balances);
+    });
+  });
+
+  describe('transaction amounts and charges', () => {
+    const fxChargesSample = fs.readFileSync(`${process.cwd()}/test/assets/example/camt_053_v12_fx_charges.xml`, 'utf8');
+
+    function checkTransactions(report: CashManagementEndOfDayReport) {
+      const [fxPayment, domesticPayment] = report.transactions;
+      expect(fxPayment.amount).toBe(925_00);
+      expect(fxPayment.currency).toBe('EUR');
+      expect(fxPayment.creditDebitIndicator).toBe('debit');
+      expect(fxPayment.instructedAmount).toBe(1000_00);
+      expect(fxPayment.instructedCurrency).toBe('USD');
+      expect(fxPayment.amountDetails).toEqual({
+        instructed: {
+          amount: 1000_00,
+          currency: 'USD',
+          currencyExchange: {
+            sourceCurrency: 'EUR',
+            targetCurrency: 'USD',
+            unitCurrency: 'EUR',
+            exchangeRate: 1.081081,
+            contractId: 'FX-2025-0042',
+            quotationDate: new Date('2025-03-10T09:00:00.000Z'),
+          },
+        },
+        transaction: { amount: 1000_00, currency: 'USD' },
+        counterValue: { amount: 925_00, currency: 'EUR' },
+      });
+      expect(fxPayment.charges).toEqual({
+        totalChargesAndTaxAmount: 7_50,
+        totalChargesAndTaxCurrency: 'EUR',
+        records: [
+          {
+            amount: 5_00,
+            currency: 'EUR',
+            creditDebitIndicator: 'debit',
+            chargeIncluded: true,
+            type: 'COMM',
+            bearer: 'DEBT',
+            agent: { bic: 'COBADEFFXXX' },
+          },
+          {
+            amount: 2_50,
+            currency: 'EUR',
+            creditDebitIndicator: 'debit',
+            chargeIncluded: true,
+            type: 'FX MARGIN',
+            rate: 0.25,
+            bearer: 'DEBT',
+          },
+        ],
+      });
+      expect(fxPayment.creditor).toEqual({
+        name: 'Acme Inc',
+        address: { buildingName: 'Acme Tower', floor: '12', townName: 'New York', country: 'US' },
+        identification: { organisation: { lei: '5493001KJTIIGC8Y1R12' } },
+        account: { accountNumber: '987654321012' },
+        agent: { bic: 'CHASUS33XXX' },
+      });
+      expect(fxPayment.ultimateCreditor).toEqual({ name: 'Acme Subsidiary LLC' });
+      expect(fxPayment.relatedAgents).toEqual({ intermediaryAgent1: { bic: 'DEUTDEFFXXX' } });
+      expect(domesticPayment.amount).toBe(925_00);
+      expect(domesticPayment.amountDetails).toEqual({ transaction: { amount: 925_00, currency: 'EUR' } });
+      expect(domesticPayment.charges).toBeUndefined();
+      expect(domesticPayment.structuredRemittanceInformation).toEqual([{
+        referredDocuments: [{ type: 'CINV', number: '0000417', relatedDate: new Date('2025-02-28'), relatedDateType: 'DOCUMENT DATE' }],
+        referredDocumentAmount: { currency: 'EUR', duePayableAmount: 925_00, taxAmount: 160_54 },
+        creditorReference: { reference: 'RF18539007547034', type: 'SCOR', issuer: 'ISO', scheme: 'rf' },
+        taxRemittance: { creditorTaxId: 'DE123456789', currency: 'EUR', totalTaxableBaseAmount: 764_46, totalTaxAmount: 160_54 },
+        additionalInformation: ['Maintenance February'],
+      }]);
+      expect(domesticPayment.creditorReference).toEqual(domesticPayment.structuredRemittanceInformation?.[0].creditorReference);
+    }
+
+    it('should parse the amounts, currency exchanges and charges of each transaction', () => {
+      checkTransactions(CashManagementEndOfDayReport.fromXML(fxChargesSample));
+    });
+
+    it('should round trip through JSON', () => {
+      const report = CashManagementEndOfDayReport.fromXML(fxChargesSample);
+      checkTransactions(CashManagementEndOfDayReport.fromJSON(JSON.stringify(report.toJSON())));
+    });
+
+    it('should round trip through serialize', () => {
+      const report = CashManagementEndOfDayReport.fromXML(fxChargesSample);
+      checkTransactions(CashManagementEndOfDayReport.fromXML(report.serialize()));
+      expect(report.validateAgainstSchema()).toEqual({ valid: true, schema: 'camt.053.001.12', errors: [] });
+    });
+
+    it('should list the charges directly in camt.053.001.02', () => {
+      const report = CashManagementEndOfDayReport.fromXML(fxChargesSample);
+      const xml = report.serialize('camt.053.001.02');
+      expect(xml).not.toContain('<Rcrd>');
+      expect(xml).not.toContain('<ChrgInclInd>');
+      expect(xml).toMatch(/<Chrgs>[\s\n]*<TtlChrgsAndTaxAmt Ccy="EUR">7.50<\/TtlChrgsAndTaxAmt>[\s\n]*<Amt Ccy="EUR">5.00<\/Amt>/);
+
+      const [fxPayment] = CashManagementEndOfDayReport.fromXML(xml).transactions;
+      expect(fxPayment.amount).toBeUndefined();
+      expect(fxPayment.charges?.totalChargesAndTaxAmount).toBe(7_50);
+      expect(fxPayment.charges?.records.map(record => record.amount)).toEqual([5_00, 2_50]);
+    });
+
+    it('should write structured remittance information in the layout of camt.053.001.02', () => {
+      const report = CashManagementEndOfDayReport.fromXML(fxChargesSample);
+      const xml = report.serialize('camt.053.001.02');
+      expect(xml).toMatch(/<RfrdDocAmt>[\s\n]*<DuePyblAmt Ccy="EUR">925.00<\/DuePyblAmt>[\s\n]*<TaxAmt Ccy="EUR">160.54<\/TaxAmt>/);
+      expect(xml).toContain('<RltdDt>2025-02-28</RltdDt>');
+      expect(xml).not.toContain('<TaxRmt>');
+
+      const [remittance] = CashManagementEndOfDayReport.fromXML(xml).transactions[1].structuredRemittanceInformation || [];
+      expect(remittance.referredDocumentAmount).toEqual({ currency: 'EUR', duePayableAmount: 925_00, taxAmount: 160_54 });
+      expect(remittance.taxRemittance).toBeUndefined();
+    });
+
+    it('should parse transaction amounts as bigints in the bigint amount mode', () => {
+      const report = CashManagementEndOfDayReport.fromXML(fxChargesSample, { amountMode: 'bigint' });
+      const recreated = CashManagementEndOfDayReport.fromJSON(JSON.stringify(report.toJSON()), { amountMode: 'bigint' });
+      expect(recreated.transactions[0].amount).toBe(925_00n);
+      expect(recreated.transactions[0].amountDetails?.instructed?.amount).toBe(1000_00n);
+      expect(recreated.transactions[0].charges?.records[0].amount).toBe(5_00n);
+      expect(recreated.transactions[1].structuredRemittanceInformation?.[0].referredDocumentAmount?.duePayableAmount).toBe(925_00n);
+    });
+  });
+
   describe('with a non-CAMT 053 XML file', () => {
     it('should throw an error', () => {
       expect(() => {
@@ -0,0 +1,131 @@
+import { CashManagementDebitCreditNotification } from '../../../src/camt/054/cash-management-debit-credit-notification';
+import { getISO20022Implementation, ISO20022Messages } from '../../../src/lib/interfaces';
+import { InvalidXmlNamespaceError } from '../../../src/errors';
+import fs from 'fs';
+
+describe('CashManagementDebitCreditNotification', () => {
+  const filePath = `${process.cwd()}/test/assets/example/camt_054_v12_notification.xml`;
+  const camt054V12Sample = fs.readFileSync(filePath, 'utf8');
+
+  function checkNotification(notification: CashManagementDebitCreditNotification) {
+    expect(notification).toBeInstanceOf(CashManagementDebitCreditNotification);
+    expect(notification.messageId).toBe('NTF-20250310-0001');
+    expect(notification.creationDate.toISOString()).toBe('2025-03-10T10:15:00.000Z');
+    expect(notification.recipient).toEqual({
+      id: 'ELECTRIC',
+      name: 'Electrical',
+    });
+
+    // Synthetic methods (map reduced)
+    expect(notification.notifications.length).toBe(2);
+    expect(notification.entries.length).toBe(2);
+    expect(notification.transactions.length).toBe(2);
+
+    // Incoming SEPA credit
+    const eurNotification = notification.notifications[0];
+    expect(eurNotification.id).toBe('NTF-EUR-0001');
+    expect(eurNotification.electronicSequenceNumber).toBe(42);
+    expect(eurNotification.account).toEqual({
+      iban: 'ES9121000418450200051332',
+    });
+    expect(eurNotification.agent).toEqual({ bic: 'BSCHESMMXXX' });
+    expect(eurNotification.numOfEntries).toBe(1);
+    expect(eurNotification.numOfCreditEntries).toBe(1);
+
+    const sepaCredit = eurNotification.entries[0];
+    expect(sepaCredit.referenceId).toBe('0001');
+    expect(sepaCredit.creditDebitIndicator).toBe('credit');
+    expect(sepaCredit.amount).toBe(1250_00);
+    expect(sepaCredit.currency).toBe('EUR');
+    expect(sepaCredit.accountServicerReferenceId).toBe('SCT-2025031000042');
+    expect(sepaCredit.additionalInformation).toBe('SEPA CREDIT TRANSFER FROM GULI MANCINI');
+    expect(sepaCredit.bankTransactionCode).toEqual({
+      domainCode: 'PMNT',
+      domainFamilyCode: 'RCDT',
+      domainSubFamilyCode: 'ESCT',
+    });
+    expect(sepaCredit.transactions[0].endToEndId).toBe('INV-2025-0311');
+    expect(sepaCredit.transactions[0].remittanceInformation).toBe('Invoice 2025-0311 RF52 2025 0311');
+    expect(sepaCredit.transactions[0].creditorReference).toEqual({ reference: 'RF5220250311', scheme: 'rf' });
+    expect(sepaCredit.transactions[0].debtor).toEqual({
+      name: 'Guli Mancini',
+      address: {
+        streetName: 'Calle de Alcala',
+        buildingNumber: '42',
+        postalCode: '28014',
+        townName: 'Madrid',
+        country: 'ES',
+      },
+      identification: { privatePerson: { other: [{ id: '12345678Z', schemeName: 'NIDN' }] } },
+      account: { iban: 'ES7100302053091234567895' },
+      agent: { bic: 'BBVAESMMXXX' },
+    });
+    expect(sepaCredit.transactions[0].ultimateDebtor).toEqual({
+      id: 'B12345674',
+      name: 'Mancini Consulting SL',
+      identification: { organisation: { other: [{ id: 'B12345674', schemeName: 'TXID' }] } },
+    });
+    expect(sepaCredit.transactions[0].relatedAgents).toEqual({ intermediaryAgent1: { bic: 'CAIXESBBXXX' } });
+
+    // ACH return
+    const usdNotification = notification.notifications[1];
+    expect(usdNotification.account).toEqual({
+      accountNumber: '123456789012',
+      currency: 'USD',
+    });
+    expect(usdNotification.agent).toBeUndefined();
+
+    const achReturn = usdNotification.entries[0];
+    expect(achReturn.amount).toBe(150_00);
+    expect(achReturn.bankTransactionCode.domainSubFamilyCode).toBe('RRTN');
+    expect(achReturn.transactions[0].endToEndId).toBe('abcdefg');
+    expect(achReturn.transactions[0].returnReason).toBe('R03');
+    expect(achReturn.transactions[0].returnAdditionalInformation).toBe('No account/unable to locate account');
+    expect(achReturn.transactions[0].creditor?.name).toBe('John Doe');
+  }
+
+  it('should create an instance from XML', () => {
+    checkNotification(CashManagementDebitCreditNotification.fromXML(camt054V12Sample));
+  });
+
+  it('should create an instance from JSON', () => {
+    const notification = CashManagementDebitCreditNotification.fromXML(camt054V12Sample);
+    const json = JSON.stringify(notification.toJSON());
+    checkNotification(CashManagementDebitCreditNotification.fromJSON(json));
+  });
+
+  it('should round trip through serialize', () => {
+    const notification = CashManagementDebitCreditNotification.fromXML(camt054V12Sample);
+    expect(notification.version).toBe('camt.054.001.12');
+    const xml = notification.serialize();
+    expect(xml).toContain('urn:iso:std:iso:20022:tech:xsd:camt.054.001.12');
+    checkNotification(CashManagementDebitCreditNotification.fromXML(xml));
+  });
+
+  it('should serialize a valid camt.054.001.12 notification', () => {
+    const notification = CashManagementDebitCreditNotification.fromXML(camt054V12Sample);
+    const xml = notification.serialize();
+    expect(xml).toContain('<BICFI>BSCHESMMXXX</BICFI>');
+    expect(xml).toMatch(/<Sts>[\s\n]*<Cd>BOOK<\/Cd>[\s\n]*<\/Sts>/);
+    expect(xml).toMatch(/<Dbtr>[\s\n]*<Pty>[\s\n]*<Nm>Guli Mancini<\/Nm>/);
+    expect(notification.validateAgainstSchema()).toEqual({ valid: true, schema: 'camt.054.001.12', errors: [] });
+  });
+
+  it('should serialize in the layout of the given version', () => {
+    const notification = CashManagementDebitCreditNotification.fromXML(camt054V12Sample);
+    const xml = notification.serialize('camt.054.001.02');
+    expect(xml).toContain('urn:iso:std:iso:20022:tech:xsd:camt.054.001.02');
+    expect(xml).toContain('<BIC>BSCHESMMXXX</BIC>');
+    expect(xml).toContain('<Sts>BOOK</Sts>');
+    checkNotification(CashManagementDebitCreditNotification.fromXML(xml));
+  });
+
+  it('should be registered as the CAMT.054 implementation', () => {
+    expect(getISO20022Implementation(ISO20022Messages.CAMT_054)).toBe(CashManagementDebitCreditNotification);
+  });
+
+  it('should throw on a non CAMT.054 namespace', () => {
+    const camt053 = fs.readFileSync(`${process.cwd()}/test/assets/goldman_sachs/camt_053_uk_v2_1.xml`, 'utf8');
+    expect(() => CashManagementDebitCreditNotification.fromXML(camt053)).toThrow(InvalidXmlNamespaceError);
+  });
+});
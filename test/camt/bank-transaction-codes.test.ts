@@ -0,0 +1,86 @@
+import fs from 'fs';
+import {
+  BankTransactionCodeStructure,
+  BankTransactionSubFamilyCodeDescriptionMap,
+  describeBankTransactionCode,
+  isCardTransaction,
+  isReturn,
+  isValidBankTransactionCode,
+} from '../../src/camt/bank-transaction-codes';
+import { CashManagementDebitCreditNotification } from '../../src/camt/054/cash-management-debit-credit-notification';
+import { Entry } from '../../src/camt/types';
+
+describe('Bank transaction codes', () => {
+  const notification = CashManagementDebitCreditNotification.fromXML(
+    fs.readFileSync(`${process.cwd()}/test/assets/example/camt_054_v12_notification.xml`, 'utf8'),
+  );
+  const [sepaCredit, achReturn] = notification.entries;
+
+  const cardPayment = {
+    bankTransactionCode: { domainCode: 'PMNT', domainFamilyCode: 'CCRD', domainSubFamilyCode: 'POSD' },
+    transactions: [],
+  } as Pick<Entry, 'bankTransactionCode' | 'transactions'>;
+
+  describe('isValidBankTransactionCode', () => {
+    it('should accept combinations defined by ISO 20022', () => {
+      expect(isValidBankTransactionCode(sepaCredit.bankTransactionCode)).toBe(true);
+      expect(isValidBankTransactionCode(cardPayment.bankTransactionCode)).toBe(true);
+      expect(isValidBankTransactionCode({ domainCode: 'CAMT', domainFamilyCode: 'ACCB', domainSubFamilyCode: 'SWEP' })).toBe(true);
+    });
+
+    it('should reject families and sub-families outside their domain', () => {
+      expect(isValidBankTransactionCode({ domainCode: 'CAMT', domainFamilyCode: 'RCDT', domainSubFamilyCode: 'ESCT' })).toBe(false);
+      expect(isValidBankTransactionCode({ domainCode: 'PMNT', domainFamilyCode: 'CCRD', domainSubFamilyCode: 'ESCT' })).toBe(false);
+      expect(isValidBankTransactionCode({ domainCode: 'XXXX' as any, domainFamilyCode: 'RCDT', domainSubFamilyCode: 'ESCT' })).toBe(false);
+    });
+
+    it('should reject codes that only have a proprietary form', () => {
+      expect(isValidBankTransactionCode({ proprietaryCode: '195', proprietaryCodeIssuer: 'BAI' })).toBe(false);
+    });
+
+    it('should only reference described sub-families', () => {
+      Object.values(BankTransactionCodeStructure).forEach(families => {
+        Object.values(families).forEach(subFamilies => {
+          subFamilies?.forEach(subFamily => expect(BankTransactionSubFamilyCodeDescriptionMap[subFamily]).toBeDefined());
+        });
+      });
+    });
+  });
+
+  describe('describeBankTransactionCode', () => {
+    it('should describe the domain, family and sub-family', () => {
+      expect(describeBankTransactionCode(sepaCredit.bankTransactionCode))
+        .toBe('Payments / Received Credit Transfers / SEPA Credit Transfer');
+    });
+
+    it('should keep unknown codes as they are', () => {
+      expect(describeBankTransactionCode({ domainCode: 'PMNT', domainFamilyCode: 'ZZZZ' as any }))
+        .toBe('Payments / ZZZZ');
+    });
+
+    it('should fall back to the proprietary code', () => {
+      expect(describeBankTransactionCode({ proprietaryCode: '195' })).toBe('195');
+      expect(describeBankTransactionCode({})).toBeUndefined();
+    });
+  });
+
+  describe('isCardTransaction', () => {
+    it('should detect customer and merchant card payments', () => {
+      expect(isCardTransaction(cardPayment)).toBe(true);
+      expect(isCardTransaction({ bankTransactionCode: { domainCode: 'PMNT', domainFamilyCode: 'MCRD', domainSubFamilyCode: 'POSP' } })).toBe(true);
+      expect(isCardTransaction(sepaCredit)).toBe(false);
+    });
+  });
+
+  describe('isReturn', () => {
+    it('should detect returned payments', () => {
+      expect(isReturn(achReturn)).toBe(true);
+      expect(isReturn(sepaCredit)).toBe(false);
+      expect(isReturn(cardPayment)).toBe(false);
+    });
+
+    it('should detect returns from the return reason of a transaction', () => {
+      expect(isReturn({ ...cardPayment, transactions: [{ returnReason: 'AC04' }] })).toBe(true);
+    });
+  });
+});
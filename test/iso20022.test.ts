@@ -0,0 +1,189 @@
+import fs from 'fs';
+import ISO20022 from '../src/iso20022';
+import { InvalidXmlError, InvalidXmlNamespaceError } from '../src/errors';
+import { detectISO20022Message, getISO20022Implementation, ISO20022Messages } from '../src/lib/interfaces';
+import { CashManagementEndOfDayReport } from '../src/camt/053/cash-management-end-of-day-report';
+import { CashManagementReturnAccount } from '../src/camt/004/cash-management-return-account';
+import { PaymentStatusReport } from '../src/pain/002/payment-status-report';
+import { SEPACreditPaymentInitiation } from '../src/pain/001/sepa-credit-payment-initiation';
+import { SWIFTCreditPaymentInitiation } from '../src/pain/001/swift-credit-payment-initiation';
+import { ACHCreditPaymentInitiation } from '../src/pain/001/ach-credit-payment-initiation';
+import { RTPCreditPaymentInitiation } from '../src/pain/001/rtp-credit-payment-initiation';
+import { SEPADirectDebitPaymentInitiation } from '../src/pain/008/sepa-direct-debit-payment-initiation';
+
+const readAsset = (path: string) => fs.readFileSync(`${process.cwd()}/test/assets/${path}`, 'utf8');
+
+describe('ISO20022.parse', () => {
+  test('should parse a CAMT.053 statement', () => {
+    const parsed = ISO20022.parse(readAsset('goldman_sachs/camt_053_uk_v2_1.xml'));
+    expect(parsed.type).toBe('CAMT.053');
+    expect(parsed.version).toBe('camt.053.001.02');
+    expect(parsed.message).toBeInstanceOf(CashManagementEndOfDayReport);
+    if (parsed.type === 'CAMT.053') {
+      expect(parsed.message.statements.length).toBeGreaterThan(0);
+    }
+  });
+
+  test('should register the reports without importing their classes', () => {
+    jest.isolateModules(() => {
+      const IsolatedISO20022 = require('../src/iso20022').default;
+      expect(IsolatedISO20022.parse(readAsset('goldman_sachs/camt_053_uk_v2_1.xml')).type).toBe('CAMT.053');
+      expect(IsolatedISO20022.parse(readAsset('goldman_sachs/pain_002_v3_accepted.xml')).type).toBe('PAIN.002');
+      expect(IsolatedISO20022.parse(readAsset('example/camt_052_v12_intraday_report.xml')).type).toBe('CAMT.052');
+      expect(IsolatedISO20022.parse(readAsset('example/camt_054_v12_notification.xml')).type).toBe('CAMT.054');
+    });
+  });
+
+  test('should parse a PAIN.002 status report', () => {
+    const parsed = ISO20022.parse(readAsset('example/pain_002_v14_original_transaction_reference.xml'));
+    expect(parsed.type).toBe('PAIN.002');
+    expect(parsed.version).toBe('pain.002.001.14');
+    expect(parsed.message).toBeInstanceOf(PaymentStatusReport);
+  });
+
+  test('should parse a CAMT.004 message', () => {
+    const xml = CashManagementReturnAccount.fromJSON(readAsset('camt/camt.004.sample1.json')).serialize();
+    const parsed = ISO20022.parse(xml);
+    expect(parsed.type).toBe('CAMT.004');
+    expect(parsed.message).toBeInstanceOf(CashManagementReturnAccount);
+  });
+
+  test('should pick the PAIN.001 class from the payment type', () => {
+    expect(ISO20022.parse(readAsset('example/sepa_pain_001_v3.xml')).message).toBeInstanceOf(SEPACreditPaymentInitiation);
+    expect(ISO20022.parse(readAsset('example/swift_pain_001_v3.xml')).message).toBeInstanceOf(SWIFTCreditPaymentInitiation);
+    expect(ISO20022.parse(readAsset('cross_river/pain_001_ach_credit.xml')).message).toBeInstanceOf(ACHCreditPaymentInitiation);
+    expect(ISO20022.parse(readAsset('cross_river/pain_001_rtp_credit.xml')).message).toBeInstanceOf(RTPCreditPaymentInitiation);
+  });
+
+  test('should throw on unknown messages', () => {
+    expect(() => ISO20022.parse('<Document xmlns="urn:example"/>')).toThrow(InvalidXmlNamespaceError);
+    expect(() => ISO20022.parse('<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pacs.008.001.08"/>')).toThrow(
+      'Unknown message: pacs.008.001.08',
+    );
+    expect(() => ISO20022.parse('<Foo/>')).toThrow(InvalidXmlError);
+  });
+});
+
+describe('ISO20022.parseJSON', () => {
+  test('should parse a message exported with toJSON', () => {
+    const report = CashManagementEndOfDayReport.fromXML(readAsset('goldman_sachs/camt_053_uk_v2_1.xml'));
+    const parsed = ISO20022.parseJSON(JSON.stringify(report.toJSON()));
+    expect(parsed.type).toBe('CAMT.053');
+    expect(parsed.version).toBeUndefined();
+    expect(parsed.message).toBeInstanceOf(CashManagementEndOfDayReport);
+  });
+
+  test('should parse a CAMT.004 JSON message', () => {
+    const parsed = ISO20022.parseJSON(readAsset('camt/camt.004.sample1.json'));
+    expect(parsed.type).toBe('CAMT.004');
+    expect(parsed.message).toBeInstanceOf(CashManagementReturnAccount);
+  });
+
+  test('should parse PAIN.001 and PAIN.002 messages exported with toJSON', () => {
+    const sepaPayment = SEPACreditPaymentInitiation.fromXML(readAsset('example/sepa_pain_001_v3.xml'));
+    const parsedPayment = ISO20022.parseJSON(JSON.stringify(sepaPayment.toJSON()));
+    expect(parsedPayment.type).toBe('PAIN.001');
+    expect(parsedPayment.version).toBe('pain.001.001.03');
+    expect(parsedPayment.message).toBeInstanceOf(SEPACreditPaymentInitiation);
+    expect(parsedPayment.message.data).toEqual(sepaPayment.data);
+
+    const statusReport = PaymentStatusReport.fromXML(readAsset('goldman_sachs/pain_002_v3_accepted.xml'));
+    const parsedReport = ISO20022.parseJSON(JSON.stringify(statusReport.toJSON()));
+    expect(parsedReport.type).toBe('PAIN.002');
+    expect(parsedReport.message.serialize()).toBe(statusReport.serialize());
+  });
+
+  test('should throw on unknown messages', () => {
+    expect(() => ISO20022.parseJSON('{"Document":{"FIToFICstmrCdtTrf":{}}}')).toThrow(InvalidXmlNamespaceError);
+  });
+});
+
+describe('detectISO20022Message', () => {
+  test('should detect the message from the namespace', () => {
+    expect(detectISO20022Message({ Document: { '@_xmlns': 'urn:iso:std:iso:20022:tech:xsd:camt.054.001.08' } })).toEqual({
+      type: 'CAMT.054',
+      version: 'camt.054.001.08',
+    });
+  });
+
+  test('should detect the message from the message element', () => {
+    expect(detectISO20022Message({ Document: { CstmrPmtStsRpt: {} } })).toEqual({ type: 'PAIN.002' });
+  });
+});
+
+describe('generic message registry', () => {
+  const initiatingParty = {
+    name: 'Electrical',
+    id: 'ELECTRIC',
+    account: { iban: 'ES9121000418450200051332' },
+    agent: { bic: 'BSCHESMMXXX' },
+  };
+
+  test('should register the payment initiation and status classes', () => {
+    expect(getISO20022Implementation(ISO20022Messages.PAIN_002)).toBe(PaymentStatusReport);
+    expect(getISO20022Implementation(ISO20022Messages.PAIN_008)).toBe(SEPADirectDebitPaymentInitiation);
+    expect(getISO20022Implementation(ISO20022Messages.PAIN_001, { paymentInstructions: [{ type: 'ach' }] })).toBe(ACHCreditPaymentInitiation);
+    expect(getISO20022Implementation(ISO20022Messages.PAIN_001, { paymentInstructions: [{ type: 'rtp' }] })).toBe(RTPCreditPaymentInitiation);
+  });
+
+  test('should create a PAIN.001 message from the payment instruction type', () => {
+    const iso20022 = new ISO20022({ initiatingParty });
+    const message = iso20022.createMessage('PAIN.001', {
+      initiatingParty,
+      paymentInstructions: [{
+        type: 'sepa',
+        direction: 'credit',
+        amount: 1000,
+        currency: 'EUR',
+        creditor: {
+          name: 'Dáel Muñiz',
+          account: { iban: 'ES3701822200150201504058' },
+          agent: { bic: 'BBVAESMMXXX' },
+        },
+      }],
+    });
+
+    expect(message).toBeInstanceOf(SEPACreditPaymentInitiation);
+    expect(message.validateAgainstSchema().valid).toBe(true);
+    expect(new SEPACreditPaymentInitiation(message.data).data).toEqual(message.data);
+  });
+
+  test('should create a SWIFT PAIN.001 message from untyped payment instructions', () => {
+    const message = new ISO20022({ initiatingParty }).createMessage('PAIN.001', {
+      initiatingParty,
+      paymentInstructions: [{
+        id: 'PAYMENT-1',
+        amount: 1000,
+        currency: 'USD',
+        creditor: {
+          name: 'All-American Dogs Co.',
+          account: { accountNumber: '123456789012' },
+          agent: { bic: 'CHASUS33XXX' },
+          address: {
+            streetName: 'Main St',
+            buildingNumber: '123',
+            postalCode: '12345',
+            townName: 'Funkytown',
+            country: 'US',
+          },
+        },
+      }],
+    });
+
+    expect(message).toBeInstanceOf(SWIFTCreditPaymentInitiation);
+    expect(message.serialize()).toContain('<EndToEndId>PAYMENT-1</EndToEndId>');
+  });
+
+  test('should create a PAIN.002 message', () => {
+    const report = PaymentStatusReport.fromXML(readAsset('goldman_sachs/pain_002_v3_accepted.xml'));
+    const message = new ISO20022({ initiatingParty }).createMessage('PAIN.002', report.data);
+    expect(message).toBeInstanceOf(PaymentStatusReport);
+    expect(message.serialize()).toBe(report.serialize());
+  });
+
+  test('should throw when no PAIN.001 implementation matches the payment instructions', () => {
+    expect(() => new ISO20022({ initiatingParty }).createMessage('PAIN.001', { initiatingParty, paymentInstructions: [] })).toThrow(
+      'No implementation found for message type PAIN.001',
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { adjustToBusinessDay, bankHolidays, isBusinessDay, nextBusinessDay, toISODate } from '../../src/lib/business-days';
+
+describe('toISODate', () => {
+    test('should read dates in a time zone', () => {
+        const evening = new Date('2025-03-06T01:00:00.000Z');
+        expect(toISODate(evening)).toBe('2025-03-06');
+        expect(toISODate(evening, 'America/New_York')).toBe('2025-03-05');
+        expect(toISODate(new Date('2025-03-05T23:30:00.000Z'), 'Europe/Berlin')).toBe('2025-03-06');
+    });
+
+    test('should keep calendar dates as they are', () => {
+        expect(toISODate('2025-03-05', 'America/New_York')).toBe('2025-03-05');
+        expect(() => toISODate('2025-02-30')).toThrow('Date 2025-02-30 must be a calendar date in the format YYYY-MM-DD');
+        expect(() => toISODate('05/03/2025')).toThrow();
+        expect(() => toISODate(new Date('2025-03-05'), 'Mars/Olympus_Mons')).toThrow('Unknown time zone Mars/Olympus_Mons');
+    });
+});
+
+describe('bankHolidays', () => {
+    test('should list the TARGET2 closing days', () => {
+        expect(bankHolidays('target2', 2025)).toEqual(['2025-01-01', '2025-04-18', '2025-04-21', '2025-05-01', '2025-12-25', '2025-12-26']);
+    });
+
+    test('should list the US Federal Reserve holidays, observing Sunday holidays on Monday', () => {
+        expect(bankHolidays('federal-reserve', 2025)).toEqual([
+            '2025-01-01', '2025-01-20', '2025-02-17', '2025-05-26', '2025-06-19', '2025-07-04',
+            '2025-09-01', '2025-10-13', '2025-11-11', '2025-11-27', '2025-12-25',
+        ]);
+        expect(bankHolidays('federal-reserve', 2022)).toContain('2022-06-20');
+        expect(bankHolidays('federal-reserve', 2021)).not.toContain('2021-06-18');
+    });
+
+    test('should list the UK bank holidays with their substitute days', () => {
+        expect(bankHolidays('uk', 2022)).toEqual([
+            '2022-01-03', '2022-04-15', '2022-04-18', '2022-05-02', '2022-06-02',
+            '2022-06-03', '2022-08-29', '2022-09-19', '2022-12-26', '2022-12-27',
+        ]);
+        expect(bankHolidays('uk', 2021)).toEqual(expect.arrayContaining(['2021-12-27', '2021-12-28']));
+        expect(bankHolidays('uk', 2020)).toContain('2020-05-08');
+    });
+});
+
+describe('business days', () => {
+    test('should tell business days apart', () => {
+        expect(isBusinessDay('2025-04-18', 'target2')).toBe(false);
+        expect(isBusinessDay('2025-04-18', 'federal-reserve')).toBe(true);
+        expect(isBusinessDay('2025-03-08', 'uk')).toBe(false);
+        expect(isBusinessDay(new Date('2025-03-10'), 'uk')).toBe(true);
+    });
+
+    test('should roll dates forward to the next business day', () => {
+        expect(nextBusinessDay('2025-04-18', 'target2')).toBe('2025-04-22');
+        expect(nextBusinessDay('2025-07-04', 'federal-reserve')).toBe('2025-07-07');
+        expect(nextBusinessDay('2025-12-24', 'uk')).toBe('2025-12-24');
+        expect(nextBusinessDay('2026-01-01', 'target2')).toBe('2026-01-02');
+    });
+
+    test('should apply business day conventions', () => {
+        expect(adjustToBusinessDay('2025-12-25', 'uk', 'following')).toBe('2025-12-29');
+        expect(adjustToBusinessDay('2025-12-24', 'uk', 'reject')).toBe('2025-12-24');
+        expect(() => adjustToBusinessDay('2025-12-25', 'target2', 'reject')).toThrow('2025-12-25 is not a TARGET2 business day');
+    });
+});
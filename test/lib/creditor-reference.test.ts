@@ -0,0 +1,172 @@
+import {
+    creditorReferenceRemittance,
+    detectCreditorReferenceScheme,
+    findRFCreditorReference,
+    generateCreditorReference,
+    generateFinnishReference,
+    generateKIDReference,
+    generateRFCreditorReference,
+    generateSwissQRReference,
+    validateCreditorReference,
+    validateFinnishReference,
+    validateKIDReference,
+    validateRFCreditorReference,
+    validateSwissQRReference,
+} from '../../src/lib/creditor-reference';
+import { SEPACreditPaymentInitiation } from '../../src/pain/001/sepa-credit-payment-initiation';
+
+describe('RF creditor references', () => {
+    test('should generate the ISO 11649 check digits', () => {
+        expect(generateRFCreditorReference('539007547034')).toBe('RF18539007547034');
+        expect(generateRFCreditorReference('inv2025042')).toMatch(/^RF[0-9]{2}INV2025042$/);
+        expect(validateRFCreditorReference(generateRFCreditorReference('INV2025042')).valid).toBe(true);
+    });
+
+    test('should refuse references that cannot be protected', () => {
+        expect(() => generateRFCreditorReference('')).toThrow('Reference  must be 1 to 21 letters and digits to generate an RF creditor reference');
+        expect(() => generateRFCreditorReference('INV-2025-042')).toThrow();
+        expect(() => generateRFCreditorReference('1234567890123456789012')).toThrow();
+    });
+
+    test('should validate RF creditor references', () => {
+        expect(validateRFCreditorReference('RF18539007547034')).toEqual({ valid: true, errors: [] });
+        expect(validateRFCreditorReference('RF19539007547034')).toEqual({
+            valid: false,
+            errors: ['RF creditor reference RF19539007547034 has an invalid checksum'],
+        });
+        expect(validateRFCreditorReference('RF18 5390 0754 7034').valid).toBe(false);
+    });
+
+    test('should find RF creditor references in free text', () => {
+        expect(findRFCreditorReference('Invoice 42 RF18 5390 0754 7034')).toBe('RF18539007547034');
+        expect(findRFCreditorReference('RF18539007547034 thank you')).toBe('RF18539007547034');
+        expect(findRFCreditorReference('Invoice RF19 5390 0754 7034')).toBeUndefined();
+        expect(findRFCreditorReference('Rent March')).toBeUndefined();
+    });
+});
+
+describe('Swiss QR references', () => {
+    test('should generate the mod 10 recursive check digit', () => {
+        expect(generateSwissQRReference('21000000000313947143000901')).toBe('210000000003139471430009017');
+        expect(generateSwissQRReference('1234')).toBe('000000000000000000000012347');
+    });
+
+    test('should validate Swiss QR references', () => {
+        expect(validateSwissQRReference('210000000003139471430009017')).toEqual({ valid: true, errors: [] });
+        expect(validateSwissQRReference('210000000003139471430009018').errors).toEqual([
+            'Swiss QR reference 210000000003139471430009018 has an invalid check digit',
+        ]);
+        expect(validateSwissQRReference('000000000000000000000000000').valid).toBe(false);
+        expect(validateSwissQRReference('12348').valid).toBe(false);
+    });
+});
+
+describe('Norwegian KID references', () => {
+    test('should generate MOD10 and MOD11 check digits', () => {
+        expect(generateKIDReference('123456789')).toBe('1234567897');
+        expect(generateKIDReference('123456789', 'mod11')).toBe('1234567892');
+        expect(generateKIDReference('1', 'mod11')).toBe('19');
+        expect(generateKIDReference('6', 'mod11')).toBe('6-');
+    });
+
+    test('should validate KID references with either algorithm', () => {
+        expect(validateKIDReference('1234567897')).toEqual({ valid: true, errors: [] });
+        expect(validateKIDReference('1234567892').valid).toBe(true);
+        expect(validateKIDReference('6-').valid).toBe(true);
+        expect(validateKIDReference('1234567892', 'mod10')).toEqual({
+            valid: false,
+            errors: ['KID reference 1234567892 has an invalid check digit'],
+        });
+        expect(validateKIDReference('1').valid).toBe(false);
+    });
+});
+
+describe('Finnish references', () => {
+    test('should generate the 7-3-1 weighted check digit', () => {
+        expect(generateFinnishReference('123')).toBe('1232');
+        expect(generateFinnishReference('1234567')).toBe('12345672');
+        expect(() => generateFinnishReference('12')).toThrow('Reference 12 must be 3 to 19 digits to generate a Finnish reference');
+    });
+
+    test('should validate Finnish references', () => {
+        expect(validateFinnishReference('12345672')).toEqual({ valid: true, errors: [] });
+        expect(validateFinnishReference('12345673').errors).toEqual(['Finnish reference 12345673 has an invalid check digit']);
+        expect(validateFinnishReference('123').valid).toBe(false);
+    });
+});
+
+describe('generateCreditorReference and validateCreditorReference', () => {
+    test('should dispatch on the scheme', () => {
+        expect(generateCreditorReference('rf', '539007547034')).toBe('RF18539007547034');
+        expect(generateCreditorReference('kid', '123456789')).toBe('1234567897');
+        expect(validateCreditorReference('fi', '12345672').valid).toBe(true);
+        expect(validateCreditorReference('qrr', '12345672').valid).toBe(false);
+    });
+});
+
+describe('detectCreditorReferenceScheme', () => {
+    test('should recognise RF creditor references and Swiss QR references on their own', () => {
+        expect(detectCreditorReferenceScheme('RF18539007547034')).toBe('rf');
+        expect(detectCreditorReferenceScheme('rf18 5390 0754 7034')).toBe('rf');
+        expect(detectCreditorReferenceScheme('21 00000 00003 13947 14300 09017')).toBe('qrr');
+    });
+
+    test('should only recognise national references with the country of the creditor account', () => {
+        expect(detectCreditorReferenceScheme('12345672')).toBeUndefined();
+        expect(detectCreditorReferenceScheme('12345672', 'FI')).toBe('fi');
+        expect(detectCreditorReferenceScheme('1234567897', 'NO')).toBe('kid');
+        expect(detectCreditorReferenceScheme('1234567890', 'NO')).toBeUndefined();
+    });
+});
+
+describe('creditorReferenceRemittance', () => {
+    test('should type the creditor reference after its scheme', () => {
+        expect(creditorReferenceRemittance('RF18 5390 0754 7034')).toEqual({
+            creditorReference: { reference: 'RF18539007547034', type: 'SCOR', issuer: 'ISO', scheme: 'rf' },
+        });
+        expect(creditorReferenceRemittance('210000000003139471430009017')).toEqual({
+            creditorReference: { reference: '210000000003139471430009017', type: 'QRR', scheme: 'qrr' },
+        });
+        expect(creditorReferenceRemittance('1234567897', 'kid')).toEqual({
+            creditorReference: { reference: '1234567897', type: 'SCOR', scheme: 'kid' },
+        });
+    });
+
+    test('should plug into SEPA credit transfers', () => {
+        const paymentInstruction = {
+            type: 'sepa' as const,
+            direction: 'credit' as const,
+            amount: 1000,
+            currency: 'EUR' as const,
+            creditor: {
+                name: 'Guli Mancini',
+                account: { iban: 'ES9121000418450200051332' },
+                agent: { bic: 'BBVAESMMXXX' },
+            },
+        };
+        const initiatingParty = {
+            name: 'Electrical',
+            id: 'ELECTRIC',
+            account: { iban: 'ES9121000418450200051332' },
+            agent: { bic: 'BSCHESMMXXX' },
+        };
+
+        const unstructured = new SEPACreditPaymentInitiation({
+            initiatingParty,
+            paymentInstructions: [{ ...paymentInstruction, remittanceInformation: generateRFCreditorReference('539007547034') }],
+        });
+        expect(unstructured.serialize()).toContain('<Ustrd>RF18539007547034</Ustrd>');
+
+        const structured = new SEPACreditPaymentInitiation({
+            initiatingParty,
+            paymentInstructions: [{ ...paymentInstruction, structuredRemittanceInformation: [creditorReferenceRemittance('RF18539007547034')] }],
+        });
+        expect(SEPACreditPaymentInitiation.fromXML(structured.serialize()).paymentInstructions[0].structuredRemittanceInformation)
+            .toEqual([creditorReferenceRemittance('RF18539007547034')]);
+
+        expect(() => new SEPACreditPaymentInitiation({
+            initiatingParty,
+            paymentInstructions: [{ ...paymentInstruction, structuredRemittanceInformation: [creditorReferenceRemittance('RF19539007547034', 'rf')] }],
+        })).toThrow('Payment instruction at index 0 has an invalid creditor reference: RF creditor reference RF19539007547034 has an invalid checksum');
+    });
+});
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import { InvalidXmlNamespaceError } from '../../src/errors';
+import { validateXMLAgainstSchema } from '../../src/lib/schema-validation';
+import { SEPACreditPaymentInitiation } from '../../src/pain/001/sepa-credit-payment-initiation';
+import { CashManagementEndOfDayReport } from '../../src/camt/053/cash-management-end-of-day-report';
+
+describe('validateXMLAgainstSchema', () => {
+    const exampleSepa = fs.readFileSync(`${process.cwd()}/test/assets/example/sepa_pain_001_v3.xml`, 'utf8');
+
+    test('should validate a valid pain.001 file', () => {
+        const result = validateXMLAgainstSchema(exampleSepa);
+        expect(result).toEqual({ valid: true, schema: 'pain.001.001.03', errors: [] });
+    });
+
+    test('should report structured errors', () => {
+        const invalidSepa = exampleSepa
+            .replace('<MsgId>38b0440b12d741d690e5721ab6f90e33</MsgId>', `<MsgId>${'x'.repeat(40)}</MsgId>`)
+            .replace('<Ctry>ES</Ctry>', '<Ctry>ESP</Ctry>');
+
+        const result = validateXMLAgainstSchema(invalidSepa);
+        expect(result.valid).toBe(false);
+        expect(result.schema).toBe('pain.001.001.03');
+        expect(result.errors).toHaveLength(2);
+        expect(result.errors[0]).toMatchObject({
+            rule: 'maxLength',
+            element: 'MsgId',
+            xpath: '/Document/CstmrCdtTrfInitn/GrpHdr/MsgId',
+            line: 5,
+        });
+        expect(result.errors[1]).toMatchObject({
+            rule: 'pattern',
+            element: 'Ctry',
+            xpath: '/Document/CstmrCdtTrfInitn/PmtInf/CdtTrfTxInf/Cdtr/PstlAdr/Ctry',
+        });
+    });
+
+    test('should index repeated elements in the xpath', () => {
+        const multiplePmtInfSepa = fs.readFileSync(`${process.cwd()}/test/assets/example/sepa_pain_001_v3_multiple_pmtinf.xml`, 'utf8');
+        const result = validateXMLAgainstSchema(multiplePmtInfSepa.replace('<PmtInfId>second-one</PmtInfId>', '<PmtInfId>second-one</PmtInfId><Foo/>'));
+        expect(result.errors[0]).toMatchObject({
+            rule: 'unexpectedElement',
+            element: 'Foo',
+            xpath: '/Document/CstmrCdtTrfInitn/PmtInf[2]/Foo',
+        });
+    });
+
+    test('should report malformed XML', () => {
+        const result = validateXMLAgainstSchema('<Document><GrpHdr></Document>');
+        expect(result.valid).toBe(false);
+        expect(result.schema).toBeUndefined();
+        expect(result.errors[0].rule).toBe('wellFormed');
+    });
+
+    test('should throw on a non ISO20022 namespace', () => {
+        expect(() => validateXMLAgainstSchema('<Document xmlns="urn:example"/>')).toThrow(InvalidXmlNamespaceError);
+    });
+
+    test('should report an unsupported version when the schema is not bundled', () => {
+        const camt053 = fs.readFileSync(`${process.cwd()}/test/assets/goldman_sachs/camt_053_uk_v2_1.xml`, 'utf8');
+        expect(validateXMLAgainstSchema(camt053)).toEqual({
+            valid: false,
+            schema: 'camt.053.001.02',
+            errors: [{
+                message: 'No XSD schema available for camt.053.001.02, available versions are camt.053.001.12',
+                rule: 'unsupportedVersion',
+            }],
+        });
+    });
+
+    test('should report an unsupported version when the schema directory has no version of the message', () => {
+        const result = validateXMLAgainstSchema(exampleSepa, { schemaDirectory: `${process.cwd()}/test/assets` });
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([{
+            message: 'No XSD schema available for pain.001.001.03, no version of the message is available',
+            rule: 'unsupportedVersion',
+        }]);
+    });
+
+    describe('validateAgainstSchema', () => {
+        test('should validate a payment initiation', () => {
+            const sepaPayment = SEPACreditPaymentInitiation.fromXML(exampleSepa);
+            expect(sepaPayment.validateAgainstSchema().valid).toBe(true);
+        });
+
+        test('should validate a generic ISO20022 message against a given schema', () => {
+            const camt053 = fs.readFileSync(`${process.cwd()}/test/assets/goldman_sachs/camt_053_uk_v2_1.xml`, 'utf8');
+            const report = CashManagementEndOfDayReport.fromXML(camt053);
+            const result = report.validateAgainstSchema({ schema: 'camt.053.001.12' });
+            expect(result.schema).toBe('camt.053.001.12');
+            expect(result.valid).toBe(false);
+        });
+    });
+});
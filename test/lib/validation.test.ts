@@ -0,0 +1,156 @@
+import {
+    validateABARoutingNumber,
+    validateBIC,
+    validateIBAN,
+    validatePartyIdentifiers,
+    validateUSAccountNumber,
+} from '../../src/lib/validation';
+
+describe('validateIBAN', () => {
+    test('should accept valid IBANs', () => {
+        expect(validateIBAN('ES9121000418450200051332')).toEqual({ valid: true, errors: [] });
+        expect(validateIBAN('DE89370400440532013000').valid).toBe(true);
+        expect(validateIBAN('GB29NWBK60161331926819').valid).toBe(true);
+        expect(validateIBAN('NL91ABNA0417164300').valid).toBe(true);
+    });
+
+    test('should reject an IBAN with a typo', () => {
+        expect(validateIBAN('ES9121000418450200051333')).toEqual({
+            valid: false,
+            errors: ['IBAN ES9121000418450200051333 has an invalid checksum'],
+        });
+    });
+
+    test('should reject an IBAN with the wrong length for its country', () => {
+        expect(validateIBAN('DE8937040044053201300').errors).toContain(
+            'IBAN DE8937040044053201300 must be 22 characters long for DE',
+        );
+    });
+
+    test('should reject an IBAN that does not match the account structure of its country', () => {
+        expect(validateIBAN('GB29NWBK6016133192681A').errors).toContain(
+            'IBAN GB29NWBK6016133192681A does not match the GB account structure 4a6n8n',
+        );
+    });
+
+    test('should reject malformed IBANs and unknown countries', () => {
+        expect(validateIBAN('ES91 2100 0418 4502 0005 1332').valid).toBe(false);
+        expect(validateIBAN('es9121000418450200051332').valid).toBe(false);
+        expect(validateIBAN('XX9121000418450200051332')).toEqual({
+            valid: false,
+            errors: ['IBAN XX9121000418450200051332 has an unknown country code XX'],
+        });
+    });
+});
+
+describe('validateBIC', () => {
+    test('should accept 8 and 11 character BICs', () => {
+        expect(validateBIC('BSCHESMM')).toEqual({ valid: true, errors: [] });
+        expect(validateBIC('BSCHESMMXXX').valid).toBe(true);
+    });
+
+    test('should reject malformed BICs', () => {
+        expect(validateBIC('BSCHESMMXX').valid).toBe(false);
+        expect(validateBIC('bschesmmxxx').valid).toBe(false);
+        expect(validateBIC('Bank BIC').valid).toBe(false);
+    });
+
+    test('should reject BICs with an unknown country', () => {
+        expect(validateBIC('BSCHXXMMXXX')).toEqual({
+            valid: false,
+            errors: ['BIC BSCHXXMMXXX has an unknown country code XX'],
+        });
+    });
+});
+
+describe('validateABARoutingNumber', () => {
+    test('should accept valid routing numbers', () => {
+        expect(validateABARoutingNumber('026009593')).toEqual({ valid: true, errors: [] });
+        expect(validateABARoutingNumber('121000248').valid).toBe(true);
+        expect(validateABARoutingNumber('322271627').valid).toBe(true);
+    });
+
+    test('should reject routing numbers that are not 9 digits', () => {
+        expect(validateABARoutingNumber('37714568112')).toEqual({
+            valid: false,
+            errors: ['ABA routing number 37714568112 must be 9 digits'],
+        });
+        expect(validateABARoutingNumber('02600959A').valid).toBe(false);
+    });
+
+    test('should reject routing numbers with a typo', () => {
+        expect(validateABARoutingNumber('026009594')).toEqual({
+            valid: false,
+            errors: ['ABA routing number 026009594 has an invalid checksum'],
+        });
+    });
+
+    test('should reject routing numbers outside the Federal Reserve prefixes', () => {
+        expect(validateABARoutingNumber('500000005')).toEqual({
+            valid: false,
+            errors: ['ABA routing number 500000005 has an unassigned Federal Reserve prefix 50'],
+        });
+    });
+});
+
+describe('validateUSAccountNumber', () => {
+    test('should accept account numbers of 4 to 17 characters', () => {
+        expect(validateUSAccountNumber('1234')).toEqual({ valid: true, errors: [] });
+        expect(validateUSAccountNumber('12345678901234567').valid).toBe(true);
+    });
+
+    test('should reject account numbers that are too short, too long or contain separators', () => {
+        expect(validateUSAccountNumber('123').valid).toBe(false);
+        expect(validateUSAccountNumber('123456789012345678').valid).toBe(false);
+        expect(validateUSAccountNumber('1234-5678')).toEqual({
+            valid: false,
+            errors: ['US account number 1234-5678 must only contain letters and digits'],
+        });
+    });
+});
+
+describe('validatePartyIdentifiers', () => {
+    test('should accept a party with a matching IBAN and BIC', () => {
+        expect(validatePartyIdentifiers({
+            name: 'Dáel Muñiz',
+            account: { iban: 'ES3701822200150201504058' },
+            agent: { bic: 'BBVAESMMXXX' },
+        }).valid).toBe(true);
+    });
+
+    test('should accept parties without IBAN or BIC', () => {
+        expect(validatePartyIdentifiers({
+            name: 'John Doe',
+            account: { accountNumber: '123456789012' },
+            agent: { abaRoutingNumber: '021000021' },
+        }).valid).toBe(true);
+    });
+
+    test('should validate the routing and account number of parties routed by ABA', () => {
+        expect(validatePartyIdentifiers({
+            name: 'John Doe',
+            account: { accountNumber: '12' },
+            agent: { abaRoutingNumber: '021000022' },
+        }).errors).toEqual([
+            'US account number 12 must be 4 to 17 characters long',
+            'ABA routing number 021000022 has an invalid checksum',
+        ]);
+    });
+
+    test('should reject a BIC from another country than the IBAN', () => {
+        expect(validatePartyIdentifiers({
+            account: { iban: 'ES3701822200150201504058' },
+            agent: { bic: 'DEUTDEFFXXX' },
+        })).toEqual({
+            valid: false,
+            errors: ['BIC DEUTDEFFXXX is from DE but IBAN ES3701822200150201504058 is from ES'],
+        });
+    });
+
+    test('should accept a BIC from a territory sharing the IBAN country', () => {
+        expect(validatePartyIdentifiers({
+            account: { iban: 'GB29NWBK60161331926819' },
+            agent: { bic: 'RBOSGGSXXXX' },
+        }).valid).toBe(true);
+    });
+});
@@ -6,6 +6,7 @@ import ISO20022 from '../../../src/iso20022';
 import { v4 as uuidv4 } from 'uuid';
 import { ABAAgent, BaseAccount } from "../../../src/lib/types";
 import { Currency } from "../../../src/lib/currency";
+import { InvalidPaymentInstructionError } from "../../../src/errors";
 
 describe('ACHCreditPaymentInitiation', () => {
     let achPaymentInitiationConfig: ACHCreditPaymentInitiationConfig;
@@ -123,6 +124,21 @@ describe('ACHCreditPaymentInitiation', () => {
             expect(xml).toMatch(/<LclInstrm>\s*<Prtry>\s*CCD\s*<\/Prtry>\s*<\/LclInstrm>/);
         });
 
+        test('should reject a creditor with an invalid routing number', () => {
+            achPayment = new ACHCreditPaymentInitiation({
+                ...achPaymentInitiationConfig,
+                paymentInstructions: [{
+                    ...paymentInstruction1,
+                    creditor: { ...paymentInstruction1.creditor, agent: { abaRoutingNumber: "121000249" } },
+                }],
+            });
+
+            expect(() => achPayment.serialize()).toThrow(new InvalidPaymentInstructionError(
+                'Invalid creditor in payment instruction abcdefg: ABA routing number 121000249 has an invalid checksum',
+                { party: 'creditor', errors: [] },
+            ));
+        });
+
         test('serialized XML should have "USD" as currency', () => {
             achPayment = new ACHCreditPaymentInitiation(achPaymentInitiationConfig)
             const xml = achPayment.serialize();
@@ -253,33 +269,106 @@ describe('ACHCreditPaymentInitiation', () => {
         });
 
         describe('with a multiple pmtinf ACH 001 XML file', () => {
-            // Create a sample with multiple payment info blocks to test error handling
-            test('should throw an error for multiple payment information blocks', () => {
-                const xmlWithMultiplePmtInf = `<?xml version="1.0" encoding="UTF-8"?>
-                <Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
-                    <CstmrCdtTrfInitn>
-                        <GrpHdr>
-                            <MsgId>test-message-id</MsgId>
-                            <CreDtTm>2025-02-26T11:00:00</CreDtTm>
-                            <NbOfTxs>2</NbOfTxs>
-                            <CtrlSum>50.00</CtrlSum>
-                            <InitgPty>
-                                <Nm>Acme Corp</Nm>
-                                <Id><OrgId><Othr><Id>ACMECORP</Id></Othr></OrgId></Id>
-                            </InitgPty>
-                        </GrpHdr>
-                        <PmtInf>
-                            <!-- First payment info block -->
-                        </PmtInf>
-                        <PmtInf>
-                            <!-- Second payment info block -->
-                        </PmtInf>
-                    </CstmrCdtTrfInitn>
-                </Document>`;
+            const achPayment = new ACHCreditPaymentInitiation({
+                initiatingParty,
+                paymentInstructions: [
+                    paymentInstruction1,
+                    { ...paymentInstruction2, requestedExecutionDate: new Date('2025-03-03') },
+                ]
+            });
+            const serializedXml = achPayment.serialize();
 
-                expect(() => {
-                    ACHCreditPaymentInitiation.fromXML(xmlWithMultiplePmtInf);
-                }).toThrow('Multiple PmtInf is not supported');
+            test('should group instructions by requested execution date', () => {
+                expect(achPayment.paymentInformations).toHaveLength(2);
+                expect(serializedXml.match(/<PmtInf>/g)).toHaveLength(2);
+                expect(serializedXml).toContain('<ReqdExctnDt>2025-03-03</ReqdExctnDt>');
+
+                const xsdSchema = fs.readFileSync(
+                    `${process.cwd()}/schemas/pain/pain.001.001.03.xsd`,
+                    'utf8',
+                );
+                const xmlDoc = libxmljs.parseXml(serializedXml);
+                const xsdDoc = libxmljs.parseXml(xsdSchema);
+                expect(xmlDoc.validate(xsdDoc)).toBeTruthy();
+            });
+
+            test('should parse every payment information block', () => {
+                const recreatedAchPayment = ACHCreditPaymentInitiation.fromXML(serializedXml);
+                expect(recreatedAchPayment.paymentInstructions).toHaveLength(2);
+                expect(recreatedAchPayment.paymentInformations).toHaveLength(2);
+                expect(recreatedAchPayment.paymentInformations[1].id).toBe(achPayment.paymentInformations[1].id);
+                expect(recreatedAchPayment.paymentInformations[1].requestedExecutionDate.toISOString()).toBe('2025-03-03T00:00:00.000Z');
+                expect(recreatedAchPayment.paymentInstructions[1].id).toBe(paymentInstruction2.id);
+            });
+        });
+
+        describe('with a service level', () => {
+            test('should group same day ACH payments apart', () => {
+                const achPayment = new ACHCreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1, { ...paymentInstruction2, serviceLevel: 'SDVA' }],
+                });
+                const serializedXml = achPayment.serialize();
+                expect(achPayment.paymentInformations.map(p => p.serviceLevel)).toEqual(['NURG', 'SDVA']);
+                expect(serializedXml).toMatch(/<SvcLvl>[\s\n]*<Cd>SDVA<\/Cd>[\s\n]*<\/SvcLvl>[\s\n]*<LclInstrm>/);
+            });
+
+            test('should reject priorities ACH does not offer', () => {
+                expect(() => new ACHCreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    instructionPriority: 'HIGH',
+                })).toThrow('Payment instruction abcdefg has instruction priority HIGH, ACH payments only allow NORM');
+            });
+        });
+
+        describe('with a requested execution date', () => {
+            test('should write the calendar date in the configured time zone', () => {
+                const achPayment = new ACHCreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    creationDate: new Date('2025-03-06T01:00:00.000Z'),
+                    timeZone: 'America/New_York',
+                });
+                expect(achPayment.serialize()).toContain('<ReqdExctnDt>2025-03-05</ReqdExctnDt>');
+            });
+
+            test('should schedule future dated payments', () => {
+                const achPayment = new ACHCreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1, { ...paymentInstruction2, requestedExecutionDate: '2025-03-12' }],
+                    creationDate: new Date('2025-03-06T01:00:00.000Z'),
+                    requestedExecutionDate: '2025-03-10',
+                });
+                const serializedXml = achPayment.serialize();
+                expect(achPayment.paymentInformations).toHaveLength(2);
+                expect(serializedXml).toContain('<ReqdExctnDt>2025-03-10</ReqdExctnDt>');
+                expect(serializedXml).toContain('<ReqdExctnDt>2025-03-12</ReqdExctnDt>');
+
+                const recreatedAchPayment = ACHCreditPaymentInitiation.fromXML(serializedXml);
+                expect(recreatedAchPayment.paymentInformations.map(p => p.requestedExecutionDate.toISOString())).toEqual([
+                    '2025-03-10T00:00:00.000Z',
+                    '2025-03-12T00:00:00.000Z',
+                ]);
+            });
+
+            test('should roll Federal Reserve holidays forward', () => {
+                const achPayment = new ACHCreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    requestedExecutionDate: '2025-07-04',
+                    businessDayConvention: 'following',
+                });
+                expect(achPayment.serialize()).toContain('<ReqdExctnDt>2025-07-07</ReqdExctnDt>');
+            });
+
+            test('should reject non-business days', () => {
+                expect(() => new ACHCreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    requestedExecutionDate: '2025-11-27',
+                    businessDayConvention: 'reject',
+                })).toThrow('Invalid requested execution date of payment instruction abcdefg: 2025-11-27 is not a US Federal Reserve business day');
             });
         });
 
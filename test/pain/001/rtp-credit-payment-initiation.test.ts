@@ -269,34 +269,36 @@ describe('RTPCreditPaymentInitiation', () => {
         });
 
         describe('with a multiple pmtinf RTP 001 XML file', () => {
-            // Create a sample with multiple payment info blocks to test error handling
-            // This would need a sample XML file with multiple PmtInf blocks
-            test('should throw an error for multiple payment information blocks', () => {
-                const xmlWithMultiplePmtInf = `<?xml version="1.0" encoding="UTF-8"?>
-                <Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
-                    <CstmrCdtTrfInitn>
-                        <GrpHdr>
-                            <MsgId>test-message-id</MsgId>
-                            <CreDtTm>2025-02-26T11:00:00</CreDtTm>
-                            <NbOfTxs>2</NbOfTxs>
-                            <CtrlSum>50.00</CtrlSum>
-                            <InitgPty>
-                                <Nm>Acme Corp</Nm>
-                                <Id><OrgId><Othr><Id>ACMECORP</Id></Othr></OrgId></Id>
-                            </InitgPty>
-                        </GrpHdr>
-                        <PmtInf>
-                            <!-- First payment info block -->
-                        </PmtInf>
-                        <PmtInf>
-                            <!-- Second payment info block -->
-                        </PmtInf>
-                    </CstmrCdtTrfInitn>
-                </Document>`;
+            const rtpPayment = new RTPCreditPaymentInitiation({
+                initiatingParty,
+                paymentInstructions: [
+                    paymentInstruction1,
+                    { ...paymentInstruction2, requestedExecutionDate: new Date('2025-03-03') },
+                ]
+            });
+            const serializedXml = rtpPayment.serialize();
+
+            test('should group instructions by requested execution date', () => {
+                expect(rtpPayment.paymentInformations).toHaveLength(2);
+                expect(serializedXml.match(/<PmtInf>/g)).toHaveLength(2);
+                expect(serializedXml).toContain('<ReqdExctnDt>2025-03-03</ReqdExctnDt>');
 
-                expect(() => {
-                    RTPCreditPaymentInitiation.fromXML(xmlWithMultiplePmtInf);
-                }).toThrow('Multiple PmtInf is not supported');
+                const xsdSchema = fs.readFileSync(
+                    `${process.cwd()}/schemas/pain/pain.001.001.03.xsd`,
+                    'utf8',
+                );
+                const xmlDoc = libxmljs.parseXml(serializedXml);
+                const xsdDoc = libxmljs.parseXml(xsdSchema);
+                expect(xmlDoc.validate(xsdDoc)).toBeTruthy();
+            });
+
+            test('should parse every payment information block', () => {
+                const recreatedRtpPayment = RTPCreditPaymentInitiation.fromXML(serializedXml);
+                expect(recreatedRtpPayment.paymentInstructions).toHaveLength(2);
+                expect(recreatedRtpPayment.paymentInformations).toHaveLength(2);
+                expect(recreatedRtpPayment.paymentInformations[1].id).toBe(rtpPayment.paymentInformations[1].id);
+                expect(recreatedRtpPayment.paymentInformations[1].requestedExecutionDate.toISOString()).toBe('2025-03-03T00:00:00.000Z');
+                expect(recreatedRtpPayment.paymentInstructions[1].id).toBe(paymentInstruction2.id);
             });
         });
     });
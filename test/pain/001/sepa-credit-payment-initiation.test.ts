@@ -3,6 +3,7 @@ import { Alpha2Country } from "lib/countries";
 import libxmljs from 'libxmljs';
 import { v4 as uuidv4 } from 'uuid';
 import ISO20022 from '../../../src/iso20022';
+import { InvalidPaymentInstructionError } from '../../../src/errors';
 import { ExternalCategoryPurposeCode } from "../../../src/lib/types";
 import { SEPACreditPaymentInitiation, SEPACreditPaymentInitiationConfig } from "../../../src/pain/001/sepa-credit-payment-initiation";
 
@@ -31,7 +32,7 @@ describe('SEPACreditPaymentInitiation', () => {
         creditor: {
             name: "Dáel Muñiz",
             account: {
-                iban: "ES8201822200150201504058"
+                iban: "ES3701822200150201504058"
             },
             agent: {
                 bic: "BBVAESMMXXX"
@@ -165,6 +166,28 @@ describe('SEPACreditPaymentInitiation', () => {
             expect(xml).toMatch(/<InstdAmt[^>]*Ccy="EUR"[^>]*>/);
         });
 
+        test('should reject a creditor with an invalid IBAN', () => {
+            sepaPayment = new SEPACreditPaymentInitiation({
+                ...sepaPaymentInitiationConfig,
+                paymentInstructions: [{
+                    ...paymentInstruction1,
+                    creditor: { ...paymentInstruction1.creditor, account: { iban: "ES3701822200150201504059" } },
+                }],
+            });
+
+            expect(() => sepaPayment.serialize()).toThrow(InvalidPaymentInstructionError);
+            try {
+                sepaPayment.serialize();
+            } catch (error) {
+                expect(error).toMatchObject({
+                    message: 'Invalid creditor in payment instruction abcdefg: IBAN ES3701822200150201504059 has an invalid checksum',
+                    instructionId: 'abcdefg',
+                    instructionIndex: 0,
+                    party: 'creditor',
+                });
+            }
+        });
+
         describe('created with iso20022', () => {
             let iso20022 = new ISO20022({
                 initiatingParty: initiatingParty
@@ -219,7 +242,7 @@ describe('SEPACreditPaymentInitiation', () => {
                     creditor: {
                         name: "Dáel Muñiz",
                         account: {
-                            iban: "ES8201822200150201504058"
+                            iban: "ES3701822200150201504058"
                         },
                         agent: {
                             bic: "BBVAESMMXXX"
@@ -237,15 +260,202 @@ describe('SEPACreditPaymentInitiation', () => {
                     currency: "EUR"
                 })
             })
+
+            test('amounts should be parsed exactly', () => {
+                const payment = SEPACreditPaymentInitiation.fromXML(exampleSepa.replace('>10.00</InstdAmt>', '>1.13</InstdAmt>'));
+                expect(payment.paymentInstructions[0].amount).toBe(113);
+            })
         })
 
         describe('with a multiple pmtinf SEPA 001 XML file', () => {
             const multiplePmtinfSepa = fs.readFileSync(`${process.cwd()}/test/assets/example/sepa_pain_001_v3_multiple_pmtinf.xml`, 'utf8'); 
             
-            test('should throw an error for multiple payment information blocks', () => {
-                expect(() => {
-                    SEPACreditPaymentInitiation.fromXML(multiplePmtinfSepa);
-                }).toThrow('Multiple PmtInf is not supported');
+            const sepaPayment = SEPACreditPaymentInitiation.fromXML(multiplePmtinfSepa);
+
+            test('should parse every payment information block', () => {
+                expect(sepaPayment.paymentInstructions).toHaveLength(2);
+                expect(sepaPayment.paymentInformations).toHaveLength(2);
+                expect(sepaPayment.paymentInformations[0].debtor.account).toEqual({ iban: "ES9121000418450200051332" });
+                expect(sepaPayment.paymentInformations[1].id).toBe("second-one");
+                expect(sepaPayment.paymentInformations[1].debtor.account).toEqual({ iban: "ES6421000418450200051333" });
+                expect(sepaPayment.paymentInformations[1].requestedExecutionDate.toISOString()).toBe("2025-02-10T00:00:00.000Z");
+                expect(sepaPayment.paymentInformations[1].chargeBearer).toBe("SLEV");
+            });
+
+            test('should serialize back to multiple payment information blocks', () => {
+                const xml = sepaPayment.serialize();
+                expect(xml.match(/<PmtInf>/g)).toHaveLength(2);
+                expect(xml).toContain('<PmtInfId>second-one</PmtInfId>');
+                expect(xml).toContain('<IBAN>ES6421000418450200051333</IBAN>');
+            });
+        })
+
+        describe('with payment instructions for different debtor accounts', () => {
+            const sepaPayment = new SEPACreditPaymentInitiation({
+                initiatingParty,
+                paymentInstructions: [
+                    paymentInstruction1,
+                    paymentInstruction2,
+                    {
+                        ...paymentInstruction2,
+                        debtor: { name: "Electrical", account: { iban: "ES7100302053091234567895" } },
+                    },
+                ]
+            });
+
+            test('should group instructions by debtor account', () => {
+                expect(sepaPayment.paymentInformations).toHaveLength(2);
+                expect(sepaPayment.paymentInformations[0].paymentInstructions).toHaveLength(2);
+                expect(sepaPayment.paymentInformations[1].debtor.agent).toEqual(initiatingParty.agent);
+                expect(sepaPayment.paymentInformationId).toBe(sepaPayment.paymentInformations[0].id);
+            });
+
+            test('should validate against XSD', () => {
+                const xml = sepaPayment.serialize();
+                expect(xml).toMatch(/<GrpHdr>[\s\S]*<NbOfTxs>3<\/NbOfTxs>[\s\S]*<CtrlSum>53.95<\/CtrlSum>/);
+                expect(xml).toMatch(/<PmtInf>[\s\S]*<NbOfTxs>2<\/NbOfTxs>[\s\S]*<CtrlSum>43.95<\/CtrlSum>/);
+                const xsdSchema = fs.readFileSync(
+                    `${process.cwd()}/schemas/pain/pain.001.001.03.xsd`,
+                    'utf8',
+                );
+                const xmlDoc = libxmljs.parseXml(xml);
+                const xsdDoc = libxmljs.parseXml(xsdSchema);
+                expect(xmlDoc.validate(xsdDoc)).toBeTruthy();
+            });
+
+            test('should throw when instructions sharing a payment information id disagree', () => {
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [
+                        { ...paymentInstruction1, paymentInformationId: "PMTINF-1" },
+                        { ...paymentInstruction2, paymentInformationId: "PMTINF-1", requestedExecutionDate: new Date("2025-03-03") },
+                    ]
+                })).toThrow('All payment instructions in payment information PMTINF-1 must share the same requested execution date, debtor and charge bearer');
+            });
+        })
+
+        describe('with a requested execution date', () => {
+            test('should roll TARGET2 closing days forward', () => {
+                const sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1, { ...paymentInstruction2, requestedExecutionDate: '2025-04-22' }],
+                    requestedExecutionDate: '2025-04-18',
+                    businessDayConvention: 'following',
+                });
+                expect(sepaPayment.paymentInformations).toHaveLength(1);
+                expect(sepaPayment.serialize()).toContain('<ReqdExctnDt>2025-04-22</ReqdExctnDt>');
+            });
+
+            test('should only check other calendars when configured', () => {
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    requestedExecutionDate: '2025-05-05',
+                    businessDayCalendar: 'uk',
+                    businessDayConvention: 'reject',
+                })).toThrow('2025-05-05 is not a UK business day');
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    requestedExecutionDate: '2025-05-05',
+                    businessDayConvention: 'reject',
+                })).not.toThrow();
+            });
+        })
+
+        describe('with a purpose and priority', () => {
+            test('should write them and keep the SEPA service level', () => {
+                const sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{ ...paymentInstruction1, purpose: 'SALA' }, paymentInstruction2],
+                    instructionPriority: 'HIGH',
+                    categoryPurpose: 'SALA',
+                });
+                const xml = sepaPayment.serialize();
+                expect(xml).toMatch(/<PmtTpInf>[\s\n]*<InstrPrty>HIGH<\/InstrPrty>[\s\n]*<SvcLvl>[\s\n]*<Cd>SEPA<\/Cd>[\s\n]*<\/SvcLvl>[\s\n]*<CtgyPurp>/);
+                expect(xml.match(/<Purp>[\s\n]*<Cd>SALA<\/Cd>[\s\n]*<\/Purp>/g)).toHaveLength(1);
+                expect(sepaPayment.validateAgainstSchema().errors).toEqual([]);
+            });
+
+            test('should only allow the SLEV charge bearer', () => {
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1, { ...paymentInstruction2, chargeBearer: 'SHAR' }],
+                })).toThrow('has charge bearer SHAR, SEPA payments only allow SLEV');
+            });
+        })
+
+        describe('as SEPA Instant Credit Transfers', () => {
+            test('should write the INST local instrument and parse it back', () => {
+                const sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1, paymentInstruction2],
+                    instant: true,
+                });
+                const xml = sepaPayment.serialize();
+                expect(xml).toMatch(/<PmtMtd>TRF<\/PmtMtd>[\s\n]*<BtchBookg>false<\/BtchBookg>[\s\n]*<NbOfTxs>2<\/NbOfTxs>/);
+                expect(xml).toMatch(/<SvcLvl>[\s\n]*<Cd>SEPA<\/Cd>[\s\n]*<\/SvcLvl>[\s\n]*<LclInstrm>[\s\n]*<Cd>INST<\/Cd>[\s\n]*<\/LclInstrm>/);
+                expect(sepaPayment.validateAgainstSchema().errors).toEqual([]);
+                expect(SEPACreditPaymentInitiation.fromXML(xml).instant).toBe(true);
+                expect(SEPACreditPaymentInitiation.fromXML(new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                }).serialize()).instant).toBe(false);
+            });
+
+            test('should write every payment in its own payment information block when required', () => {
+                const sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1, paymentInstruction2],
+                    instant: true,
+                    singleTransactionPerPaymentInformation: true,
+                });
+                expect(sepaPayment.paymentInformations).toHaveLength(2);
+                expect(sepaPayment.serialize().match(/<NbOfTxs>1<\/NbOfTxs>/g)).toHaveLength(2);
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [
+                        { ...paymentInstruction1, paymentInformationId: 'PMTINF-1' },
+                        { ...paymentInstruction2, paymentInformationId: 'PMTINF-1' },
+                    ],
+                    singleTransactionPerPaymentInformation: true,
+                })).toThrow('Payment information PMTINF-1 must hold a single payment instruction');
+            });
+
+            test('should enforce the instant amount limit', () => {
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{ ...paymentInstruction1, amount: 10000001 }],
+                    instant: true,
+                })).not.toThrow();
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{ ...paymentInstruction1, amount: 10000001 }],
+                    instant: true,
+                    instantAmountLimit: 10000000,
+                })).toThrow('Payment instruction abcdefg has amount 100000.01 EUR, SEPA Instant payments must not exceed 100000.00 EUR');
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{ ...paymentInstruction1, amount: 10000001 }],
+                    instantAmountLimit: 10000000,
+                })).not.toThrow();
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    instant: true,
+                    instantAmountLimit: 1500,
+                })).toThrow('SEPA Instant payments must not exceed 15.00 EUR');
+            });
+
+            test('should not check dates against TARGET2, instant payments settle every day', () => {
+                const sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1],
+                    instant: true,
+                    requestedExecutionDate: '2025-12-25',
+                    businessDayConvention: 'reject',
+                });
+                expect(sepaPayment.paymentInformations[0].requestedExecutionDate.toISOString()).toBe('2025-12-25T00:00:00.000Z');
             });
         })
 
@@ -256,7 +466,7 @@ describe('SEPACreditPaymentInitiation', () => {
                     creditor: {
                         name: "BIC-less Creditor",
                         account: {
-                            iban: "ES8201822200150201504058"
+                            iban: "ES3701822200150201504058"
                         },
                         address: paymentInstruction1.creditor.address
                     }
@@ -319,6 +529,112 @@ describe('SEPACreditPaymentInitiation', () => {
             })
         })
 
+        describe('with a pain.001.001.12 SEPA 001 XML', () => {
+            let sepaPayment: SEPACreditPaymentInitiation;
+
+            beforeEach(() => {
+                sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [paymentInstruction1, paymentInstruction2],
+                    version: 'pain.001.001.12',
+                });
+            });
+
+            test('should validate against XSD', () => {
+                const xml = sepaPayment.serialize();
+                expect(xml).toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.12"');
+                expect(sepaPayment.validateAgainstSchema().errors).toEqual([]);
+            });
+
+            test('should be parsed with its version', () => {
+                const recreatedSepaPayment = SEPACreditPaymentInitiation.fromXML(sepaPayment.serialize());
+                expect(recreatedSepaPayment.version).toBe('pain.001.001.12');
+                expect(recreatedSepaPayment.paymentInstructions).toHaveLength(2);
+                expect(recreatedSepaPayment.paymentInstructions[1]).toEqual(paymentInstruction2);
+                expect(recreatedSepaPayment.validateAgainstSchema().valid).toBe(true);
+            });
+
+            test('should round trip through toJSON and fromJSON', () => {
+                const recreatedSepaPayment = SEPACreditPaymentInitiation.fromJSON(JSON.stringify(sepaPayment.toJSON()));
+                expect(recreatedSepaPayment.version).toBe('pain.001.001.12');
+                expect(recreatedSepaPayment.messageId).toBe(sepaPayment.messageId);
+                expect(recreatedSepaPayment.paymentInstructions[1]).toEqual(paymentInstruction2);
+            });
+
+            test('should throw on an unsupported version', () => {
+                const xml = sepaPayment.serialize().replace('pain.001.001.12', 'pain.001.001.13');
+                expect(() => SEPACreditPaymentInitiation.fromXML(xml)).toThrow('Invalid PAIN.001 namespace');
+            });
+        })
+
+        describe('with structured remittance information', () => {
+            const structuredRemittance = {
+                referredDocuments: [{ type: 'CINV', number: 'INV-2025-0311', relatedDate: new Date('2025-02-28') }],
+                referredDocumentAmount: { currency: 'EUR' as const, duePayableAmount: 1050, discountAppliedAmount: 50, remittedAmount: 1000 },
+                creditorReference: { reference: 'RF18539007547034', type: 'SCOR', issuer: 'ISO', scheme: 'rf' as const },
+                additionalInformation: ['Early payment discount applied'],
+            };
+            const structuredPaymentInstruction = {
+                ...paymentInstruction2,
+                structuredRemittanceInformation: [structuredRemittance],
+            };
+
+            test('should write and parse the pain.001.001.03 layout', () => {
+                const sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [structuredPaymentInstruction],
+                });
+                const xml = sepaPayment.serialize();
+                expect(xml).toContain('<DscntApldAmt Ccy="EUR">0.50</DscntApldAmt>');
+                expect(xml).toContain('<RltdDt>2025-02-28</RltdDt>');
+                expect(sepaPayment.validateAgainstSchema().errors).toEqual([]);
+                expect(SEPACreditPaymentInitiation.fromXML(xml).paymentInstructions[0]).toEqual(structuredPaymentInstruction);
+            });
+
+            test('should write and parse the pain.001.001.12 layout', () => {
+                const taxedRemittance = {
+                    ...structuredRemittance,
+                    taxRemittance: { creditorTaxId: 'ESB12345674', currency: 'EUR' as const, totalTaxAmount: 182, date: new Date('2025-02-28') },
+                };
+                const sepaPayment = new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{ ...paymentInstruction2, structuredRemittanceInformation: [taxedRemittance] }],
+                    version: 'pain.001.001.12',
+                });
+                const xml = sepaPayment.serialize();
+                expect(xml).toContain('<Cd>DICA</Cd>');
+                expect(sepaPayment.validateAgainstSchema().errors).toEqual([]);
+                expect(SEPACreditPaymentInitiation.fromXML(xml).paymentInstructions[0].structuredRemittanceInformation).toEqual([{
+                    ...taxedRemittance,
+                    referredDocuments: [{ ...structuredRemittance.referredDocuments[0], relatedDateType: 'DOCUMENT DATE' }],
+                }]);
+            });
+
+            test('should only allow one structured remittance information', () => {
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{ ...paymentInstruction2, structuredRemittanceInformation: [structuredRemittance, structuredRemittance] }],
+                })).toThrow('Payment instruction abcdefg must not have more than 1 structured remittance information');
+            });
+
+            test('should not allow structured and unstructured remittance information together', () => {
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{ ...structuredPaymentInstruction, remittanceInformation: 'Invoice INV-2025-0311' }],
+                })).toThrow('Payment instruction abcdefg must not have both structured and unstructured remittance information');
+            });
+
+            test('should not allow more than 3 lines of additional information', () => {
+                expect(() => new SEPACreditPaymentInitiation({
+                    initiatingParty,
+                    paymentInstructions: [{
+                        ...paymentInstruction2,
+                        structuredRemittanceInformation: [{ additionalInformation: ['1', '2', '3', '4'] }],
+                    }],
+                })).toThrow('Payment instruction abcdefg must not have more than 3 lines of additional remittance information');
+            });
+        })
+
         describe('with a iso20022.js created SEPA 001 XML', () => {
            const messageId = uuidv4().slice(0, 35); 
            const creationDate = new Date();
@@ -15,7 +15,7 @@ describe('SWIFTCreditPaymentInitiation', () => {
     creditor: {
       name: 'John Doe',
       account: {
-        iban: 'DE1234567890123456',
+        iban: 'DE89370400440532013000',
       },
       agent: {
         bic: 'DEUTDEFF',
@@ -38,7 +38,7 @@ describe('SWIFTCreditPaymentInitiation', () => {
     creditor: {
       name: 'Jane Doe',
       account: {
-        iban: 'DE1234567890123456',
+        iban: 'DE89370400440532013000',
       },
       agent: {
         bic: 'DEUTDEFF',
@@ -120,6 +120,268 @@ describe('SWIFTCreditPaymentInitiation', () => {
     });
   });
 
+  describe('when a newer version is configured', () => {
+    beforeEach(() => {
+      swiftPayment = iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{
+          ...instruction1,
+          creditor: {
+            ...instruction1.creditor,
+            address: {
+              ...instruction1.creditor.address,
+              buildingName: 'Funky Tower',
+              floor: '4',
+            },
+          },
+        }],
+        version: 'pain.001.001.12',
+      });
+    });
+
+    test('should use the element names of the version', () => {
+      const xml = swiftPayment.serialize();
+      expect(xml).toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.12"');
+      expect(xml).toMatch(/<BICFI>DEUTDEFF<\/BICFI>/);
+      expect(xml).not.toMatch(/<BIC>/);
+      expect(xml).toMatch(/<ReqdExctnDt>[\s\n]*<Dt>\d{4}-\d{2}-\d{2}<\/Dt>[\s\n]*<\/ReqdExctnDt>/);
+      expect(xml).toMatch(/<BldgNm>Funky Tower<\/BldgNm>/);
+      expect(xml).toMatch(/<Flr>4<\/Flr>/);
+    });
+
+    test('serialized XML should validate against XSD', () => {
+      const xml = swiftPayment.serialize();
+      const xsdSchema = fs.readFileSync(
+        `${process.cwd()}/schemas/pain/pain.001.001.12.xsd`,
+        'utf8',
+      );
+      const xmlDoc = libxmljs.parseXml(xml);
+      const xsdDoc = libxmljs.parseXml(xsdSchema);
+
+      const isValid = xmlDoc.validate(xsdDoc);
+      expect(isValid).toBeTruthy();
+    });
+
+    test('should round trip through fromXML', () => {
+      const recreated = SWIFTCreditPaymentInitiation.fromXML(swiftPayment.serialize());
+      expect(recreated.version).toBe('pain.001.001.12');
+      expect(recreated.initiatingParty.agent).toEqual({ bic: 'CHASUS33' });
+      expect(recreated.paymentInstructions[0].creditor.agent).toEqual({ bic: 'DEUTDEFF' });
+      expect(recreated.paymentInstructions[0].creditor.address).toEqual({
+        ...instruction1.creditor.address,
+        buildingName: 'Funky Tower',
+        floor: '4',
+      });
+    });
+
+    test('should not write newer address fields in older versions', () => {
+      const xml = iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{
+          ...instruction1,
+          creditor: { ...instruction1.creditor, address: { ...instruction1.creditor.address, floor: '4' } },
+        }],
+      }).serialize();
+      expect(xml).not.toMatch(/<Flr>/);
+    });
+  });
+
+  describe('with structured remittance information', () => {
+    const structuredRemittanceInformation = [{
+      referredDocuments: [{ type: 'CINV', number: 'INV-0042' }],
+      referredDocumentAmount: { currency: 'USD' as const, duePayableAmount: 1000 },
+    }];
+
+    test('should round trip through fromXML', () => {
+      const xml = iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...instruction1, structuredRemittanceInformation }],
+      }).serialize();
+      const recreated = SWIFTCreditPaymentInitiation.fromXML(xml);
+      expect(recreated.paymentInstructions[0].structuredRemittanceInformation).toEqual(structuredRemittanceInformation);
+      expect(recreated.validateAgainstSchema().errors).toEqual([]);
+    });
+
+    test('should not allow structured and unstructured remittance information together', () => {
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...instruction1, remittanceInformation: 'INV-0042', structuredRemittanceInformation }],
+      })).toThrow('Payment instruction at index 0 must not have both structured and unstructured remittance information');
+    });
+  });
+
+  describe('with charge bearer, service level, purpose and priority', () => {
+    beforeEach(() => {
+      swiftPayment = iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [
+          { ...instruction1, purpose: 'SUPP' },
+          { ...instruction2, serviceLevel: 'G001', categoryPurpose: 'SUPP' },
+        ],
+        chargeBearer: 'DEBT',
+        instructionPriority: 'HIGH',
+        version: 'pain.001.001.12',
+      });
+    });
+
+    test('should write them in the payment type information and transactions', () => {
+      const xml = swiftPayment.serialize();
+      expect(swiftPayment.paymentInformations).toHaveLength(2);
+      expect(xml).toMatch(/<PmtTpInf>[\s\n]*<InstrPrty>HIGH<\/InstrPrty>[\s\n]*<SvcLvl>[\s\n]*<Cd>URGP<\/Cd>/);
+      expect(xml).toMatch(/<SvcLvl>[\s\n]*<Cd>G001<\/Cd>[\s\n]*<\/SvcLvl>[\s\n]*<CtgyPurp>[\s\n]*<Cd>SUPP<\/Cd>/);
+      expect(xml.match(/<ChrgBr>DEBT<\/ChrgBr>/g)).toHaveLength(2);
+      expect(xml.match(/<Purp>/g)).toHaveLength(1);
+      expect(swiftPayment.validateAgainstSchema().errors).toEqual([]);
+    });
+
+    test('should round trip through fromXML', () => {
+      const recreated = SWIFTCreditPaymentInitiation.fromXML(swiftPayment.serialize());
+      expect(recreated.paymentInstructions[0].purpose).toBe('SUPP');
+      expect(recreated.paymentInformations.map(p => [p.chargeBearer, p.serviceLevel, p.instructionPriority, p.categoryPurpose])).toEqual([
+        ['DEBT', 'URGP', 'HIGH', undefined],
+        ['DEBT', 'G001', 'HIGH', 'SUPP'],
+      ]);
+    });
+
+    test('should reject values SWIFT payments do not use', () => {
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [instruction1],
+        chargeBearer: 'SLEV',
+      })).toThrow('Payment instruction at index 0 has charge bearer SLEV, SWIFT payments only allow DEBT, CRED, SHAR');
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...instruction1, serviceLevel: 'SEPA' }],
+      })).toThrow('Payment instruction at index 0 has service level SEPA, SWIFT payments only allow URGP, NURG, SDVA, G001');
+    });
+  });
+
+  describe('with intermediary agents, ultimate parties and regulatory reporting', () => {
+    const uaeInstruction = {
+      ...instruction1,
+      id: 'UAE-0001',
+      creditor: {
+        name: 'Gulf Trading LLC',
+        account: { iban: 'AE070331234567890123456' },
+        agent: { bic: 'NBADAEAA' },
+        address: { streetName: 'Sheikh Zayed Rd', townName: 'Dubai', country: 'AE' },
+      },
+      intermediaryAgents: [{ bic: 'CITIUS33' }, { bic: 'CITIAEAD' }],
+      ultimateDebtor: { name: 'Acme Subsidiary', id: 'ACMESUB' },
+      ultimateCreditor: { name: 'Gulf Trading Branch', address: { townName: 'Abu Dhabi', country: 'AE' } },
+      instructionsForCreditorAgent: [{ code: 'PHOB', information: '+971 4 000 0000' }],
+      regulatoryReporting: [{
+        debitCreditReportingIndicator: 'CRED',
+        authority: { name: 'Central Bank of the UAE', country: 'AE' },
+        details: [{ type: 'PURPOSE OF PAYMENT', country: 'AE', code: 'GDS', amount: 1000, currency: 'USD', information: ['Goods bought or sold'] }],
+      }],
+    } as SWIFTCreditPaymentInstruction;
+
+    test('should write them in the order of the schema', () => {
+      const payment = iso20022.createSWIFTCreditPaymentInitiation({ paymentInstructions: [uaeInstruction], version: 'pain.001.001.12' });
+      const xml = payment.serialize();
+      expect(xml).toMatch(/<\/Amt>[\s\n]*<UltmtDbtr>[\s\n]*<Nm>Acme Subsidiary<\/Nm>[\s\n]*<Id>[\s\n]*<OrgId>[\s\n]*<Othr>[\s\n]*<Id>ACMESUB<\/Id>/);
+      expect(xml).toMatch(/<IntrmyAgt1>[\s\n]*<FinInstnId>[\s\n]*<BICFI>CITIUS33<\/BICFI>[\s\S]*<IntrmyAgt2>[\s\n]*<FinInstnId>[\s\n]*<BICFI>CITIAEAD<\/BICFI>[\s\S]*<CdtrAgt>/);
+      expect(xml).toMatch(/<\/CdtrAcct>[\s\n]*<UltmtCdtr>[\s\S]*<InstrForCdtrAgt>[\s\n]*<Cd>PHOB<\/Cd>[\s\S]*<RgltryRptg>[\s\S]*<Cd>GDS<\/Cd>/);
+      expect(payment.validateAgainstSchema().errors).toEqual([]);
+      expect(iso20022.createSWIFTCreditPaymentInitiation({ paymentInstructions: [uaeInstruction] }).validateAgainstSchema().errors).toEqual([]);
+    });
+
+    test('should round trip through fromXML', () => {
+      const xml = iso20022.createSWIFTCreditPaymentInitiation({ paymentInstructions: [uaeInstruction] }).serialize();
+      const recreated = SWIFTCreditPaymentInitiation.fromXML(xml).paymentInstructions[0];
+      expect(recreated.intermediaryAgents).toEqual(uaeInstruction.intermediaryAgents);
+      expect(recreated.ultimateDebtor).toEqual(uaeInstruction.ultimateDebtor);
+      expect(recreated.ultimateCreditor).toEqual(uaeInstruction.ultimateCreditor);
+      expect(recreated.instructionsForCreditorAgent).toEqual(uaeInstruction.instructionsForCreditorAgent);
+      expect(recreated.regulatoryReporting).toEqual(uaeInstruction.regulatoryReporting);
+    });
+
+    test('should require the regulatory reporting of the destination country', () => {
+      const { regulatoryReporting, ...withoutReporting } = uaeInstruction;
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({ paymentInstructions: [withoutReporting] }))
+        .toThrow('Payment instruction UAE-0001 to AE requires regulatory reporting details with a 3-letter UAE purpose of payment code');
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...instruction1, creditor: { ...instruction1.creditor, agent: { bic: 'SBININBB' } }, regulatoryReporting: [{ details: [{ code: 'GDS' }] }] }],
+      })).toThrow('Payment instruction at index 0 to IN requires regulatory reporting details with an RBI purpose code such as P1006');
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...instruction1, creditor: { ...instruction1.creditor, agent: { bic: 'SBININBB' } }, regulatoryReporting: [{ details: [{ code: 'P1006' }] }] }],
+      })).not.toThrow();
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...instruction1, creditor: { ...instruction1.creditor, agent: { bic: 'BKCHCNBJ' } } }],
+      })).toThrow('Payment instruction at index 0 to CN requires regulatory reporting details with a trade type code GOD, SVC or CAC');
+    });
+
+    test('should not allow more than 3 intermediary agents', () => {
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...uaeInstruction, intermediaryAgents: [{ bic: 'CITIUS33' }, { bic: 'CHASUS33' }, { bic: 'DEUTDEFF' }, { bic: 'CITIAEAD' }] }],
+      })).toThrow('Payment instruction UAE-0001 must not have more than 3 intermediary agents');
+    });
+  });
+
+  describe('with foreign exchange', () => {
+    const jpyInstruction = {
+      ...instruction1,
+      id: 'JPY-0001',
+      amount: 250000,
+      currency: 'JPY',
+      exchangeRateInformation: { unitCurrency: 'USD', rate: 150.25, rateType: 'AGRD', contractId: 'FX-2025-0042' },
+    } as SWIFTCreditPaymentInstruction;
+    const equivalentInstruction = {
+      ...instruction1,
+      id: 'EQVT-0001',
+      amount: 150000,
+      currencyOfTransfer: 'JPY',
+    } as SWIFTCreditPaymentInstruction;
+
+    beforeEach(() => {
+      swiftPayment = iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [instruction1, jpyInstruction, equivalentInstruction],
+        version: 'pain.001.001.12',
+      });
+    });
+
+    test('should write the equivalent amount and exchange rate information', () => {
+      const xml = swiftPayment.serialize();
+      expect(xml).toMatch(/<EqvtAmt>[\s\n]*<Amt Ccy="USD">1500.00<\/Amt>[\s\n]*<CcyOfTrf>JPY<\/CcyOfTrf>[\s\n]*<\/EqvtAmt>/);
+      expect(xml).toMatch(/<InstdAmt Ccy="JPY">250000<\/InstdAmt>[\s\n]*<\/Amt>[\s\n]*<XchgRateInf>[\s\n]*<UnitCcy>USD<\/UnitCcy>[\s\n]*<XchgRate>150.25<\/XchgRate>[\s\n]*<RateTp>AGRD<\/RateTp>[\s\n]*<CtrctId>FX-2025-0042<\/CtrctId>/);
+      expect(swiftPayment.validateAgainstSchema().errors).toEqual([]);
+      expect(iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [instruction1, jpyInstruction, equivalentInstruction],
+      }).validateAgainstSchema().errors).toEqual([]);
+    });
+
+    test('should write a control sum per currency', () => {
+      const xml = swiftPayment.serialize();
+      expect(swiftPayment.paymentInformations.map(p => p.paymentInstructions.map(i => i.currency))).toEqual([['USD', 'USD'], ['JPY']]);
+      expect(swiftPayment.controlSums).toEqual({ USD: '1510.00', JPY: '250000' });
+      expect(xml).toMatch(/<NbOfTxs>3<\/NbOfTxs>[\s\n]*<CtrlSum>251510.00<\/CtrlSum>/);
+      expect(xml).toMatch(/<NbOfTxs>2<\/NbOfTxs>[\s\n]*<CtrlSum>1510.00<\/CtrlSum>/);
+      expect(xml).toMatch(/<NbOfTxs>1<\/NbOfTxs>[\s\n]*<CtrlSum>250000<\/CtrlSum>/);
+    });
+
+    test('should round trip through fromXML', () => {
+      const recreated = SWIFTCreditPaymentInitiation.fromXML(swiftPayment.serialize());
+      // Instructions are read back block by block, the USD block first
+      expect(recreated.paymentInstructions.map(({ id, currencyOfTransfer, exchangeRateInformation }) => ({
+        id, currencyOfTransfer, exchangeRateInformation,
+      }))).toEqual([
+        { id: expect.any(String), currencyOfTransfer: undefined, exchangeRateInformation: undefined },
+        { id: 'EQVT-0001', currencyOfTransfer: 'JPY', exchangeRateInformation: undefined },
+        { id: 'JPY-0001', currencyOfTransfer: undefined, exchangeRateInformation: jpyInstruction.exchangeRateInformation },
+      ]);
+      expect(recreated.controlSums).toEqual(swiftPayment.controlSums);
+    });
+
+    test('should reject invalid foreign exchange information', () => {
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...jpyInstruction, exchangeRateInformation: { rate: 150.25, rateType: 'AGRD' } }],
+      })).toThrow('Payment instruction JPY-0001 has an agreed exchange rate, which requires a contract id');
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...jpyInstruction, exchangeRateInformation: { rate: 0.00000000001 } }],
+      })).toThrow('Payment instruction JPY-0001 has exchange rate 1e-11, which must be positive with at most 11 digits, 10 of them decimals');
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...equivalentInstruction, currencyOfTransfer: 'USD' }],
+      })).toThrow('Payment instruction EQVT-0001 must not have its own currency USD as currency of transfer');
+      expect(() => iso20022.createSWIFTCreditPaymentInitiation({
+        paymentInstructions: [{ ...equivalentInstruction, debtor: { account: { accountNumber: '123456789012', currency: 'EUR' } } }],
+      })).toThrow('Payment instruction EQVT-0001 has an equivalent amount in USD, but its debtor account is in EUR');
+    });
+  });
+
   describe('fromXML', () => {
     describe('with example SWIFT 001 XML file', () => {
       const exampleSwift = fs.readFileSync(`${process.cwd()}/test/assets/example/swift_pain_001_v3.xml`, 'utf8');
@@ -161,16 +423,17 @@ describe('SWIFTCreditPaymentInitiation', () => {
               bic: "DEUTDEFF"
             },
             account: {
-              iban: "DE1234567890123456"
+              iban: "DE89370400440532013000"
             },
             address: {
               streetName: "Hauptstraße",
-              buildingNumber: 42,
-              postalCode: 10115,
+              buildingNumber: "42",
+              postalCode: "10115",
               townName: "Berlin",
               country: "DE"
             }
-          }
+          },
+          remittanceInformation: "Invoice payment #123"
         });
       });
 
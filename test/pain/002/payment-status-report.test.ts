@@ -1,8 +1,20 @@
 import { PaymentStatusReport } from '../../../src/pain/002/payment-status-report';
 import {
   PaymentStatusInformation,
+  TransactionStatusInformation,
   PaymentStatusCode,
+  PaymentStatusCodeDescriptionMap,
+  StatusInformation,
+  StatusReasonCode,
+  StatusReasonCodeDescriptionMap,
+  isFinal,
+  isRejected,
+  isSuccessful,
 } from '../../../src/pain/002/types';
+import { SEPACreditPaymentInitiation } from '../../../src/pain/001/sepa-credit-payment-initiation';
+import { SWIFTCreditPaymentInitiation } from '../../../src/pain/001/swift-credit-payment-initiation';
+import { validateXMLAgainstSchema } from '../../../src/lib/schema-validation';
+import { Alpha2Country } from '../../../src/lib/countries';
 import fs from 'fs';
 
 describe('PaymentStatusReport', () => {
@@ -24,6 +36,89 @@ describe('PaymentStatusReport', () => {
         expect(report.originalMessageId).toEqual('10280093XXXX');
         expect(report).toBeInstanceOf(PaymentStatusReport);
         expect(report.statusInformations).toHaveLength(1);
+
+        const transactionStatus = report.statusInformations[0] as TransactionStatusInformation;
+        expect(transactionStatus.accountServicerReferenceId).toBe('I200820000XXXXX');
+        expect(transactionStatus.originalTransactionReference).toEqual({
+          amount: 10_00,
+          currency: 'USD',
+        });
+      });
+    });
+
+    describe('with a pain.002.001.14 report echoing the original transactions', () => {
+      it('should parse the original transaction details', () => {
+        xmlFilePath = `${process.cwd()}/test/assets/example/pain_002_v14_original_transaction_reference.xml`;
+        const pain002Sample = fs.readFileSync(xmlFilePath, 'utf8');
+        report = PaymentStatusReport.fromXML(pain002Sample);
+        expect(report.version).toBe('pain.002.001.14');
+        expect(report.statusInformations).toHaveLength(4);
+
+        const settled = report.statusInformations[2] as TransactionStatusInformation;
+        expect(settled.originalInstructionId).toBe('INSTR-0001');
+        expect(settled.originalUETR).toBe('8a562c67-ca16-48ba-b074-65581be6f011');
+        expect(settled.statusId).toBe('STS-0001');
+        expect(settled.acceptanceDateTime).toEqual(new Date('2025-03-10T09:15:00Z'));
+        expect(settled.clearingSystemReferenceId).toBe('CLR-0001');
+        expect(settled.charges).toEqual([
+          { amount: 1_50, currency: 'EUR', agent: { bic: 'BSCHESMMXXX' }, type: 'COMM' },
+        ]);
+        expect(settled.originalTransactionReference).toEqual({
+          amount: 1250_00,
+          currency: 'EUR',
+          requestedExecutionDate: new Date('2025-03-10'),
+          paymentMethod: 'TRF',
+          remittanceInformation: 'Invoice 2025-0311',
+          structuredRemittanceInformation: [{
+            referredDocuments: [{ type: 'CINV', number: '2025-0311', relatedDate: new Date('2025-02-28'), relatedDateType: 'DOCUMENT DATE' }],
+            referredDocumentAmount: { currency: 'EUR', duePayableAmount: 1250_00 },
+            creditorReference: { reference: 'RF18539007547034', type: 'SCOR', issuer: 'ISO', scheme: 'rf' },
+          }],
+          debtor: {
+            name: 'Electrical',
+            account: { iban: 'ES9121000418450200051332' },
+            agent: { bic: 'BSCHESMMXXX' },
+          },
+          creditor: {
+            name: 'Guli Mancini',
+            address: {
+              streetName: 'Avenida de la Hispanidad',
+              buildingNumber: '41',
+              postalCode: '28001',
+              townName: 'Madrid',
+              country: 'ES',
+            },
+            account: { iban: 'ES7100302053091234567895' },
+            agent: { bic: 'BBVAESMMXXX' },
+          },
+        });
+
+        const rejected = report.statusInformations[3] as TransactionStatusInformation;
+        expect(rejected.reason).toEqual({ code: 'AC04', additionalInformation: 'Creditor account closed' });
+        expect(rejected.originalTransactionReference?.creditor).toEqual({ name: 'John Doe' });
+      });
+
+      it('should keep numeric references and document numbers as written', () => {
+        const pain002Sample = fs.readFileSync(`${process.cwd()}/test/assets/example/pain_002_v14_original_transaction_reference.xml`, 'utf8')
+          .replace('<Ref>RF18539007547034</Ref>', '<Ref>210000000003139471430009017</Ref>')
+          .replace('<Nb>2025-0311</Nb>', '<Nb>000123</Nb>');
+        report = PaymentStatusReport.fromXML(pain002Sample);
+
+        const settled = report.statusInformations[2] as TransactionStatusInformation;
+        const [structuredRemittance] = settled.originalTransactionReference?.structuredRemittanceInformation || [];
+        expect(structuredRemittance.creditorReference).toEqual({ reference: '210000000003139471430009017', type: 'SCOR', issuer: 'ISO', scheme: 'qrr' });
+        expect(structuredRemittance.referredDocuments?.[0].number).toBe('000123');
+      });
+
+      it('should parse amounts exactly', () => {
+        const pain002Sample = fs.readFileSync(`${process.cwd()}/test/assets/example/pain_002_v14_original_transaction_reference.xml`, 'utf8')
+          .replace('>1250.00</InstdAmt>', '>90071992547409.91</InstdAmt>')
+          .replace('>1.50</Amt>', '>4.35</Amt>');
+        report = PaymentStatusReport.fromXML(pain002Sample);
+
+        const settled = report.statusInformations[2] as TransactionStatusInformation;
+        expect(settled.originalTransactionReference?.amount).toBe(9007199254740991);
+        expect(settled.charges?.[0].amount).toBe(435);
       });
     });
 
@@ -173,4 +268,286 @@ describe('PaymentStatusReport', () => {
       });
     });
   });
+
+  describe('serialize', () => {
+    const statusInformations: StatusInformation[] = [
+      {
+        type: 'group',
+        originalMessageId: 'MSG-001',
+        status: PaymentStatusCode.AcceptedTechnicalValidation,
+      },
+      {
+        type: 'payment',
+        originalPaymentId: 'PMT-001',
+        status: PaymentStatusCode.Rejected,
+        reason: { code: 'NARR', additionalInformation: 'Partially rejected' },
+      },
+      {
+        type: 'transaction',
+        originalEndToEndId: 'E2E-001',
+        originalPaymentId: 'PMT-001',
+        status: PaymentStatusCode.AcceptedSettlementInProgress,
+      },
+      {
+        type: 'transaction',
+        originalEndToEndId: 'E2E-002',
+        originalPaymentId: 'PMT-001',
+        status: PaymentStatusCode.Rejected,
+        reason: { code: 'AC04', additionalInformation: 'Closed account' },
+      },
+    ];
+    const config = {
+      messageId: 'STS-001',
+      creationDate: new Date('2025-03-10T10:00:00.000Z'),
+      initatingParty: { id: 'HUB', name: 'Payment Hub' },
+      originalGroupInformation: { originalMessageId: 'MSG-001' },
+      statusInformations,
+    };
+
+    it('should build group, payment and transaction statuses', () => {
+      const xml = new PaymentStatusReport(config).serialize();
+      expect(xml).toContain('urn:iso:std:iso:20022:tech:xsd:pain.002.001.03');
+      expect(xml).toMatch(/<OrgnlMsgNmId>pain.001.001.03<\/OrgnlMsgNmId>[\s\n]*<GrpSts>ACTC<\/GrpSts>/);
+      expect(xml).toMatch(/<OrgnlPmtInfId>PMT-001<\/OrgnlPmtInfId>[\s\n]*<PmtInfSts>RJCT<\/PmtInfSts>/);
+      expect(xml.match(/<TxInfAndSts>/g)).toHaveLength(2);
+    });
+
+    it('should validate against XSD', () => {
+      const report = new PaymentStatusReport({ ...config, version: 'pain.002.001.14' });
+      expect(validateXMLAgainstSchema(report.serialize())).toEqual({
+        valid: true,
+        schema: 'pain.002.001.14',
+        errors: [],
+      });
+    });
+
+    it('should round trip through fromXML', () => {
+      const report = PaymentStatusReport.fromXML(new PaymentStatusReport(config).serialize());
+      expect(report.messageId).toBe('STS-001');
+      expect(report.creationDate).toEqual(config.creationDate);
+      expect(report.initatingParty).toEqual({ id: 'HUB', name: 'Payment Hub' });
+      expect(report.originalMessageId).toBe('MSG-001');
+      expect(report.version).toBe('pain.002.001.03');
+      expect(report.statusInformations).toEqual([
+        { ...statusInformations[0], reason: { code: undefined, additionalInformation: undefined } },
+        statusInformations[1],
+        { ...statusInformations[2], reason: { code: undefined, additionalInformation: undefined } },
+        statusInformations[3],
+      ]);
+    });
+
+    it('should round trip through toJSON and fromJSON', () => {
+      const report = new PaymentStatusReport(config);
+      const recreated = PaymentStatusReport.fromJSON(JSON.stringify(report.toJSON()));
+      expect(recreated.messageId).toBe('STS-001');
+      expect(recreated.statusInformations).toEqual(PaymentStatusReport.fromXML(report.serialize()).statusInformations);
+    });
+
+    it('should re-serialize a parsed report', () => {
+      const pain002Sample = fs.readFileSync(`${process.cwd()}/test/assets/nordea/pain_002_v3_txn_reject.xml`, 'utf8');
+      const report = PaymentStatusReport.fromXML(pain002Sample);
+      const recreated = PaymentStatusReport.fromXML(report.serialize());
+      expect(recreated.statusInformations).toEqual(report.statusInformations);
+      expect(recreated.statusInformations[1].reason?.additionalInformation).toBe(
+        'CAP Invalid code or combinations in CategoryPurpose or ServiceLevel',
+      );
+    });
+
+    it('should require a payment for transaction statuses', () => {
+      const report = new PaymentStatusReport({
+        ...config,
+        statusInformations: [{
+          type: 'transaction',
+          originalEndToEndId: 'E2E-002',
+          status: PaymentStatusCode.Rejected,
+        }],
+      });
+      expect(() => report.serialize()).toThrow(
+        'originalPaymentId is required for transaction E2E-002 when the report has no payment status',
+      );
+    });
+  });
+
+  describe('fromPaymentInitiation', () => {
+    const creditor = {
+      name: 'Guli Mancini',
+      account: { iban: 'ES7100302053091234567895' },
+      agent: { bic: 'BBVAESMMXXX' },
+      address: { country: 'ES' as Alpha2Country },
+    };
+    const paymentInitiation = new SEPACreditPaymentInitiation({
+      messageId: 'SEPA-001',
+      initiatingParty: {
+        name: 'Electrical',
+        id: 'ELECTRIC',
+        account: { iban: 'ES9121000418450200051332' },
+        agent: { bic: 'BSCHESMMXXX' },
+      },
+      paymentInstructions: [
+        { endToEndId: 'E2E-001', paymentInformationId: 'PMT-001', creditor, amount: 1000, currency: 'EUR' },
+        { endToEndId: 'E2E-002', paymentInformationId: 'PMT-002', creditor, amount: 2000, currency: 'EUR' },
+        { endToEndId: 'E2E-003', paymentInformationId: 'PMT-002', creditor, amount: 3000, currency: 'EUR' },
+      ],
+    });
+
+    it('should report transactions under their payment information block', () => {
+      const report = PaymentStatusReport.fromPaymentInitiation(
+        paymentInitiation,
+        {
+          'E2E-001': PaymentStatusCode.AcceptedSettlementCompleted,
+          'E2E-003': { status: PaymentStatusCode.Rejected, reason: { code: 'AC04' } },
+        },
+        {
+          messageId: 'STS-001',
+          initiatingParty: { name: 'Payment Hub' },
+          groupStatus: { status: PaymentStatusCode.AcceptedTechnicalValidation },
+          version: 'pain.002.001.14',
+        },
+      );
+
+      expect(report.messageId).toBe('STS-001');
+      expect(report.originalMessageId).toBe('SEPA-001');
+      expect(report.initatingParty).toEqual({ name: 'Payment Hub' });
+      expect(report.statusInformations).toEqual([
+        { type: 'group', originalMessageId: 'SEPA-001', status: 'ACTC' },
+        { type: 'transaction', originalEndToEndId: 'E2E-001', originalPaymentId: 'PMT-001', status: 'ACSC' },
+        { type: 'transaction', originalEndToEndId: 'E2E-003', originalPaymentId: 'PMT-002', status: 'RJCT', reason: { code: 'AC04' } },
+      ]);
+
+      const xml = report.serialize();
+      expect(xml).toContain('<OrgnlMsgNmId>pain.001.001.03</OrgnlMsgNmId>');
+      expect(xml.match(/<OrgnlPmtInfAndSts>/g)).toHaveLength(2);
+      expect(validateXMLAgainstSchema(xml).valid).toBe(true);
+    });
+
+    it('should report instant payment statuses in a version that knows them', () => {
+      const instantPayment = new SEPACreditPaymentInitiation({ ...paymentInitiation.data, instant: true });
+      const report = PaymentStatusReport.fromPaymentInitiation(instantPayment, {
+        'E2E-001': PaymentStatusCode.AcceptedCreditSettlementCompleted,
+        'E2E-002': PaymentStatusCode.AcceptedSettlementCompleted,
+      });
+
+      const xml = report.serialize();
+      expect(xml).toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.002.001.10"');
+      expect(xml).toMatch(/<TxSts>ACCC<\/TxSts>/);
+      expect(PaymentStatusReport.fromXML(xml).statusInformations.map(statusInformation => [statusInformation.status, isSuccessful(statusInformation)]))
+        .toEqual([['ACCC', true], ['ACSC', true]]);
+      expect(PaymentStatusReport.fromPaymentInitiation(instantPayment, { 'E2E-002': 'ACSC' }).serialize())
+        .toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.002.001.03"');
+      expect(validateXMLAgainstSchema(PaymentStatusReport.fromPaymentInitiation(instantPayment, {
+        'E2E-001': PaymentStatusCode.AcceptedCreditSettlementCompleted,
+      }, { version: 'pain.002.001.14' }).serialize()).valid).toBe(true);
+    });
+
+    it('should not write statuses pain.002.001.03 does not know', () => {
+      expect(() => PaymentStatusReport.fromPaymentInitiation(paymentInitiation, {
+        'E2E-001': PaymentStatusCode.AcceptedCreditSettlementCompleted,
+      }, { version: 'pain.002.001.03' }).serialize()).toThrow('Status ACCC is not part of pain.002.001.03, use a newer version such as pain.002.001.10');
+    });
+
+    it('should match the end-to-end IDs written in a SWIFT payment initiation', () => {
+      const swiftPayment = new SWIFTCreditPaymentInitiation({
+        messageId: 'SWIFT-001',
+        initiatingParty: {
+          name: 'Electrical',
+          id: 'ELECTRIC',
+          account: { accountNumber: '123456789012' },
+          agent: { bic: 'CHASUS33', bankAddress: { country: 'US' as Alpha2Country } },
+        },
+        paymentInstructions: [
+          {
+            id: 'INSTR-1',
+            endToEndId: 'E2E-1',
+            type: 'swift',
+            amount: 1000,
+            currency: 'EUR',
+            creditor: { ...creditor, account: { iban: 'DE89370400440532013000' }, agent: { bic: 'DEUTDEFF' }, address: { country: 'DE' as Alpha2Country } },
+          },
+          {
+            type: 'swift',
+            amount: 2000,
+            currency: 'EUR',
+            creditor: { ...creditor, account: { iban: 'DE89370400440532013000' }, agent: { bic: 'DEUTDEFF' }, address: { country: 'DE' as Alpha2Country } },
+          },
+        ],
+      });
+
+      const paymentXML = swiftPayment.serialize();
+      expect(paymentXML).toContain('<InstrId>INSTR-1</InstrId>');
+      expect(paymentXML).toContain('<EndToEndId>E2E-1</EndToEndId>');
+
+      // Instructions without ids keep their generated end-to-end ID across serializations
+      const [, generatedEndToEndId] = Array.from(paymentXML.matchAll(/<EndToEndId>([^<]+)<\/EndToEndId>/g), match => match[1]);
+      expect(swiftPayment.serialize()).toBe(paymentXML);
+
+      const report = PaymentStatusReport.fromPaymentInitiation(swiftPayment, {
+        'E2E-1': PaymentStatusCode.AcceptedSettlementCompleted,
+        [generatedEndToEndId]: PaymentStatusCode.Rejected,
+      });
+      const parsedPayment = SWIFTCreditPaymentInitiation.fromXML(paymentXML);
+      const parsedReport = PaymentStatusReport.fromXML(report.serialize());
+      expect(parsedReport.statusInformations.map(statusInformation => (statusInformation as TransactionStatusInformation).originalEndToEndId))
+        .toEqual(parsedPayment.paymentInstructions.map(instruction => instruction.endToEndId));
+      expect(() => PaymentStatusReport.fromPaymentInitiation(swiftPayment, { 'INSTR-1': PaymentStatusCode.Rejected }))
+        .toThrow('End-to-end ID INSTR-1 is not part of payment initiation SWIFT-001');
+    });
+
+    it('should only write group statuses pain.002.001.03 knows at the group level', () => {
+      const report = PaymentStatusReport.fromPaymentInitiation(paymentInitiation, {
+        'E2E-001': PaymentStatusCode.Received,
+      }, { groupStatus: { status: PaymentStatusCode.PartiallyAccepted } });
+      expect(report.serialize()).toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.002.001.10"');
+
+      expect(() => PaymentStatusReport.fromPaymentInitiation(paymentInitiation, {
+        'E2E-001': PaymentStatusCode.Received,
+      }, { version: 'pain.002.001.03' }).serialize()).toThrow('Status RCVD is not part of pain.002.001.03, use a newer version such as pain.002.001.10');
+      expect(PaymentStatusReport.fromPaymentInitiation(paymentInitiation, {
+        'E2E-001': PaymentStatusCode.AcceptedSettlementCompleted,
+      }, { groupStatus: { status: PaymentStatusCode.PartiallyAccepted } }).serialize())
+        .toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.002.001.03"');
+    });
+
+    it('should throw on an unknown end-to-end ID', () => {
+      expect(() => PaymentStatusReport.fromPaymentInitiation(paymentInitiation, {
+        'E2E-004': PaymentStatusCode.Rejected,
+      })).toThrow('End-to-end ID E2E-004 is not part of payment initiation SEPA-001');
+    });
+  });
+
+  describe('status codes', () => {
+    it('should describe every status and reason code', () => {
+      Object.values(PaymentStatusCode).forEach(code => {
+        expect(PaymentStatusCodeDescriptionMap[code]).toBeDefined();
+      });
+      Object.values(StatusReasonCode).forEach(code => {
+        expect(StatusReasonCodeDescriptionMap[code]).toBeDefined();
+      });
+      expect(PaymentStatusCodeDescriptionMap.PART).toBe('Partially Accepted');
+      expect(StatusReasonCodeDescriptionMap[StatusReasonCode.ClosedAccountNumber]).toBe('Closed Account Number');
+    });
+
+    it('should parse pending and partially accepted statuses', () => {
+      const pain002Sample = fs.readFileSync(`${process.cwd()}/test/assets/nordea/pain_002_v3_payment_reject.xml`, 'utf8');
+      const pending = PaymentStatusReport.fromXML(pain002Sample.replace('<PmtInfSts>RJCT</PmtInfSts>', '<PmtInfSts>PDNG</PmtInfSts>'));
+      expect(pending.status).toBe(PaymentStatusCode.Pending);
+      const partial = PaymentStatusReport.fromXML(pain002Sample.replace('<PmtInfSts>RJCT</PmtInfSts>', '<PmtInfSts>PART</PmtInfSts>'));
+      expect(partial.status).toBe(PaymentStatusCode.PartiallyAccepted);
+    });
+
+    it('should tell final, rejected and successful statuses apart', () => {
+      const settled = { status: PaymentStatusCode.AcceptedSettlementCompleted };
+      const rejected = { status: PaymentStatusCode.Rejected };
+      const inProgress = { status: PaymentStatusCode.AcceptedSettlementInProgress };
+      const cancelled = { status: PaymentStatusCode.Cancelled };
+
+      expect([settled, rejected, inProgress, cancelled].map(isFinal)).toEqual([true, true, false, true]);
+      expect([settled, rejected, inProgress, cancelled].map(isRejected)).toEqual([false, true, false, false]);
+      expect([settled, rejected, inProgress, cancelled].map(isSuccessful)).toEqual([true, false, false, false]);
+    });
+
+    it('should not treat accepted without posting as final, as the payment can still be blocked', () => {
+      expect(isFinal({ status: 'ACWP' })).toBe(false);
+      expect(isSuccessful({ status: 'ACWP' })).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,309 @@
+import fs from 'fs';
+import { Alpha2Country } from "lib/countries";
+import libxmljs from 'libxmljs';
+import ISO20022 from '../../../src/iso20022';
+import { SEPADirectDebitSequenceTypeCode, SEPADirectDebitLocalInstrumentCode } from "../../../src/lib/types";
+import { SEPADirectDebitPaymentInitiation, SEPADirectDebitPaymentInitiationConfig } from "../../../src/pain/008/sepa-direct-debit-payment-initiation";
+import { InvalidPaymentInstructionError } from "../../../src/errors";
+
+describe('SEPADirectDebitPaymentInitiation', () => {
+    let config: SEPADirectDebitPaymentInitiationConfig;
+    const initiatingParty = {
+        name: "Electrical",
+        id: "ELECTRIC",
+        account: {
+            iban: "ES9121000418450200051332"
+        },
+        agent: {
+            bic: "BSCHESMMXXX",
+            bankAddress: {
+                country: "ES" as Alpha2Country
+            }
+        }
+    }
+
+    const paymentInstruction1 = {
+        id: "abcdefg",
+        endToEndId: "123456789",
+        type: 'sepa' as const,
+        direction: 'debit' as const,
+        debtor: {
+            name: "Dáel Muñiz",
+            account: {
+                iban: "ES3701822200150201504058"
+            },
+            agent: {
+                bic: "BBVAESMMXXX"
+            },
+            address: {
+                streetName: "Calle de Serrano",
+                buildingNumber: "41",
+                townName: "Madrid",
+                countrySubDivision: "Madrid",
+                postalCode: "28001",
+                country: "ES" as Alpha2Country
+            }
+        },
+        mandate: {
+            mandateId: "MANDATE-0001",
+            dateOfSignature: new Date("2025-01-15"),
+        },
+        amount: 2500,
+        currency: "EUR" as const,
+        remittanceInformation: "Subscription March 2025",
+    }
+
+    const paymentInstruction2 = {
+        id: "hijklmn",
+        endToEndId: "987654321",
+        type: 'sepa' as const,
+        direction: 'debit' as const,
+        debtor: {
+            name: "Guli Mancini",
+            account: {
+                iban: "ES7100302053091234567895"
+            },
+        },
+        mandate: {
+            mandateId: "MANDATE-0002",
+            dateOfSignature: new Date("2024-11-02"),
+            amendmentIndicator: true,
+            amendmentInformation: {
+                originalMandateId: "OLD-MANDATE-0002",
+                originalDebtorAccount: {
+                    iban: "ES9121000418450200051332"
+                },
+            },
+        },
+        amount: 4500,
+        currency: "EUR" as const,
+    }
+
+    const validateAgainstXSD = (xml: string) => {
+        const xsdSchema = fs.readFileSync(
+            `${process.cwd()}/schemas/pain/pain.008.001.11.xsd`,
+            'utf8',
+        );
+        const xmlDoc = libxmljs.parseXml(xml);
+        const xsdDoc = libxmljs.parseXml(xsdSchema);
+        return xmlDoc.validate(xsdDoc);
+    }
+
+    beforeEach(() => {
+        config = {
+            initiatingParty,
+            creditorSchemeId: "ES29000B12345678",
+            sequenceType: SEPADirectDebitSequenceTypeCode.Recurring,
+            requestedCollectionDate: new Date("2025-03-06"),
+            paymentInstructions: [paymentInstruction1, paymentInstruction2],
+        }
+    })
+
+    describe('serialize', () => {
+        test('should create a SEPADirectDebitPaymentInitiation instance', () => {
+            const collection = new SEPADirectDebitPaymentInitiation(config);
+            expect(collection).toBeInstanceOf(SEPADirectDebitPaymentInitiation);
+            expect(collection.localInstrument).toBe('CORE');
+        });
+
+        test('should validate against XSD', () => {
+            const xml = new SEPADirectDebitPaymentInitiation(config).serialize();
+            expect(validateAgainstXSD(xml)).toBeTruthy();
+        });
+
+        test('should write structured remittance information in the pain.001.001.12 layout', () => {
+            const xml = new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [{
+                    ...paymentInstruction2,
+                    structuredRemittanceInformation: [{
+                        referredDocumentAmount: { currency: 'EUR', duePayableAmount: 4500 },
+                        creditorReference: { reference: 'RF18539007547034', type: 'SCOR', issuer: 'ISO' },
+                    }],
+                }],
+            }).serialize();
+            expect(xml).toMatch(/<RmtAmtAndTp>[\s\n]*<Tp>[\s\n]*<Cd>DUEP<\/Cd>/);
+            expect(validateAgainstXSD(xml)).toBeTruthy();
+        });
+
+        test('should include scheme, sequence type and collection date', () => {
+            const xml = new SEPADirectDebitPaymentInitiation(config).serialize();
+            expect(xml).toMatch(/<PmtMtd>DD<\/PmtMtd>/);
+            expect(xml).toMatch(/<LclInstrm>[\s\n]*<Cd>CORE<\/Cd>[\s\n]*<\/LclInstrm>/);
+            expect(xml).toMatch(/<SeqTp>RCUR<\/SeqTp>/);
+            expect(xml).toMatch(/<ReqdColltnDt>2025-03-06<\/ReqdColltnDt>/);
+            expect(xml).toMatch(/<CtrlSum>70.00<\/CtrlSum>/);
+            expect(xml).toContain('<Id>ES29000B12345678</Id>');
+        });
+
+        test('should include mandate and amendment details', () => {
+            const xml = new SEPADirectDebitPaymentInitiation(config).serialize();
+            expect(xml).toMatch(/<MndtId>MANDATE-0001<\/MndtId>/);
+            expect(xml).toMatch(/<DtOfSgntr>2025-01-15<\/DtOfSgntr>/);
+            expect(xml).toMatch(/<AmdmntInd>true<\/AmdmntInd>/);
+            expect(xml).toMatch(/<OrgnlMndtId>OLD-MANDATE-0002<\/OrgnlMndtId>/);
+        });
+
+        test('should use NOTPROVIDED for a BIC-less debtor', () => {
+            const xml = new SEPADirectDebitPaymentInitiation(config).serialize();
+            expect(xml).toContain('<Id>NOTPROVIDED</Id>');
+        });
+
+        test('should support the B2B scheme', () => {
+            const xml = new SEPADirectDebitPaymentInitiation({
+                ...config,
+                localInstrument: SEPADirectDebitLocalInstrumentCode.BusinessToBusiness,
+            }).serialize();
+            expect(xml).toMatch(/<Cd>B2B<\/Cd>/);
+            expect(validateAgainstXSD(xml)).toBeTruthy();
+        });
+
+        describe('created with iso20022', () => {
+            const iso20022 = new ISO20022({
+                initiatingParty: initiatingParty
+            })
+
+            test('should create a valid SEPADirectDebitPaymentInitiation instance', () => {
+                const collection = iso20022.createSEPADirectDebitPaymentInitiation({
+                    creditorSchemeId: "ES29000B12345678",
+                    sequenceType: 'FRST',
+                    paymentInstructions: [paymentInstruction1]
+                });
+                expect(collection).toBeInstanceOf(SEPADirectDebitPaymentInitiation);
+                expect(validateAgainstXSD(collection.serialize())).toBeTruthy();
+            })
+        })
+    })
+
+    describe('validation', () => {
+        test('should require a creditor scheme identifier', () => {
+            expect(() => new SEPADirectDebitPaymentInitiation({ ...config, creditorSchemeId: '' }))
+                .toThrow('creditorSchemeId is required and must not exceed 35 characters');
+        });
+
+        test('should require a mandate identifier', () => {
+            expect(() => new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [{ ...paymentInstruction1, mandate: { ...paymentInstruction1.mandate, mandateId: '' } }],
+            })).toThrow('mandateId is required and must not exceed 35 characters');
+        });
+
+        test('should require amendment details for amended mandates', () => {
+            expect(() => new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [{ ...paymentInstruction1, mandate: { ...paymentInstruction1.mandate, amendmentIndicator: true } }],
+            })).toThrow('amendmentInformation is required when amendmentIndicator is true');
+        });
+
+        test('should only allow one structured remittance information', () => {
+            expect(() => new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [{ ...paymentInstruction2, structuredRemittanceInformation: [{}, {}] }],
+            })).toThrow('Payment instruction hijklmn must not have more than 1 structured remittance information');
+        });
+
+        test('should require a debtor IBAN', () => {
+            expect(() => new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [{ ...paymentInstruction1, debtor: { name: 'No Account' } }],
+            })).toThrow('All debtors must have a name and an IBAN account');
+        });
+
+        test('should require a creditor agent BIC', () => {
+            expect(() => new SEPADirectDebitPaymentInitiation({
+                ...config,
+                initiatingParty: { ...initiatingParty, agent: { abaRoutingNumber: '021000021' } },
+            })).toThrow(new InvalidPaymentInstructionError('Invalid creditor in initiating party: The creditor agent must be identified by a BIC', {
+                party: 'creditor',
+                errors: ['The creditor agent must be identified by a BIC'],
+            }));
+        });
+
+        test('should reject instructions sharing a payment information id with different sequence types', () => {
+            expect(() => new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [
+                    { ...paymentInstruction1, paymentInformationId: 'BATCH-1', sequenceType: 'FRST' },
+                    { ...paymentInstruction2, paymentInformationId: 'BATCH-1' },
+                ],
+            })).toThrow('All payment instructions in payment information BATCH-1 must share the same requested collection date, sequence type, local instrument and category purpose');
+        });
+    })
+
+    describe('with multiple payment information blocks', () => {
+        test('should group collections by sequence type and collection date', () => {
+            const collection = new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [
+                    { ...paymentInstruction1, sequenceType: 'FRST' },
+                    paymentInstruction2,
+                    { ...paymentInstruction2, id: 'opqrstu', endToEndId: '555555555', requestedCollectionDate: new Date('2025-03-10') },
+                ],
+            });
+
+            expect(collection.paymentInformations.map(p => [p.sequenceType, p.requestedCollectionDate.toISOString(), p.paymentInstructions.length]))
+                .toEqual([
+                    ['FRST', '2025-03-06T00:00:00.000Z', 1],
+                    ['RCUR', '2025-03-06T00:00:00.000Z', 1],
+                    ['RCUR', '2025-03-10T00:00:00.000Z', 1],
+                ]);
+            expect(validateAgainstXSD(collection.serialize())).toBeTruthy();
+        });
+
+        test('should parse every payment information block', () => {
+            const collection = new SEPADirectDebitPaymentInitiation({
+                ...config,
+                paymentInstructions: [
+                    { ...paymentInstruction1, paymentInformationId: 'BATCH-FRST', sequenceType: 'FRST' },
+                    { ...paymentInstruction2, paymentInformationId: 'BATCH-RCUR' },
+                ],
+            });
+
+            const recreated = SEPADirectDebitPaymentInitiation.fromXML(collection.serialize());
+            expect(recreated.sequenceType).toBe('FRST');
+            expect(recreated.paymentInstructions).toHaveLength(2);
+            expect(recreated.paymentInformations.map(p => [p.id, p.sequenceType, p.paymentInstructions[0].id])).toEqual([
+                ['BATCH-FRST', 'FRST', 'abcdefg'],
+                ['BATCH-RCUR', 'RCUR', 'hijklmn'],
+            ]);
+            expect(recreated.serialize()).toBe(collection.serialize());
+        });
+    })
+
+    describe('fromXML', () => {
+        test('should round trip an iso20022.js created SEPA 008 XML', () => {
+            const creationDate = new Date();
+            const collection = new SEPADirectDebitPaymentInitiation({
+                ...config,
+                messageId: "SEPA-DD-001",
+                creationDate,
+            });
+
+            const recreated = SEPADirectDebitPaymentInitiation.fromXML(collection.serialize());
+            expect(recreated.messageId).toBe("SEPA-DD-001");
+            expect(recreated.creationDate).toStrictEqual(creationDate);
+            expect(recreated.creditorSchemeId).toBe("ES29000B12345678");
+            expect(recreated.sequenceType).toBe('RCUR');
+            expect(recreated.localInstrument).toBe('CORE');
+            expect(recreated.requestedCollectionDate.toISOString()).toBe("2025-03-06T00:00:00.000Z");
+            expect(recreated.initiatingParty).toEqual({
+                name: "Electrical",
+                id: "ELECTRIC",
+                account: {
+                    iban: "ES9121000418450200051332"
+                },
+                agent: {
+                    bic: "BSCHESMMXXX"
+                }
+            });
+            expect(recreated.paymentInstructions).toHaveLength(2);
+            expect(recreated.paymentInstructions[0]).toEqual(paymentInstruction1);
+            expect(recreated.paymentInstructions[1]).toEqual(paymentInstruction2);
+        });
+
+        test('should throw on a non-PAIN.008 namespace', () => {
+            const sepaCredit = fs.readFileSync(`${process.cwd()}/test/assets/example/sepa_pain_001_v3.xml`, 'utf8');
+            expect(() => SEPADirectDebitPaymentInitiation.fromXML(sepaCredit)).toThrow('Invalid PAIN.008 namespace');
+        });
+    })
+})
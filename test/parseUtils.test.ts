@@ -1,4 +1,5 @@
-import { parseAmountToMinorUnits } from '../src/parseUtils';
+import { exportAmountToString, parseAmountToBigIntMinorUnits, parseAmountToMinorUnits, parseAmountWithMode } from '../src/parseUtils';
+import { AmountOutOfRangeError, InvalidStructureError } from '../src/errors';
 
 // TODO: Continue adding some testing for currencies that have a precision of NOT 2
 describe('parseAmountToMinorUnits', () => {
@@ -22,4 +23,54 @@ describe('parseAmountToMinorUnits', () => {
     expect(parseAmountToMinorUnits(10.5)).toBe(1050);
     expect(parseAmountToMinorUnits(0.01)).toBe(1);
   });
+
+  test('converts amounts exactly, without floating point errors', () => {
+    expect(parseAmountToMinorUnits(1.13, 'USD')).toBe(113);
+    expect(parseAmountToMinorUnits(4.35, 'USD')).toBe(435);
+    expect(parseAmountToMinorUnits('0.29', 'USD')).toBe(29);
+    expect(parseAmountToMinorUnits('1234.567', 'KWD')).toBe(1234567);
+    expect(parseAmountToMinorUnits('90071992547409.91', 'USD')).toBe(Number.MAX_SAFE_INTEGER);
+  });
+
+  test('drops digits beyond the currency precision', () => {
+    expect(parseAmountToMinorUnits('1.999', 'USD')).toBe(199);
+  });
+
+  test('returns NaN for values that are not amounts', () => {
+    expect(parseAmountToMinorUnits('abc', 'USD')).toBeNaN();
+    expect(parseAmountToMinorUnits(undefined as any, 'USD')).toBeNaN();
+  });
+
+  test('throws on amounts that cannot be represented exactly as a number', () => {
+    expect(() => parseAmountToMinorUnits('90071992547409.92', 'USD')).toThrow(AmountOutOfRangeError);
+  });
+});
+
+describe('parseAmountToBigIntMinorUnits', () => {
+  test('converts treasury-scale amounts to minor units', () => {
+    expect(parseAmountToBigIntMinorUnits('123456789012345678.99', 'USD')).toBe(12345678901234567899n);
+    expect(parseAmountToBigIntMinorUnits('-0.01', 'EUR')).toBe(-1n);
+    expect(parseAmountToBigIntMinorUnits(1e21, 'USD')).toBe(100000000000000000000000n);
+  });
+
+  test('throws on values that are not amounts', () => {
+    expect(() => parseAmountToBigIntMinorUnits('1,000.00', 'USD')).toThrow(InvalidStructureError);
+  });
+});
+
+describe('parseAmountWithMode', () => {
+  test('defaults to numbers', () => {
+    expect(parseAmountWithMode('10.50', 'USD')).toBe(1050);
+    expect(parseAmountWithMode('10.50', 'USD', { amountMode: 'bigint' })).toBe(1050n);
+  });
+});
+
+describe('exportAmountToString', () => {
+  test('formats numbers and bigints with the currency precision', () => {
+    expect(exportAmountToString(1050, 'USD')).toBe('10.50');
+    expect(exportAmountToString(12345678901234567899n, 'USD')).toBe('123456789012345678.99');
+    expect(exportAmountToString(5n, 'KWD')).toBe('0.005');
+    expect(exportAmountToString(-1n, 'USD')).toBe('-0.01');
+    expect(exportAmountToString(100000n, 'JPY')).toBe('100000');
+  });
 });